@@ -0,0 +1,36 @@
+/**
+ * Service worker for agent inbox notifications.
+ *
+ * Notifications are shown by the app via `registration.showNotification`, with
+ * the URL of the thread to open stored in `notification.data.url`. Clicking a
+ * notification focuses an open tab of the app and navigates it to the thread,
+ * or opens a new tab if none are open.
+ */
+
+self.addEventListener("install", () => {
+  self.skipWaiting();
+});
+
+self.addEventListener("activate", (event) => {
+  event.waitUntil(self.clients.claim());
+});
+
+self.addEventListener("notificationclick", (event) => {
+  event.notification.close();
+  const url = new URL(event.notification.data?.url ?? "/", self.location.origin)
+    .href;
+
+  event.waitUntil(
+    self.clients
+      .matchAll({ type: "window", includeUncontrolled: true })
+      .then((clients) => {
+        const client = clients.find(
+          (c) => new URL(c.url).origin === self.location.origin,
+        );
+        if (client) {
+          return client.focus().then((c) => c.navigate(url));
+        }
+        return self.clients.openWindow(url);
+      }),
+  );
+});
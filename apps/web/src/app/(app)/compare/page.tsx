@@ -0,0 +1,37 @@
+"use client";
+
+import CompareInterface from "@/features/chat/compare";
+import {
+  Breadcrumb,
+  BreadcrumbItem,
+  BreadcrumbList,
+  BreadcrumbPage,
+} from "@/components/ui/breadcrumb";
+import { SidebarTrigger } from "@/components/ui/sidebar";
+import { Toaster } from "@/components/ui/sonner";
+import React from "react";
+
+/**
+ * The /compare page.
+ * Contains the side-by-side agent comparison chat interface.
+ */
+export default function ComparePage(): React.ReactNode {
+  return (
+    <React.Suspense fallback={<div>Loading (layout)...</div>}>
+      <Toaster />
+      <header className="flex h-16 shrink-0 items-center gap-2 transition-[width,height] ease-linear group-has-[[data-collapsible=icon]]/sidebar-wrapper:h-12">
+        <div className="flex items-center gap-2 px-4">
+          <SidebarTrigger className="-ml-1" />
+          <Breadcrumb>
+            <BreadcrumbList>
+              <BreadcrumbItem>
+                <BreadcrumbPage>Compare</BreadcrumbPage>
+              </BreadcrumbItem>
+            </BreadcrumbList>
+          </Breadcrumb>
+        </div>
+      </header>
+      <CompareInterface />
+    </React.Suspense>
+  );
+}
@@ -13,7 +13,7 @@ import React from "react";
 
 /**
  * The /tools page.
- * Contains the list of tools the user has access to.
+ * Contains the list of tools, resources and prompts the user has access to.
  */
 export default function ToolsPage(): React.ReactNode {
   return (
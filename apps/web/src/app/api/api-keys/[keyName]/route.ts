@@ -0,0 +1,100 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { getRequestUser } from "@/lib/auth/server";
+import { getApiKeyProvider } from "@/lib/environment/api-key-providers";
+import { validateApiKey } from "@/lib/api-keys";
+import { deleteApiKey, listApiKeys, setApiKey } from "@/lib/api-keys-store";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+const setApiKeySchema = z.object({
+  value: z.string().trim().min(1, "API key is required"),
+  fields: z.record(z.string().trim()).optional(),
+});
+
+/**
+ * The request parameters for this API endpoint.
+ */
+type RequestParams = {
+  params: Promise<{ keyName: string }>;
+};
+
+/**
+ * Stores an API key for the current user, encrypted at rest.
+ */
+export async function PUT(req: NextRequest, { params }: RequestParams) {
+  const user = await getRequestUser(req);
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const { keyName } = await params;
+  const provider = getApiKeyProvider(keyName);
+  if (!provider) {
+    return NextResponse.json(
+      { error: `Unknown API key "${keyName}"` },
+      { status: 400 },
+    );
+  }
+  const parsed = setApiKeySchema.safeParse(
+    await req.json().catch(() => undefined),
+  );
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: parsed.error.issues.map((i) => i.message).join(", ") },
+      { status: 400 },
+    );
+  }
+
+  // Only keep the values of fields the provider has
+  const fields = Object.fromEntries(
+    (provider.fields ?? [])
+      .filter((field) => parsed.data.fields?.[field.name])
+      .map((field) => [field.name, parsed.data.fields![field.name]]),
+  );
+  const validationError = validateApiKey(provider, parsed.data.value, fields);
+  if (validationError) {
+    return NextResponse.json({ error: validationError }, { status: 400 });
+  }
+
+  try {
+    await setApiKey(user.id, keyName, parsed.data.value, fields);
+    return NextResponse.json({ keys: await listApiKeys(user.id) });
+  } catch (error) {
+    console.error("Error storing API key:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Unknown error" },
+      { status: 500 },
+    );
+  }
+}
+
+/**
+ * Deletes an API key stored for the current user.
+ */
+export async function DELETE(req: NextRequest, { params }: RequestParams) {
+  const user = await getRequestUser(req);
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const { keyName } = await params;
+  if (!getApiKeyProvider(keyName)) {
+    return NextResponse.json(
+      { error: `Unknown API key "${keyName}"` },
+      { status: 400 },
+    );
+  }
+
+  try {
+    await deleteApiKey(user.id, keyName);
+    return NextResponse.json({ keys: await listApiKeys(user.id) });
+  } catch (error) {
+    console.error("Error deleting API key:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Unknown error" },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,83 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { getRequestUser } from "@/lib/auth/server";
+import { getApiKeyProvider } from "@/lib/environment/api-key-providers";
+import { validateApiKey } from "@/lib/api-keys";
+import { getApiKey } from "@/lib/api-keys-store";
+import { testApiKey } from "../../test-api-key";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+// Tests the given key if set, otherwise the key stored for the user
+const testApiKeySchema = z.object({
+  value: z.string().trim().optional(),
+  fields: z.record(z.string().trim()).optional(),
+});
+
+/**
+ * The request parameters for this API endpoint.
+ */
+type RequestParams = {
+  params: Promise<{ keyName: string }>;
+};
+
+/**
+ * Checks an API key works by making its provider's test request. Responds with
+ * `{ valid, error? }`.
+ */
+export async function POST(req: NextRequest, { params }: RequestParams) {
+  const user = await getRequestUser(req);
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const { keyName } = await params;
+  const provider = getApiKeyProvider(keyName);
+  if (!provider) {
+    return NextResponse.json(
+      { error: `Unknown API key "${keyName}"` },
+      { status: 400 },
+    );
+  }
+  if (!provider.test) {
+    return NextResponse.json(
+      { error: `${provider.label} can't be tested` },
+      { status: 400 },
+    );
+  }
+  const parsed = testApiKeySchema.safeParse(await req.json().catch(() => ({})));
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: parsed.error.issues.map((i) => i.message).join(", ") },
+      { status: 400 },
+    );
+  }
+
+  try {
+    const key = parsed.data.value
+      ? { value: parsed.data.value, fields: parsed.data.fields ?? {} }
+      : await getApiKey(user.id, keyName);
+    if (!key) {
+      return NextResponse.json(
+        { error: `${provider.label} is not set` },
+        { status: 404 },
+      );
+    }
+
+    const error =
+      validateApiKey(provider, key.value, key.fields) ??
+      (await testApiKey(
+        { ...provider, test: provider.test },
+        key.value,
+        key.fields,
+      ));
+    return NextResponse.json({ valid: !error, error });
+  } catch (error) {
+    console.error("Error testing API key:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Unknown error" },
+      { status: 500 },
+    );
+  }
+}
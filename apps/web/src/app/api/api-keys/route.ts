@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getRequestUser } from "@/lib/auth/server";
+import { isApiKeyStoreEnabled, listApiKeys } from "@/lib/api-keys-store";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+/**
+ * Lists the API keys stored for the current user. Key values are masked.
+ * `enabled` is false if keys can't be stored, because
+ * `API_KEYS_ENCRYPTION_SECRET` is not set.
+ */
+export async function GET(req: NextRequest) {
+  const user = await getRequestUser(req);
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    return NextResponse.json({
+      keys: await listApiKeys(user.id),
+      enabled: isApiKeyStoreEnabled(),
+    });
+  } catch (error) {
+    console.error("Error listing API keys:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Unknown error" },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,75 @@
+import { ApiKeyProvider, ApiKeyProviderTest } from "@/types/api-key";
+import { fillApiKeyPlaceholders } from "@/lib/api-keys";
+import { safeFetch, SafeFetchResponse } from "@/lib/safe-fetch";
+
+const TEST_TIMEOUT_MS = 10_000;
+const MAX_RESPONSE_BYTES = 1024 * 1024;
+
+/**
+ * The hosts a provider's test request may be sent to: its `allowedHosts`, or
+ * if not set, the host of its URL, unless the host has placeholders.
+ */
+function getTestAllowedHosts(test: ApiKeyProviderTest): string[] | undefined {
+  if (test.allowedHosts) {
+    return test.allowedHosts;
+  }
+  try {
+    const { hostname } = new URL(test.url);
+    return hostname.includes("{") ? undefined : [hostname];
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Makes a provider's test request with an API key, to check the key works.
+ * @param provider The provider the key is for. Must have a test request.
+ * @param value The API key.
+ * @param fields The values of the provider's extra fields, keyed by name.
+ * @returns An error message, or undefined if the test request succeeded.
+ */
+export async function testApiKey(
+  provider: ApiKeyProvider & { test: ApiKeyProviderTest },
+  value: string,
+  fields: Record<string, string>,
+): Promise<string | undefined> {
+  const values = { ...fields, [provider.name]: value };
+  const { test } = provider;
+
+  let url: URL;
+  try {
+    url = new URL(fillApiKeyPlaceholders(test.url, values));
+  } catch {
+    return "The test URL is invalid. Check the values you entered.";
+  }
+
+  let response: SafeFetchResponse;
+  try {
+    // Field values can change the URL, so it's checked like any URL from a
+    // user. Redirects aren't followed, as they would be sent the key.
+    response = await safeFetch(url.toString(), {
+      method: test.method ?? "GET",
+      headers: Object.fromEntries(
+        Object.entries(test.headers ?? {}).map(([name, header]) => [
+          name,
+          fillApiKeyPlaceholders(header, values),
+        ]),
+      ),
+      body:
+        test.body !== undefined
+          ? fillApiKeyPlaceholders(test.body, values)
+          : undefined,
+      protocols: ["https:"],
+      allowedHosts: getTestAllowedHosts(test),
+      maxRedirects: 0,
+      maxBytes: MAX_RESPONSE_BYTES,
+      timeoutMs: TEST_TIMEOUT_MS,
+    });
+  } catch (e) {
+    return `Failed to reach ${url.host}: ${e instanceof Error ? e.message : String(e)}`;
+  }
+  if (!response.ok) {
+    return `${url.host} rejected the key (HTTP ${response.status})`;
+  }
+  return undefined;
+}
@@ -0,0 +1,103 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { updateStoredDeployments } from "@/lib/environment/deployments-store";
+import { fetchDeploymentInfo, requireAdmin } from "../admin";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+const updateDeploymentSchema = z.object({
+  name: z.string().trim().min(1, "Name is required").optional(),
+  deploymentUrl: z.string().url().optional(),
+  isDefault: z.literal(true).optional(),
+  defaultGraphId: z.string().trim().min(1).optional(),
+  disabled: z.boolean().optional(),
+  requiresApiKeys: z.union([z.boolean(), z.array(z.string())]).optional(),
+  apiKeysRequiredMessage: z.string().optional(),
+  apiKeysInConfig: z.boolean().optional(),
+});
+
+/**
+ * The request parameters for this API endpoint.
+ */
+type RequestParams = {
+  params: Promise<{ deploymentId: string }>;
+};
+
+/**
+ * Updates a deployment. Setting `isDefault` makes it the only default
+ * deployment. Admin only.
+ */
+export async function PATCH(req: NextRequest, { params }: RequestParams) {
+  const forbidden = await requireAdmin(req);
+  if (forbidden) return forbidden;
+
+  const { deploymentId } = await params;
+  const parsed = updateDeploymentSchema.safeParse(
+    await req.json().catch(() => undefined),
+  );
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: parsed.error.issues.map((i) => i.message).join(", ") },
+      { status: 400 },
+    );
+  }
+  const update = parsed.data;
+
+  if (update.deploymentUrl) {
+    try {
+      await fetchDeploymentInfo(update.deploymentUrl);
+    } catch (error) {
+      return NextResponse.json(
+        { error: error instanceof Error ? error.message : "Unknown error" },
+        { status: 502 },
+      );
+    }
+  }
+
+  try {
+    let found = false;
+    const deployments = await updateStoredDeployments((current) =>
+      current.map((d) => {
+        if (d.id !== deploymentId) {
+          return update.isDefault ? { ...d, isDefault: false } : d;
+        }
+        found = true;
+        return { ...d, ...update };
+      }),
+    );
+    if (!found) {
+      return NextResponse.json(
+        { error: `Deployment ${deploymentId} not found` },
+        { status: 404 },
+      );
+    }
+    return NextResponse.json({ deployments });
+  } catch (error) {
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Unknown error" },
+      { status: 400 },
+    );
+  }
+}
+
+/**
+ * Removes a deployment. The default deployment can't be removed. Admin only.
+ */
+export async function DELETE(req: NextRequest, { params }: RequestParams) {
+  const forbidden = await requireAdmin(req);
+  if (forbidden) return forbidden;
+
+  const { deploymentId } = await params;
+  try {
+    const deployments = await updateStoredDeployments((current) =>
+      current.filter((d) => d.id !== deploymentId),
+    );
+    return NextResponse.json({ deployments });
+  } catch (error) {
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Unknown error" },
+      { status: 400 },
+    );
+  }
+}
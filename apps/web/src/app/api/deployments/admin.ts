@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getRequestUser, isAdminUser } from "@/lib/auth/server";
+
+const INFO_TIMEOUT_MS = 10_000;
+
+/**
+ * Returns an error response if the user who made a request is not an admin.
+ * @returns A 403 response if the user is not an admin, otherwise null.
+ */
+export async function requireAdmin(
+  req: NextRequest,
+): Promise<NextResponse | null> {
+  if (isAdminUser(await getRequestUser(req))) {
+    return null;
+  }
+  return NextResponse.json(
+    { error: "Only admins can manage deployments" },
+    { status: 403 },
+  );
+}
+
+/**
+ * Calls a deployment's `/info` endpoint, to check it is reachable and get its
+ * project and tenant IDs. Self-hosted deployments may not report these IDs.
+ * @param deploymentUrl The API URL of the deployment.
+ * @throws If the deployment does not respond successfully.
+ */
+export async function fetchDeploymentInfo(
+  deploymentUrl: string,
+): Promise<{ projectId?: string; tenantId?: string }> {
+  const url = new URL(
+    "info",
+    deploymentUrl.endsWith("/") ? deploymentUrl : `${deploymentUrl}/`,
+  );
+  let response: Response;
+  try {
+    response = await fetch(url, {
+      headers: process.env.LANGSMITH_API_KEY
+        ? { "x-api-key": process.env.LANGSMITH_API_KEY }
+        : undefined,
+      signal: AbortSignal.timeout(INFO_TIMEOUT_MS),
+    });
+  } catch (e) {
+    throw new Error(
+      `Failed to reach deployment at ${url}: ${e instanceof Error ? e.message : String(e)}`,
+    );
+  }
+  if (!response.ok) {
+    throw new Error(
+      `Deployment at ${url} responded with ${response.status} ${response.statusText}`,
+    );
+  }
+
+  const info = await response.json();
+  return {
+    projectId: info?.host?.project_id ?? undefined,
+    tenantId: info?.host?.tenant_id ?? undefined,
+  };
+}
@@ -0,0 +1,116 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { getRequestUser, isAdminUser } from "@/lib/auth/server";
+import {
+  readStoredDeployments,
+  updateStoredDeployments,
+} from "@/lib/environment/deployments-store";
+import { Deployment } from "@/types/deployment";
+import { fetchDeploymentInfo, requireAdmin } from "./admin";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+const createDeploymentSchema = z.object({
+  name: z.string().trim().min(1, "Name is required"),
+  deploymentUrl: z.string().url(),
+  // Only required if the deployment's `/info` endpoint does not report them
+  id: z.string().uuid().optional(),
+  tenantId: z.string().optional(),
+  isDefault: z.boolean().optional(),
+  defaultGraphId: z.string().trim().min(1).optional(),
+  requiresApiKeys: z.union([z.boolean(), z.array(z.string())]).optional(),
+  apiKeysRequiredMessage: z.string().optional(),
+  apiKeysInConfig: z.boolean().optional(),
+});
+
+/**
+ * Lists the deployments. Admins also receive disabled deployments.
+ */
+export async function GET(req: NextRequest) {
+  try {
+    const isAdmin = isAdminUser(await getRequestUser(req));
+    const deployments = await readStoredDeployments();
+    return NextResponse.json({
+      deployments: isAdmin
+        ? deployments
+        : deployments.filter((d) => !d.disabled),
+      isAdmin,
+    });
+  } catch (error) {
+    console.error("Error reading deployments:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Unknown error" },
+      { status: 500 },
+    );
+  }
+}
+
+/**
+ * Adds a deployment, after checking it can be reached. Admin only.
+ */
+export async function POST(req: NextRequest) {
+  const forbidden = await requireAdmin(req);
+  if (forbidden) return forbidden;
+
+  const parsed = createDeploymentSchema.safeParse(
+    await req.json().catch(() => undefined),
+  );
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: parsed.error.issues.map((i) => i.message).join(", ") },
+      { status: 400 },
+    );
+  }
+  const body = parsed.data;
+
+  let info: Awaited<ReturnType<typeof fetchDeploymentInfo>>;
+  try {
+    info = await fetchDeploymentInfo(body.deploymentUrl);
+  } catch (error) {
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Unknown error" },
+      { status: 502 },
+    );
+  }
+
+  const id = info.projectId ?? body.id;
+  const tenantId = info.tenantId ?? body.tenantId;
+  if (!id || !tenantId) {
+    return NextResponse.json(
+      {
+        error:
+          "The deployment did not report its project and tenant IDs. Please enter them manually.",
+      },
+      { status: 400 },
+    );
+  }
+
+  const deployment: Deployment = {
+    id,
+    tenantId,
+    name: body.name,
+    deploymentUrl: body.deploymentUrl,
+    isDefault: body.isDefault,
+    defaultGraphId: body.defaultGraphId,
+    requiresApiKeys: body.requiresApiKeys,
+    apiKeysRequiredMessage: body.apiKeysRequiredMessage,
+    apiKeysInConfig: body.apiKeysInConfig,
+  };
+
+  try {
+    const deployments = await updateStoredDeployments((current) => [
+      // Only one deployment can be the default
+      ...current.map((d) =>
+        deployment.isDefault ? { ...d, isDefault: false } : d,
+      ),
+      deployment,
+    ]);
+    return NextResponse.json({ deployments });
+  } catch (error) {
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Unknown error" },
+      { status: 400 },
+    );
+  }
+}
@@ -1,16 +1,12 @@
 import { NextRequest } from "next/server";
 import { Client } from "@langchain/langgraph-sdk";
-import { getDeployments } from "@/lib/environment/deployments";
+import { Deployment } from "@/types/deployment";
+import { getStoredDeployment } from "@/lib/environment/deployments-store";
 
 /**
  * Creates a client for a specific deployment, using either LangSmith auth or user auth
  */
-function createServerClient(deploymentId: string, accessToken?: string) {
-  const deployment = getDeployments().find((d) => d.id === deploymentId);
-  if (!deployment) {
-    throw new Error(`Deployment ${deploymentId} not found`);
-  }
-
+function createServerClient(deployment: Deployment, accessToken?: string) {
   if (!accessToken) {
     // Use LangSmith auth
     const client = new Client({
@@ -41,14 +37,14 @@ async function getOrCreateDefaultAssistants(
   deploymentId: string,
   accessToken?: string,
 ) {
-  const deployment = getDeployments().find((d) => d.id === deploymentId);
+  const deployment = await getStoredDeployment(deploymentId);
   if (!deployment) {
     throw new Error(`Deployment ${deploymentId} not found`);
   }
 
   // Do NOT pass in an access token here. We want to use LangSmith auth.
-  const lsAuthClient = createServerClient(deploymentId);
-  const userAuthClient = createServerClient(deploymentId, accessToken);
+  const lsAuthClient = createServerClient(deployment);
+  const userAuthClient = createServerClient(deployment, accessToken);
 
   const [systemDefaultAssistants, userDefaultAssistants] = await Promise.all([
     lsAuthClient.assistants.search({
@@ -1,7 +1,11 @@
 import { validate } from "uuid";
 import { initApiPassthrough } from "langgraph-nextjs-api-passthrough";
-import { NextRequest } from "next/server";
-import { getDeployments } from "@/lib/environment/deployments";
+import { NextRequest, NextResponse } from "next/server";
+import { getStoredDeployment } from "@/lib/environment/deployments-store";
+import { getRequestUser } from "@/lib/auth/server";
+import { getApiKeysForRun } from "@/lib/api-keys-store";
+import { API_KEYS_HEADER, isRunRequest } from "@/lib/api-keys";
+import { ApiKeysForRun } from "@/types/api-key";
 
 /**
  * The 'langgraph-nextjs-api-passthrough' package is used to implement a proxy
@@ -18,7 +22,8 @@ import { getDeployments } from "@/lib/environment/deployments";
  * base route to `initApiPassthrough`, which consists of `langgraph/proxy/${deploymentId}`.
  */
 
-export const runtime = "edge";
+// Deployments are read from the server's deployments store, which requires Node.js
+export const runtime = "nodejs";
 
 /**
  * The dynamic route parameters for this API endpoint.
@@ -36,20 +41,178 @@ type RequestParams = {
 };
 
 /**
- * Determines if the LangGraph proxy route is enabled based on environment configuration.
- *
- * This function acts as a security gate for all proxy endpoints, preventing unauthorized
- * access to the LangGraph server via admin authentication (API key). The proxy
- * functionality is only available when explicitly enabled through the
+ * Whether requests should be authenticated with the LangSmith API key (admin
+ * authentication), rather than the user's own access token. Controlled by the
  * NEXT_PUBLIC_USE_LANGSMITH_AUTH environment variable.
- *
- * @returns {boolean} True if proxy routes should be accessible (NEXT_PUBLIC_USE_LANGSMITH_AUTH === "true"),
- *                   false otherwise.
  */
-function isProxyRouteEnabled() {
+function usesLangSmithAuth() {
   return process.env.NEXT_PUBLIC_USE_LANGSMITH_AUTH === "true";
 }
 
+/**
+ * The deployment a request is proxied to.
+ */
+type ProxyTarget = {
+  baseRoute: string;
+  url: string;
+  /**
+   * Whether to also add the user's API keys to the run config. See
+   * `Deployment.apiKeysInConfig`.
+   */
+  apiKeysInConfig: boolean;
+};
+
+/**
+ * Returns the API keys stored for the user, if the request creates a run, so
+ * they are never sent from the browser.
+ */
+async function getRunApiKeys(
+  req: NextRequest,
+): Promise<ApiKeysForRun | undefined> {
+  if (!isRunRequest(req.method, req.nextUrl.pathname)) {
+    return undefined;
+  }
+  const user = await getRequestUser(req);
+  if (!user) {
+    return undefined;
+  }
+  return await getApiKeysForRun(user.id);
+}
+
+function getApiKeyHeaders(
+  apiKeys: ApiKeysForRun | undefined,
+): Record<string, string> {
+  if (!apiKeys) {
+    return {};
+  }
+  return {
+    [API_KEYS_HEADER]: Buffer.from(JSON.stringify(apiKeys)).toString("base64"),
+  };
+}
+
+/**
+ * Adds the user's API keys to the run config under `configurable.apiKeys`,
+ * where agents read them before they were sent in a header. Only used for
+ * deployments which opt in, since LangGraph stores the config of each run.
+ */
+function addApiKeysToConfig(
+  body: unknown,
+  apiKeys: ApiKeysForRun | undefined,
+): unknown {
+  if (!apiKeys || !body || typeof body !== "object") {
+    return body;
+  }
+  const { config } = body as {
+    config?: { configurable?: Record<string, unknown> };
+  };
+  return {
+    ...body,
+    config: {
+      ...config,
+      configurable: {
+        ...config?.configurable,
+        apiKeys: apiKeys.keys,
+      },
+    },
+  };
+}
+
+/**
+ * Forwards a request which creates a run to a deployment using the user's own
+ * credentials. Unlike `initApiPassthrough`, the LangSmith API key is never sent.
+ */
+async function forwardRunWithUserAuth(
+  req: NextRequest,
+  { baseRoute, url, apiKeysInConfig }: ProxyTarget,
+): Promise<Response> {
+  try {
+    const path = req.nextUrl.pathname
+      .replace(/^\/?api\//, "")
+      .replace(`${baseRoute}/`, "");
+    const searchParams = new URLSearchParams(req.nextUrl.search);
+    searchParams.delete("_path");
+    searchParams.delete("nxtP_path");
+    const queryString = searchParams.toString()
+      ? `?${searchParams.toString()}`
+      : "";
+
+    const headers = new Headers();
+    req.headers.forEach((value, key) => {
+      const lowerKey = key.toLowerCase();
+      if (
+        (lowerKey.startsWith("x-") && lowerKey !== "x-api-key") ||
+        lowerKey === "authorization" ||
+        lowerKey === "content-type"
+      ) {
+        headers.set(key, value);
+      }
+    });
+    const apiKeys = await getRunApiKeys(req);
+    Object.entries(getApiKeyHeaders(apiKeys)).forEach(([key, value]) =>
+      headers.set(key, value),
+    );
+
+    let body = await req.text();
+    if (apiKeysInConfig && apiKeys) {
+      body = JSON.stringify(addApiKeysToConfig(JSON.parse(body), apiKeys));
+    }
+
+    const res = await fetch(`${url}/${path}${queryString}`, {
+      method: req.method,
+      headers,
+      body,
+    });
+    const responseHeaders = new Headers(res.headers);
+    // The body has already been decoded by `fetch`
+    responseHeaders.delete("content-encoding");
+    responseHeaders.delete("content-length");
+    return new Response(res.body, {
+      status: res.status,
+      statusText: res.statusText,
+      headers: responseHeaders,
+    });
+  } catch (e) {
+    return NextResponse.json(
+      { error: e instanceof Error ? e.message : "Unknown error" },
+      { status: 500 },
+    );
+  }
+}
+
+/**
+ * Proxies a request to a deployment. With LangSmith auth, any request is
+ * proxied, and authenticated with the LangSmith API key. Otherwise, clients
+ * call deployments directly, and only send requests which create runs here, so
+ * the user's API keys can be added. These are forwarded with the user's own
+ * credentials.
+ */
+function proxyRequest(
+  req: NextRequest,
+  urlAndRoute: ProxyTarget,
+  method: "GET" | "POST" | "PUT" | "PATCH" | "DELETE",
+): Promise<Response> {
+  if (!usesLangSmithAuth()) {
+    if (!isRunRequest(req.method, req.nextUrl.pathname)) {
+      return Promise.resolve(
+        new Response("Proxy route not enabled", { status: 403 }),
+      );
+    }
+    return forwardRunWithUserAuth(req, urlAndRoute);
+  }
+
+  const passthrough = initApiPassthrough({
+    apiKey: process.env.LANGSMITH_API_KEY,
+    apiUrl: urlAndRoute.url,
+    baseRoute: urlAndRoute.baseRoute,
+    headers: async (req) => getApiKeyHeaders(await getRunApiKeys(req)),
+    bodyParameters: urlAndRoute.apiKeysInConfig
+      ? async (req, body) => addApiKeysToConfig(body, await getRunApiKeys(req))
+      : undefined,
+    disableWarningLog: true,
+  });
+  return passthrough[method](req);
+}
+
 /**
  * Finds the deployment URL based on the path parameters. If the first item in the
  * _path array is not a valid UUID, or if the deployment is not found, returns null.
@@ -59,19 +222,20 @@ function isProxyRouteEnabled() {
  */
 async function getDeploymentUrl({
   params,
-}: RequestParams): Promise<{ baseRoute: string; url: string } | null> {
+}: RequestParams): Promise<ProxyTarget | null> {
   const { _path } = await params;
   // The first item in the _path array should always be the deployment ID.
   const deploymentId = _path[0];
   if (!validate(deploymentId)) {
     return null;
   }
-  const deployment = getDeployments().find((d) => d.id === deploymentId);
+  const deployment = await getStoredDeployment(deploymentId);
 
   if (deployment) {
     return {
       baseRoute: `langgraph/proxy/${deploymentId}`,
       url: deployment.deploymentUrl,
+      apiKeysInConfig: !!deployment.apiKeysInConfig,
     };
   }
   return null;
@@ -83,18 +247,7 @@ export async function GET(req: NextRequest, { params }: RequestParams) {
     return new Response("Deployment not found", { status: 404 });
   }
 
-  if (!isProxyRouteEnabled()) {
-    return new Response("Proxy route not enabled", { status: 403 });
-  }
-
-  const { GET } = initApiPassthrough({
-    apiKey: process.env.LANGSMITH_API_KEY,
-    apiUrl: urlAndRoute.url,
-    baseRoute: urlAndRoute.baseRoute,
-    disableWarningLog: true,
-  });
-
-  return GET(req);
+  return proxyRequest(req, urlAndRoute, "GET");
 }
 
 export async function POST(req: NextRequest, { params }: RequestParams) {
@@ -103,18 +256,7 @@ export async function POST(req: NextRequest, { params }: RequestParams) {
     return new Response("Deployment not found", { status: 404 });
   }
 
-  if (!isProxyRouteEnabled()) {
-    return new Response("Proxy route not enabled", { status: 403 });
-  }
-
-  const { POST } = initApiPassthrough({
-    apiKey: process.env.LANGSMITH_API_KEY,
-    apiUrl: urlAndRoute.url,
-    baseRoute: urlAndRoute.baseRoute,
-    disableWarningLog: true,
-  });
-
-  return POST(req);
+  return proxyRequest(req, urlAndRoute, "POST");
 }
 
 export async function PUT(req: NextRequest, { params }: RequestParams) {
@@ -123,18 +265,7 @@ export async function PUT(req: NextRequest, { params }: RequestParams) {
     return new Response("Deployment not found", { status: 404 });
   }
 
-  if (!isProxyRouteEnabled()) {
-    return new Response("Proxy route not enabled", { status: 403 });
-  }
-
-  const { PUT } = initApiPassthrough({
-    apiKey: process.env.LANGSMITH_API_KEY,
-    apiUrl: urlAndRoute.url,
-    baseRoute: urlAndRoute.baseRoute,
-    disableWarningLog: true,
-  });
-
-  return PUT(req);
+  return proxyRequest(req, urlAndRoute, "PUT");
 }
 
 export async function PATCH(req: NextRequest, { params }: RequestParams) {
@@ -143,18 +274,7 @@ export async function PATCH(req: NextRequest, { params }: RequestParams) {
     return new Response("Deployment not found", { status: 404 });
   }
 
-  if (!isProxyRouteEnabled()) {
-    return new Response("Proxy route not enabled", { status: 403 });
-  }
-
-  const { PATCH } = initApiPassthrough({
-    apiKey: process.env.LANGSMITH_API_KEY,
-    apiUrl: urlAndRoute.url,
-    baseRoute: urlAndRoute.baseRoute,
-    disableWarningLog: true,
-  });
-
-  return PATCH(req);
+  return proxyRequest(req, urlAndRoute, "PATCH");
 }
 
 export async function DELETE(req: NextRequest, { params }: RequestParams) {
@@ -163,16 +283,5 @@ export async function DELETE(req: NextRequest, { params }: RequestParams) {
     return new Response("Deployment not found", { status: 404 });
   }
 
-  if (!isProxyRouteEnabled()) {
-    return new Response("Proxy route not enabled", { status: 403 });
-  }
-
-  const { DELETE } = initApiPassthrough({
-    apiKey: process.env.LANGSMITH_API_KEY,
-    apiUrl: urlAndRoute.url,
-    baseRoute: urlAndRoute.baseRoute,
-    disableWarningLog: true,
-  });
-
-  return DELETE(req);
+  return proxyRequest(req, urlAndRoute, "DELETE");
 }
@@ -0,0 +1,56 @@
+import { NextRequest } from "next/server";
+import { proxyRequest } from "../proxy-request";
+
+export const runtime = "edge";
+
+async function handler(
+  req: NextRequest,
+  { params }: { params: Promise<{ serverId: string }> },
+): Promise<Response> {
+  const { serverId } = await params;
+  return proxyRequest(req, serverId);
+}
+
+// Define handlers for all relevant HTTP methods
+export function GET(
+  req: NextRequest,
+  context: { params: Promise<{ serverId: string }> },
+) {
+  return handler(req, context);
+}
+export function POST(
+  req: NextRequest,
+  context: { params: Promise<{ serverId: string }> },
+) {
+  return handler(req, context);
+}
+export function PUT(
+  req: NextRequest,
+  context: { params: Promise<{ serverId: string }> },
+) {
+  return handler(req, context);
+}
+export function PATCH(
+  req: NextRequest,
+  context: { params: Promise<{ serverId: string }> },
+) {
+  return handler(req, context);
+}
+export function DELETE(
+  req: NextRequest,
+  context: { params: Promise<{ serverId: string }> },
+) {
+  return handler(req, context);
+}
+export function HEAD(
+  req: NextRequest,
+  context: { params: Promise<{ serverId: string }> },
+) {
+  return handler(req, context);
+}
+export function OPTIONS(
+  req: NextRequest,
+  context: { params: Promise<{ serverId: string }> },
+) {
+  return handler(req, context);
+}
@@ -1,10 +1,13 @@
 import { NextRequest, NextResponse } from "next/server";
 import { createServerClient } from "@supabase/ssr";
+import { getMCPServers } from "@/lib/environment/mcp-servers";
+import { MCPServer } from "@/types/mcp-server";
 
-// This will contain the object which contains the access token
+// This will contain the object which contains the access token for the default MCP server
 const MCP_TOKENS = process.env.MCP_TOKENS;
-const MCP_SERVER_URL = process.env.NEXT_PUBLIC_MCP_SERVER_URL;
-const MCP_AUTH_REQUIRED = process.env.NEXT_PUBLIC_MCP_AUTH_REQUIRED === "true";
+// A JSON object mapping MCP server IDs to the header value to send to
+// servers using the `static_header` auth mode
+const MCP_SERVER_HEADERS = process.env.MCP_SERVER_HEADERS;
 
 async function getSupabaseToken(req: NextRequest) {
   const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
@@ -80,32 +83,70 @@ async function getMcpAccessToken(supabaseToken: string, mcpServerUrl: URL) {
 }
 
 /**
- * Proxies requests from the client to the MCP server.
- * Extracts the path after '/api/oap_mcp', constructs the target URL,
+ * The name of the cookie the exchanged access token for an MCP server is stored in.
+ * The default server uses the same cookie as before multiple servers were supported.
+ */
+function getAccessTokenCookieName(server: MCPServer) {
+  return server.isDefault
+    ? "X-MCP-Access-Token"
+    : `X-MCP-Access-Token-${server.id}`;
+}
+
+function getStaticHeaderValue(server: MCPServer): string | undefined {
+  if (!MCP_SERVER_HEADERS) {
+    return undefined;
+  }
+  try {
+    const headerValues: Record<string, string> = JSON.parse(MCP_SERVER_HEADERS);
+    return headerValues[server.id];
+  } catch (e) {
+    console.error("Failed to parse MCP_SERVER_HEADERS env variable", e);
+    return undefined;
+  }
+}
+
+/**
+ * Proxies requests from the client to an MCP server.
+ * Extracts the path after '/api/oap_mcp/<serverId>', constructs the target URL,
  * forwards the request with necessary headers and body, and injects
- * the MCP authorization token.
+ * the authorization for the server's auth mode.
  *
  * @param req The incoming NextRequest.
+ * @param serverId The ID of the MCP server to proxy to. Defaults to the default server.
  * @returns The response from the MCP server.
  */
-export async function proxyRequest(req: NextRequest): Promise<Response> {
-  if (!MCP_SERVER_URL) {
+export async function proxyRequest(
+  req: NextRequest,
+  serverId?: string,
+): Promise<Response> {
+  const servers = getMCPServers();
+  const server = serverId
+    ? servers.find((s) => s.id === serverId)
+    : servers.find((s) => s.isDefault);
+  if (!server) {
     return new Response(
       JSON.stringify({
-        message:
-          "MCP_SERVER_URL environment variable is not set. Please set it to the URL of your MCP server, or NEXT_PUBLIC_MCP_SERVER_URL if you do not want to use the proxy route.",
+        message: serverId
+          ? `MCP server "${serverId}" is not configured. Add it to NEXT_PUBLIC_MCP_SERVERS.`
+          : "No MCP server is configured. Please set NEXT_PUBLIC_MCP_SERVERS, or NEXT_PUBLIC_MCP_SERVER_URL to the URL of your MCP server.",
       }),
-      { status: 500, headers: { "Content-Type": "application/json" } },
+      {
+        status: serverId ? 404 : 500,
+        headers: { "Content-Type": "application/json" },
+      },
     );
   }
 
-  // Extract the path after '/api/oap_mcp/'
-  // Example: /api/oap_mcp/foo/bar -> /foo/bar
+  // Extract the path after '/api/oap_mcp/<serverId>'
+  // Example: /api/oap_mcp/internal/foo/bar -> /foo/bar
   const url = new URL(req.url);
-  const path = url.pathname.replace(/^\/api\/oap_mcp/, "");
+  const path = url.pathname.replace(
+    serverId ? `/api/oap_mcp/${serverId}` : "/api/oap_mcp",
+    "",
+  );
 
   // Construct the target URL
-  const targetUrlObj = new URL(MCP_SERVER_URL);
+  const targetUrlObj = new URL(server.url);
   targetUrlObj.pathname = `${targetUrlObj.pathname}${targetUrlObj.pathname.endsWith("/") ? "" : "/"}mcp${path}${url.search}`;
   const targetUrl = targetUrlObj.toString();
 
@@ -119,20 +160,21 @@ export async function proxyRequest(req: NextRequest): Promise<Response> {
     }
   });
 
-  const mcpAccessTokenCookie = req.cookies.get("X-MCP-Access-Token")?.value;
-  // Authentication priority:
-  // 1. X-MCP-Access-Token header
-  // 2. X-MCP-Access-Token cookie
-  // 3. MCP_TOKENS environment variable
-  // 4. Supabase-JWT token exchange
+  const accessTokenCookieName = getAccessTokenCookieName(server);
+  const mcpAccessTokenCookie = req.cookies.get(accessTokenCookieName)?.value;
+  const useMcpTokensEnv = !!MCP_TOKENS && !!server.isDefault;
+  // Authentication priority for token exchange servers:
+  // 1. X-MCP-Access-Token cookie
+  // 2. MCP_TOKENS environment variable (default server only)
+  // 3. Supabase-JWT token exchange
   let accessToken: string | null = null;
 
-  if (MCP_AUTH_REQUIRED) {
+  if (server.authMode === "token_exchange") {
     const supabaseToken = await getSupabaseToken(req);
 
     if (mcpAccessTokenCookie) {
       accessToken = mcpAccessTokenCookie;
-    } else if (MCP_TOKENS) {
+    } else if (useMcpTokensEnv && MCP_TOKENS) {
       // Try to use MCP_TOKENS environment variable
       try {
         const { access_token } = JSON.parse(MCP_TOKENS);
@@ -145,11 +187,8 @@ export async function proxyRequest(req: NextRequest): Promise<Response> {
     }
 
     // If no token yet, try Supabase-JWT token exchange
-    if (!accessToken && supabaseToken && MCP_SERVER_URL) {
-      accessToken = await getMcpAccessToken(
-        supabaseToken,
-        new URL(MCP_SERVER_URL),
-      );
+    if (!accessToken && supabaseToken) {
+      accessToken = await getMcpAccessToken(supabaseToken, new URL(server.url));
     }
 
     // If we still don't have a token, return an error
@@ -164,6 +203,17 @@ export async function proxyRequest(req: NextRequest): Promise<Response> {
 
     // Set the Authorization header with the token
     headers.set("Authorization", `Bearer ${accessToken}`);
+  } else if (server.authMode === "static_header") {
+    const headerValue = getStaticHeaderValue(server);
+    if (!headerValue) {
+      return new Response(
+        JSON.stringify({
+          message: `No header value found for MCP server "${server.id}". Please set it in the MCP_SERVER_HEADERS environment variable.`,
+        }),
+        { status: 500, headers: { "Content-Type": "application/json" } },
+      );
+    }
+    headers.set(server.headerName || "Authorization", headerValue);
   }
 
   headers.set("Accept", "application/json, text/event-stream");
@@ -176,32 +226,45 @@ export async function proxyRequest(req: NextRequest): Promise<Response> {
   }
 
   try {
-    // Make the proxied request
+    // Make the proxied request. The request's signal closes the connection to
+    // the MCP server when the client disconnects from a streamed response.
     const response = await fetch(targetUrl, {
       method: req.method,
       headers,
       body,
+      signal: req.signal,
     });
-    // Clone the response to create a new one we can modify
-    const responseClone = response.clone();
 
     // Create a new response with the same status, headers, and body
     let newResponse: NextResponse;
 
-    try {
-      // Try to parse as JSON first
-      const responseData = await responseClone.json();
-      newResponse = NextResponse.json(responseData, {
-        status: response.status,
-        statusText: response.statusText,
-      });
-    } catch (_) {
-      // If not JSON, use the raw response body
-      const responseBody = await response.text();
-      newResponse = new NextResponse(responseBody, {
+    if (response.headers.get("Content-Type")?.startsWith("text/event-stream")) {
+      // Event streams carry progress and log notifications while a request
+      // runs, and resource updates for as long as the GET stream is open, so
+      // they're passed through as they arrive instead of being buffered
+      newResponse = new NextResponse(response.body, {
         status: response.status,
         statusText: response.statusText,
       });
+    } else {
+      // Clone the response to create a new one we can modify
+      const responseClone = response.clone();
+
+      try {
+        // Try to parse as JSON first
+        const responseData = await responseClone.json();
+        newResponse = NextResponse.json(responseData, {
+          status: response.status,
+          statusText: response.statusText,
+        });
+      } catch (_) {
+        // If not JSON, use the raw response body
+        const responseBody = await response.text();
+        newResponse = new NextResponse(responseBody, {
+          status: response.status,
+          statusText: response.statusText,
+        });
+      }
     }
 
     // Copy all headers from the original response
@@ -209,13 +272,13 @@ export async function proxyRequest(req: NextRequest): Promise<Response> {
       newResponse.headers.set(key, value);
     });
 
-    if (MCP_AUTH_REQUIRED) {
+    if (server.authMode === "token_exchange") {
       // If we used the Supabase token exchange, add the access token to the response
       // so it can be used in future requests
-      if (!mcpAccessTokenCookie && !MCP_TOKENS && accessToken) {
+      if (!mcpAccessTokenCookie && !useMcpTokensEnv && accessToken) {
         // Set a cookie with the access token that will be included in future requests
         newResponse.cookies.set({
-          name: "X-MCP-Access-Token",
+          name: accessTokenCookieName,
           value: accessToken,
           httpOnly: false, // Allow JavaScript access so it can be read for headers
           secure: process.env.NODE_ENV === "production",
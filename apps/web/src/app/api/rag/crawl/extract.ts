@@ -0,0 +1,134 @@
+// Elements which never contain readable page content.
+const NON_CONTENT_TAGS = [
+  "script",
+  "style",
+  "noscript",
+  "svg",
+  "iframe",
+  "template",
+  "nav",
+  "header",
+  "footer",
+  "aside",
+  "form",
+];
+
+const BLOCK_TAGS =
+  "p|div|section|article|main|br|hr|li|ul|ol|tr|table|h[1-6]|pre|blockquote|dt|dd";
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: "&",
+  lt: "<",
+  gt: ">",
+  quot: '"',
+  apos: "'",
+  nbsp: " ",
+  ndash: "–",
+  mdash: "—",
+  hellip: "…",
+  copy: "©",
+};
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (match, entity) => {
+    if (entity[0] === "#") {
+      const codePoint =
+        entity[1].toLowerCase() === "x"
+          ? parseInt(entity.slice(2), 16)
+          : parseInt(entity.slice(1), 10);
+      return Number.isNaN(codePoint) ? match : String.fromCodePoint(codePoint);
+    }
+    return NAMED_ENTITIES[entity.toLowerCase()] ?? match;
+  });
+}
+
+function getAttribute(tag: string, name: string): string | undefined {
+  const match = tag.match(
+    new RegExp(`${name}\\s*=\\s*(?:"([^"]*)"|'([^']*)'|([^\\s>]+))`, "i"),
+  );
+  return match ? (match[1] ?? match[2] ?? match[3]) : undefined;
+}
+
+/**
+ * Normalizes a URL so the same page is only ingested once. Removes the hash,
+ * and any trailing slash from the path.
+ */
+export function normalizeUrl(url: string | URL): string {
+  const normalized = new URL(url.toString());
+  normalized.hash = "";
+  if (normalized.pathname.length > 1 && normalized.pathname.endsWith("/")) {
+    normalized.pathname = normalized.pathname.slice(0, -1);
+  }
+  return normalized.toString();
+}
+
+/**
+ * Returns the canonical URL of a page, from its `<link rel="canonical">` tag
+ * if present. Falls back to the URL the page was fetched from.
+ */
+export function getCanonicalUrl(html: string, pageUrl: string): string {
+  const linkTags = html.match(/<link\b[^>]*>/gi) ?? [];
+  for (const tag of linkTags) {
+    if (getAttribute(tag, "rel")?.toLowerCase() !== "canonical") continue;
+    const href = getAttribute(tag, "href");
+    if (!href) continue;
+    try {
+      return normalizeUrl(new URL(decodeEntities(href), pageUrl));
+    } catch (_) {
+      break;
+    }
+  }
+  return normalizeUrl(pageUrl);
+}
+
+export function getTitle(html: string): string | undefined {
+  const title = html.match(/<title\b[^>]*>([\s\S]*?)<\/title>/i)?.[1];
+  return title ? decodeEntities(title).replace(/\s+/g, " ").trim() : undefined;
+}
+
+/**
+ * Extracts the readable text from an HTML page. Prefers the `<main>` or
+ * `<article>` element when present, and drops navigation, scripts and styles.
+ */
+export function extractReadableText(html: string): string {
+  let content =
+    html.match(/<main\b[^>]*>([\s\S]*?)<\/main>/i)?.[1] ??
+    html.match(/<article\b[^>]*>([\s\S]*?)<\/article>/i)?.[1] ??
+    html.match(/<body\b[^>]*>([\s\S]*?)<\/body>/i)?.[1] ??
+    html;
+
+  content = content.replace(/<!--[\s\S]*?-->/g, "");
+  NON_CONTENT_TAGS.forEach((tag) => {
+    content = content.replace(
+      new RegExp(`<${tag}\\b[^>]*>[\\s\\S]*?<\\/${tag}>`, "gi"),
+      "",
+    );
+  });
+
+  content = content
+    .replace(new RegExp(`<\\/?(?:${BLOCK_TAGS})\\b[^>]*>`, "gi"), "\n")
+    .replace(/<[^>]+>/g, "");
+
+  return decodeEntities(content)
+    .split("\n")
+    .map((line) => line.replace(/\s+/g, " ").trim())
+    .filter(Boolean)
+    .join("\n");
+}
+
+/**
+ * Parses a sitemap, or sitemap index.
+ * @returns The page URLs of a sitemap, and the child sitemap URLs of a sitemap index.
+ */
+export function parseSitemap(xml: string): {
+  pageUrls: string[];
+  sitemapUrls: string[];
+} {
+  const locs = Array.from(xml.matchAll(/<loc>\s*([\s\S]*?)\s*<\/loc>/gi)).map(
+    (match) => decodeEntities(match[1].replace(/^<!\[CDATA\[|\]\]>$/g, "")),
+  );
+  if (/<sitemapindex\b/i.test(xml)) {
+    return { pageUrls: [], sitemapUrls: locs };
+  }
+  return { pageUrls: locs, sitemapUrls: [] };
+}
@@ -0,0 +1,184 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { CrawledPage, CrawlResult } from "@/types/collection";
+import { assertUrlAllowed, safeFetch } from "@/lib/safe-fetch";
+import {
+  extractReadableText,
+  getCanonicalUrl,
+  getTitle,
+  normalizeUrl,
+  parseSitemap,
+} from "./extract";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+const DEFAULT_MAX_PAGES = 50;
+const MAX_PAGES_LIMIT = 500;
+// Sitemap indexes may reference other indexes. Stop following them after this depth.
+const MAX_SITEMAP_DEPTH = 2;
+const FETCH_CONCURRENCY = 5;
+const FETCH_TIMEOUT_MS = 15_000;
+const MAX_RESPONSE_BYTES = 5 * 1024 * 1024;
+
+const crawlRequestSchema = z.object({
+  url: z.string().url(),
+  mode: z.enum(["page", "sitemap"]),
+  maxPages: z.number().int().min(1).max(MAX_PAGES_LIMIT).optional(),
+});
+
+// If set, only these hosts and their subdomains may be crawled
+function getAllowedHosts(): string[] | undefined {
+  return process.env.RAG_CRAWL_ALLOWED_HOSTS?.split(",");
+}
+
+async function fetchText(url: string): Promise<{ text: string; url: string }> {
+  const response = await safeFetch(url, {
+    headers: {
+      Accept: "text/html,application/xhtml+xml,application/xml,text/xml",
+      "User-Agent": "OpenAgentPlatform-Crawler",
+    },
+    allowedHosts: getAllowedHosts(),
+    maxBytes: MAX_RESPONSE_BYTES,
+    timeoutMs: FETCH_TIMEOUT_MS,
+  });
+  if (!response.ok) {
+    throw new Error(`HTTP ${response.status}`);
+  }
+  return { text: response.text, url: response.url };
+}
+
+async function fetchPage(url: string): Promise<CrawledPage> {
+  const { text: html, url: finalUrl } = await fetchText(url);
+  const content = extractReadableText(html);
+  if (!content) {
+    throw new Error("No readable content found");
+  }
+  const canonicalUrl = getCanonicalUrl(html, finalUrl);
+  return {
+    url: canonicalUrl,
+    title: getTitle(html) || canonicalUrl,
+    content,
+  };
+}
+
+async function collectSitemapUrls(
+  sitemapUrl: string,
+  maxPages: number,
+  errors: CrawlResult["errors"],
+  depth = 0,
+): Promise<string[]> {
+  let parsed: ReturnType<typeof parseSitemap>;
+  try {
+    parsed = parseSitemap((await fetchText(sitemapUrl)).text);
+  } catch (e) {
+    errors.push({
+      url: sitemapUrl,
+      error: e instanceof Error ? e.message : "Failed to fetch sitemap",
+    });
+    return [];
+  }
+
+  const pageUrls = [...parsed.pageUrls];
+  if (depth < MAX_SITEMAP_DEPTH) {
+    for (const childUrl of parsed.sitemapUrls) {
+      if (pageUrls.length >= maxPages) break;
+      pageUrls.push(
+        ...(await collectSitemapUrls(childUrl, maxPages, errors, depth + 1)),
+      );
+    }
+  }
+  return pageUrls;
+}
+
+/**
+ * Fetches every URL, a few at a time, and dedupes the pages by canonical URL.
+ */
+async function crawlPages(urls: string[]): Promise<CrawlResult> {
+  const pages = new Map<string, CrawledPage>();
+  const errors: CrawlResult["errors"] = [];
+  const queue = [...urls];
+
+  const worker = async () => {
+    let url: string | undefined;
+    while ((url = queue.shift())) {
+      try {
+        const page = await fetchPage(url);
+        if (!pages.has(page.url)) {
+          pages.set(page.url, page);
+        }
+      } catch (e) {
+        errors.push({
+          url,
+          error: e instanceof Error ? e.message : "Failed to fetch page",
+        });
+      }
+    }
+  };
+
+  await Promise.all(
+    Array.from({ length: Math.min(FETCH_CONCURRENCY, urls.length) }, worker),
+  );
+  return { pages: Array.from(pages.values()), errors };
+}
+
+/**
+ * POST handler for the /api/rag/crawl endpoint. Fetches a page, or every page
+ * in a sitemap, and returns the readable text of each page so it can be
+ * uploaded to a collection.
+ */
+export async function POST(req: NextRequest) {
+  let body: z.infer<typeof crawlRequestSchema>;
+  try {
+    const parsed = crawlRequestSchema.safeParse(await req.json());
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: parsed.error.issues.map((i) => i.message).join(", ") },
+        { status: 400 },
+      );
+    }
+    body = parsed.data;
+    await assertUrlAllowed(body.url, { allowedHosts: getAllowedHosts() });
+  } catch (error) {
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Invalid request" },
+      { status: 400 },
+    );
+  }
+
+  try {
+    if (body.mode === "page") {
+      const result = await crawlPages([body.url]);
+      return NextResponse.json(result satisfies CrawlResult);
+    }
+
+    const maxPages = body.maxPages ?? DEFAULT_MAX_PAGES;
+    const sitemapErrors: CrawlResult["errors"] = [];
+    const pageUrls = Array.from(
+      new Set(
+        (await collectSitemapUrls(body.url, maxPages, sitemapErrors)).map(
+          (url) => normalizeUrl(url),
+        ),
+      ),
+    ).slice(0, maxPages);
+
+    if (!pageUrls.length && sitemapErrors.length) {
+      return NextResponse.json(
+        { error: sitemapErrors[0].error },
+        { status: 502 },
+      );
+    }
+
+    const result = await crawlPages(pageUrls);
+    return NextResponse.json({
+      pages: result.pages,
+      errors: [...sitemapErrors, ...result.errors],
+    } satisfies CrawlResult);
+  } catch (error) {
+    console.error("Error crawling URL:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Unknown error" },
+      { status: 500 },
+    );
+  }
+}
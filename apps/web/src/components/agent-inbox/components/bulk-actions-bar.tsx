@@ -0,0 +1,120 @@
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Check, CircleCheck, LoaderCircle, X } from "lucide-react";
+import { BulkInterruptAction, ThreadData } from "../types";
+import { isBulkActionAllowed } from "../utils";
+
+interface BulkActionsBarProps {
+  /**
+   * The threads which can be selected in the current inbox view.
+   */
+  selectableThreads: ThreadData[];
+  selectedThreads: ThreadData[];
+  onSelectAll: (selected: boolean) => void;
+  onAction: (action: BulkInterruptAction) => void;
+  loading: boolean;
+}
+
+function KeyboardShortcut({ keys, label }: { keys: string; label: string }) {
+  return (
+    <span className="flex items-center gap-1">
+      <kbd className="rounded border border-gray-200 bg-gray-50 px-1 font-mono text-[11px]">
+        {keys}
+      </kbd>
+      {label}
+    </span>
+  );
+}
+
+export function BulkActionsBar({
+  selectableThreads,
+  selectedThreads,
+  onSelectAll,
+  onAction,
+  loading,
+}: BulkActionsBarProps) {
+  const allSelected =
+    selectableThreads.length > 0 &&
+    selectedThreads.length === selectableThreads.length;
+  const countAllowed = (action: BulkInterruptAction) =>
+    selectedThreads.filter((t) => isBulkActionAllowed(t, action)).length;
+
+  const actions: {
+    action: BulkInterruptAction;
+    label: string;
+    icon: React.ReactNode;
+  }[] = [
+    { action: "accept", label: "Accept", icon: <Check /> },
+    { action: "ignore", label: "Ignore", icon: <X /> },
+    { action: "resolve", label: "Mark as Resolved", icon: <CircleCheck /> },
+  ];
+
+  return (
+    <div className="flex h-9 w-full items-center gap-4 px-4">
+      <div className="flex items-center gap-2">
+        <Checkbox
+          aria-label="Select all threads"
+          checked={
+            allSelected
+              ? true
+              : selectedThreads.length > 0
+                ? "indeterminate"
+                : false
+          }
+          disabled={!selectableThreads.length || loading}
+          onCheckedChange={(checked) => onSelectAll(checked === true)}
+        />
+        <span className="text-sm text-gray-600">
+          {selectedThreads.length > 0
+            ? `${selectedThreads.length} selected`
+            : "Select all"}
+        </span>
+      </div>
+      {selectedThreads.length > 0 ? (
+        <div className="flex items-center gap-2">
+          {actions.map(({ action, label, icon }) => {
+            const allowedCount = countAllowed(action);
+            return (
+              <Button
+                key={action}
+                size="sm"
+                variant="outline"
+                className="bg-white"
+                disabled={loading || !allowedCount}
+                onClick={() => onAction(action)}
+              >
+                {icon}
+                {label}
+                {allowedCount !== selectedThreads.length && (
+                  <span className="text-gray-500">({allowedCount})</span>
+                )}
+              </Button>
+            );
+          })}
+          {loading && (
+            <LoaderCircle className="size-4 animate-spin text-gray-500" />
+          )}
+        </div>
+      ) : (
+        <div className="flex items-center gap-3 text-xs text-gray-500">
+          <KeyboardShortcut
+            keys="j / k"
+            label="move"
+          />
+          <KeyboardShortcut
+            keys="x"
+            label="select"
+          />
+          <KeyboardShortcut
+            keys="enter"
+            label="open"
+          />
+          <KeyboardShortcut
+            keys="a / i / r"
+            label="accept, ignore, resolve"
+          />
+        </div>
+      )}
+    </div>
+  );
+}
@@ -25,11 +25,12 @@ interface GenericInboxItemProps<
         interrupts?: undefined;
       };
   isLast: boolean;
+  isFocused?: boolean;
 }
 
 export function GenericInboxItem<
   ThreadValues extends Record<string, any> = Record<string, any>,
->({ threadData, isLast }: GenericInboxItemProps<ThreadValues>) {
+>({ threadData, isLast, isFocused }: GenericInboxItemProps<ThreadValues>) {
   const [, setSelectedThreadIdParam] = useQueryState(
     VIEW_STATE_THREAD_QUERY_PARAM,
     parseAsString,
@@ -89,10 +90,12 @@ export function GenericInboxItem<
 
   return (
     <div
+      data-thread-id={threadData.thread.thread_id}
       onClick={() => setSelectedThreadIdParam(threadData.thread.thread_id)}
       className={cn(
         "grid h-[71px] w-full cursor-pointer grid-cols-12 p-4 py-4.5 transition-colors ease-in-out hover:bg-gray-50/90",
         !isLast && "border-b-[1px] border-gray-200",
+        isFocused && "ring-1 ring-gray-400 ring-inset",
       )}
     >
       <div className="col-span-1 flex items-center justify-center">
@@ -10,11 +10,28 @@ interface InboxItemProps<
   threadData: ThreadData<ThreadValues>;
   isLast: boolean;
   onThreadClick?: (id: string) => void;
+  /**
+   * Whether the item is focused for keyboard navigation.
+   */
+  isFocused?: boolean;
+  isSelected?: boolean;
+  /**
+   * Called when the item's selection checkbox is toggled. Only interrupted
+   * threads can be selected for bulk actions.
+   */
+  onSelectChange?: (selected: boolean) => void;
 }
 
 export function InboxItem<
   ThreadValues extends Record<string, any> = Record<string, any>,
->({ threadData, isLast, onThreadClick }: InboxItemProps<ThreadValues>) {
+>({
+  threadData,
+  isLast,
+  onThreadClick,
+  isFocused,
+  isSelected,
+  onSelectChange,
+}: InboxItemProps<ThreadValues>) {
   const [selectedInbox] = useQueryState(
     INBOX_PARAM,
     parseAsString.withDefault("interrupted"),
@@ -29,6 +46,9 @@ export function InboxItem<
             threadData={interruptedData}
             isLast={isLast}
             onThreadClick={onThreadClick || (() => {})}
+            isFocused={isFocused}
+            isSelected={isSelected}
+            onSelectChange={onSelectChange}
           />
         );
       } else {
@@ -40,6 +60,7 @@ export function InboxItem<
               interrupts: undefined,
             }}
             isLast={isLast}
+            isFocused={isFocused}
           />
         );
       }
@@ -57,6 +78,7 @@ export function InboxItem<
             status: adaptedStatus,
           }}
           isLast={isLast}
+          isFocused={isFocused}
         />
       );
     }
@@ -70,6 +92,9 @@ export function InboxItem<
           threadData={interruptedData}
           isLast={isLast}
           onThreadClick={onThreadClick || (() => {})}
+          isFocused={isFocused}
+          isSelected={isSelected}
+          onSelectChange={onSelectChange}
         />
       );
     } else {
@@ -81,6 +106,7 @@ export function InboxItem<
             interrupts: undefined,
           }}
           isLast={isLast}
+          isFocused={isFocused}
         />
       );
     }
@@ -100,6 +126,7 @@ export function InboxItem<
           status: adaptedStatus,
         }}
         isLast={isLast}
+        isFocused={isFocused}
       />
     );
   }
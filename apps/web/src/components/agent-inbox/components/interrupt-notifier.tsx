@@ -0,0 +1,124 @@
+"use client";
+
+import React from "react";
+import { Thread } from "@langchain/langgraph-sdk";
+import { createClient } from "@/lib/client";
+import { usePolling } from "@/hooks/use-polling";
+import { useAuthContext } from "@/providers/Auth";
+import { useAgentsContext } from "@/providers/Agents";
+import { Agent } from "@/types/agent";
+import { NOTIFICATIONS_POLL_INTERVAL_MS } from "../constants";
+import { getInterruptFromThread } from "../contexts/utils";
+import { useNotificationSettings } from "../hooks/use-notification-settings";
+import { prettifyText } from "../utils";
+import { logger } from "../utils/logger";
+import {
+  constructThreadUrl,
+  notificationsSupported,
+  registerNotificationsServiceWorker,
+  showNotification,
+} from "../utils/notifications";
+
+// The number of most recently updated interrupted threads to check per inbox.
+const THREADS_PER_POLL = 20;
+// If an inbox has more new interrupts than this in a single poll, a single
+// summary notification is shown instead of one per thread.
+const MAX_NOTIFICATIONS_PER_INBOX = 3;
+
+function notifyForInbox(agent: Agent, threads: Thread[]) {
+  const agentInboxId = `${agent.assistant_id}:${agent.deploymentId}`;
+
+  if (threads.length > MAX_NOTIFICATIONS_PER_INBOX) {
+    return showNotification({
+      title: `${agent.name} needs your input`,
+      body: `${threads.length} new threads are waiting for a human response.`,
+      tag: `inbox-${agentInboxId}`,
+      url: constructThreadUrl(agentInboxId),
+    });
+  }
+
+  return Promise.all(
+    threads.map((thread) => {
+      const interrupt = getInterruptFromThread(thread)?.[0];
+      const action = interrupt?.action_request?.action;
+      return showNotification({
+        title: `${agent.name} needs your input`,
+        body:
+          interrupt?.description?.slice(0, 120) ||
+          (action ? prettifyText(action) : "A thread is waiting for you."),
+        tag: thread.thread_id,
+        url: constructThreadUrl(agentInboxId, thread.thread_id),
+      });
+    }),
+  );
+}
+
+/**
+ * Polls every agent inbox for new interrupted threads, and shows a desktop
+ * notification for each one. Renders nothing. Only active once the user has
+ * opted in to notifications and granted permission.
+ */
+export function InterruptNotifier() {
+  const { session } = useAuthContext();
+  const { agents } = useAgentsContext();
+  const { enabled, enabledAt, mutedInboxIds } = useNotificationSettings();
+
+  const isActive =
+    enabled &&
+    !!session?.accessToken &&
+    notificationsSupported() &&
+    Notification.permission === "granted";
+
+  React.useEffect(() => {
+    if (isActive) {
+      registerNotificationsServiceWorker();
+    }
+  }, [isActive]);
+
+  const checkForInterrupts = async () => {
+    if (!isActive || !session?.accessToken || !enabledAt) return;
+    const accessToken = session.accessToken;
+    const inboxAgents = agents.filter(
+      (a) => !mutedInboxIds.includes(`${a.assistant_id}:${a.deploymentId}`),
+    );
+
+    await Promise.all(
+      inboxAgents.map(async (agent) => {
+        try {
+          const client = createClient(agent.deploymentId, accessToken);
+          const threads = await client.threads.search({
+            status: "interrupted",
+            limit: THREADS_PER_POLL,
+            sortBy: "updated_at",
+            sortOrder: "desc",
+            metadata: {
+              assistant_id: agent.assistant_id,
+            },
+          });
+
+          // Read the latest state, since other inboxes may have been notified concurrently
+          const { notifiedThreads, markThreadsNotified } =
+            useNotificationSettings.getState();
+          const newThreads = threads.filter(
+            (t) =>
+              new Date(t.updated_at) > new Date(enabledAt) &&
+              notifiedThreads[t.thread_id] !== t.updated_at,
+          );
+          if (!newThreads.length) return;
+
+          markThreadsNotified(newThreads);
+          await notifyForInbox(agent, newThreads);
+        } catch (e) {
+          logger.error("Failed to check inbox for new interrupts", e);
+        }
+      }),
+    );
+  };
+
+  usePolling(checkForInterrupts, {
+    interval: NOTIFICATIONS_POLL_INTERVAL_MS,
+    enabled: isActive && agents.length > 0,
+  });
+
+  return null;
+}
@@ -6,6 +6,8 @@ import { format } from "date-fns";
 import { useQueryState, parseAsString } from "nuqs";
 import { IMPROPER_SCHEMA, VIEW_STATE_THREAD_QUERY_PARAM } from "../constants";
 import { ThreadIdCopyable } from "./thread-id";
+import { Checkbox } from "@/components/ui/checkbox";
+import { useThreadsContext } from "../contexts/ThreadContext";
 
 interface InterruptedInboxItem<
   ThreadValues extends Record<string, any> = Record<string, any>,
@@ -13,17 +15,25 @@ interface InterruptedInboxItem<
   threadData: InterruptedThreadData<ThreadValues>;
   isLast: boolean;
   onThreadClick: (id: string) => void;
+  isFocused?: boolean;
+  isSelected?: boolean;
+  onSelectChange?: (selected: boolean) => void;
 }
 
 export const InterruptedInboxItem = <ThreadValues extends Record<string, any>>({
   threadData,
   isLast,
   onThreadClick,
+  isFocused,
+  isSelected,
+  onSelectChange,
 }: InterruptedInboxItem<ThreadValues>) => {
   const [, setSelectedThreadIdParam] = useQueryState(
     VIEW_STATE_THREAD_QUERY_PARAM,
     parseAsString,
   );
+  const { isThreadUnread } = useThreadsContext<ThreadValues>();
+  const isUnread = isThreadUnread(threadData);
   const firstInterrupt = threadData.interrupts?.[0];
 
   const descriptionPreview = firstInterrupt?.description?.slice(0, 65);
@@ -61,21 +71,42 @@ export const InterruptedInboxItem = <ThreadValues extends Record<string, any>>({
   return (
     <div
       key={threadData.thread.thread_id}
+      data-thread-id={threadData.thread.thread_id}
       onClick={handleThreadClick}
       className={cn(
         "grid h-[71px] w-full cursor-pointer grid-cols-12 items-center p-4 transition-colors ease-in-out hover:bg-gray-50/90",
         !isLast && "border-b border-gray-200",
+        isSelected && "bg-blue-50/60 hover:bg-blue-50",
+        isFocused && "ring-1 ring-gray-400 ring-inset",
       )}
     >
-      {/* Column 1: Dot - adjusted span slightly */}
-      <div className="col-span-1 flex justify-center">
-        <div className="h-[6px] w-[6px] rounded-full bg-blue-400" />
+      {/* Column 1: Selection checkbox and dot - adjusted span slightly */}
+      <div className="col-span-1 flex items-center justify-center gap-3">
+        {onSelectChange && (
+          <Checkbox
+            aria-label="Select thread"
+            checked={!!isSelected}
+            onClick={(e) => e.stopPropagation()}
+            onCheckedChange={(checked) => onSelectChange(checked === true)}
+          />
+        )}
+        <div
+          className={cn(
+            "h-[6px] w-[6px] rounded-full",
+            isUnread ? "bg-blue-400" : "bg-transparent",
+          )}
+        />
       </div>
 
       {/* Column 2-9: Title and Description - merged spans */}
       <div className="col-span-8 overflow-hidden">
         <div className="flex items-center">
-          <span className="truncate pr-1 text-sm font-semibold text-black">
+          <span
+            className={cn(
+              "truncate pr-1 text-sm text-black",
+              isUnread ? "font-semibold" : "font-medium",
+            )}
+          >
             {title}
           </span>
 
@@ -9,7 +9,7 @@ import {
 } from "lucide-react";
 import { ThreadData, GenericThreadData } from "../types";
 import useInterruptedActions from "../hooks/use-interrupted-actions";
-import { constructOpenInStudioURL } from "../utils";
+import { constructOpenInStudioURL, isEditableTarget } from "../utils";
 import { ThreadIdCopyable } from "./thread-id";
 import { InboxItemInput } from "./inbox-item-input";
 import { TooltipIconButton } from "@/components/ui/tooltip-icon-button";
@@ -21,7 +21,7 @@ import { toast } from "sonner";
 import { cn } from "@/lib/utils";
 import { useQueryStates, parseAsString, useQueryState } from "nuqs";
 import { useThreadsContext } from "../contexts/ThreadContext";
-import { useState } from "react";
+import { useEffect, useRef, useState } from "react";
 
 import {
   Tooltip,
@@ -31,6 +31,7 @@ import {
 import { InterruptDetailsView } from "./interrupt-details-view";
 
 import { logger } from "../utils/logger";
+import useUndoableAction from "../hooks/use-undoable-action";
 
 interface ThreadActionsViewProps<
   ThreadValues extends Record<string, any> = Record<string, any>,
@@ -232,6 +233,62 @@ export function ThreadActionsView<
   const ignoreAllowed = config?.allow_ignore ?? false;
   const acceptAllowed = config?.allow_accept ?? false;
 
+  const runUndoable = useUndoableAction();
+  // Whether an ignore or resolve shortcut is waiting to be undone or sent
+  const pendingShortcutRef = useRef(false);
+
+  // Keyboard shortcuts for valid interrupts: mod+enter submits the selected
+  // response, while "i" ignores and "r" resolves the thread after a delay in
+  // which they can be undone. Inputs handle mod+enter themselves, so shortcuts
+  // are skipped while typing.
+  const handleKeyDown = (e: KeyboardEvent) => {
+    if (
+      !isInterrupted ||
+      pendingShortcutRef.current ||
+      threadData.invalidSchema ||
+      actions.loading ||
+      e.altKey ||
+      isEditableTarget(e.target) ||
+      document.querySelector('[role="dialog"], [role="alertdialog"]')
+    ) {
+      return;
+    }
+    if ((e.metaKey || e.ctrlKey) && e.key === "Enter") {
+      actions.handleSubmit(e);
+    } else if (e.metaKey || e.ctrlKey || e.shiftKey) {
+      return;
+    } else if (e.key === "i" && ignoreAllowed) {
+      runShortcut(e, "Ignoring thread", actions.handleIgnore);
+    } else if (e.key === "r") {
+      runShortcut(e, "Resolving thread", actions.handleResolve);
+    }
+  };
+  const runShortcut = (
+    e: KeyboardEvent,
+    message: string,
+    action: (e: KeyboardEvent) => Promise<void>,
+  ) => {
+    e.preventDefault();
+    pendingShortcutRef.current = true;
+    runUndoable(
+      message,
+      () =>
+        action(e).finally(() => {
+          pendingShortcutRef.current = false;
+        }),
+      () => {
+        pendingShortcutRef.current = false;
+      },
+    );
+  };
+  const handleKeyDownRef = useRef(handleKeyDown);
+  handleKeyDownRef.current = handleKeyDown;
+  useEffect(() => {
+    const listener = (e: KeyboardEvent) => handleKeyDownRef.current(e);
+    window.addEventListener("keydown", listener);
+    return () => window.removeEventListener("keydown", listener);
+  }, []);
+
   // Status Icon Logic
   const getStatusIcon = () => {
     if (isIdleThread(threadData)) {
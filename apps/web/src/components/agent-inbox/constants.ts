@@ -1,6 +1,15 @@
 export const VIEW_STATE_THREAD_QUERY_PARAM = "view_state_thread_id";
 export const AGENT_INBOXES_LOCAL_STORAGE_KEY = "inbox:agent_inboxes";
 export const LANGCHAIN_API_KEY_LOCAL_STORAGE_KEY = "inbox:langchain_api_key";
+export const READ_THREADS_LOCAL_STORAGE_KEY = "inbox:read_threads";
+// The maximum number of read threads to remember. The oldest are dropped first.
+export const MAX_READ_THREADS = 500;
+export const INBOX_POLL_INTERVAL_MS = 10_000;
+export const UNREAD_COUNTS_POLL_INTERVAL_MS = 30_000;
+export const NOTIFICATIONS_POLL_INTERVAL_MS = 30_000;
+// How long actions triggered by a keyboard shortcut can be undone before they're sent
+export const UNDO_DELAY_MS = 5_000;
+export const NOTIFICATIONS_SERVICE_WORKER_URL = "/inbox-notifications-sw.js";
 export const OFFSET_PARAM = "offset";
 export const LIMIT_PARAM = "limit";
 export const INBOX_PARAM = "inbox";
@@ -10,7 +10,12 @@ import { createClient } from "@/lib/client";
 import { Run, Thread, ThreadStatus } from "@langchain/langgraph-sdk";
 import React, { Dispatch, SetStateAction, useTransition } from "react";
 import { parseAsInteger, parseAsString, useQueryState } from "nuqs";
-import { IMPROPER_SCHEMA } from "../constants";
+import {
+  IMPROPER_SCHEMA,
+  INBOX_POLL_INTERVAL_MS,
+  MAX_READ_THREADS,
+  READ_THREADS_LOCAL_STORAGE_KEY,
+} from "../constants";
 import {
   getInterruptFromThread,
   processInterruptedThread,
@@ -18,6 +23,24 @@ import {
 } from "./utils";
 import { logger } from "../utils/logger";
 import { useAuthContext } from "@/providers/Auth";
+import { usePolling } from "@/hooks/use-polling";
+
+/**
+ * A map of thread IDs to the `updated_at` timestamp of the thread when it was
+ * last read. A thread which has been updated since it was read is unread again.
+ */
+type ReadThreads = Record<string, string>;
+
+function getStoredReadThreads(): ReadThreads {
+  if (typeof window === "undefined") return {};
+  try {
+    const item = window.localStorage.getItem(READ_THREADS_LOCAL_STORAGE_KEY);
+    return item ? (JSON.parse(item) as ReadThreads) : {};
+  } catch (e) {
+    logger.error("Error reading read threads from localStorage", e);
+    return {};
+  }
+}
 
 type ThreadContentType<
   ThreadValues extends Record<string, any> = Record<string, any>,
@@ -27,7 +50,21 @@ type ThreadContentType<
   threadData: ThreadData<ThreadValues>[];
   hasMoreThreads: boolean;
   ignoreThread: (threadId: string) => Promise<void>;
-  fetchThreads: (agentId: string, deploymentId: string) => Promise<void>;
+  resolveThreads: (threadIds: string[]) => Promise<string[]>;
+  fetchThreads: (
+    agentId: string,
+    deploymentId: string,
+    options?: {
+      /**
+       * Fetch in the background, without setting the loading state or showing error toasts.
+       * The result is dropped if a different inbox or page is shown by the time it arrives.
+       */
+      silent?: boolean;
+    },
+  ) => Promise<void>;
+  readThreads: ReadThreads;
+  isThreadUnread: (threadData: ThreadData) => boolean;
+  markThreadAsRead: (threadData: ThreadData) => void;
   setThreadData: Dispatch<SetStateAction<ThreadData<Record<string, any>>[]>>;
   sendHumanResponse: <TStream extends boolean = false>(
     _threadId: string,
@@ -36,12 +73,11 @@ type ThreadContentType<
       stream?: TStream;
     },
   ) => TStream extends true
-    ?
-        | AsyncGenerator<{
-            event: Record<string, any>;
-            data: any;
-          }>
-        | undefined
+    ? | AsyncGenerator<{
+          event: Record<string, any>;
+          data: any;
+        }>
+      | undefined
     : Promise<Run> | undefined;
   fetchSingleThread: (
     _threadId: string,
@@ -73,23 +109,51 @@ function ThreadsProviderInternal<
     ThreadData<Record<string, any>>[]
   >([]);
   const [hasMoreThreads, setHasMoreThreads] = React.useState(true);
+  const [readThreads, setReadThreads] =
+    React.useState<ReadThreads>(getStoredReadThreads);
+  // The inbox being shown, so background fetches started before switching
+  // inbox, agent or page can be dropped.
+  const currentQueryRef = React.useRef("");
+  currentQueryRef.current = JSON.stringify([
+    agentInboxId,
+    inboxParam,
+    offsetParam,
+    limitParam,
+  ]);
 
   const fetchThreads = React.useCallback(
-    async (agentId: string, deploymentId: string) => {
+    async (
+      agentId: string,
+      deploymentId: string,
+      options?: { silent?: boolean },
+    ) => {
+      const silent = options?.silent ?? false;
       if (!session?.accessToken) {
-        toast.error("No access token found", {
-          richColors: true,
-        });
+        if (!silent) {
+          toast.error("No access token found", {
+            richColors: true,
+          });
+        }
         return;
       }
       if (!agentInboxId) {
-        toast.error("No agent inbox ID found", {
-          richColors: true,
-        });
+        if (!silent) {
+          toast.error("No agent inbox ID found", {
+            richColors: true,
+          });
+        }
         return;
       }
 
-      setLoading(true);
+      if (!silent) {
+        setLoading(true);
+      }
+      const query = JSON.stringify([
+        `${agentId}:${deploymentId}`,
+        inboxParam,
+        offsetParam,
+        limitParam,
+      ]);
 
       const client = createClient(deploymentId, session.accessToken);
 
@@ -107,11 +171,13 @@ function ThreadsProviderInternal<
         }
 
         if (limit > 100) {
-          toast.error("Limit Exceeded", {
-            description: "Cannot fetch more than 100 threads at a time",
-            duration: 3000,
-          });
-          setLoading(false);
+          if (!silent) {
+            toast.error("Limit Exceeded", {
+              description: "Cannot fetch more than 100 threads at a time",
+              duration: 3000,
+            });
+            setLoading(false);
+          }
           return;
         }
 
@@ -221,19 +287,82 @@ function ThreadsProviderInternal<
           );
         });
 
-        setThreadData(sortedData);
+        if (silent && currentQueryRef.current !== query) {
+          return;
+        }
+
+        // Keep the existing object for threads which have not changed, so views
+        // holding onto them are not reset when the inbox is refreshed in the background.
+        setThreadData((prev) =>
+          sortedData.map(
+            (t) =>
+              prev.find(
+                (p) =>
+                  p.thread.thread_id === t.thread.thread_id &&
+                  p.thread.updated_at === t.thread.updated_at &&
+                  p.status === t.status,
+              ) ?? t,
+          ),
+        );
         setHasMoreThreads(threads.length === limit);
       } catch (e) {
         logger.error("Failed to fetch threads", e);
-        toast.error("Failed to load threads. Please try again.");
+        if (!silent) {
+          toast.error("Failed to load threads. Please try again.");
+        }
       } finally {
         // Always reset loading state, even after errors
-        setLoading(false);
+        if (!silent) {
+          setLoading(false);
+        }
       }
     },
-    [offsetParam, limitParam],
+    [session?.accessToken, agentInboxId, inboxParam, offsetParam, limitParam],
   );
 
+  // Refresh the inbox in the background so new interrupts and status changes
+  // show up without a reload. Skipped while a foreground fetch is in progress.
+  usePolling(
+    async () => {
+      if (!agentInboxId || loading) return;
+      const [assistantId, deploymentId] = agentInboxId.split(":");
+      await fetchThreads(assistantId, deploymentId, { silent: true });
+    },
+    {
+      interval: INBOX_POLL_INTERVAL_MS,
+      enabled: !!agentInboxId && !!session?.accessToken,
+    },
+  );
+
+  const isThreadUnread = React.useCallback(
+    (t: ThreadData) =>
+      t.status === "interrupted" &&
+      readThreads[t.thread.thread_id] !== t.thread.updated_at,
+    [readThreads],
+  );
+
+  const markThreadAsRead = React.useCallback((t: ThreadData) => {
+    setReadThreads((prev) => {
+      if (prev[t.thread.thread_id] === t.thread.updated_at) return prev;
+      // Re-insert the thread so it becomes the most recent entry
+      const { [t.thread.thread_id]: _, ...rest } = prev;
+      const entries = Object.entries({
+        ...rest,
+        [t.thread.thread_id]: t.thread.updated_at,
+      });
+      const next = Object.fromEntries(entries.slice(-MAX_READ_THREADS));
+      try {
+        window.localStorage.setItem(
+          READ_THREADS_LOCAL_STORAGE_KEY,
+          JSON.stringify(next),
+        );
+      } catch (e) {
+        logger.error("Error saving read threads to localStorage", e);
+      }
+      return next;
+    });
+  }, []);
+
   // Effect to fetch threads when parameters change
   React.useEffect(() => {
     if (typeof window === "undefined") {
@@ -379,6 +508,51 @@ function ThreadsProviderInternal<
     }
   };
 
+  /**
+   * Resolves multiple threads at once by ending them, without resuming the graph.
+   * Unlike `ignoreThread`, this does not show a toast for each thread.
+   * @returns The IDs of the threads which were resolved successfully.
+   */
+  const resolveThreads = async (threadIds: string[]): Promise<string[]> => {
+    if (!session?.accessToken) {
+      toast.error("No access token found", {
+        richColors: true,
+      });
+      return [];
+    }
+    if (!agentInboxId) {
+      toast.error("No agent inbox ID found when resolving threads.", {
+        richColors: true,
+      });
+      return [];
+    }
+
+    const [_, deploymentId] = agentInboxId.split(":");
+    const client = createClient(deploymentId, session.accessToken);
+
+    const results = await Promise.allSettled(
+      threadIds.map((threadId) =>
+        client.threads.updateState(threadId, {
+          values: null,
+          asNode: "__end__",
+        }),
+      ),
+    );
+    const resolvedIds = threadIds.filter((threadId, idx) => {
+      const result = results[idx];
+      if (result.status === "rejected") {
+        logger.error("Error resolving thread", threadId, result.reason);
+        return false;
+      }
+      return true;
+    });
+
+    setThreadData((prev) =>
+      prev.filter((p) => !resolvedIds.includes(p.thread.thread_id)),
+    );
+    return resolvedIds;
+  };
+
   const sendHumanResponse = <TStream extends boolean = false>(
     threadId: string,
     response: HumanResponse[],
@@ -386,12 +560,11 @@ function ThreadsProviderInternal<
       stream?: TStream;
     },
   ): TStream extends true
-    ?
-        | AsyncGenerator<{
-            event: Record<string, any>;
-            data: any;
-          }>
-        | undefined
+    ? | AsyncGenerator<{
+          event: Record<string, any>;
+          data: any;
+        }>
+      | undefined
     : Promise<Run> | undefined => {
     if (!session?.accessToken) {
       toast.error("No access token found", {
@@ -435,10 +608,14 @@ function ThreadsProviderInternal<
     threadData,
     hasMoreThreads,
     ignoreThread,
+    resolveThreads,
     sendHumanResponse,
     fetchThreads,
     fetchSingleThread,
     setThreadData,
+    readThreads,
+    isThreadUnread,
+    markThreadAsRead,
   };
 
   return (
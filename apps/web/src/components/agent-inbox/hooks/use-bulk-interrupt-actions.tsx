@@ -0,0 +1,122 @@
+import { BulkInterruptAction, ThreadData } from "../types";
+import { toast } from "sonner";
+import React from "react";
+import { useQueryState } from "nuqs";
+import { useThreadsContext } from "../contexts/ThreadContext";
+import { createBulkHumanResponse, isBulkActionAllowed } from "../utils";
+import { logger } from "../utils/logger";
+
+const BULK_ACTION_LABELS: Record<BulkInterruptAction, string> = {
+  accept: "Accepted",
+  ignore: "Ignored",
+  resolve: "Resolved",
+};
+
+interface UseBulkInterruptActionsValue {
+  /**
+   * Applies the action to every thread which allows it, skipping the rest.
+   * @returns The IDs of the threads the action was applied to successfully.
+   */
+  runBulkAction: (
+    action: BulkInterruptAction,
+    threads: ThreadData[],
+  ) => Promise<string[]>;
+  loading: boolean;
+}
+
+export default function useBulkInterruptActions(): UseBulkInterruptActionsValue {
+  const [agentInboxId] = useQueryState("agentInbox");
+  const { sendHumanResponse, resolveThreads, fetchThreads } =
+    useThreadsContext();
+  const [loading, setLoading] = React.useState(false);
+
+  const respondToThreads = async (
+    action: Exclude<BulkInterruptAction, "resolve">,
+    threads: ThreadData[],
+  ): Promise<string[]> => {
+    const results = await Promise.allSettled(
+      threads.map(async (t) => {
+        const run = await sendHumanResponse(t.thread.thread_id, [
+          createBulkHumanResponse(t, action),
+        ]);
+        if (!run) {
+          throw new Error("Failed to create run");
+        }
+        return run;
+      }),
+    );
+    return threads.flatMap((t, idx) => {
+      const result = results[idx];
+      if (result.status === "rejected") {
+        logger.error(
+          `Error sending ${action} response`,
+          t.thread.thread_id,
+          result.reason,
+        );
+        return [];
+      }
+      return [t.thread.thread_id];
+    });
+  };
+
+  const runBulkAction = async (
+    action: BulkInterruptAction,
+    threads: ThreadData[],
+  ): Promise<string[]> => {
+    if (!agentInboxId) {
+      toast.error("No agent inbox ID found");
+      return [];
+    }
+
+    const allowedThreads = threads.filter((t) =>
+      isBulkActionAllowed(t, action),
+    );
+    const skippedCount = threads.length - allowedThreads.length;
+    if (!allowedThreads.length) {
+      toast.error(`None of the selected threads allow ${action}.`, {
+        richColors: true,
+      });
+      return [];
+    }
+
+    setLoading(true);
+    try {
+      const succeededIds =
+        action === "resolve"
+          ? await resolveThreads(allowedThreads.map((t) => t.thread.thread_id))
+          : await respondToThreads(action, allowedThreads);
+      const failedCount = allowedThreads.length - succeededIds.length;
+
+      const details = [
+        skippedCount > 0 &&
+          `${skippedCount} skipped because their interrupt does not allow ${action}.`,
+        failedCount > 0 && `${failedCount} failed. Please try again.`,
+      ].filter(Boolean);
+      const message = `${BULK_ACTION_LABELS[action]} ${succeededIds.length} thread${succeededIds.length === 1 ? "" : "s"}`;
+      if (failedCount > 0) {
+        toast.error(message, {
+          description: details.join(" "),
+          duration: 5000,
+          richColors: true,
+        });
+      } else {
+        toast("Success", {
+          description: [message, ...details].join(". "),
+          duration: 5000,
+        });
+      }
+
+      const [assistantId, deploymentId] = agentInboxId.split(":");
+      // Re-fetch threads so the inbox is up to date
+      await fetchThreads(assistantId, deploymentId);
+      return succeededIds;
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return {
+    runBulkAction,
+    loading,
+  };
+}
@@ -0,0 +1,97 @@
+import React from "react";
+import _ from "lodash";
+import { createClient } from "@/lib/client";
+import { usePolling } from "@/hooks/use-polling";
+import { useAuthContext } from "@/providers/Auth";
+import { Agent } from "@/types/agent";
+import { useThreadsContext } from "../contexts/ThreadContext";
+import { UNREAD_COUNTS_POLL_INTERVAL_MS } from "../constants";
+import { logger } from "../utils/logger";
+
+// The maximum number of interrupted threads to fetch per agent when counting.
+// Counts at this limit are displayed as "99+".
+export const UNREAD_COUNT_LIMIT = 100;
+// The most threads fetched from one deployment when counting, however many
+// agents it has.
+const MAX_DEPLOYMENT_THREADS = 1000;
+
+/**
+ * Polls the number of unread interrupted threads for each agent. Threads are
+ * fetched with one request per deployment, rather than per agent.
+ * @returns A map of agent inbox IDs (`assistantId:deploymentId`) to their unread count.
+ */
+export function useInboxUnreadCounts(agents: Agent[]): Record<string, number> {
+  const { session } = useAuthContext();
+  const { readThreads } = useThreadsContext();
+  const [interruptedThreads, setInterruptedThreads] = React.useState<
+    Record<string, { thread_id: string; updated_at: string }[]>
+  >({});
+
+  const fetchInterruptedThreads = async () => {
+    if (!session?.accessToken || !agents.length) return;
+    const accessToken = session.accessToken;
+
+    const agentsByDeployment = _.groupBy(agents, (a) => a.deploymentId);
+    const results = await Promise.allSettled(
+      Object.entries(agentsByDeployment).map(
+        async ([deploymentId, deploymentAgents]) => {
+          const client = createClient(deploymentId, accessToken);
+          const threads = await client.threads.search({
+            status: "interrupted",
+            limit: Math.min(
+              UNREAD_COUNT_LIMIT * deploymentAgents.length,
+              MAX_DEPLOYMENT_THREADS,
+            ),
+          });
+          return { deploymentId, deploymentAgents, threads };
+        },
+      ),
+    );
+
+    const next: Record<string, { thread_id: string; updated_at: string }[]> =
+      {};
+    results.forEach((result) => {
+      if (result.status === "rejected") {
+        logger.error("Failed to fetch unread count", result.reason);
+        return;
+      }
+      const { deploymentId, deploymentAgents, threads } = result.value;
+      deploymentAgents.forEach((agent) => {
+        next[`${agent.assistant_id}:${deploymentId}`] = threads
+          .filter((t) => t.metadata?.assistant_id === agent.assistant_id)
+          .slice(0, UNREAD_COUNT_LIMIT)
+          .map((t) => ({
+            thread_id: t.thread_id,
+            updated_at: t.updated_at,
+          }));
+      });
+    });
+    setInterruptedThreads(next);
+  };
+
+  const agentsKey = agents
+    .map((a) => `${a.assistant_id}:${a.deploymentId}`)
+    .join(",");
+  React.useEffect(() => {
+    fetchInterruptedThreads();
+  }, [agentsKey, session?.accessToken]);
+
+  usePolling(fetchInterruptedThreads, {
+    interval: UNREAD_COUNTS_POLL_INTERVAL_MS,
+    enabled: !!agents.length && !!session?.accessToken,
+  });
+
+  // Recompute from the cached threads whenever a thread is read, so counts
+  // update immediately instead of on the next poll.
+  return React.useMemo(
+    () =>
+      Object.fromEntries(
+        Object.entries(interruptedThreads).map(([agentInboxId, threads]) => [
+          agentInboxId,
+          threads.filter((t) => readThreads[t.thread_id] !== t.updated_at)
+            .length,
+        ]),
+      ),
+    [interruptedThreads, readThreads],
+  );
+}
@@ -26,13 +26,16 @@ interface UseInterruptedActionsInput<
 interface UseInterruptedActionsValue {
   // Actions
   handleSubmit: (
-    _e: React.MouseEvent<HTMLButtonElement, MouseEvent> | React.KeyboardEvent,
+    _e:
+      | React.MouseEvent<HTMLButtonElement, MouseEvent>
+      | React.KeyboardEvent
+      | KeyboardEvent,
   ) => Promise<void>;
   handleIgnore: (
-    _e: React.MouseEvent<HTMLButtonElement, MouseEvent>,
+    _e: React.MouseEvent<HTMLButtonElement, MouseEvent> | KeyboardEvent,
   ) => Promise<void>;
   handleResolve: (
-    _e: React.MouseEvent<HTMLButtonElement, MouseEvent>,
+    _e: React.MouseEvent<HTMLButtonElement, MouseEvent> | KeyboardEvent,
   ) => Promise<void>;
 
   // State values
@@ -129,7 +132,10 @@ export default function useInterruptedActions<
   }, [threadData?.interrupts]);
 
   const handleSubmit = async (
-    e: React.MouseEvent<HTMLButtonElement, MouseEvent> | React.KeyboardEvent,
+    e:
+      | React.MouseEvent<HTMLButtonElement, MouseEvent>
+      | React.KeyboardEvent
+      | KeyboardEvent,
   ) => {
     e.preventDefault();
     if (!agentInboxId) {
@@ -298,7 +304,7 @@ export default function useInterruptedActions<
   };
 
   const handleIgnore = async (
-    e: React.MouseEvent<HTMLButtonElement, MouseEvent>,
+    e: React.MouseEvent<HTMLButtonElement, MouseEvent> | KeyboardEvent,
   ) => {
     e.preventDefault();
     if (!agentInboxId) {
@@ -338,7 +344,7 @@ export default function useInterruptedActions<
   };
 
   const handleResolve = async (
-    e: React.MouseEvent<HTMLButtonElement, MouseEvent>,
+    e: React.MouseEvent<HTMLButtonElement, MouseEvent> | KeyboardEvent,
   ) => {
     e.preventDefault();
     if (!agentInboxId) {
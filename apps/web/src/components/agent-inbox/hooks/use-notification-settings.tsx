@@ -0,0 +1,79 @@
+"use client";
+
+import { create } from "zustand";
+import { persist } from "zustand/middleware";
+import { MAX_READ_THREADS } from "../constants";
+
+interface NotificationSettingsState {
+  /**
+   * Whether the user has opted in to desktop notifications.
+   */
+  enabled: boolean;
+  /**
+   * When notifications were last enabled. Only threads interrupted after
+   * this time trigger a notification, so enabling does not notify about
+   * every interrupt which already exists.
+   */
+  enabledAt: string | null;
+  /**
+   * The agent inbox IDs (`assistantId:deploymentId`) which should not send notifications.
+   */
+  mutedInboxIds: string[];
+  /**
+   * A map of thread IDs to the `updated_at` timestamp of the thread when a
+   * notification was last shown for it.
+   */
+  notifiedThreads: Record<string, string>;
+  setEnabled: (enabled: boolean) => void;
+  setInboxMuted: (agentInboxId: string, muted: boolean) => void;
+  markThreadsNotified: (
+    threads: { thread_id: string; updated_at: string }[],
+  ) => void;
+}
+
+export const useNotificationSettings = create<NotificationSettingsState>()(
+  persist(
+    (set) => ({
+      enabled: false,
+      enabledAt: null,
+      mutedInboxIds: [],
+      notifiedThreads: {},
+
+      setEnabled: (enabled) =>
+        set((state) => ({
+          enabled,
+          enabledAt: enabled
+            ? (state.enabledAt ?? new Date().toISOString())
+            : null,
+        })),
+
+      setInboxMuted: (agentInboxId, muted) =>
+        set((state) => ({
+          mutedInboxIds: muted
+            ? [
+                ...state.mutedInboxIds.filter((id) => id !== agentInboxId),
+                agentInboxId,
+              ]
+            : state.mutedInboxIds.filter((id) => id !== agentInboxId),
+        })),
+
+      markThreadsNotified: (threads) =>
+        set((state) => {
+          const notifiedThreads = { ...state.notifiedThreads };
+          threads.forEach((t) => {
+            // Re-insert the thread so it becomes the most recent entry
+            delete notifiedThreads[t.thread_id];
+            notifiedThreads[t.thread_id] = t.updated_at;
+          });
+          return {
+            notifiedThreads: Object.fromEntries(
+              Object.entries(notifiedThreads).slice(-MAX_READ_THREADS),
+            ),
+          };
+        }),
+    }),
+    {
+      name: "inbox:notification_settings",
+    },
+  ),
+);
@@ -0,0 +1,34 @@
+import React from "react";
+import { toast } from "sonner";
+import { UNDO_DELAY_MS } from "../constants";
+
+/**
+ * Returns a function which runs an action after `UNDO_DELAY_MS`, showing a
+ * toast which lets the user undo it until then. Used for single key shortcuts,
+ * which are easy to press by accident, for actions which can't be reversed
+ * once sent.
+ *
+ * @returns A function taking the toast message, the action, and an optional
+ * callback for when the action is undone.
+ */
+export default function useUndoableAction() {
+  return React.useCallback(
+    (message: string, action: () => unknown, onUndo?: () => void) => {
+      const timeout = setTimeout(() => {
+        toast.dismiss(toastId);
+        action();
+      }, UNDO_DELAY_MS);
+      const toastId = toast(message, {
+        duration: UNDO_DELAY_MS,
+        action: {
+          label: "Undo",
+          onClick: () => {
+            clearTimeout(timeout);
+            onUndo?.();
+          },
+        },
+      });
+    },
+    [],
+  );
+}
@@ -4,7 +4,19 @@ import React from "react";
 import { Pagination } from "./components/pagination";
 import { Inbox as InboxIcon, LoaderCircle } from "lucide-react";
 import { InboxButtons } from "./components/inbox-buttons";
+import { BulkActionsBar } from "./components/bulk-actions-bar";
 import { useQueryState, parseAsString } from "nuqs";
+import useBulkInterruptActions from "./hooks/use-bulk-interrupt-actions";
+import useUndoableAction from "./hooks/use-undoable-action";
+import { BulkInterruptAction } from "./types";
+import { isEditableTarget } from "./utils";
+import { VIEW_STATE_THREAD_QUERY_PARAM } from "./constants";
+
+const PENDING_ACTION_LABELS: Record<BulkInterruptAction, string> = {
+  accept: "Accepting",
+  ignore: "Ignoring",
+  resolve: "Resolving",
+};
 
 interface AgentInboxViewProps<
   _ThreadValues extends Record<string, any> = Record<string, any>,
@@ -20,9 +32,24 @@ export function AgentInboxView<
     "inbox",
     parseAsString.withDefault("interrupted"),
   );
+  const [, setSelectedThreadIdParam] = useQueryState(
+    VIEW_STATE_THREAD_QUERY_PARAM,
+    parseAsString,
+  );
 
   const { loading, threadData, isChangingThreads } =
     useThreadsContext<ThreadValues>();
+  const { runBulkAction, loading: bulkActionLoading } =
+    useBulkInterruptActions();
+  const runUndoable = useUndoableAction();
+  // IDs of threads with a keyboard action waiting to be undone or sent
+  const pendingThreadIdsRef = React.useRef(new Set<string>());
+
+  const [selectedThreadIds, setSelectedThreadIds] = React.useState<string[]>(
+    [],
+  );
+  // The index of the thread focused via keyboard navigation, or -1 if none.
+  const [focusedIndex, setFocusedIndex] = React.useState(-1);
 
   const scrollableContentRef = React.useRef<HTMLDivElement>(null);
 
@@ -77,6 +104,88 @@ export function AgentInboxView<
   // Only show no threads when we're not loading
   const noThreadsFound = !threadDataToRender.length && !isLoading;
 
+  // Only interrupted threads can be selected for bulk actions
+  const selectableThreads = React.useMemo(
+    () => threadDataToRender.filter((t) => t.status === "interrupted"),
+    [threadDataToRender],
+  );
+  const selectedThreads = React.useMemo(
+    () =>
+      selectableThreads.filter((t) =>
+        selectedThreadIds.includes(t.thread.thread_id),
+      ),
+    [selectableThreads, selectedThreadIds],
+  );
+
+  // Drop selections and focus which no longer point to a rendered thread
+  React.useEffect(() => {
+    setSelectedThreadIds((prev) =>
+      prev.filter((id) =>
+        selectableThreads.some((t) => t.thread.thread_id === id),
+      ),
+    );
+    setFocusedIndex((prev) => Math.min(prev, threadDataToRender.length - 1));
+  }, [selectableThreads, threadDataToRender.length]);
+
+  React.useEffect(() => {
+    const focusedThreadId = threadDataToRender[focusedIndex]?.thread.thread_id;
+    if (!focusedThreadId) return;
+    document
+      .querySelector(`[data-thread-id="${focusedThreadId}"]`)
+      ?.scrollIntoView({ block: "nearest" });
+  }, [focusedIndex, threadDataToRender]);
+
+  const handleSelectChange = (threadId: string, selected: boolean) => {
+    setSelectedThreadIds((prev) =>
+      selected
+        ? [...prev.filter((id) => id !== threadId), threadId]
+        : prev.filter((id) => id !== threadId),
+    );
+  };
+
+  const handleBulkAction = async (
+    action: BulkInterruptAction,
+    options?: {
+      /**
+       * Wait before running the action, so it can be undone. Used for keyboard shortcuts.
+       */
+      undoable?: boolean;
+    },
+  ) => {
+    // Fall back to the focused thread if nothing is selected
+    const focusedThread = threadDataToRender[focusedIndex];
+    const targetThreads = (
+      selectedThreads.length
+        ? selectedThreads
+        : focusedThread?.status === "interrupted"
+          ? [focusedThread]
+          : []
+    ).filter((t) => !pendingThreadIdsRef.current.has(t.thread.thread_id));
+    if (!targetThreads.length || bulkActionLoading) return;
+
+    const run = async () => {
+      const succeededIds = await runBulkAction(action, targetThreads);
+      setSelectedThreadIds((prev) =>
+        prev.filter((id) => !succeededIds.includes(id)),
+      );
+    };
+    if (!options?.undoable) {
+      await run();
+      return;
+    }
+
+    // Threads waiting to be undone can't be targeted by another shortcut
+    const targetIds = targetThreads.map((t) => t.thread.thread_id);
+    const clearPending = () =>
+      targetIds.forEach((id) => pendingThreadIdsRef.current.delete(id));
+    targetIds.forEach((id) => pendingThreadIdsRef.current.add(id));
+    runUndoable(
+      `${PENDING_ACTION_LABELS[action]} ${targetIds.length} thread${targetIds.length === 1 ? "" : "s"}`,
+      () => run().finally(clearPending),
+      clearPending,
+    );
+  };
+
   const handleThreadClick = () => {
     if (
       scrollableContentRef.current &&
@@ -101,6 +210,71 @@ export function AgentInboxView<
     }
   };
 
+  const handleKeyDown = (e: KeyboardEvent) => {
+    if (e.metaKey || e.ctrlKey || e.altKey || isEditableTarget(e.target)) {
+      return;
+    }
+    if (
+      document.querySelector('[role="dialog"], [role="alertdialog"]') ||
+      !threadDataToRender.length
+    ) {
+      return;
+    }
+
+    const focusedThread = threadDataToRender[focusedIndex];
+    switch (e.key) {
+      case "j":
+      case "ArrowDown":
+        e.preventDefault();
+        setFocusedIndex((prev) =>
+          Math.min(prev + 1, threadDataToRender.length - 1),
+        );
+        break;
+      case "k":
+      case "ArrowUp":
+        e.preventDefault();
+        setFocusedIndex((prev) => Math.max(prev - 1, 0));
+        break;
+      case "x":
+        if (focusedThread?.status === "interrupted") {
+          handleSelectChange(
+            focusedThread.thread.thread_id,
+            !selectedThreadIds.includes(focusedThread.thread.thread_id),
+          );
+        }
+        break;
+      case "Enter":
+      case "o":
+        // Let focused buttons and checkboxes handle their own activation
+        if (e.target instanceof HTMLButtonElement || !focusedThread) return;
+        e.preventDefault();
+        handleThreadClick();
+        setSelectedThreadIdParam(focusedThread.thread.thread_id);
+        break;
+      case "a":
+        handleBulkAction("accept", { undoable: true });
+        break;
+      case "i":
+        handleBulkAction("ignore", { undoable: true });
+        break;
+      case "r":
+        handleBulkAction("resolve", { undoable: true });
+        break;
+      case "Escape":
+        setSelectedThreadIds([]);
+        break;
+    }
+  };
+
+  // Keep the latest handler in a ref so the listener is only registered once
+  const handleKeyDownRef = React.useRef(handleKeyDown);
+  handleKeyDownRef.current = handleKeyDown;
+  React.useEffect(() => {
+    const listener = (e: KeyboardEvent) => handleKeyDownRef.current(e);
+    window.addEventListener("keydown", listener);
+    return () => window.removeEventListener("keydown", listener);
+  }, []);
+
   return (
     <div
       ref={containerRef}
@@ -109,9 +283,26 @@ export function AgentInboxView<
       <div className="pt-4 pl-5">
         <InboxButtons />
       </div>
+      {selectableThreads.length > 0 && (
+        <div className="mt-3">
+          <BulkActionsBar
+            selectableThreads={selectableThreads}
+            selectedThreads={selectedThreads}
+            onSelectAll={(selected) =>
+              setSelectedThreadIds(
+                selected
+                  ? selectableThreads.map((t) => t.thread.thread_id)
+                  : [],
+              )
+            }
+            onAction={handleBulkAction}
+            loading={bulkActionLoading}
+          />
+        </div>
+      )}
       <div
         ref={scrollableContentRef}
-        className="scrollbar-thin scrollbar-thumb-gray-300 scrollbar-track-gray-100 mt-3 flex h-full max-h-fit w-full flex-col items-start overflow-y-auto border-y-[1px] border-gray-50"
+        className="mt-3 flex h-full max-h-fit w-full scrollbar-thin scrollbar-thumb-gray-300 scrollbar-track-gray-100 flex-col items-start overflow-y-auto border-y-[1px] border-gray-50"
       >
         {threadDataToRender.map((threadData, idx) => {
           return (
@@ -120,6 +311,13 @@ export function AgentInboxView<
               threadData={threadData}
               isLast={idx === threadDataToRender.length - 1}
               onThreadClick={handleThreadClick}
+              isFocused={idx === focusedIndex}
+              isSelected={selectedThreadIds.includes(
+                threadData.thread.thread_id,
+              )}
+              onSelectChange={(selected) =>
+                handleSelectChange(threadData.thread.thread_id, selected)
+              }
             />
           );
         })}
@@ -5,8 +5,13 @@ import { ThreadData } from "./types";
 import React from "react";
 import { cn } from "@/lib/utils";
 import { useQueryState, parseAsString } from "nuqs";
-import { IMPROPER_SCHEMA, VIEW_STATE_THREAD_QUERY_PARAM } from "./constants";
+import {
+  IMPROPER_SCHEMA,
+  INBOX_PARAM,
+  VIEW_STATE_THREAD_QUERY_PARAM,
+} from "./constants";
 import { logger } from "./utils/logger";
+import { isEditableTarget } from "./utils";
 
 export function ThreadView<
   ThreadValues extends Record<string, any> = Record<string, any>,
@@ -15,7 +20,16 @@ export function ThreadView<
     VIEW_STATE_THREAD_QUERY_PARAM,
     parseAsString,
   );
-  const { threadData: threads, loading } = useThreadsContext<ThreadValues>();
+  const [selectedInbox] = useQueryState(
+    INBOX_PARAM,
+    parseAsString.withDefault("interrupted"),
+  );
+  const {
+    threadData: threads,
+    loading,
+    markThreadAsRead,
+    fetchSingleThread,
+  } = useThreadsContext<ThreadValues>();
   const [threadData, setThreadData] =
     React.useState<ThreadData<ThreadValues>>();
   const [showDescription, setShowDescription] = React.useState(true);
@@ -45,35 +59,93 @@ export function ThreadView<
     }
   }, []);
 
+  // The thread ID the side panel was last initialized for. Background refreshes
+  // of the same thread should not reset the panel the user has chosen.
+  const initializedThreadId = React.useRef<string | null>(null);
+  // The thread ID which was fetched individually because it was not in the
+  // current page of threads, e.g. when opened from a notification.
+  const fetchedThreadId = React.useRef<string | null>(null);
+
   React.useEffect(() => {
+    const showThread = (selectedThread: ThreadData<ThreadValues>) => {
+      setThreadData(selectedThread);
+      markThreadAsRead(selectedThread);
+      if (initializedThreadId.current === threadId) return;
+      initializedThreadId.current = threadId;
+      // Default to description first, state if no description
+      if (
+        selectedThread.status === "interrupted" &&
+        selectedThread.interrupts?.[0]?.description
+      ) {
+        setShowDescription(true);
+        setShowState(false);
+      } else {
+        setShowState(true);
+        setShowDescription(false);
+      }
+    };
+
     try {
       if (typeof window === "undefined") return;
-      if (!threadId || !threads.length || loading) return;
+      if (!threadId || loading) return;
       const selectedThread = threads.find(
         (t) => t.thread.thread_id === threadId,
       );
       if (selectedThread) {
-        setThreadData(selectedThread);
-        // Default to description first, state if no description
-        if (
-          selectedThread.status === "interrupted" &&
-          selectedThread.interrupts?.[0]?.description
-        ) {
-          setShowDescription(true);
-          setShowState(false);
-        } else {
-          setShowState(true);
-          setShowDescription(false);
-        }
-      } else {
-        // Route the user back to the inbox view.
-        setSelectedThreadIdParam(null);
+        showThread(selectedThread);
+      } else if (fetchedThreadId.current !== threadId) {
+        // The thread is not in the current page, so fetch it directly.
+        fetchedThreadId.current = threadId;
+        fetchSingleThread(threadId).then((fetchedThread) => {
+          if (fetchedThread) {
+            showThread(fetchedThread);
+          } else {
+            // Route the user back to the inbox view.
+            setSelectedThreadIdParam(null);
+          }
+        });
       }
     } catch (e) {
       logger.error("Error updating query params & setting thread data", e);
     }
   }, [threads, loading, threadId]);
 
+  // Keyboard shortcuts: "j" and "k" move to the next and previous thread in
+  // the current inbox, and escape returns to the inbox.
+  React.useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (
+        e.metaKey ||
+        e.ctrlKey ||
+        e.altKey ||
+        isEditableTarget(e.target) ||
+        document.querySelector('[role="dialog"], [role="alertdialog"]')
+      ) {
+        return;
+      }
+      if (e.key === "Escape") {
+        setSelectedThreadIdParam(null);
+        return;
+      }
+      if (e.key !== "j" && e.key !== "k") return;
+
+      const inboxThreads = threads.filter(
+        (t) => selectedInbox === "all" || t.status === selectedInbox,
+      );
+      const currentIndex = inboxThreads.findIndex(
+        (t) => t.thread.thread_id === threadId,
+      );
+      const nextThread =
+        inboxThreads[e.key === "j" ? currentIndex + 1 : currentIndex - 1];
+      if (currentIndex !== -1 && nextThread) {
+        setSelectedThreadIdParam(nextThread.thread.thread_id);
+      }
+    };
+
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [threads, threadId, selectedInbox, setSelectedThreadIdParam]);
+
   const handleShowSidePanel = (
     showState: boolean,
     showDescription: boolean,
@@ -122,8 +122,7 @@ export interface InterruptedThreadData<
  * Using discriminated union pattern for better type safety.
  */
 export type ThreadData<T extends Record<string, any> = Record<string, any>> =
-  | GenericThreadData<T>
-  | InterruptedThreadData<T>;
+  GenericThreadData<T> | InterruptedThreadData<T>;
 
 /**
  * Thread status with special "all" option for filtering.
@@ -135,6 +134,12 @@ export type ThreadStatusWithAll = EnhancedThreadStatus | "all";
  */
 export type SubmitType = "accept" | "response" | "edit";
 
+/**
+ * Actions which can be applied to multiple interrupted threads at once.
+ * "resolve" ends the thread without resuming the graph.
+ */
+export type BulkInterruptAction = "accept" | "ignore" | "resolve";
+
 /**
  * Configuration for an agent inbox.
  */
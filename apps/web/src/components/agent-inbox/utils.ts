@@ -1,7 +1,14 @@
 import { BaseMessage, isBaseMessage } from "@langchain/core/messages";
 import { format } from "date-fns";
 import { startCase } from "lodash";
-import { HumanInterrupt, HumanResponseWithEdits, SubmitType } from "./types";
+import {
+  BulkInterruptAction,
+  HumanInterrupt,
+  HumanResponse,
+  HumanResponseWithEdits,
+  SubmitType,
+  ThreadData,
+} from "./types";
 import { logger } from "./utils/logger";
 import { validate } from "uuid";
 import { getDeployments } from "@/lib/environment/deployments";
@@ -273,6 +280,59 @@ export function haveArgsChanged(
   });
 }
 
+/**
+ * Whether or not a bulk action can be applied to a thread. Accept and ignore
+ * respect the thread's `HumanInterruptConfig`, while any interrupted thread can
+ * be resolved. Threads with an invalid interrupt schema can only be ignored or resolved.
+ */
+export function isBulkActionAllowed(
+  threadData: ThreadData,
+  action: BulkInterruptAction,
+): boolean {
+  if (threadData.status !== "interrupted") {
+    return false;
+  }
+  const config = threadData.interrupts?.[0]?.config;
+  switch (action) {
+    case "accept":
+      return !threadData.invalidSchema && !!config?.allow_accept;
+    case "ignore":
+      return !!threadData.invalidSchema || !!config?.allow_ignore;
+    case "resolve":
+      return true;
+  }
+}
+
+/**
+ * Creates the response to resume an interrupted thread with for a bulk
+ * accept or ignore action.
+ */
+export function createBulkHumanResponse(
+  threadData: ThreadData,
+  action: Exclude<BulkInterruptAction, "resolve">,
+): HumanResponse {
+  const actionRequest = threadData.interrupts?.[0]?.action_request;
+  if (action === "accept" && actionRequest) {
+    return { type: "accept", args: actionRequest };
+  }
+  return { type: "ignore", args: null };
+}
+
+/**
+ * Whether or not a keyboard event originated from an element which accepts
+ * text input, in which case single key shortcuts should not be triggered.
+ */
+export function isEditableTarget(target: EventTarget | null): boolean {
+  if (!(target instanceof HTMLElement)) {
+    return false;
+  }
+  return (
+    target.isContentEditable ||
+    ["INPUT", "TEXTAREA", "SELECT"].includes(target.tagName) ||
+    !!target.closest(".cm-editor")
+  );
+}
+
 /**
  * Interface for deployment info response
  */
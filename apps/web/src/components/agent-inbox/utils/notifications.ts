@@ -0,0 +1,86 @@
+import { NOTIFICATIONS_SERVICE_WORKER_URL } from "../constants";
+import { logger } from "./logger";
+
+/**
+ * Whether or not the browser supports desktop notifications.
+ */
+export function notificationsSupported(): boolean {
+  return typeof window !== "undefined" && "Notification" in window;
+}
+
+/**
+ * Registers the inbox notifications service worker, which handles clicks on
+ * notifications. Resolves to undefined if service workers are not supported.
+ */
+export async function registerNotificationsServiceWorker(): Promise<
+  ServiceWorkerRegistration | undefined
+> {
+  if (typeof navigator === "undefined" || !("serviceWorker" in navigator)) {
+    return undefined;
+  }
+  try {
+    return await navigator.serviceWorker.register(
+      NOTIFICATIONS_SERVICE_WORKER_URL,
+    );
+  } catch (e) {
+    logger.error("Failed to register notifications service worker", e);
+    return undefined;
+  }
+}
+
+/**
+ * Constructs the URL which opens a thread in the chat, where its interrupt can
+ * be responded to. The inbox page itself is redirected to the homepage.
+ * @param agentInboxId The ID of the agent inbox, in the format `assistantId:deploymentId`
+ * @param threadId The ID of the thread to open. If not given, opens a new chat with the agent.
+ */
+export function constructThreadUrl(
+  agentInboxId: string,
+  threadId?: string,
+): string {
+  const [agentId, deploymentId] = agentInboxId.split(":");
+  const params = new URLSearchParams({
+    agentId,
+    deploymentId,
+    ...(threadId ? { threadId } : {}),
+  });
+  return `/?${params.toString()}`;
+}
+
+/**
+ * Shows a desktop notification which opens `url` when clicked. Uses the service
+ * worker if it is registered, so clicks are handled even if the tab is in the
+ * background, falling back to the Notification constructor otherwise.
+ */
+export async function showNotification({
+  title,
+  body,
+  tag,
+  url,
+}: {
+  title: string;
+  body?: string;
+  tag: string;
+  url: string;
+}): Promise<void> {
+  if (!notificationsSupported() || Notification.permission !== "granted") {
+    return;
+  }
+
+  const registration = await registerNotificationsServiceWorker();
+  if (registration) {
+    await registration.showNotification(title, {
+      body,
+      tag,
+      data: { url },
+    });
+    return;
+  }
+
+  const notification = new Notification(title, { body, tag });
+  notification.onclick = () => {
+    window.focus();
+    window.location.href = url;
+    notification.close();
+  };
+}
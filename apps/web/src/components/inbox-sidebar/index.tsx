@@ -31,6 +31,10 @@ import { parseAsString, parseAsInteger, useQueryState } from "nuqs";
 import { useAgentsContext } from "@/providers/Agents";
 import { Agent } from "@/types/agent";
 import { useThreadsContext } from "../agent-inbox/contexts/ThreadContext";
+import {
+  UNREAD_COUNT_LIMIT,
+  useInboxUnreadCounts,
+} from "../agent-inbox/hooks/use-inbox-unread-counts";
 
 // Internal component that uses the context
 function InboxSidebarInternal() {
@@ -38,6 +42,7 @@ function InboxSidebarInternal() {
   const { agents, loading } = useAgentsContext();
   const [agentInboxId, setAgentInboxId] = useQueryState("agentInbox");
   const deployments = getDeployments();
+  const unreadCounts = useInboxUnreadCounts(agents);
 
   const [_offset, setOffset] = useQueryState(
     "offset",
@@ -139,6 +144,8 @@ function InboxSidebarInternal() {
                                   // Check if this agent is selected
                                   const agentId = `${agent.assistant_id}:${agent.deploymentId}`;
                                   const isSelected = agentInboxId === agentId;
+                                  const unreadCount =
+                                    unreadCounts[agentId] ?? 0;
 
                                   return (
                                     <SidebarMenuItem
@@ -175,6 +182,17 @@ function InboxSidebarInternal() {
                                                   ? "Default agent"
                                                   : label}
                                               </span>
+                                              {unreadCount > 0 && (
+                                                <span
+                                                  aria-label={`${unreadCount} unread`}
+                                                  className="ml-auto rounded-full bg-blue-500 px-1.5 text-xs leading-5 font-medium text-white"
+                                                >
+                                                  {unreadCount >=
+                                                  UNREAD_COUNT_LIMIT
+                                                    ? "99+"
+                                                    : unreadCount}
+                                                </span>
+                                              )}
                                             </SidebarMenuButton>
                                           </TooltipTrigger>
                                           <TooltipContent>
@@ -1,7 +1,7 @@
 "use client";
 
 import * as React from "react";
-import { Wrench, Bot, MessageCircle, Brain } from "lucide-react";
+import { Wrench, Bot, MessageCircle, Brain, Columns2 } from "lucide-react";
 
 import { NavMain } from "./nav-main";
 import { NavUser } from "./nav-user";
@@ -21,6 +21,11 @@ const data = {
       url: "/",
       icon: MessageCircle,
     },
+    {
+      title: "Compare",
+      url: "/compare",
+      icon: Columns2,
+    },
     {
       title: "Agents",
       url: "/agents",
@@ -4,19 +4,24 @@ import { SidebarProvider, SidebarInset } from "@/components/ui/sidebar";
 import { AppSidebar } from "./app-sidebar";
 import { AgentsProvider } from "@/providers/Agents";
 import { MCPProvider } from "@/providers/MCP";
+import { DeploymentsProvider } from "@/providers/Deployments";
 import { RagProvider } from "@/features/rag/providers/RAG";
+import { InterruptNotifier } from "@/components/agent-inbox/components/interrupt-notifier";
 
 export function SidebarLayout({ children }: { children: React.ReactNode }) {
   return (
     <SidebarProvider>
-      <MCPProvider>
-        <AgentsProvider>
-          <RagProvider>
-            <AppSidebar />
-            <SidebarInset>{children}</SidebarInset>
-          </RagProvider>
-        </AgentsProvider>
-      </MCPProvider>
+      <DeploymentsProvider>
+        <MCPProvider>
+          <AgentsProvider>
+            <RagProvider>
+              <InterruptNotifier />
+              <AppSidebar />
+              <SidebarInset>{children}</SidebarInset>
+            </RagProvider>
+          </AgentsProvider>
+        </MCPProvider>
+      </DeploymentsProvider>
     </SidebarProvider>
   );
 }
@@ -5,6 +5,7 @@ import {
   Bot,
   Brain,
   Cloud,
+  Download,
   Edit,
   MessageSquare,
   User,
@@ -25,6 +26,10 @@ import {
   TooltipTrigger,
 } from "@/components/ui/tooltip";
 import { isUserCreatedDefaultAssistant } from "@/lib/agent-utils";
+import { createAgentBundle, downloadAgentBundle } from "@/lib/agent-bundle";
+import { useRagContext } from "@/features/rag/providers/RAG";
+import { useAgents } from "@/hooks/use-agents";
+import { toast } from "sonner";
 
 function SupportedConfigBadge({
   type,
@@ -67,6 +72,8 @@ interface AgentCardProps {
 
 export function AgentCard({ agent, showDeployment }: AgentCardProps) {
   const [showEditDialog, setShowEditDialog] = useState(false);
+  const { collections } = useRagContext();
+  const { getAgentConfigSchema } = useAgents();
   const deployments = getDeployments();
   const selectedDeployment = deployments.find(
     (d) => d.id === agent.deploymentId,
@@ -74,6 +81,22 @@ export function AgentCard({ agent, showDeployment }: AgentCardProps) {
 
   const isDefaultAgent = isUserCreatedDefaultAssistant(agent);
 
+  const handleExport = async () => {
+    // The schema is needed to leave secret fields out of the bundle
+    const schema = await getAgentConfigSchema(
+      agent.assistant_id,
+      agent.deploymentId,
+    );
+    if (!schema) {
+      toast.error("Failed to export agent", {
+        description: "The agent's config schema could not be loaded.",
+        richColors: true,
+      });
+      return;
+    }
+    downloadAgentBundle(createAgentBundle(agent, collections, schema));
+  };
+
   return (
     <>
       <Card
@@ -141,6 +164,15 @@ export function AgentCard({ agent, showDeployment }: AgentCardProps) {
               Edit
             </Button>
           )}
+          <Button
+            variant="outline"
+            size="sm"
+            className={isDefaultAgent ? undefined : "ml-2"}
+            onClick={handleExport}
+          >
+            <Download className="mr-2 h-3.5 w-3.5" />
+            Export
+          </Button>
           <NextLink
             href={`/?agentId=${agent.assistant_id}&deploymentId=${agent.deploymentId}`}
             className="ml-auto"
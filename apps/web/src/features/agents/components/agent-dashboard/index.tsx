@@ -1,7 +1,7 @@
 "use client";
 
 import { useMemo, useState } from "react";
-import { Filter, Search } from "lucide-react";
+import { Filter, Search, Upload } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import {
@@ -13,6 +13,7 @@ import {
 } from "@/components/ui/select";
 import { AgentCard } from "../agent-card";
 import { CreateAgentDialog } from "../create-edit-agent-dialogs/create-agent-dialog";
+import { ImportAgentDialog } from "../import-agent-dialog";
 import { useAgentsContext } from "@/providers/Agents";
 import { getDeployments } from "@/lib/environment/deployments";
 import { GraphGroup } from "../../types";
@@ -25,6 +26,7 @@ export function AgentDashboard() {
   const [searchQuery, setSearchQuery] = useState("");
   const [graphFilter, setGraphFilter] = useState<string>("all");
   const [showCreateDialog, setShowCreateDialog] = useState(false);
+  const [showImportDialog, setShowImportDialog] = useState(false);
 
   const allGraphGroups: GraphGroup[] = useMemo(() => {
     if (agentsLoading) return [];
@@ -131,6 +133,13 @@ export function AgentDashboard() {
           {filteredAgents.length}{" "}
           {filteredAgents.length === 1 ? "Agent" : "Agents"}
         </h2>
+        <Button
+          variant="outline"
+          onClick={() => setShowImportDialog(true)}
+        >
+          <Upload className="mr-2 h-4 w-4" />
+          Import Agent
+        </Button>
       </div>
 
       {filteredAgents.length === 0 ? (
@@ -164,6 +173,10 @@ export function AgentDashboard() {
         open={showCreateDialog}
         onOpenChange={setShowCreateDialog}
       />
+      <ImportAgentDialog
+        open={showImportDialog}
+        onOpenChange={setShowImportDialog}
+      />
     </div>
   );
 }
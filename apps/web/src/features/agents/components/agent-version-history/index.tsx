@@ -0,0 +1,228 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { AssistantVersion } from "@langchain/langgraph-sdk";
+import { format } from "date-fns";
+import { ChevronDown, ChevronRight, History, RotateCcw } from "lucide-react";
+import { toast } from "sonner";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import { useAgents } from "@/hooks/use-agents";
+import { diffAgentVersions } from "@/lib/agent-version-diff";
+import { cn } from "@/lib/utils";
+import { Agent } from "@/types/agent";
+
+const formatDate = (date: string) => {
+  try {
+    return format(new Date(date), "MM/dd/yyyy - h:mm a");
+  } catch (e) {
+    console.error("Failed to format date", { date, error: e });
+    return "";
+  }
+};
+
+function DiffValue({ value }: { value: unknown }) {
+  if (value === undefined || value === null || value === "") {
+    return <span className="text-gray-400 italic">empty</span>;
+  }
+  return (
+    <pre className="font-mono text-xs break-all whitespace-pre-wrap">
+      {typeof value === "string" ? value : JSON.stringify(value, null, 2)}
+    </pre>
+  );
+}
+
+function VersionDiff({
+  before,
+  after,
+  fields,
+}: {
+  before: AssistantVersion | undefined;
+  after: AssistantVersion;
+  fields: { label: string; type?: string }[];
+}) {
+  if (!before) {
+    return (
+      <p className="text-sm text-gray-500">
+        {after.version === 1
+          ? "This is the first version of the agent."
+          : "The previous version is not available, so changes can't be shown."}
+      </p>
+    );
+  }
+  const diff = diffAgentVersions(before, after, fields);
+  if (!diff.length) {
+    return (
+      <p className="text-sm text-gray-500">
+        No changes from the previous version.
+      </p>
+    );
+  }
+  return (
+    <div className="flex flex-col gap-3">
+      {diff.map((entry) => (
+        <div
+          key={entry.key}
+          className="flex flex-col gap-1"
+        >
+          <p className="text-sm font-medium">{entry.label}</p>
+          <div className="grid grid-cols-2 gap-2">
+            <div className="rounded-md bg-red-50 p-2 text-red-900">
+              <DiffValue value={entry.before} />
+            </div>
+            <div className="rounded-md bg-green-50 p-2 text-green-900">
+              <DiffValue value={entry.after} />
+            </div>
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+interface AgentVersionHistoryProps {
+  agent: Agent;
+  /**
+   * The UI metadata of the agent's configurable fields. Used to
+   * order and label the fields in each version's diff.
+   */
+  fields: { label: string; type?: string }[];
+  /**
+   * Called with the updated agent after it has been rolled back to a previous version.
+   */
+  onRollback?: (agent: Agent) => void;
+}
+
+/**
+ * Lists the versions of an agent, showing a diff of what changed in each
+ * version, and allowing the agent to be rolled back to any previous version.
+ */
+export function AgentVersionHistory({
+  agent,
+  fields,
+  onRollback,
+}: AgentVersionHistoryProps) {
+  const { getAgentVersions, setLatestAgentVersion } = useAgents();
+  const [versions, setVersions] = useState<AssistantVersion[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [currentVersion, setCurrentVersion] = useState(agent.version);
+  const [expandedVersion, setExpandedVersion] = useState<number>();
+  const [rollingBackVersion, setRollingBackVersion] = useState<number>();
+
+  useEffect(() => {
+    setLoading(true);
+    getAgentVersions(agent.assistant_id, agent.deploymentId)
+      .then((v) =>
+        setVersions([...(v ?? [])].sort((a, b) => b.version - a.version)),
+      )
+      .finally(() => setLoading(false));
+  }, [agent.assistant_id, agent.deploymentId, getAgentVersions]);
+
+  const handleRollback = async (version: number) => {
+    setRollingBackVersion(version);
+    const updatedAgent = await setLatestAgentVersion(
+      agent.assistant_id,
+      agent.deploymentId,
+      version,
+    );
+    setRollingBackVersion(undefined);
+    if (!updatedAgent) return;
+
+    setCurrentVersion(updatedAgent.version);
+    toast.success(`Agent rolled back to version ${version}`, {
+      richColors: true,
+    });
+    onRollback?.(updatedAgent);
+  };
+
+  if (loading) {
+    return (
+      <div className="space-y-4">
+        <Skeleton className="h-12 w-full" />
+        <Skeleton className="h-12 w-full" />
+        <Skeleton className="h-12 w-full" />
+      </div>
+    );
+  }
+
+  if (!versions.length) {
+    return (
+      <div className="flex items-center justify-center gap-2 py-8 text-gray-500">
+        <History className="size-5" />
+        <p>No versions found</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex flex-col divide-y rounded-md border">
+      {versions.map((version, index) => {
+        const isExpanded = expandedVersion === version.version;
+        const isCurrent = version.version === currentVersion;
+        // Compared with the previous loaded version, as version numbers aren't
+        // guaranteed to be contiguous. The oldest version is shown as the
+        // baseline, rather than as adding every value.
+        const previousVersion = versions[index + 1];
+        return (
+          <div
+            key={version.version}
+            className="flex flex-col gap-3 p-3"
+          >
+            <div className="flex items-center justify-between gap-2">
+              <button
+                type="button"
+                className="flex items-center gap-2 text-left"
+                onClick={() =>
+                  setExpandedVersion(isExpanded ? undefined : version.version)
+                }
+              >
+                {isExpanded ? (
+                  <ChevronDown className="size-4" />
+                ) : (
+                  <ChevronRight className="size-4" />
+                )}
+                <div className="flex flex-col">
+                  <p className="flex items-center gap-2 text-sm font-medium">
+                    Version {version.version}
+                    {isCurrent && <Badge variant="info">Current</Badge>}
+                    {!previousVersion && (
+                      <Badge variant="outline">Baseline</Badge>
+                    )}
+                  </p>
+                  <p className="text-xs text-gray-500">
+                    {formatDate(version.created_at)}
+                  </p>
+                </div>
+              </button>
+              {!isCurrent && (
+                <Button
+                  type="button"
+                  variant="outline"
+                  size="sm"
+                  disabled={rollingBackVersion !== undefined}
+                  onClick={() => handleRollback(version.version)}
+                >
+                  <RotateCcw
+                    className={cn(
+                      "size-3.5",
+                      rollingBackVersion === version.version && "animate-spin",
+                    )}
+                  />
+                  Roll back
+                </Button>
+              )}
+            </div>
+            {isExpanded && (
+              <VersionDiff
+                before={previousVersion}
+                after={version}
+                fields={fields}
+              />
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -11,8 +11,11 @@ import {
   ConfigFieldRAG,
   ConfigFieldTool,
 } from "@/features/chat/components/configuration-sidebar/config-field";
+import { ConfigFieldGroups } from "@/features/chat/components/configuration-sidebar/config-field-groups";
 import { useSearchTools } from "@/hooks/use-search-tools";
 import { useMCPContext } from "@/providers/MCP";
+import { getSelectedToolKeys, getToolKey } from "@/lib/mcp-tools";
+import { ServerGroups } from "@/features/tools/components/server-groups";
 import {
   ConfigurableFieldAgentsMetadata,
   ConfigurableFieldMCPMetadata,
@@ -22,6 +25,10 @@ import {
 import _ from "lodash";
 import { useFetchPreselectedTools } from "@/hooks/use-fetch-preselected-tools";
 import { Controller, useFormContext } from "react-hook-form";
+import {
+  isConfigFieldVisible,
+  validateConfigField,
+} from "@/lib/config-validation";
 
 export function AgentFieldsFormLoading() {
   return (
@@ -60,17 +67,23 @@ export function AgentFieldsForm({
     config: Record<string, any>;
   }>();
 
-  const { tools, setTools, getTools, cursor, loading } = useMCPContext();
+  const config = form.watch("config");
+  const visibleConfigurations = configurations.filter((c) =>
+    isConfigFieldVisible(c, config),
+  );
+
+  const { tools, setTools, getMoreTools, hasMoreTools, loading } =
+    useMCPContext();
   const { toolSearchTerm, debouncedSetSearchTerm, displayTools } =
     useSearchTools(tools, {
-      preSelectedTools: toolConfigurations[0]?.default?.tools,
+      preSelectedTools: getSelectedToolKeys(toolConfigurations[0]?.default),
     });
 
   const { loadingMore, setLoadingMore } = useFetchPreselectedTools({
     tools,
     setTools,
-    getTools,
-    cursor,
+    getMoreTools,
+    hasMoreTools,
     toolConfigurations,
     searchTerm: toolSearchTerm,
   });
@@ -102,39 +115,48 @@ export function AgentFieldsForm({
       </div>
 
       <>
-        {configurations.length > 0 && (
+        {visibleConfigurations.length > 0 && (
           <>
             <Separator />
             <div className="flex w-full flex-col items-start justify-start gap-2 space-y-2">
               <p className="text-lg font-semibold tracking-tight">
                 Agent Configuration
               </p>
-              {configurations.map((c, index) => (
-                <Controller
-                  key={`${c.label}-${index}`}
-                  control={form.control}
-                  name={`config.${c.label}`}
-                  render={({ field: { value, onChange } }) => (
-                    <ConfigField
-                      className="w-full"
-                      id={c.label}
-                      label={c.label}
-                      type={
-                        c.type === "boolean" ? "switch" : (c.type ?? "text")
-                      }
-                      description={c.description}
-                      placeholder={c.placeholder}
-                      options={c.options}
-                      min={c.min}
-                      max={c.max}
-                      step={c.step}
-                      value={value}
-                      setValue={onChange}
-                      agentId={agentId}
-                    />
-                  )}
-                />
-              ))}
+              <ConfigFieldGroups
+                fields={visibleConfigurations}
+                invalidFields={Object.keys(form.formState.errors.config ?? {})}
+                renderField={(c) => (
+                  <Controller
+                    control={form.control}
+                    name={`config.${c.label}`}
+                    // Fields hidden by `visible_if` are unmounted, so they aren't validated
+                    rules={{
+                      validate: (value) => validateConfigField(c, value),
+                    }}
+                    render={({ field: { value, onChange }, fieldState }) => (
+                      <ConfigField
+                        className="w-full"
+                        id={c.label}
+                        label={c.label}
+                        type={
+                          c.type === "boolean" ? "switch" : (c.type ?? "text")
+                        }
+                        description={c.description}
+                        placeholder={c.placeholder}
+                        options={c.options}
+                        min={c.min}
+                        max={c.max}
+                        step={c.step}
+                        required={c.required}
+                        error={fieldState.error?.message}
+                        value={value}
+                        setValue={onChange}
+                        agentId={agentId}
+                      />
+                    )}
+                  />
+                )}
+              />
             </div>
           </>
         )}
@@ -152,28 +174,32 @@ export function AgentFieldsForm({
               />
               <div className="relative w-full flex-1 basis-[500px] rounded-md border-[1px] border-slate-200 px-4">
                 <div className="absolute inset-0 overflow-y-auto px-4">
-                  {toolConfigurations[0]?.label
-                    ? displayTools.map((c) => (
+                  {toolConfigurations[0]?.label ? (
+                    <ServerGroups
+                      items={displayTools}
+                      renderItem={(c) => (
                         <Controller
-                          key={`tool-${c.name}`}
+                          key={`tool-${getToolKey(c)}`}
                           control={form.control}
                           name={`config.${toolConfigurations[0].label}`}
                           render={({ field: { value, onChange } }) => (
                             <ConfigFieldTool
-                              key={`tool-${c.name}`}
-                              id={c.name}
+                              key={`tool-${getToolKey(c)}`}
+                              id={getToolKey(c)}
                               label={c.name}
                               description={c.description}
                               agentId={agentId}
                               toolId={toolConfigurations[0].label}
+                              serverId={c.serverId}
                               className="border-b-[1px] py-4"
                               value={value}
                               setValue={onChange}
                             />
                           )}
                         />
-                      ))
-                    : null}
+                      )}
+                    />
+                  ) : null}
                   {displayTools.length === 0 && toolSearchTerm && (
                     <p className="my-4 w-full text-center text-sm text-slate-500">
                       No tools found matching "{toolSearchTerm}".
@@ -184,7 +210,7 @@ export function AgentFieldsForm({
                       No tools available for this agent.
                     </p>
                   )}
-                  {cursor && !toolSearchTerm && (
+                  {hasMoreTools && !toolSearchTerm && (
                     <div className="flex justify-center py-4">
                       <Button
                         variant="outline"
@@ -192,7 +218,7 @@ export function AgentFieldsForm({
                         onClick={async () => {
                           try {
                             setLoadingMore(true);
-                            const moreTool = await getTools(cursor);
+                            const moreTool = await getMoreTools();
                             setTools((prevTools) => [
                               ...prevTools,
                               ...moreTool,
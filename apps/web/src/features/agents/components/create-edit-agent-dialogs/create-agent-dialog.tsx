@@ -57,6 +57,12 @@ function CreateAgentFormContent(props: {
   } = useAgentConfig();
   const [submitting, setSubmitting] = useState(false);
 
+  const handleInvalid = () => {
+    toast.warning("Please fix the errors in the agent configuration", {
+      richColors: true,
+    });
+  };
+
   const handleSubmit = async (data: {
     name: string;
     description: string;
@@ -100,7 +106,7 @@ function CreateAgentFormContent(props: {
   };
 
   return (
-    <form onSubmit={form.handleSubmit(handleSubmit)}>
+    <form onSubmit={form.handleSubmit(handleSubmit, handleInvalid)}>
       {loading ? (
         <AgentFieldsFormLoading />
       ) : (
@@ -17,6 +17,8 @@ import { useAgentsContext } from "@/providers/Agents";
 import { AgentFieldsForm, AgentFieldsFormLoading } from "./agent-form";
 import { Agent } from "@/types/agent";
 import { FormProvider, useForm } from "react-hook-form";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { AgentVersionHistory } from "../agent-version-history";
 
 interface EditAgentDialogProps {
   agent: Agent;
@@ -50,6 +52,10 @@ function EditAgentDialogContent({
     config: Record<string, any>;
   }>({ defaultValues: async () => getSchemaAndUpdateConfig(agent) });
 
+  const handleInvalid = () => {
+    toast.warning("Please fix the errors in the agent configuration");
+  };
+
   const handleSubmit = async (data: {
     name: string;
     description: string;
@@ -97,9 +103,14 @@ function EditAgentDialogContent({
     refreshAgents();
   };
 
+  const handleRollback = async (rolledBackAgent: Agent) => {
+    form.reset(await getSchemaAndUpdateConfig(rolledBackAgent));
+    refreshAgents();
+  };
+
   return (
     <AlertDialogContent className="h-auto max-h-[90vh] overflow-auto sm:max-w-lg md:max-w-2xl lg:max-w-3xl">
-      <form onSubmit={form.handleSubmit(handleSubmit)}>
+      <form onSubmit={form.handleSubmit(handleSubmit, handleInvalid)}>
         <AlertDialogHeader>
           <div className="flex items-start justify-between gap-4">
             <div className="flex flex-col gap-1.5">
@@ -115,19 +126,45 @@ function EditAgentDialogContent({
             </AlertDialogCancel>
           </div>
         </AlertDialogHeader>
-        {loading ? (
-          <AgentFieldsFormLoading />
-        ) : (
-          <FormProvider {...form}>
-            <AgentFieldsForm
-              configurations={configurations}
-              toolConfigurations={toolConfigurations}
-              agentId={agent.assistant_id}
-              ragConfigurations={ragConfigurations}
-              agentsConfigurations={agentsConfigurations}
+        <Tabs
+          defaultValue="configuration"
+          className="mt-4"
+        >
+          <TabsList>
+            <TabsTrigger value="configuration">Configuration</TabsTrigger>
+            <TabsTrigger value="history">History</TabsTrigger>
+          </TabsList>
+          <TabsContent value="configuration">
+            {loading ? (
+              <AgentFieldsFormLoading />
+            ) : (
+              <FormProvider {...form}>
+                <AgentFieldsForm
+                  configurations={configurations}
+                  toolConfigurations={toolConfigurations}
+                  agentId={agent.assistant_id}
+                  ragConfigurations={ragConfigurations}
+                  agentsConfigurations={agentsConfigurations}
+                />
+              </FormProvider>
+            )}
+          </TabsContent>
+          <TabsContent
+            value="history"
+            className="py-4"
+          >
+            <AgentVersionHistory
+              agent={agent}
+              fields={[
+                ...configurations,
+                ...toolConfigurations,
+                ...ragConfigurations,
+                ...agentsConfigurations,
+              ]}
+              onRollback={handleRollback}
             />
-          </FormProvider>
-        )}
+          </TabsContent>
+        </Tabs>
         <AlertDialogFooter>
           <Button
             onClick={handleDelete}
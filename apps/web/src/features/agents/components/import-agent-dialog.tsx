@@ -0,0 +1,289 @@
+import { Button } from "@/components/ui/button";
+import {
+  AlertDialog,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { AlertCircle, LoaderCircle, Upload, X } from "lucide-react";
+import { useEffect, useLayoutEffect, useRef, useState } from "react";
+import { toast } from "sonner";
+import { useAgents } from "@/hooks/use-agents";
+import { useAgentsContext } from "@/providers/Agents";
+import { useRagContext } from "@/features/rag/providers/RAG";
+import { getDeployments } from "@/lib/environment/deployments";
+import { isUserCreatedDefaultAssistant } from "@/lib/agent-utils";
+import {
+  AgentBundle,
+  parseAgentBundle,
+  prepareAgentBundleImport,
+} from "@/lib/agent-bundle";
+import { Agent } from "@/types/agent";
+import { Deployment } from "@/types/deployment";
+import { GraphSelect } from "./create-edit-agent-dialogs/graph-select";
+
+interface ImportAgentDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+function ImportAgentDialogContent({ onClose }: { onClose: () => void }) {
+  const { agents, refreshAgents } = useAgentsContext();
+  const { collections } = useRagContext();
+  const { getAgentConfigSchema, createAgent } = useAgents();
+  const deployments = getDeployments();
+
+  const [bundle, setBundle] = useState<AgentBundle>();
+  const [parseError, setParseError] = useState<string>();
+  const [selectedDeployment, setSelectedDeployment] = useState<Deployment>();
+  const [selectedGraph, setSelectedGraph] = useState<Agent>();
+  const [prepared, setPrepared] = useState<{
+    config: Record<string, any>;
+    warnings: string[];
+  }>();
+  const [preparing, setPreparing] = useState(false);
+  const [prepareError, setPrepareError] = useState<string>();
+  const [submitting, setSubmitting] = useState(false);
+
+  const handleFileChange = async (files: FileList | null) => {
+    setBundle(undefined);
+    setParseError(undefined);
+    setPrepared(undefined);
+    const file = files?.[0];
+    if (!file) return;
+
+    try {
+      const parsedBundle = parseAgentBundle(await file.text());
+      setBundle(parsedBundle);
+
+      // Default to the same graph on the default deployment, falling back to any deployment.
+      const matchingGraphs = agents.filter(
+        (a) =>
+          a.graph_id === parsedBundle.agent.graph_id &&
+          isUserCreatedDefaultAssistant(a),
+      );
+      const defaultDeploymentId = deployments.find((d) => d.isDefault)?.id;
+      const matchingGraph =
+        matchingGraphs.find((a) => a.deploymentId === defaultDeploymentId) ??
+        matchingGraphs[0];
+      setSelectedGraph(matchingGraph);
+      setSelectedDeployment(
+        deployments.find((d) => d.id === matchingGraph?.deploymentId),
+      );
+    } catch (e) {
+      setParseError(e instanceof Error ? e.message : String(e));
+    }
+  };
+
+  useEffect(() => {
+    setPrepared(undefined);
+    setPrepareError(undefined);
+    if (!bundle || !selectedGraph) return;
+
+    // Ignore the result if a different bundle or graph is selected meanwhile
+    let cancelled = false;
+    const prepareImport = async () => {
+      setPreparing(true);
+      try {
+        const schema = await getAgentConfigSchema(
+          selectedGraph.assistant_id,
+          selectedGraph.deploymentId,
+        );
+        if (cancelled) return;
+        if (!schema) {
+          setPrepareError(
+            "Failed to load the configuration schema of the target graph. Please try again, or select a different graph.",
+          );
+          return;
+        }
+        setPrepared(
+          prepareAgentBundleImport({
+            bundle,
+            targetAgent: selectedGraph,
+            schema,
+            collections,
+          }),
+        );
+      } catch (e) {
+        if (cancelled) return;
+        setPrepareError(e instanceof Error ? e.message : String(e));
+      } finally {
+        if (!cancelled) setPreparing(false);
+      }
+    };
+
+    prepareImport();
+    return () => {
+      cancelled = true;
+      setPreparing(false);
+    };
+  }, [bundle, selectedGraph, collections, getAgentConfigSchema]);
+
+  const handleImport = async () => {
+    if (!bundle || !prepared || !selectedGraph || !selectedDeployment) return;
+
+    setSubmitting(true);
+    const newAgent = await createAgent(
+      selectedDeployment.id,
+      selectedGraph.graph_id,
+      {
+        name: bundle.agent.name,
+        description: bundle.agent.description,
+        config: prepared.config,
+      },
+    );
+    setSubmitting(false);
+
+    if (!newAgent) {
+      toast.error("Failed to import agent", {
+        description: "Please try again",
+        richColors: true,
+      });
+      return;
+    }
+
+    toast.success("Agent imported successfully!", {
+      richColors: true,
+    });
+
+    onClose();
+    // Do not await so that the refresh is non-blocking
+    refreshAgents();
+  };
+
+  return (
+    <AlertDialogContent className="h-auto max-h-[90vh] overflow-auto sm:max-w-lg md:max-w-2xl">
+      <AlertDialogHeader>
+        <div className="flex items-start justify-between gap-4">
+          <div className="flex flex-col gap-1.5">
+            <AlertDialogTitle>Import Agent</AlertDialogTitle>
+            <AlertDialogDescription>
+              Create a new agent from an exported agent bundle.
+            </AlertDialogDescription>
+          </div>
+          <AlertDialogCancel size="icon">
+            <X className="size-4" />
+          </AlertDialogCancel>
+        </div>
+      </AlertDialogHeader>
+
+      <div className="flex flex-col gap-6 py-4">
+        <div className="flex w-full flex-col items-start justify-start gap-2">
+          <Label htmlFor="agent-bundle-file">Agent bundle</Label>
+          <Input
+            id="agent-bundle-file"
+            type="file"
+            accept="application/json,.json"
+            onChange={(e) => handleFileChange(e.target.files)}
+          />
+          {parseError && <p className="text-sm text-red-500">{parseError}</p>}
+        </div>
+
+        {bundle && (
+          <>
+            <div className="flex flex-col gap-1">
+              <p className="font-medium">{bundle.agent.name}</p>
+              {bundle.agent.description && (
+                <p className="text-muted-foreground text-sm">
+                  {bundle.agent.description}
+                </p>
+              )}
+              <p className="text-muted-foreground text-xs">
+                Exported from graph{" "}
+                <span className="font-mono">{bundle.agent.graph_id}</span>
+              </p>
+            </div>
+            <div className="flex w-full flex-col items-start justify-start gap-2">
+              <Label>Target graph</Label>
+              <GraphSelect
+                className="w-full"
+                agents={agents}
+                selectedGraph={selectedGraph}
+                setSelectedGraph={setSelectedGraph}
+                selectedDeployment={selectedDeployment}
+                setSelectedDeployment={setSelectedDeployment}
+              />
+            </div>
+          </>
+        )}
+
+        {preparing && (
+          <div className="text-muted-foreground flex items-center gap-2 text-sm">
+            <LoaderCircle className="size-4 animate-spin" />
+            <span>Validating configuration...</span>
+          </div>
+        )}
+
+        {prepareError && <p className="text-sm text-red-500">{prepareError}</p>}
+
+        {prepared && prepared.warnings.length > 0 && (
+          <Alert>
+            <AlertCircle className="size-4" />
+            <AlertTitle>Some values could not be imported</AlertTitle>
+            <AlertDescription>
+              <ul className="list-disc pl-4">
+                {prepared.warnings.map((warning) => (
+                  <li key={warning}>{warning}</li>
+                ))}
+              </ul>
+            </AlertDescription>
+          </Alert>
+        )}
+      </div>
+
+      <AlertDialogFooter>
+        <Button
+          onClick={(e) => {
+            e.preventDefault();
+            onClose();
+          }}
+          variant="outline"
+          disabled={submitting}
+        >
+          Cancel
+        </Button>
+        <Button
+          onClick={handleImport}
+          className="flex w-full items-center justify-center gap-1"
+          disabled={!prepared || preparing || submitting}
+        >
+          {submitting ? <LoaderCircle className="animate-spin" /> : <Upload />}
+          <span>{submitting ? "Importing..." : "Import Agent"}</span>
+        </Button>
+      </AlertDialogFooter>
+    </AlertDialogContent>
+  );
+}
+
+export function ImportAgentDialog({
+  open,
+  onOpenChange,
+}: ImportAgentDialogProps) {
+  const [openCounter, setOpenCounter] = useState(0);
+
+  const lastOpen = useRef(open);
+  useLayoutEffect(() => {
+    if (lastOpen.current !== open && open) {
+      setOpenCounter((c) => c + 1);
+    }
+    lastOpen.current = open;
+  }, [open, setOpenCounter]);
+
+  return (
+    <AlertDialog
+      open={open}
+      onOpenChange={onOpenChange}
+    >
+      <ImportAgentDialogContent
+        key={openCounter}
+        onClose={() => onOpenChange(false)}
+      />
+    </AlertDialog>
+  );
+}
@@ -0,0 +1,243 @@
+import { useEffect, useRef, useState } from "react";
+import { Checkpoint, Message } from "@langchain/langgraph-sdk";
+import { AlertCircle, Cloud, SquarePen, X } from "lucide-react";
+import { StickToBottom, useStickToBottomContext } from "use-stick-to-bottom";
+import {
+  StreamSession,
+  useStreamContext,
+} from "@/features/chat/providers/Stream";
+import {
+  AssistantMessage,
+  AssistantMessageLoading,
+} from "@/features/chat/components/thread/messages/ai";
+import { HumanMessage } from "@/features/chat/components/thread/messages/human";
+import { useConfigStore } from "@/features/chat/hooks/use-config-store";
+import { ensureToolCallsHaveResponses } from "@/features/chat/utils/tool-responses";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Badge } from "@/components/ui/badge";
+import { TooltipIconButton } from "@/components/ui/tooltip-icon-button";
+import { DO_NOT_RENDER_ID_PREFIX } from "@/constants";
+import { getDeployments } from "@/lib/environment/deployments";
+import { useAuthContext } from "@/providers/Auth";
+import { Agent } from "@/types/agent";
+
+/**
+ * A message which should be sent to every column. The ID is used to
+ * ensure each submission is only sent once per column.
+ */
+export type CompareSubmission = {
+  id: string;
+  message: Message;
+};
+
+interface CompareColumnProps {
+  agent: Agent;
+  submission: CompareSubmission | undefined;
+  /**
+   * Incremented by the parent to stop every column's in-flight run.
+   */
+  stopCounter: number;
+  onLoadingChange: (agentKey: string, isLoading: boolean) => void;
+  onRemove: () => void;
+}
+
+function CompareColumnMessages({
+  agent,
+  submission,
+  stopCounter,
+  onLoadingChange,
+  onNewThread,
+  onRemove,
+}: CompareColumnProps & {
+  onNewThread: () => void;
+}) {
+  const { session } = useAuthContext();
+  const stream = useStreamContext();
+  const { scrollRef, contentRef } = useStickToBottomContext();
+  // Seeded with the current values so a column added mid-comparison does not
+  // replay the last submission, or stop itself, on mount.
+  const lastSubmissionId = useRef(submission?.id);
+  const lastStopCounter = useRef(stopCounter);
+  const agentKey = `${agent.assistant_id}:${agent.deploymentId}`;
+  const deployment = getDeployments().find((d) => d.id === agent.deploymentId);
+
+  const getRunConfig = () => {
+    const { getAgentConfig } = useConfigStore.getState();
+    return {
+      configurable: {
+        ...getAgentConfig(agent.assistant_id),
+        "x-supabase-access-token": session?.accessToken,
+      },
+    };
+  };
+
+  useEffect(() => {
+    if (!submission || lastSubmissionId.current === submission.id) return;
+    lastSubmissionId.current = submission.id;
+
+    const toolMessages = ensureToolCallsHaveResponses(stream.messages);
+    stream.submit(
+      { messages: [...toolMessages, submission.message] },
+      {
+        streamMode: ["values"],
+        optimisticValues: (prev) => ({
+          ...prev,
+          messages: [
+            ...(prev.messages ?? []),
+            ...toolMessages,
+            submission.message,
+          ],
+        }),
+        config: getRunConfig(),
+        metadata: {
+          supabaseAccessToken: session?.accessToken,
+        },
+        streamSubgraphs: true,
+        streamResumable: true,
+      },
+    );
+  }, [submission]);
+
+  useEffect(() => {
+    if (lastStopCounter.current === stopCounter) return;
+    lastStopCounter.current = stopCounter;
+    stream.stop();
+  }, [stopCounter]);
+
+  useEffect(() => {
+    onLoadingChange(agentKey, stream.isLoading);
+  }, [agentKey, stream.isLoading, onLoadingChange]);
+
+  const handleRegenerate = (
+    parentCheckpoint: Checkpoint | null | undefined,
+    optimisticValues?: (prev: { messages?: Message[] }) => {
+      messages?: Message[] | undefined;
+    },
+  ) => {
+    stream.submit(undefined, {
+      checkpoint: parentCheckpoint,
+      streamMode: ["values"],
+      config: getRunConfig(),
+      optimisticValues,
+      metadata: {
+        supabaseAccessToken: session?.accessToken,
+      },
+      streamSubgraphs: true,
+      streamResumable: true,
+    });
+  };
+
+  const errorMessage = stream.error
+    ? ((stream.error as any).message ?? String(stream.error))
+    : undefined;
+  const hasNoAIOrToolMessages = !stream.messages.find(
+    (m) => m.type === "ai" || m.type === "tool",
+  );
+
+  return (
+    <div className="flex h-full min-w-80 flex-1 flex-col overflow-hidden rounded-lg border">
+      <div className="flex flex-shrink-0 items-center justify-between gap-2 border-b p-3">
+        <div className="flex min-w-0 flex-col gap-1">
+          <p className="truncate text-sm font-semibold">{agent.name}</p>
+          {deployment && (
+            <Badge variant="outline">
+              <Cloud />
+              {deployment.name}
+            </Badge>
+          )}
+        </div>
+        <div className="flex items-center gap-1">
+          <TooltipIconButton
+            tooltip="New thread"
+            variant="ghost"
+            onClick={onNewThread}
+          >
+            <SquarePen className="size-4" />
+          </TooltipIconButton>
+          <TooltipIconButton
+            tooltip="Remove from comparison"
+            variant="ghost"
+            onClick={onRemove}
+          >
+            <X className="size-4" />
+          </TooltipIconButton>
+        </div>
+      </div>
+      <div
+        ref={scrollRef}
+        className="flex-1 overflow-y-auto px-4 [&::-webkit-scrollbar]:w-1.5 [&::-webkit-scrollbar-thumb]:rounded-full [&::-webkit-scrollbar-thumb]:bg-gray-300 [&::-webkit-scrollbar-track]:bg-transparent"
+      >
+        <div
+          ref={contentRef}
+          className="flex flex-col gap-4 py-4"
+        >
+          {stream.messages
+            .filter((m) => !m.id?.startsWith(DO_NOT_RENDER_ID_PREFIX))
+            .map((message, index) =>
+              message.type === "human" ? (
+                <HumanMessage
+                  key={message.id || `${message.type}-${index}`}
+                  message={message}
+                  isLoading={stream.isLoading}
+                  agentId={agent.assistant_id}
+                />
+              ) : (
+                <AssistantMessage
+                  key={message.id || `${message.type}-${index}`}
+                  message={message}
+                  isLoading={stream.isLoading}
+                  handleRegenerate={handleRegenerate}
+                />
+              ),
+            )}
+          {hasNoAIOrToolMessages && !!stream.interrupt && (
+            <AssistantMessage
+              key="interrupt-msg"
+              message={undefined}
+              isLoading={stream.isLoading}
+              handleRegenerate={handleRegenerate}
+            />
+          )}
+          {stream.isLoading && <AssistantMessageLoading />}
+          {errorMessage && (
+            <Alert variant="destructive">
+              <AlertCircle className="size-4" />
+              <AlertTitle>An error occurred:</AlertTitle>
+              <AlertDescription>{errorMessage}</AlertDescription>
+            </Alert>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+/**
+ * A single column in the comparison view. Each column streams from its own
+ * agent, on its own thread.
+ */
+export function CompareColumn(props: CompareColumnProps) {
+  const { agent } = props;
+  const { session } = useAuthContext();
+  const [threadId, setThreadId] = useState<string | null>(null);
+  const useLangSmithAuth =
+    process.env.NEXT_PUBLIC_USE_LANGSMITH_AUTH === "true";
+
+  return (
+    <StreamSession
+      agentId={agent.assistant_id}
+      deploymentId={agent.deploymentId}
+      accessToken={session?.accessToken ?? undefined}
+      useLangSmithAuth={useLangSmithAuth}
+      threadId={threadId}
+      setThreadId={setThreadId}
+    >
+      <StickToBottom className="flex h-full min-w-80 flex-1 overflow-hidden">
+        <CompareColumnMessages
+          {...props}
+          onNewThread={() => setThreadId(null)}
+        />
+      </StickToBottom>
+    </StreamSession>
+  );
+}
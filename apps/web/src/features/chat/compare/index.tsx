@@ -0,0 +1,196 @@
+"use client";
+
+import React, { FormEvent, useCallback, useState } from "react";
+import { v4 as uuidv4 } from "uuid";
+import { Columns2, LoaderCircle, SquarePen } from "lucide-react";
+import { parseAsArrayOf, parseAsString, useQueryState } from "nuqs";
+import { AgentsCombobox } from "@/components/ui/agents-combobox";
+import { Button } from "@/components/ui/button";
+import {
+  Tooltip,
+  TooltipContent,
+  TooltipProvider,
+  TooltipTrigger,
+} from "@/components/ui/tooltip";
+import { useAgentsContext } from "@/providers/Agents";
+import { useApiKeyNames } from "@/hooks/use-api-keys";
+import { requiresApiKeysButNotSet } from "@/lib/agent-utils";
+import { CompareColumn, CompareSubmission } from "./components/compare-column";
+
+const MIN_AGENTS = 2;
+
+/**
+ * Sends the same human message to multiple agents at once, and streams each
+ * agent's response in its own column. Every column runs on its own thread.
+ */
+export default function CompareInterface(): React.ReactNode {
+  const { agents, loading } = useAgentsContext();
+  const apiKeyNames = useApiKeyNames();
+  const [selectedAgents, setSelectedAgents] = useQueryState(
+    "agents",
+    parseAsArrayOf(parseAsString).withDefault([]),
+  );
+  const [open, setOpen] = useState(false);
+  const [input, setInput] = useState("");
+  const [submission, setSubmission] = useState<CompareSubmission>();
+  const [stopCounter, setStopCounter] = useState(0);
+  const [resetCounter, setResetCounter] = useState(0);
+  const [loadingAgents, setLoadingAgents] = useState<string[]>([]);
+
+  const columns = selectedAgents.flatMap((value) => {
+    const [agentId, deploymentId] = value.split(":");
+    const agent = agents.find(
+      (a) => a.assistant_id === agentId && a.deploymentId === deploymentId,
+    );
+    return agent ? [{ value, agent }] : [];
+  });
+  const isLoading = loadingAgents.length > 0;
+  const missingApiKeys = columns.some(({ agent }) =>
+    requiresApiKeysButNotSet(agent.deploymentId, apiKeyNames),
+  );
+
+  const handleLoadingChange = useCallback(
+    (agentKey: string, agentLoading: boolean) => {
+      setLoadingAgents((prev) => {
+        const withoutAgent = prev.filter((k) => k !== agentKey);
+        return agentLoading ? [...withoutAgent, agentKey] : withoutAgent;
+      });
+    },
+    [],
+  );
+
+  const handleRemove = (value: string) => {
+    setSelectedAgents(selectedAgents.filter((v) => v !== value));
+    handleLoadingChange(value, false);
+  };
+
+  const handleNewComparison = () => {
+    setSubmission(undefined);
+    setLoadingAgents([]);
+    setResetCounter((c) => c + 1);
+  };
+
+  const handleSubmit = (e: FormEvent) => {
+    e.preventDefault();
+    if (!input.trim() || isLoading || columns.length < MIN_AGENTS) return;
+
+    setSubmission({
+      id: uuidv4(),
+      message: {
+        id: uuidv4(),
+        type: "human",
+        content: [{ type: "text", text: input }],
+      },
+    });
+    setInput("");
+  };
+
+  return (
+    <div className="flex h-[calc(100vh-64px)] w-full flex-col gap-4 overflow-hidden p-4">
+      <div className="flex flex-shrink-0 items-center justify-between gap-2">
+        <AgentsCombobox
+          agents={agents}
+          agentsLoading={loading}
+          value={selectedAgents}
+          setValue={(v) =>
+            setSelectedAgents(Array.isArray(v) ? v : v ? [v] : [])
+          }
+          open={open}
+          setOpen={setOpen}
+          multiple
+          placeholder="Select agents to compare..."
+        />
+        <Button
+          variant="outline"
+          onClick={handleNewComparison}
+          disabled={isLoading}
+        >
+          <SquarePen />
+          New comparison
+        </Button>
+      </div>
+
+      {columns.length < MIN_AGENTS ? (
+        <div className="flex flex-1 flex-col items-center justify-center gap-2 text-gray-500">
+          <Columns2 className="size-8" />
+          <p>Select at least {MIN_AGENTS} agents to compare their responses.</p>
+        </div>
+      ) : (
+        <div className="flex flex-1 gap-4 overflow-x-auto overflow-y-hidden">
+          {columns.map(({ value, agent }) => (
+            <CompareColumn
+              key={`${value}-${resetCounter}`}
+              agent={agent}
+              submission={submission}
+              stopCounter={stopCounter}
+              onLoadingChange={handleLoadingChange}
+              onRemove={() => handleRemove(value)}
+            />
+          ))}
+        </div>
+      )}
+
+      <form
+        onSubmit={handleSubmit}
+        className="bg-muted mx-auto flex w-full max-w-3xl flex-shrink-0 flex-col rounded-2xl border shadow-xs"
+      >
+        <textarea
+          value={input}
+          onChange={(e) => setInput(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === "Enter" && !e.shiftKey && !e.metaKey) {
+              e.preventDefault();
+              const el = e.target as HTMLElement | undefined;
+              const form = el?.closest("form");
+              form?.requestSubmit();
+            }
+          }}
+          placeholder="Send the same message to every agent..."
+          className="field-sizing-content resize-none border-none bg-transparent p-3.5 pb-0 shadow-none ring-0 outline-none focus:ring-0 focus:outline-none"
+        />
+        <div className="flex items-center justify-end p-2 pt-4">
+          {isLoading ? (
+            <Button
+              key="stop"
+              type="button"
+              onClick={() => setStopCounter((c) => c + 1)}
+            >
+              <LoaderCircle className="h-4 w-4 animate-spin" />
+              Cancel
+            </Button>
+          ) : missingApiKeys ? (
+            <TooltipProvider>
+              <Tooltip>
+                <TooltipTrigger asChild>
+                  <div className="inline-block">
+                    <Button
+                      type="submit"
+                      className="shadow-md transition-all"
+                      disabled
+                    >
+                      Send
+                    </Button>
+                  </div>
+                </TooltipTrigger>
+                <TooltipContent>
+                  <p>
+                    API keys are required but not set. Please provide them in
+                    the settings.
+                  </p>
+                </TooltipContent>
+              </Tooltip>
+            </TooltipProvider>
+          ) : (
+            <Button
+              type="submit"
+              className="shadow-md transition-all"
+              disabled={!input.trim() || columns.length < MIN_AGENTS}
+            >
+              Send
+            </Button>
+          )}
+        </div>
+      </form>
+    </div>
+  );
+}
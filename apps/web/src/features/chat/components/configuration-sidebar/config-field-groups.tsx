@@ -0,0 +1,166 @@
+"use client";
+
+import { ReactNode, useId, useState } from "react";
+import { ChevronDown, ChevronRight } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Collapsible,
+  CollapsibleContent,
+  CollapsibleTrigger,
+} from "@/components/ui/collapsible";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Search } from "@/components/ui/tool-search";
+import {
+  configFieldMatchesSearch,
+  DEFAULT_CONFIG_SECTION,
+  groupConfigFields,
+} from "@/lib/config-sections";
+import { cn } from "@/lib/utils";
+import { ConfigurableFieldUIMetadata } from "@/types/configurable";
+
+interface ConfigFieldGroupsProps {
+  fields: ConfigurableFieldUIMetadata[];
+  renderField: (field: ConfigurableFieldUIMetadata) => ReactNode;
+  /**
+   * The labels of fields with validation errors. These are always shown, so
+   * the errors can be fixed.
+   */
+  invalidFields?: string[];
+  className?: string;
+}
+
+/**
+ * Renders config fields in collapsible sections, with a search across field
+ * labels and descriptions, and a toggle for advanced fields. Searching also
+ * finds advanced fields.
+ *
+ * Fields which are filtered out or collapsed stay mounted, but hidden, so
+ * form validation still applies to them.
+ */
+export function ConfigFieldGroups({
+  fields,
+  renderField,
+  invalidFields = [],
+  className,
+}: ConfigFieldGroupsProps) {
+  const [searchTerm, setSearchTerm] = useState("");
+  const [showAdvanced, setShowAdvanced] = useState(false);
+  const [closedSections, setClosedSections] = useState<string[]>([]);
+  const advancedSwitchId = useId();
+
+  const isSearching = !!searchTerm.trim();
+  const sections = groupConfigFields(fields);
+  const hasAdvancedFields = fields.some((f) => f.advanced);
+  const isFieldShown = (field: ConfigurableFieldUIMetadata) =>
+    invalidFields.includes(field.label) ||
+    (configFieldMatchesSearch(field, searchTerm) &&
+      (!field.advanced || showAdvanced || isSearching));
+  const shownCount = fields.filter(isFieldShown).length;
+  // Graphs which don't use sections are shown as a flat list
+  const isFlat =
+    sections.length === 1 && sections[0].title === DEFAULT_CONFIG_SECTION;
+
+  const toggleSection = (title: string) => {
+    setClosedSections((prev) =>
+      prev.includes(title) ? prev.filter((t) => t !== title) : [...prev, title],
+    );
+  };
+
+  const renderFields = (sectionFields: ConfigurableFieldUIMetadata[]) =>
+    sectionFields.map((field) => (
+      <div
+        key={field.label}
+        className={cn(!isFieldShown(field) && "hidden")}
+      >
+        {renderField(field)}
+      </div>
+    ));
+
+  return (
+    <div className={cn("flex w-full flex-col gap-4", className)}>
+      <div className="flex w-full items-center gap-4">
+        <Search
+          onSearchChange={setSearchTerm}
+          placeholder="Search fields..."
+          className="flex-1"
+        />
+        {hasAdvancedFields && (
+          <div className="flex shrink-0 items-center gap-2">
+            <Switch
+              id={advancedSwitchId}
+              checked={showAdvanced}
+              onCheckedChange={setShowAdvanced}
+            />
+            <Label
+              htmlFor={advancedSwitchId}
+              className="text-sm"
+            >
+              Show advanced
+            </Label>
+          </div>
+        )}
+      </div>
+
+      {shownCount === 0 && (
+        <p className="text-center text-sm text-slate-500">
+          {isSearching
+            ? `No fields found matching "${searchTerm.trim()}".`
+            : 'All fields are advanced. Turn on "Show advanced" to see them.'}
+        </p>
+      )}
+
+      {isFlat ? (
+        <div className="flex flex-col gap-4">
+          {renderFields(sections[0].fields)}
+        </div>
+      ) : (
+        sections.map((section) => {
+          const sectionShownCount = section.fields.filter(isFieldShown).length;
+          const hasInvalidField = section.fields.some((f) =>
+            invalidFields.includes(f.label),
+          );
+          const open =
+            isSearching ||
+            hasInvalidField ||
+            !closedSections.includes(section.title);
+          return (
+            <Collapsible
+              key={section.title}
+              open={open}
+              onOpenChange={() => toggleSection(section.title)}
+              className={cn(
+                "rounded-md border border-slate-200",
+                sectionShownCount === 0 && "hidden",
+              )}
+            >
+              <CollapsibleTrigger asChild>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  className="w-full justify-start gap-2 px-3"
+                >
+                  {open ? (
+                    <ChevronDown className="size-4" />
+                  ) : (
+                    <ChevronRight className="size-4" />
+                  )}
+                  <span className="font-medium">{section.title}</span>
+                  <span className="text-xs text-gray-500">
+                    {sectionShownCount}
+                  </span>
+                </Button>
+              </CollapsibleTrigger>
+              <CollapsibleContent
+                forceMount
+                className="flex flex-col gap-4 px-3 pt-2 pb-4 data-[state=closed]:hidden"
+              >
+                {renderFields(section.fields)}
+              </CollapsibleContent>
+            </Collapsible>
+          );
+        })
+      )}
+    </div>
+  );
+}
@@ -33,20 +33,26 @@ import { Alert, AlertDescription } from "@/components/ui/alert";
 import { Button } from "@/components/ui/button";
 import _ from "lodash";
 import { cn } from "@/lib/utils";
+import {
+  getSelectedToolKeys,
+  getToolKey,
+  setToolSelected,
+} from "@/lib/mcp-tools";
 import {
   ConfigurableFieldAgentsMetadata,
   ConfigurableFieldMCPMetadata,
+  ConfigurableFieldModelOption,
   ConfigurableFieldRAGMetadata,
 } from "@/types/configurable";
 import { AgentsCombobox } from "@/components/ui/agents-combobox";
 import { useAgentsContext } from "@/providers/Agents";
 import { getDeployments } from "@/lib/environment/deployments";
 import { toast } from "sonner";
-
-interface Option {
-  label: string;
-  value: string;
-}
+import { MultiselectField } from "./fields/multiselect-field";
+import { KeyValueField } from "./fields/key-value-field";
+import { ModelField } from "./fields/model-field";
+import { CodeField } from "./fields/code-field";
+import { SecretField } from "./fields/secret-field";
 
 interface ConfigFieldProps {
   id: string;
@@ -58,13 +64,23 @@ interface ConfigFieldProps {
     | "switch"
     | "slider"
     | "select"
-    | "json";
+    | "json"
+    | "multiselect"
+    | "kv"
+    | "model"
+    | "code"
+    | "secret";
   description?: string;
   placeholder?: string;
-  options?: Option[];
+  options?: ConfigurableFieldModelOption[];
   min?: number;
   max?: number;
   step?: number;
+  required?: boolean;
+  /**
+   * A validation error to show below the field.
+   */
+  error?: string;
   className?: string;
   // Optional props for external state management
   value?: any;
@@ -82,6 +98,8 @@ export function ConfigField({
   min,
   max,
   step = 1,
+  required,
+  error,
   className,
   value: externalValue, // Rename to avoid conflict
   setValue: externalSetValue, // Rename to avoid conflict
@@ -152,6 +170,7 @@ export function ConfigField({
           className="text-sm font-medium"
         >
           {_.startCase(label)}
+          {required && <span className="text-red-500"> *</span>}
         </Label>
         {type === "switch" && (
           <Switch
@@ -174,6 +193,7 @@ export function ConfigField({
           value={currentValue || ""} // Use currentValue
           onChange={(e) => handleChange(e.target.value)}
           placeholder={placeholder}
+          aria-invalid={!!error}
         />
       )}
 
@@ -184,6 +204,7 @@ export function ConfigField({
           onChange={(e) => handleChange(e.target.value)}
           placeholder={placeholder}
           className="min-h-[100px]"
+          aria-invalid={!!error}
         />
       )}
 
@@ -209,6 +230,7 @@ export function ConfigField({
           min={min}
           max={max}
           step={step}
+          aria-invalid={!!error}
         />
       )}
 
@@ -250,7 +272,7 @@ export function ConfigField({
           value={currentValue ?? ""} // Use currentValue, provide default empty string if undefined/null
           onValueChange={handleChange}
         >
-          <SelectTrigger>
+          <SelectTrigger aria-invalid={!!error}>
             {/* Display selected value or placeholder */}
             <SelectValue placeholder={placeholder || "Select an option"} />
           </SelectTrigger>
@@ -318,6 +340,59 @@ export function ConfigField({
           </div>
         </>
       )}
+
+      {type === "multiselect" && (
+        <MultiselectField
+          id={id}
+          value={currentValue}
+          onChange={handleChange}
+          options={options}
+          placeholder={placeholder}
+          invalid={!!error}
+        />
+      )}
+
+      {type === "kv" && (
+        <KeyValueField
+          id={id}
+          value={currentValue}
+          onChange={handleChange}
+        />
+      )}
+
+      {type === "model" && (
+        <ModelField
+          id={id}
+          value={currentValue}
+          onChange={handleChange}
+          options={options}
+          placeholder={placeholder}
+          invalid={!!error}
+        />
+      )}
+
+      {type === "code" && (
+        <CodeField
+          id={id}
+          value={currentValue}
+          onChange={handleChange}
+          placeholder={placeholder}
+          invalid={!!error}
+        />
+      )}
+
+      {type === "secret" && (
+        <SecretField
+          id={id}
+          value={currentValue}
+          onChange={handleChange}
+          placeholder={placeholder}
+          invalid={!!error}
+        />
+      )}
+
+      {/* The JSON field shows its own error while the JSON can't be parsed */}
+      {error && !jsonError && <p className="text-xs text-red-500">{error}</p>}
     </div>
   );
 }
@@ -329,6 +404,7 @@ export function ConfigFieldTool({
   agentId,
   className,
   toolId,
+  serverId,
   value: externalValue, // Rename to avoid conflict
   setValue: externalSetValue, // Rename to avoid conflict
 }: Pick<
@@ -340,7 +416,7 @@ export function ConfigFieldTool({
   | "className"
   | "value"
   | "setValue"
-> & { toolId: string }) {
+> & { toolId: string; serverId: string }) {
   const store = useConfigStore();
   const actualAgentId = `${agentId}:selected-tools`;
 
@@ -356,21 +432,16 @@ export function ConfigFieldTool({
     return null;
   }
 
-  const checked = defaults.tools?.some((t) => t === label);
+  const checked = getSelectedToolKeys(defaults).includes(
+    getToolKey({ name: label, serverId }),
+  );
 
   const handleCheckedChange = (checked: boolean) => {
-    const newValue = checked
-      ? {
-          ...defaults,
-          // Remove duplicates
-          tools: Array.from(
-            new Set<string>([...(defaults.tools || []), label]),
-          ),
-        }
-      : {
-          ...defaults,
-          tools: defaults.tools?.filter((t) => t !== label),
-        };
+    const newValue = setToolSelected(
+      defaults,
+      { name: label, serverId },
+      checked,
+    );
 
     if (isExternallyManaged) {
       externalSetValue(newValue);
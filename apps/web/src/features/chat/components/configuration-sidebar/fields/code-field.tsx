@@ -0,0 +1,122 @@
+"use client";
+
+import { Fragment, useRef } from "react";
+import _ from "lodash";
+import { Badge } from "@/components/ui/badge";
+import { cn } from "@/lib/utils";
+
+// Matches `{variable}` placeholders, and `{{` / `}}`, which are escaped braces
+const TOKEN_REGEX = /(\{\{|\}\}|\{[A-Za-z_][A-Za-z0-9_]*\})/g;
+
+function getVariables(text: string): string[] {
+  return _.uniq(
+    (text.match(TOKEN_REGEX) ?? [])
+      .filter((token) => token !== "{{" && token !== "}}")
+      .map((token) => token.slice(1, -1)),
+  );
+}
+
+function HighlightedText({ text }: { text: string }) {
+  return text.split(TOKEN_REGEX).map((part, index) => {
+    if (index % 2 === 0) {
+      return <Fragment key={index}>{part}</Fragment>;
+    }
+    return (
+      <span
+        key={index}
+        className={
+          part === "{{" || part === "}}"
+            ? "text-gray-400"
+            : "rounded-sm bg-blue-100 text-blue-700"
+        }
+      >
+        {part}
+      </span>
+    );
+  });
+}
+
+interface CodeFieldProps {
+  id: string;
+  value: string | undefined;
+  onChange: (value: string) => void;
+  placeholder?: string;
+  invalid?: boolean;
+}
+
+/**
+ * A monospace prompt editor which highlights `{variable}` placeholders, and
+ * lists the variables the prompt uses below it.
+ *
+ * The text is typed into a transparent textarea, laid over a copy of the text
+ * with the placeholders highlighted.
+ */
+export function CodeField({
+  id,
+  value,
+  onChange,
+  placeholder,
+  invalid,
+}: CodeFieldProps) {
+  const highlightRef = useRef<HTMLPreElement>(null);
+  const text = value ?? "";
+  const variables = getVariables(text);
+
+  const sharedClassName =
+    "min-h-[160px] w-full px-3 py-2 font-mono text-sm leading-6 whitespace-pre-wrap break-words";
+
+  return (
+    <div className="flex flex-col gap-2">
+      <div
+        className={cn(
+          "focus-within:ring-ring/50 relative overflow-hidden rounded-md border shadow-xs focus-within:ring-[3px]",
+          invalid && "border-destructive",
+        )}
+      >
+        <pre
+          ref={highlightRef}
+          aria-hidden
+          className={cn(
+            sharedClassName,
+            "pointer-events-none absolute inset-0 m-0 overflow-hidden",
+          )}
+        >
+          <HighlightedText text={text} />
+          {/* Keeps a trailing newline's height */}
+          {"\n"}
+        </pre>
+        <textarea
+          id={id}
+          value={text}
+          onChange={(e) => onChange(e.target.value)}
+          onScroll={(e) => {
+            if (highlightRef.current) {
+              highlightRef.current.scrollTop = e.currentTarget.scrollTop;
+            }
+          }}
+          placeholder={placeholder}
+          spellCheck={false}
+          aria-invalid={invalid}
+          className={cn(
+            sharedClassName,
+            "relative block resize-y bg-transparent text-transparent caret-black outline-none placeholder:text-gray-400",
+          )}
+        />
+      </div>
+      {variables.length > 0 && (
+        <div className="flex flex-wrap items-center gap-1">
+          <span className="text-xs text-gray-500">Variables:</span>
+          {variables.map((variable) => (
+            <Badge
+              key={variable}
+              variant="info"
+              className="font-mono"
+            >
+              {variable}
+            </Badge>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,112 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Plus, Trash2 } from "lucide-react";
+import _ from "lodash";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+
+type Row = { key: string; value: string };
+
+function rowsToRecord(rows: Row[]): Record<string, string> {
+  return Object.fromEntries(
+    rows
+      .filter((row) => row.key.trim())
+      .map((row) => [row.key.trim(), row.value]),
+  );
+}
+
+function recordToRows(record: Record<string, string> | undefined): Row[] {
+  return Object.entries(record ?? {}).map(([key, value]) => ({ key, value }));
+}
+
+interface KeyValueFieldProps {
+  id: string;
+  value: Record<string, string> | undefined;
+  onChange: (value: Record<string, string>) => void;
+}
+
+/**
+ * An editor for a map of strings to strings, with a row per entry. Rows
+ * without a key are kept while editing, but are not part of the value.
+ */
+export function KeyValueField({ id, value, onChange }: KeyValueFieldProps) {
+  const [rows, setRows] = useState<Row[]>(() => recordToRows(value));
+
+  // Replace the rows if the value is changed elsewhere, e.g. reset
+  useEffect(() => {
+    if (!_.isEqual(rowsToRecord(rows), value ?? {})) {
+      setRows(recordToRows(value));
+    }
+  }, [value]);
+
+  const updateRows = (newRows: Row[]) => {
+    setRows(newRows);
+    onChange(rowsToRecord(newRows));
+  };
+
+  const keyCounts = _.countBy(rows.map((row) => row.key.trim()));
+
+  return (
+    <div
+      id={id}
+      className="flex flex-col gap-2"
+    >
+      {rows.map((row, index) => {
+        const isDuplicate = !!row.key.trim() && keyCounts[row.key.trim()] > 1;
+        return (
+          <div
+            key={index}
+            className="flex items-center gap-2"
+          >
+            <Input
+              aria-label="Key"
+              placeholder="Key"
+              value={row.key}
+              aria-invalid={isDuplicate}
+              title={isDuplicate ? "Duplicate key" : undefined}
+              onChange={(e) =>
+                updateRows(
+                  rows.map((r, i) =>
+                    i === index ? { ...r, key: e.target.value } : r,
+                  ),
+                )
+              }
+            />
+            <Input
+              aria-label="Value"
+              placeholder="Value"
+              value={row.value}
+              onChange={(e) =>
+                updateRows(
+                  rows.map((r, i) =>
+                    i === index ? { ...r, value: e.target.value } : r,
+                  ),
+                )
+              }
+            />
+            <Button
+              type="button"
+              variant="ghost"
+              size="icon"
+              aria-label="Remove entry"
+              onClick={() => updateRows(rows.filter((_, i) => i !== index))}
+            >
+              <Trash2 className="size-4" />
+            </Button>
+          </div>
+        );
+      })}
+      <Button
+        type="button"
+        variant="outline"
+        size="sm"
+        className="w-fit"
+        onClick={() => setRows([...rows, { key: "", value: "" }])}
+      >
+        <Plus className="size-4" />
+        Add entry
+      </Button>
+    </div>
+  );
+}
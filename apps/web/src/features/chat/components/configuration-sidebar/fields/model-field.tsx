@@ -0,0 +1,139 @@
+"use client";
+
+import { useState } from "react";
+import { Check, ChevronsUpDown } from "lucide-react";
+import _ from "lodash";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Command,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+} from "@/components/ui/command";
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from "@/components/ui/popover";
+import { cn } from "@/lib/utils";
+import { ConfigurableFieldModelOption } from "@/types/configurable";
+
+function getProvider(option: ConfigurableFieldModelOption) {
+  return option.provider ?? option.value.split(/[/:]/)[0];
+}
+
+function CapabilityBadges({ capabilities }: { capabilities?: string[] }) {
+  if (!capabilities?.length) {
+    return null;
+  }
+  return (
+    <span className="flex flex-wrap gap-1">
+      {capabilities.map((capability) => (
+        <Badge
+          key={capability}
+          variant="outline"
+          className="text-[10px]"
+        >
+          {capability}
+        </Badge>
+      ))}
+    </span>
+  );
+}
+
+interface ModelFieldProps {
+  id: string;
+  value: string | undefined;
+  onChange: (value: string) => void;
+  options: ConfigurableFieldModelOption[];
+  placeholder?: string;
+  invalid?: boolean;
+}
+
+/**
+ * A searchable model picker. Models are grouped by provider, and shown with
+ * badges for their capabilities.
+ */
+export function ModelField({
+  id,
+  value,
+  onChange,
+  options,
+  placeholder,
+  invalid,
+}: ModelFieldProps) {
+  const [open, setOpen] = useState(false);
+  const selectedOption = options.find((o) => o.value === value);
+  const optionsByProvider = _.groupBy(options, getProvider);
+
+  return (
+    <Popover
+      open={open}
+      onOpenChange={setOpen}
+    >
+      <PopoverTrigger asChild>
+        <Button
+          id={id}
+          variant="outline"
+          role="combobox"
+          aria-expanded={open}
+          aria-invalid={invalid}
+          className="h-auto min-h-9 w-full justify-between font-normal"
+        >
+          {selectedOption ? (
+            <span className="flex min-w-0 flex-wrap items-center gap-2">
+              <span className="truncate">{selectedOption.label}</span>
+              <CapabilityBadges capabilities={selectedOption.capabilities} />
+            </span>
+          ) : (
+            <span className="truncate">
+              {value || placeholder || "Select a model"}
+            </span>
+          )}
+          <ChevronsUpDown className="ml-2 h-4 w-4 shrink-0 opacity-50" />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent
+        className="w-[var(--radix-popover-trigger-width)] p-0"
+        align="start"
+      >
+        <Command>
+          <CommandInput placeholder="Search models..." />
+          <CommandList>
+            <CommandEmpty>No models found.</CommandEmpty>
+            {Object.entries(optionsByProvider).map(([provider, models]) => (
+              <CommandGroup
+                key={provider}
+                heading={_.startCase(provider)}
+              >
+                {models.map((model) => (
+                  <CommandItem
+                    key={model.value}
+                    value={`${model.label} ${model.value}`}
+                    onSelect={() => {
+                      onChange(model.value);
+                      setOpen(false);
+                    }}
+                    className="flex items-center gap-2"
+                  >
+                    <Check
+                      className={cn(
+                        "h-4 w-4 shrink-0",
+                        value === model.value ? "opacity-100" : "opacity-0",
+                      )}
+                    />
+                    <span className="flex-1 truncate">{model.label}</span>
+                    <CapabilityBadges capabilities={model.capabilities} />
+                  </CommandItem>
+                ))}
+              </CommandGroup>
+            ))}
+          </CommandList>
+        </Command>
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -0,0 +1,136 @@
+"use client";
+
+import { useState } from "react";
+import { Check, ChevronsUpDown, X } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Command,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+} from "@/components/ui/command";
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from "@/components/ui/popover";
+import { cn } from "@/lib/utils";
+import { ConfigurableFieldOption } from "@/types/configurable";
+
+interface MultiselectFieldProps {
+  id: string;
+  value: string[] | undefined;
+  onChange: (value: string[]) => void;
+  options: ConfigurableFieldOption[];
+  placeholder?: string;
+  invalid?: boolean;
+}
+
+/**
+ * A searchable dropdown for selecting any number of options. The selected
+ * options are shown as removable badges below it.
+ */
+export function MultiselectField({
+  id,
+  value,
+  onChange,
+  options,
+  placeholder,
+  invalid,
+}: MultiselectFieldProps) {
+  const [open, setOpen] = useState(false);
+  const selected = value ?? [];
+
+  const getOptionLabel = (optionValue: string) =>
+    options.find((o) => o.value === optionValue)?.label ?? optionValue;
+
+  const handleSelect = (optionValue: string) => {
+    onChange(
+      selected.includes(optionValue)
+        ? selected.filter((v) => v !== optionValue)
+        : [...selected, optionValue],
+    );
+  };
+
+  return (
+    <div className="flex flex-col gap-2">
+      <Popover
+        open={open}
+        onOpenChange={setOpen}
+      >
+        <PopoverTrigger asChild>
+          <Button
+            id={id}
+            variant="outline"
+            role="combobox"
+            aria-expanded={open}
+            aria-invalid={invalid}
+            className="w-full justify-between font-normal"
+          >
+            <span className="truncate">
+              {selected.length > 0
+                ? selected.length > 1
+                  ? `${selected.length} selected`
+                  : getOptionLabel(selected[0])
+                : placeholder || "Select options"}
+            </span>
+            <ChevronsUpDown className="ml-2 h-4 w-4 shrink-0 opacity-50" />
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent
+          className="w-[var(--radix-popover-trigger-width)] p-0"
+          align="start"
+        >
+          <Command>
+            <CommandInput placeholder="Search options..." />
+            <CommandList>
+              <CommandEmpty>No options found.</CommandEmpty>
+              <CommandGroup>
+                {options.map((option) => (
+                  <CommandItem
+                    key={option.value}
+                    value={`${option.label} ${option.value}`}
+                    onSelect={() => handleSelect(option.value)}
+                  >
+                    <Check
+                      className={cn(
+                        "h-4 w-4",
+                        selected.includes(option.value)
+                          ? "opacity-100"
+                          : "opacity-0",
+                      )}
+                    />
+                    {option.label}
+                  </CommandItem>
+                ))}
+              </CommandGroup>
+            </CommandList>
+          </Command>
+        </PopoverContent>
+      </Popover>
+      {selected.length > 0 && (
+        <div className="flex flex-wrap gap-1">
+          {selected.map((optionValue) => (
+            <Badge
+              key={optionValue}
+              variant="secondary"
+            >
+              {getOptionLabel(optionValue)}
+              <button
+                type="button"
+                aria-label={`Remove ${getOptionLabel(optionValue)}`}
+                onClick={() => handleSelect(optionValue)}
+                className="pointer-events-auto"
+              >
+                <X className="size-3" />
+              </button>
+            </Badge>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
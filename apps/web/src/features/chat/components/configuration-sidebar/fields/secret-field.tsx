@@ -0,0 +1,78 @@
+"use client";
+
+import { useRef, useState } from "react";
+import { KeyRound, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+
+interface SecretFieldProps {
+  id: string;
+  value: string | undefined;
+  onChange: (value: string | undefined) => void;
+  placeholder?: string;
+  invalid?: boolean;
+}
+
+/**
+ * An input for a secret value. The saved value is never shown: the input only
+ * ever contains what the user types, and replaces the saved value. Clearing
+ * the input keeps the saved value, which can be removed with the clear button.
+ */
+export function SecretField({
+  id,
+  value,
+  onChange,
+  placeholder,
+  invalid,
+}: SecretFieldProps) {
+  const [draft, setDraft] = useState("");
+  // The value before the user started typing, restored if they clear the input
+  const savedValueRef = useRef(value);
+  const hasSavedValue = !draft && !!value;
+
+  return (
+    <div className="flex flex-col gap-1">
+      <div className="flex items-center gap-2">
+        <Input
+          id={id}
+          type="password"
+          autoComplete="off"
+          value={draft}
+          onChange={(e) => {
+            if (!draft) {
+              savedValueRef.current = value;
+            }
+            setDraft(e.target.value);
+            onChange(e.target.value || savedValueRef.current);
+          }}
+          placeholder={
+            hasSavedValue
+              ? "Saved. Enter a new value to replace it"
+              : placeholder || "Enter a secret value"
+          }
+          aria-invalid={invalid}
+        />
+        {(hasSavedValue || draft) && (
+          <Button
+            type="button"
+            variant="ghost"
+            size="icon"
+            aria-label="Clear secret"
+            onClick={() => {
+              savedValueRef.current = undefined;
+              setDraft("");
+              onChange(undefined);
+            }}
+          >
+            <X className="size-4" />
+          </Button>
+        )}
+      </div>
+      {hasSavedValue && (
+        <p className="flex items-center gap-1 text-xs text-gray-500">
+          <KeyRound className="size-3" />A value is saved
+        </p>
+      )}
+    </div>
+  );
+}
@@ -26,6 +26,8 @@ import {
 import { toast } from "sonner";
 import _ from "lodash";
 import { useMCPContext } from "@/providers/MCP";
+import { getSelectedToolKeys, getToolKey } from "@/lib/mcp-tools";
+import { ServerGroups } from "@/features/tools/components/server-groups";
 import { Search } from "@/components/ui/tool-search";
 import { useSearchTools } from "@/hooks/use-search-tools";
 import { useFetchPreselectedTools } from "@/hooks/use-fetch-preselected-tools";
@@ -44,8 +46,11 @@ import {
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { isUserCreatedDefaultAssistant } from "@/lib/agent-utils";
+import { getConfigErrors, isConfigFieldVisible } from "@/lib/config-validation";
+import { ConfigFieldGroups } from "./config-field-groups";
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
 import { useLocalStorage } from "@/hooks/use-local-storage";
+import { AgentVersionHistory } from "@/features/agents/components/agent-version-history";
 
 function NameAndDescriptionAlertDialog({
   name,
@@ -122,11 +127,11 @@ export const ConfigurationSidebar = forwardRef<
   AIConfigPanelProps
 >(({ className, open }, ref: ForwardedRef<HTMLDivElement>) => {
   const { configsByAgentId, resetConfig } = useConfigStore();
-  const { tools, setTools, getTools, cursor } = useMCPContext();
+  const { tools, setTools, getMoreTools, hasMoreTools } = useMCPContext();
   const [agentId] = useQueryState("agentId");
   const [deploymentId] = useQueryState("deploymentId");
   const [threadId] = useQueryState("threadId");
-  const { agents, refreshAgentsLoading } = useAgentsContext();
+  const { agents, refreshAgents, refreshAgentsLoading } = useAgentsContext();
   const {
     getSchemaAndUpdateConfig,
     configurations,
@@ -147,13 +152,13 @@ export const ConfigurationSidebar = forwardRef<
 
   const { toolSearchTerm, debouncedSetSearchTerm, displayTools } =
     useSearchTools(tools, {
-      preSelectedTools: toolConfigurations[0]?.default?.tools,
+      preSelectedTools: getSelectedToolKeys(toolConfigurations[0]?.default),
     });
   const { loadingMore, setLoadingMore } = useFetchPreselectedTools({
     tools,
     setTools,
-    getTools,
-    cursor,
+    getMoreTools,
+    hasMoreTools,
     toolConfigurations,
     searchTerm: toolSearchTerm,
   });
@@ -184,8 +189,21 @@ export const ConfigurationSidebar = forwardRef<
     getSchemaAndUpdateConfig(selectedAgent);
   }, [agentId, deploymentId, agents, refreshAgentsLoading]);
 
+  const selectedAgent = agents.find(
+    (a) => a.assistant_id === agentId && a.deploymentId === deploymentId,
+  );
+  const config = agentId ? configsByAgentId[agentId] : undefined;
+  const configErrors = getConfigErrors(configurations, config);
+  const hasConfigErrors = Object.keys(configErrors).length > 0;
+
   const handleSave = async () => {
     if (!agentId || !deploymentId || !agents?.length) return;
+    if (hasConfigErrors) {
+      toast.warning("Please fix the errors in the agent configuration", {
+        richColors: true,
+      });
+      return;
+    }
     const selectedAgent = agents.find(
       (a) => a.assistant_id === agentId && a.deploymentId === deploymentId,
     );
@@ -269,6 +287,7 @@ export const ConfigurationSidebar = forwardRef<
                     <Button
                       size="sm"
                       onClick={handleSave}
+                      disabled={hasConfigErrors}
                     >
                       <Save className="mr-1 h-4 w-4" />
                       Save
@@ -318,6 +337,9 @@ export const ConfigurationSidebar = forwardRef<
               {supportedConfigs.includes("supervisor") && (
                 <TabsTrigger value="supervisor">Supervisor Agents</TabsTrigger>
               )}
+              {selectedAgent && (
+                <TabsTrigger value="history">History</TabsTrigger>
+              )}
             </TabsList>
 
             <ScrollArea className="flex-1 overflow-y-auto">
@@ -333,23 +355,30 @@ export const ConfigurationSidebar = forwardRef<
                       <Skeleton className="h-8 w-full" />
                     </div>
                   ) : (
-                    configurations.map((c, index) => (
-                      <ConfigField
-                        key={`${c.label}-${index}`}
-                        id={c.label}
-                        label={c.label}
-                        type={
-                          c.type === "boolean" ? "switch" : (c.type ?? "text")
-                        }
-                        description={c.description}
-                        placeholder={c.placeholder}
-                        options={c.options}
-                        min={c.min}
-                        max={c.max}
-                        step={c.step}
-                        agentId={agentId}
-                      />
-                    ))
+                    <ConfigFieldGroups
+                      fields={configurations.filter((c) =>
+                        isConfigFieldVisible(c, config),
+                      )}
+                      invalidFields={Object.keys(configErrors)}
+                      renderField={(c) => (
+                        <ConfigField
+                          id={c.label}
+                          label={c.label}
+                          type={
+                            c.type === "boolean" ? "switch" : (c.type ?? "text")
+                          }
+                          description={c.description}
+                          placeholder={c.placeholder}
+                          options={c.options}
+                          min={c.min}
+                          max={c.max}
+                          step={c.step}
+                          required={c.required}
+                          error={configErrors[c.label]}
+                          agentId={agentId}
+                        />
+                      )}
+                    />
                   )}
                 </ConfigSection>
               </TabsContent>
@@ -365,18 +394,23 @@ export const ConfigurationSidebar = forwardRef<
                       placeholder="Search tools..."
                     />
                     <div className="flex-1 space-y-4 overflow-y-auto rounded-md">
-                      {agentId &&
-                        displayTools.length > 0 &&
-                        displayTools.map((c, index) => (
-                          <ConfigFieldTool
-                            key={`${c.name}-${index}`}
-                            id={c.name}
-                            label={c.name}
-                            description={c.description}
-                            agentId={agentId}
-                            toolId={toolConfigurations[0]?.label}
-                          />
-                        ))}
+                      {agentId && displayTools.length > 0 && (
+                        <ServerGroups
+                          items={displayTools}
+                          className="space-y-4"
+                          renderItem={(c, index) => (
+                            <ConfigFieldTool
+                              key={`${getToolKey(c)}-${index}`}
+                              id={getToolKey(c)}
+                              label={c.name}
+                              description={c.description}
+                              agentId={agentId}
+                              toolId={toolConfigurations[0]?.label}
+                              serverId={c.serverId}
+                            />
+                          )}
+                        />
+                      )}
                       {agentId &&
                         displayTools.length === 0 &&
                         toolSearchTerm && (
@@ -394,7 +428,7 @@ export const ConfigurationSidebar = forwardRef<
                           No tools available for this agent.
                         </p>
                       )}
-                      {cursor && !toolSearchTerm && (
+                      {hasMoreTools && !toolSearchTerm && (
                         <div className="flex justify-center py-4">
                           <Button
                             variant="outline"
@@ -402,7 +436,7 @@ export const ConfigurationSidebar = forwardRef<
                             onClick={async () => {
                               try {
                                 setLoadingMore(true);
-                                const moreTool = await getTools(cursor);
+                                const moreTool = await getMoreTools();
                                 setTools((prevTools) => [
                                   ...prevTools,
                                   ...moreTool,
@@ -460,6 +494,27 @@ export const ConfigurationSidebar = forwardRef<
                   </ConfigSection>
                 </TabsContent>
               )}
+
+              {selectedAgent && (
+                <TabsContent
+                  value="history"
+                  className="m-0 overflow-y-auto p-4"
+                >
+                  <ConfigSection title="Version History">
+                    <AgentVersionHistory
+                      agent={selectedAgent}
+                      fields={[
+                        ...configurations,
+                        ...toolConfigurations,
+                        ...ragConfigurations,
+                        ...agentsConfigurations,
+                      ]}
+                      // Refreshing the agents will reload the rolled back configuration
+                      onRollback={() => refreshAgents()}
+                    />
+                  </ConfigSection>
+                </TabsContent>
+              )}
             </ScrollArea>
           </Tabs>
         </div>
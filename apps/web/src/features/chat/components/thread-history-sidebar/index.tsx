@@ -2,7 +2,14 @@
 
 import { cn } from "@/lib/utils";
 import { Message, Thread } from "@langchain/langgraph-sdk";
-import { useEffect, useState, forwardRef, ForwardedRef } from "react";
+import {
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+  forwardRef,
+  ForwardedRef,
+} from "react";
 import { useQueryState } from "nuqs";
 import { createClient } from "@/lib/client";
 import { toast } from "sonner";
@@ -10,7 +17,26 @@ import { Skeleton } from "@/components/ui/skeleton";
 import { format } from "date-fns";
 import { useAuthContext } from "@/providers/Auth";
 import { MessageContent } from "@langchain/core/messages";
-import { FileClock } from "lucide-react";
+import { FileClock, LoaderCircle, Search } from "lucide-react";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import {
+  searchThreadMessages,
+  splitByQuery,
+} from "@/features/chat/utils/thread-search";
+import { debounce } from "lodash";
+
+/**
+ * The number of threads to fetch per page when loading the full
+ * thread history for searching.
+ */
+const SEARCH_PAGE_SIZE = 100;
+
+/**
+ * The maximum number of threads to load for searching. Only the most
+ * recently updated threads are searched when an agent has more.
+ */
+const MAX_SEARCH_THREADS = 1000;
 
 const getMessageStringContent = (
   content: MessageContent | undefined,
@@ -60,6 +86,25 @@ const formatDate = (date: string) => {
   }
 };
 
+function HighlightedSnippet({ text, query }: { text: string; query: string }) {
+  return (
+    <p className="line-clamp-2 text-sm text-gray-500">
+      {splitByQuery(text, query).map((segment, index) =>
+        segment.match ? (
+          <mark
+            key={index}
+            className="rounded-sm bg-yellow-200 text-gray-900"
+          >
+            {segment.text}
+          </mark>
+        ) : (
+          <span key={index}>{segment.text}</span>
+        ),
+      )}
+    </p>
+  );
+}
+
 export interface ThreadHistorySidebarProps {
   className?: string;
   open: boolean;
@@ -73,12 +118,39 @@ export const ThreadHistorySidebar = forwardRef<
   const { session } = useAuthContext();
   const [threads, setThreads] = useState<Thread[]>([]);
   const [threadId, setThreadId] = useQueryState("threadId");
+  const [_, setMessageId] = useQueryState("messageId");
   const [agentId] = useQueryState("agentId");
   const [deploymentId] = useQueryState("deploymentId");
   const [loading, setLoading] = useState(false);
+  const [searchInput, setSearchInput] = useState("");
+  const [searchTerm, setSearchTerm] = useState("");
+  const [searchableThreads, setSearchableThreads] = useState<Thread[]>();
+  const [searchLoading, setSearchLoading] = useState(false);
+  const [searchError, setSearchError] = useState(false);
+  const [searchTruncated, setSearchTruncated] = useState(false);
+  // The agent the full thread history is being loaded for, so only one load
+  // runs at a time, and loads for a previous agent are ignored.
+  const searchLoadRef = useRef<string | undefined>(undefined);
+  const searchKey = `${deploymentId}:${agentId}`;
 
+  const debouncedSetSearchTerm = useMemo(
+    () => debounce((value: string) => setSearchTerm(value), 200),
+    [],
+  );
+
+  // The full thread history is only loaded once a search is started, and
+  // is reset whenever the selected agent changes or the sidebar is reopened,
+  // so threads created since are included.
   useEffect(() => {
-    if (!agentId || !deploymentId || !session?.accessToken) return;
+    searchLoadRef.current = undefined;
+    setSearchableThreads(undefined);
+    setSearchLoading(false);
+    setSearchError(false);
+    setSearchTruncated(false);
+  }, [agentId, deploymentId, open]);
+
+  useEffect(() => {
+    if (!open || !agentId || !deploymentId || !session?.accessToken) return;
 
     const getAgentThreads = async (
       _agentId: string,
@@ -106,7 +178,81 @@ export const ThreadHistorySidebar = forwardRef<
     };
 
     getAgentThreads(agentId, deploymentId, session.accessToken);
-  }, [agentId, deploymentId, session?.accessToken]);
+  }, [open, agentId, deploymentId, session?.accessToken]);
+
+  useEffect(() => {
+    if (
+      !searchTerm.trim() ||
+      searchableThreads ||
+      searchError ||
+      searchLoadRef.current === searchKey ||
+      !agentId ||
+      !deploymentId ||
+      !session?.accessToken
+    ) {
+      return;
+    }
+
+    const getAllAgentThreads = async (
+      _agentId: string,
+      _deploymentId: string,
+      accessToken: string,
+    ) => {
+      searchLoadRef.current = searchKey;
+      setSearchLoading(true);
+
+      let allThreads: Thread[] | undefined;
+      let truncated = false;
+      try {
+        const client = createClient(_deploymentId, accessToken);
+        allThreads = [];
+        let offset = 0;
+        let page: Thread[];
+        do {
+          page = await client.threads.search({
+            limit: SEARCH_PAGE_SIZE,
+            offset,
+            metadata: {
+              assistant_id: _agentId,
+            },
+            sortBy: "updated_at",
+            sortOrder: "desc",
+          });
+          allThreads.push(...page);
+          offset += SEARCH_PAGE_SIZE;
+          truncated =
+            page.length === SEARCH_PAGE_SIZE && offset >= MAX_SEARCH_THREADS;
+        } while (page.length === SEARCH_PAGE_SIZE && !truncated);
+      } catch (e) {
+        console.error("Failed to search threads", e);
+        allThreads = undefined;
+      }
+
+      // The agent was changed, or the sidebar reopened, while loading
+      if (searchLoadRef.current !== searchKey) return;
+      searchLoadRef.current = undefined;
+      setSearchableThreads(allThreads);
+      setSearchError(!allThreads);
+      setSearchTruncated(truncated);
+      setSearchLoading(false);
+    };
+
+    getAllAgentThreads(agentId, deploymentId, session.accessToken);
+  }, [
+    searchTerm,
+    searchableThreads,
+    searchError,
+    searchKey,
+    agentId,
+    deploymentId,
+    session?.accessToken,
+  ]);
+
+  const searchResults = useMemo(
+    () => searchThreadMessages(searchableThreads ?? [], searchTerm),
+    [searchableThreads, searchTerm],
+  );
+  const isSearching = !!searchTerm.trim();
 
   const handleChangeThread = (id: string) => {
     if (threadId === id) return;
@@ -114,6 +260,12 @@ export const ThreadHistorySidebar = forwardRef<
     setOpen(false);
   };
 
+  const handleSelectMatch = (id: string, messageId: string) => {
+    setThreadId(id);
+    setMessageId(messageId);
+    setOpen(false);
+  };
+
   return (
     <div
       ref={ref}
@@ -128,8 +280,85 @@ export const ThreadHistorySidebar = forwardRef<
           <div className="flex flex-shrink-0 items-center justify-between border-b border-gray-200 p-4">
             <h2 className="text-lg font-semibold">History</h2>
           </div>
+          <div className="relative flex-shrink-0 border-b border-gray-200 p-4">
+            <Search className="absolute top-1/2 left-6 size-4 -translate-y-1/2 text-gray-500" />
+            <Input
+              placeholder="Search messages..."
+              className="pl-8"
+              value={searchInput}
+              onChange={(e) => {
+                setSearchInput(e.target.value);
+                debouncedSetSearchTerm(e.target.value);
+              }}
+            />
+          </div>
 
-          {loading ? (
+          {isSearching ? (
+            <div className="flex-1 overflow-y-auto">
+              {searchTruncated && !searchError && (
+                <p className="border-b border-gray-100 px-4 py-2 text-xs text-gray-500">
+                  Only the {MAX_SEARCH_THREADS} most recently updated threads
+                  are searched.
+                </p>
+              )}
+              {searchError ? (
+                <div className="flex h-full flex-1 flex-col items-center justify-center gap-2 text-gray-500">
+                  <p>Failed to search threads</p>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setSearchError(false)}
+                  >
+                    Retry
+                  </Button>
+                </div>
+              ) : searchLoading || !searchableThreads ? (
+                <div className="flex h-full flex-1 items-center justify-center gap-2 text-gray-500">
+                  <LoaderCircle className="size-4 animate-spin" />
+                  <p>Searching threads...</p>
+                </div>
+              ) : searchResults.length === 0 ? (
+                <div className="flex h-full flex-1 items-center justify-center gap-2">
+                  <Search className="size-6" />
+                  <p>No messages found</p>
+                </div>
+              ) : (
+                searchResults.map(({ thread, matches }) => (
+                  <div
+                    key={thread.thread_id}
+                    className="border-b border-gray-100 py-2"
+                  >
+                    <div className="flex items-center justify-between gap-2 px-4 py-1">
+                      <p className="line-clamp-1 truncate text-sm font-medium">
+                        {getFirstHumanMessageContent(thread) ||
+                          thread.thread_id}
+                      </p>
+                      <p className="shrink-0 text-xs text-gray-500">
+                        {formatDate(thread.created_at)}
+                      </p>
+                    </div>
+                    {matches.map((match) => (
+                      <div
+                        key={match.messageId}
+                        className="flex flex-col gap-1 px-4 py-2 transition-all duration-300 hover:cursor-pointer hover:bg-gray-50"
+                        onClick={() =>
+                          handleSelectMatch(thread.thread_id, match.messageId)
+                        }
+                      >
+                        <p className="text-xs font-medium text-gray-400 uppercase">
+                          {match.messageType}
+                        </p>
+                        <HighlightedSnippet
+                          text={match.snippet}
+                          query={searchTerm}
+                        />
+                      </div>
+                    ))}
+                  </div>
+                ))
+              )}
+            </div>
+          ) : loading ? (
             <div className="flex flex-1 items-center justify-center p-4">
               {Array.from({ length: 10 }).map((_, index) => (
                 <Skeleton
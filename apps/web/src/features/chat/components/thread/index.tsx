@@ -44,7 +44,9 @@ import {
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
 import { useFileUpload } from "@/hooks/use-file-upload";
 import { ContentBlocksPreview } from "./messages/ContentBlocksPreview";
-import { useApiKeys, useHasApiKeys } from "@/hooks/use-api-keys";
+import { MCPPromptPicker } from "./mcp-prompt-picker";
+import { PromptComposerContent } from "@/features/tools/prompts/utils";
+import { useApiKeyNames } from "@/hooks/use-api-keys";
 import {
   Tooltip,
   TooltipContent,
@@ -93,6 +95,39 @@ function ScrollToBottom(props: { className?: string }) {
   );
 }
 
+/**
+ * Scrolls to, and stops sticking to the bottom for, the message with the given ID
+ * once it has been rendered. Used when opening a thread from a search result.
+ * `onNotRendered` is called instead if the message was loaded but isn't shown,
+ * e.g. a tool message while tool calls are hidden.
+ */
+function ScrollToMessage(props: {
+  messageId: string | null;
+  messages: Message[];
+  onScrolled: (messageId: string) => void;
+  onNotRendered: (messageId: string) => void;
+}) {
+  const { stopScroll } = useStickToBottomContext();
+  const { messageId, messages, onScrolled, onNotRendered } = props;
+
+  useEffect(() => {
+    if (!messageId || !messages.some((m) => m.id === messageId)) return;
+    const element = document.querySelector(
+      `[data-message-id="${CSS.escape(messageId)}"]`,
+    );
+    if (!element) {
+      onNotRendered(messageId);
+      return;
+    }
+
+    stopScroll();
+    element.scrollIntoView({ behavior: "smooth", block: "center" });
+    onScrolled(messageId);
+  }, [messageId, messages, stopScroll, onScrolled, onNotRendered]);
+
+  return null;
+}
+
 function NewThreadButton(props: { hasMessages: boolean }) {
   const { agents, loading } = useAgentsContext();
   const [open, setOpen] = useState(false);
@@ -217,11 +252,14 @@ export function Thread() {
   const [agentId] = useQueryState("agentId");
   const [deploymentId] = useQueryState("deploymentId");
   const [threadId] = useQueryState("threadId");
+  const [messageId, setMessageId] = useQueryState("messageId");
+  const [highlightedMessageId, setHighlightedMessageId] = useState<string>();
   const [hideToolCalls, setHideToolCalls] = useQueryState(
     "hideToolCalls",
     parseAsBoolean.withDefault(false),
   );
   const [hasInput, setHasInput] = useState(false);
+  const inputRef = useRef<HTMLTextAreaElement>(null);
   const {
     contentBlocks,
     setContentBlocks,
@@ -232,8 +270,7 @@ export function Thread() {
     handlePaste,
   } = useFileUpload();
 
-  const { apiKeys } = useApiKeys();
-  const hasApiKeys = useHasApiKeys();
+  const apiKeyNames = useApiKeyNames();
 
   const { session } = useAuthContext();
 
@@ -274,6 +311,46 @@ export function Thread() {
     }
   }, [stream.error]);
 
+  const handleScrolledToMessage = useCallback(
+    (id: string) => {
+      setHighlightedMessageId(id);
+      setMessageId(null);
+    },
+    [setMessageId],
+  );
+
+  const handleMessageNotRendered = useCallback(() => {
+    setMessageId(null);
+    toast.info("The message can't be shown", {
+      description: hideToolCalls
+        ? "Show tool calls to see it."
+        : "It isn't rendered in this thread.",
+      richColors: true,
+    });
+  }, [setMessageId, hideToolCalls]);
+
+  useEffect(() => {
+    if (!highlightedMessageId) return;
+    const timeout = setTimeout(() => setHighlightedMessageId(undefined), 3000);
+    return () => clearTimeout(timeout);
+  }, [highlightedMessageId]);
+
+  const handleInsertPrompt = ({
+    text,
+    contentBlocks: promptBlocks,
+  }: PromptComposerContent) => {
+    const input = inputRef.current;
+    if (input && text) {
+      // Replace the current selection (or insert at the cursor) with the prompt
+      input.setRangeText(text, input.selectionStart, input.selectionEnd, "end");
+      setHasInput(!!input.value.trim());
+      input.focus();
+    }
+    if (promptBlocks.length) {
+      setContentBlocks((prev) => [...prev, ...promptBlocks]);
+    }
+  };
+
   const handleSubmit = (e: FormEvent) => {
     e.preventDefault();
 
@@ -316,7 +393,6 @@ export function Thread() {
         config: {
           configurable: {
             ...getAgentConfig(agentId),
-            apiKeys,
             "x-supabase-access-token": session?.accessToken,
           },
         },
@@ -347,7 +423,6 @@ export function Thread() {
       config: {
         configurable: {
           ...getAgentConfig(agentId),
-          apiKeys,
           "x-supabase-access-token": session?.accessToken,
         },
       },
@@ -396,12 +471,14 @@ export function Thread() {
                           key={message.id || `${message.type}-${index}`}
                           message={message}
                           isLoading={isLoading}
+                          isHighlighted={message.id === highlightedMessageId}
                         />
                       ) : (
                         <AssistantMessage
                           key={message.id || `${message.type}-${index}`}
                           message={message}
                           isLoading={isLoading}
+                          isHighlighted={message.id === highlightedMessageId}
                           handleRegenerate={handleRegenerate}
                         />
                       ),
@@ -440,6 +517,12 @@ export function Thread() {
               )}
 
               <ScrollToBottom className="animate-in fade-in-0 zoom-in-95 absolute bottom-full left-1/2 mb-4 -translate-x-1/2" />
+              <ScrollToMessage
+                messageId={messageId}
+                messages={messages}
+                onScrolled={handleScrolledToMessage}
+                onNotRendered={handleMessageNotRendered}
+              />
 
               <div
                 ref={dropRef}
@@ -459,6 +542,7 @@ export function Thread() {
                     onRemove={removeBlock}
                   />
                   <textarea
+                    ref={inputRef}
                     name="input"
                     onChange={(e) => setHasInput(!!e.target.value.trim())}
                     onPaste={handlePaste}
@@ -512,6 +596,7 @@ export function Thread() {
                       accept="image/jpeg,image/png,image/gif,image/webp,application/pdf"
                       className="hidden"
                     />
+                    <MCPPromptPicker onInsert={handleInsertPrompt} />
                     {stream.isLoading ? (
                       <Button
                         key="stop"
@@ -525,7 +610,7 @@ export function Thread() {
                       <div className="ml-auto">
                         {requiresApiKeysButNotSet(
                           deploymentId || "",
-                          hasApiKeys,
+                          apiKeyNames,
                         ) ? (
                           <TooltipProvider>
                             <Tooltip>
@@ -540,7 +625,7 @@ export function Thread() {
                                         contentBlocks.length === 0) ||
                                       requiresApiKeysButNotSet(
                                         deploymentId || "",
-                                        hasApiKeys,
+                                        apiKeyNames,
                                       )
                                     }
                                   >
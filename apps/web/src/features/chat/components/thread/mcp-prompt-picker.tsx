@@ -0,0 +1,126 @@
+import { useState } from "react";
+import { Loader2, MessageSquareText } from "lucide-react";
+import _ from "lodash";
+import {
+  Command,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+} from "@/components/ui/command";
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from "@/components/ui/popover";
+import { useMCPContext } from "@/providers/MCP";
+import { groupByServer } from "@/lib/mcp-tools";
+import { MCPPrompt } from "@/types/mcp-prompt";
+import { PromptDialog } from "@/features/tools/prompts/components/prompt-dialog";
+import { PromptComposerContent } from "@/features/tools/prompts/utils";
+
+/**
+ * Lets the user pick a prompt published by an MCP server, fill in its
+ * arguments, and insert the rendered prompt into the chat composer.
+ */
+export function MCPPromptPicker({
+  onInsert,
+}: {
+  onInsert: (content: PromptComposerContent) => void;
+}) {
+  const { servers, getAllPrompts } = useMCPContext();
+  const [open, setOpen] = useState(false);
+  const [prompts, setPrompts] = useState<MCPPrompt[]>();
+  const [loading, setLoading] = useState(false);
+  const [selectedPrompt, setSelectedPrompt] = useState<MCPPrompt>();
+
+  if (!servers.length) {
+    return null;
+  }
+
+  const handleOpenChange = (open: boolean) => {
+    setOpen(open);
+    // Prompts are loaded the first time the picker is opened
+    if (open && !prompts && !loading) {
+      setLoading(true);
+      getAllPrompts()
+        .then(setPrompts)
+        .finally(() => setLoading(false));
+    }
+  };
+
+  return (
+    <>
+      <Popover
+        open={open}
+        onOpenChange={handleOpenChange}
+      >
+        <PopoverTrigger asChild>
+          <button
+            type="button"
+            className="flex cursor-pointer items-center gap-1"
+          >
+            <MessageSquareText className="size-5 text-gray-600" />
+            <span className="text-sm text-gray-600">Prompts</span>
+          </button>
+        </PopoverTrigger>
+        <PopoverContent
+          align="start"
+          className="w-[320px] p-0"
+        >
+          <Command>
+            <CommandInput placeholder="Search prompts..." />
+            <CommandList>
+              {loading ? (
+                <CommandEmpty className="flex items-center gap-1 p-4 text-sm">
+                  <Loader2 className="size-4 animate-spin" />
+                  Loading prompts...
+                </CommandEmpty>
+              ) : (
+                <CommandEmpty>No prompts found.</CommandEmpty>
+              )}
+              {groupByServer(prompts ?? [], servers).map(
+                ({ server, items }) => (
+                  <CommandGroup
+                    key={server.id}
+                    heading={servers.length > 1 ? server.name : undefined}
+                  >
+                    {items.map((prompt) => (
+                      <CommandItem
+                        key={`${prompt.serverId}:${prompt.name}`}
+                        value={`${prompt.serverId}:${prompt.name}`}
+                        keywords={[prompt.name, prompt.description ?? ""]}
+                        onSelect={() => {
+                          setSelectedPrompt(prompt);
+                          setOpen(false);
+                        }}
+                        className="flex flex-col items-start"
+                      >
+                        <span>{_.startCase(prompt.name)}</span>
+                        {prompt.description && (
+                          <span className="line-clamp-1 text-xs text-gray-500">
+                            {prompt.description}
+                          </span>
+                        )}
+                      </CommandItem>
+                    ))}
+                  </CommandGroup>
+                ),
+              )}
+            </CommandList>
+          </Command>
+        </PopoverContent>
+      </Popover>
+      {selectedPrompt && (
+        <PromptDialog
+          key={`${selectedPrompt.serverId}:${selectedPrompt.name}`}
+          prompt={selectedPrompt}
+          open={!!selectedPrompt}
+          onOpenChange={(open) => !open && setSelectedPrompt(undefined)}
+          onInsert={onInsert}
+        />
+      )}
+    </>
+  );
+}
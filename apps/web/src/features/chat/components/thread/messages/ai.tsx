@@ -65,10 +65,12 @@ function parseAnthropicStreamedToolCalls(
 export function AssistantMessage({
   message,
   isLoading,
+  isHighlighted,
   handleRegenerate,
 }: {
   message: Message | undefined;
   isLoading: boolean;
+  isHighlighted?: boolean;
   handleRegenerate: (
     parentCheckpoint: Checkpoint | null | undefined,
     optimisticValues?: (prev: { messages?: Message[] }) => {
@@ -109,7 +111,13 @@ export function AssistantMessage({
   }
 
   return (
-    <div className="group mr-auto flex items-start gap-2">
+    <div
+      data-message-id={message?.id}
+      className={cn(
+        "group mr-auto flex items-start gap-2 rounded-lg transition-shadow duration-500",
+        isHighlighted && "ring-2 ring-yellow-300 ring-offset-4",
+      )}
+    >
       {isToolResult ? (
         <ToolResult message={message} />
       ) : (
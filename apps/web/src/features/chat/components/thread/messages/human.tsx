@@ -40,12 +40,20 @@ function EditableContent({
 export function HumanMessage({
   message,
   isLoading,
+  isHighlighted,
+  agentId: agentIdProp,
 }: {
   message: Message;
   isLoading: boolean;
+  isHighlighted?: boolean;
+  /**
+   * The ID of the agent the message was sent to. Defaults to the `agentId` query param.
+   */
+  agentId?: string;
 }) {
   const { session } = useAuthContext();
-  const [agentId] = useQueryState("agentId");
+  const [agentIdParam] = useQueryState("agentId");
+  const agentId = agentIdProp ?? agentIdParam;
 
   const thread = useStreamContext();
   const meta = thread.getMessagesMetadata(message);
@@ -94,9 +102,11 @@ export function HumanMessage({
 
   return (
     <div
+      data-message-id={message.id}
       className={cn(
-        "group ml-auto flex items-center gap-2",
+        "group ml-auto flex items-center gap-2 rounded-lg transition-shadow duration-500",
         isEditing && "w-full max-w-xl",
+        isHighlighted && "ring-2 ring-yellow-300 ring-offset-4",
       )}
     >
       <div className={cn("flex flex-col gap-2", isEditing && "w-full")}>
@@ -2,6 +2,12 @@ import { AIMessage, ToolMessage } from "@langchain/langgraph-sdk";
 import { useState } from "react";
 import { motion, AnimatePresence } from "framer-motion";
 import { ChevronDown, ChevronUp } from "lucide-react";
+import { MediaContent } from "@/features/tools/components/tool-result-content";
+import { DataTable } from "@/features/tools/components/tool-result-content/data-table";
+import {
+  getTableRows,
+  isMediaContentBlock,
+} from "@/features/tools/components/tool-result-content/utils";
 
 function isComplexValue(value: any): boolean {
   return Array.isArray(value) || (typeof value === "object" && value !== null);
@@ -65,31 +71,51 @@ export function ToolCalls({
   );
 }
 
+/**
+ * Images and resources returned by MCP tools can be in the message content,
+ * or in the artifact (which is not sent to the model).
+ */
+function getMediaBlocks(message: ToolMessage) {
+  return [
+    ...(Array.isArray(message.content) ? message.content : []),
+    ...(Array.isArray(message.artifact) ? message.artifact : []),
+  ].filter(isMediaContentBlock);
+}
+
 export function ToolResult({ message }: { message: ToolMessage }) {
   const [isExpanded, setIsExpanded] = useState(false);
 
+  const mediaBlocks = getMediaBlocks(message);
+  const tableRows = getTableRows(
+    message.artifact?.structured_content ?? message.artifact?.structuredContent,
+  );
+  // Media blocks are rendered separately, rather than as (base64) JSON
+  const content = Array.isArray(message.content)
+    ? message.content.filter((block) => !isMediaContentBlock(block))
+    : message.content;
+
   let parsedContent: any;
   let isJsonContent = false;
 
   try {
-    if (typeof message.content === "string") {
-      parsedContent = message.content;
-    } else if (typeof message.content === "object") {
-      if (Array.isArray(message.content) && message.content.length === 1) {
-        parsedContent = message.content[0];
+    if (typeof content === "string") {
+      parsedContent = content;
+    } else if (typeof content === "object") {
+      if (Array.isArray(content) && content.length === 1) {
+        parsedContent = content[0];
       } else {
-        parsedContent = message.content;
+        parsedContent = content;
       }
       isJsonContent = true;
     }
   } catch {
     // Content is not JSON, use as is
-    parsedContent = message.content;
+    parsedContent = content;
   }
 
   const contentStr = isJsonContent
     ? JSON.stringify(parsedContent, null, 2)
-    : String(message.content);
+    : String(content);
   const contentLines = contentStr.split("\n");
   const shouldTruncate = contentLines.length > 4;
   const displayedContent =
@@ -177,6 +203,17 @@ export function ToolResult({ message }: { message: ToolMessage }) {
             </motion.div>
           </AnimatePresence>
         </div>
+        {(mediaBlocks.length > 0 || tableRows) && (
+          <div className="flex flex-col gap-3 border-t border-gray-200 p-3">
+            {tableRows && <DataTable rows={tableRows} />}
+            {mediaBlocks.map((block, idx) => (
+              <MediaContent
+                key={idx}
+                block={block}
+              />
+            ))}
+          </div>
+        )}
         {((shouldTruncate && !isJsonContent) ||
           (isJsonContent &&
             Array.isArray(parsedContent) &&
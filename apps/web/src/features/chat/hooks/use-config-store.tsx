@@ -2,6 +2,7 @@
 
 import { create } from "zustand";
 import { persist } from "zustand/middleware";
+import _ from "lodash";
 import {
   ConfigurableFieldUIMetadata,
   ConfigurableFieldMCPMetadata,
@@ -43,6 +44,7 @@ export const useConfigStore = create<ConfigState>()(
           ...agentsConfig,
         };
         delete configObj.__defaultValues;
+        delete configObj.__secretFields;
         return configObj;
       },
 
@@ -64,7 +66,10 @@ export const useConfigStore = create<ConfigState>()(
             // If no config or default values exist for this agent, do nothing or set to empty
             return state;
           }
-          const defaultsToUse = { ...agentConfig.__defaultValues };
+          const defaultsToUse = {
+            ...agentConfig.__defaultValues,
+            __secretFields: agentConfig.__secretFields,
+          };
           return {
             configsByAgentId: {
               ...state.configsByAgentId,
@@ -83,6 +88,10 @@ export const useConfigStore = create<ConfigState>()(
         });
 
         defaultConfig.__defaultValues = { ...defaultConfig };
+        // Secret values are only kept in memory, see `partialize` below
+        defaultConfig.__secretFields = configurations
+          .filter((config) => config.type === "secret")
+          .map((config) => config.label);
 
         set((currentState) => ({
           configsByAgentId: {
@@ -97,6 +106,21 @@ export const useConfigStore = create<ConfigState>()(
     }),
     {
       name: "ai-config-storage", // Keep the same storage key, but manage agents inside
+      // Don't write the values of secret fields to localStorage. They are
+      // reloaded from the agent when its config is next opened.
+      partialize: (state) => ({
+        configsByAgentId: _.mapValues(state.configsByAgentId, (config) =>
+          config.__secretFields?.length
+            ? {
+                ..._.omit(config, config.__secretFields),
+                __defaultValues: _.omit(
+                  config.__defaultValues,
+                  config.__secretFields,
+                ),
+              }
+            : config,
+        ),
+      }),
     },
   ),
 );
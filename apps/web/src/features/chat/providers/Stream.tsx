@@ -7,6 +7,7 @@ import React, {
   useState,
   useEffect,
   useRef,
+  useMemo,
 } from "react";
 import { useStream } from "@langchain/langgraph-sdk/react";
 import { type Message } from "@langchain/langgraph-sdk";
@@ -24,7 +25,8 @@ import { toast } from "sonner";
 import { isUserSpecifiedDefaultAgent } from "@/lib/agent-utils";
 import { useAuthContext } from "@/providers/Auth";
 import { getDeployments } from "@/lib/environment/deployments";
-import { useHasApiKeys } from "@/hooks/use-api-keys";
+import { createRunProxyFetch, getProxyApiUrl } from "@/lib/client";
+import { useApiKeyNames, useApiKeys } from "@/hooks/use-api-keys";
 import { checkApiKeysWarning } from "@/lib/agent-utils";
 
 export type StateType = { messages: Message[]; ui?: UIMessage[] };
@@ -43,21 +45,29 @@ const useTypedStream = useStream<
 type StreamContextType = ReturnType<typeof useTypedStream>;
 const StreamContext = createContext<StreamContextType | undefined>(undefined);
 
-const StreamSession = ({
+/**
+ * Creates a stream for the given agent, and provides it to the children via the stream context.
+ * The thread ID is managed by the caller, allowing multiple sessions to be rendered side by side.
+ */
+export const StreamSession = ({
   children,
   agentId,
   deploymentId,
   accessToken,
-  useProxyRoute,
+  useLangSmithAuth,
+  threadId,
+  setThreadId,
 }: {
   children: ReactNode;
   agentId: string;
   deploymentId: string;
   accessToken?: string;
-  useProxyRoute?: boolean;
+  useLangSmithAuth?: boolean;
+  threadId: string | null;
+  setThreadId: (threadId: string | null) => void;
 }) => {
-  if (!useProxyRoute && !accessToken) {
-    toast.error("Access token must be provided if not using proxy route");
+  if (!useLangSmithAuth && !accessToken) {
+    toast.error("Access token must be provided if not using LangSmith auth");
   }
 
   const deployment = getDeployments().find((d) => d.id === deploymentId);
@@ -65,20 +75,24 @@ const StreamSession = ({
     throw new Error(`Deployment ${deploymentId} not found`);
   }
 
-  let deploymentUrl = deployment.deploymentUrl;
-  if (useProxyRoute) {
-    const baseApiUrl = process.env.NEXT_PUBLIC_BASE_API_URL;
-    if (!baseApiUrl) {
-      throw new Error(
-        "Failed to create client: Base API URL not configured. Please set NEXT_PUBLIC_BASE_API_URL",
-      );
-    }
-    deploymentUrl = `${baseApiUrl}/langgraph/proxy/${deploymentId}`;
-  }
+  // With LangSmith auth, every request goes through the proxy route. Otherwise
+  // only requests which create runs do, so the user's API keys can be added.
+  const apiUrl = useLangSmithAuth
+    ? getProxyApiUrl(deploymentId)
+    : deployment.deploymentUrl;
+  const callerOptions = useMemo(
+    () =>
+      useLangSmithAuth
+        ? undefined
+        : {
+            fetch: createRunProxyFetch(deploymentId, deployment.deploymentUrl),
+          },
+    [useLangSmithAuth, deploymentId, deployment.deploymentUrl],
+  );
 
-  const [threadId, setThreadId] = useQueryState("threadId");
   const streamValue = useTypedStream({
-    apiUrl: deploymentUrl,
+    apiUrl,
+    callerOptions,
     assistantId: agentId,
     threadId: threadId ?? null,
     onCustomEvent: (event, options) => {
@@ -91,7 +105,7 @@ const StreamSession = ({
       setThreadId(id);
     },
     defaultHeaders: {
-      ...(!useProxyRoute
+      ...(!useLangSmithAuth
         ? {
             Authorization: `Bearer ${accessToken}`,
             "x-supabase-access-token": accessToken,
@@ -115,10 +129,12 @@ export const StreamProvider: React.FC<{ children: ReactNode }> = ({
   const { agents, loading } = useAgentsContext();
   const [agentId, setAgentId] = useQueryState("agentId");
   const [deploymentId, setDeploymentId] = useQueryState("deploymentId");
+  const [threadId, setThreadId] = useQueryState("threadId");
   const [value, setValue] = useState("");
   const [open, setOpen] = useState(false);
   const { session } = useAuthContext();
-  const hasApiKeys = useHasApiKeys();
+  const apiKeyNames = useApiKeyNames();
+  const { loaded: apiKeysLoaded } = useApiKeys();
   const warningShownRef = useRef<string>("");
 
   useEffect(() => {
@@ -132,14 +148,16 @@ export const StreamProvider: React.FC<{ children: ReactNode }> = ({
   }, [agents]);
 
   useEffect(() => {
-    if (agentId && deploymentId) {
+    // Wait for the user's API keys to load, so the warning isn't shown before
+    // they are known
+    if (agentId && deploymentId && apiKeysLoaded) {
       const currentKey = `${agentId}:${deploymentId}`;
       if (warningShownRef.current !== currentKey) {
-        checkApiKeysWarning(deploymentId, hasApiKeys);
+        checkApiKeysWarning(deploymentId, apiKeyNames);
         warningShownRef.current = currentKey;
       }
     }
-  }, [agentId, deploymentId, hasApiKeys]);
+  }, [agentId, deploymentId, apiKeyNames, apiKeysLoaded]);
 
   const handleValueChange = (v: string) => {
     setValue(v);
@@ -194,9 +212,10 @@ export const StreamProvider: React.FC<{ children: ReactNode }> = ({
     );
   }
 
-  const useProxyRoute = process.env.NEXT_PUBLIC_USE_LANGSMITH_AUTH === "true";
-  if (!useProxyRoute && !session?.accessToken) {
-    toast.error("Access token must be provided if not using proxy route");
+  const useLangSmithAuth =
+    process.env.NEXT_PUBLIC_USE_LANGSMITH_AUTH === "true";
+  if (!useLangSmithAuth && !session?.accessToken) {
+    toast.error("Access token must be provided if not using LangSmith auth");
     return null;
   }
 
@@ -205,7 +224,9 @@ export const StreamProvider: React.FC<{ children: ReactNode }> = ({
       agentId={agentId}
       deploymentId={deploymentId}
       accessToken={session?.accessToken ?? undefined}
-      useProxyRoute={useProxyRoute}
+      useLangSmithAuth={useLangSmithAuth}
+      threadId={threadId}
+      setThreadId={setThreadId}
     >
       {children}
     </StreamSession>
@@ -0,0 +1,126 @@
+import type { Message, Thread } from "@langchain/langgraph-sdk";
+import { getContentString } from "@/features/chat/utils/content-string";
+import { DO_NOT_RENDER_ID_PREFIX } from "@/constants";
+
+/**
+ * The number of characters to include on either side of a match
+ * when building a snippet.
+ */
+const SNIPPET_CONTEXT_LENGTH = 60;
+
+export interface ThreadMessageMatch {
+  /**
+   * The ID of the message which matched the search query.
+   */
+  messageId: string;
+  /**
+   * The type of the message which matched (e.g. "human", "ai", "tool").
+   */
+  messageType: Message["type"];
+  /**
+   * A short excerpt of the message content surrounding the first match.
+   */
+  snippet: string;
+}
+
+export interface ThreadSearchResult {
+  thread: Thread;
+  matches: ThreadMessageMatch[];
+}
+
+function getThreadMessages(thread: Thread): Message[] {
+  if (
+    !thread.values ||
+    Array.isArray(thread.values) ||
+    !("messages" in thread.values) ||
+    !Array.isArray(thread.values.messages)
+  ) {
+    return [];
+  }
+  return thread.values.messages as Message[];
+}
+
+/**
+ * Builds a snippet of the given text, centered around the first occurrence
+ * of the query. Ellipses are added when the snippet is truncated.
+ */
+function buildSnippet(text: string, matchIndex: number, queryLength: number) {
+  const start = Math.max(0, matchIndex - SNIPPET_CONTEXT_LENGTH);
+  const end = Math.min(
+    text.length,
+    matchIndex + queryLength + SNIPPET_CONTEXT_LENGTH,
+  );
+  const snippet = text.slice(start, end).replace(/\s+/g, " ").trim();
+  return `${start > 0 ? "…" : ""}${snippet}${end < text.length ? "…" : ""}`;
+}
+
+/**
+ * Searches the content of every message in every thread for the given query.
+ * Matching is case-insensitive. Messages which are not rendered in the UI are ignored.
+ *
+ * @param threads The threads to search
+ * @param query The text to search for
+ * @returns The threads containing at least one matching message, in the order they were provided
+ */
+export function searchThreadMessages(
+  threads: Thread[],
+  query: string,
+): ThreadSearchResult[] {
+  const normalizedQuery = query.trim().toLowerCase();
+  if (!normalizedQuery) return [];
+
+  const results: ThreadSearchResult[] = [];
+  for (const thread of threads) {
+    const matches: ThreadMessageMatch[] = [];
+    for (const message of getThreadMessages(thread)) {
+      if (!message.id || message.id.startsWith(DO_NOT_RENDER_ID_PREFIX)) {
+        continue;
+      }
+      const text = getContentString(message.content ?? "");
+      const matchIndex = text.toLowerCase().indexOf(normalizedQuery);
+      if (matchIndex === -1) continue;
+
+      matches.push({
+        messageId: message.id,
+        messageType: message.type,
+        snippet: buildSnippet(text, matchIndex, normalizedQuery.length),
+      });
+    }
+    if (matches.length) {
+      results.push({ thread, matches });
+    }
+  }
+  return results;
+}
+
+/**
+ * Splits text into segments, flagging the segments which match the query
+ * so they can be rendered highlighted.
+ */
+export function splitByQuery(
+  text: string,
+  query: string,
+): { text: string; match: boolean }[] {
+  const normalizedQuery = query.trim().toLowerCase();
+  if (!normalizedQuery) return [{ text, match: false }];
+
+  const segments: { text: string; match: boolean }[] = [];
+  const lowerText = text.toLowerCase();
+  let cursor = 0;
+  let index = lowerText.indexOf(normalizedQuery, cursor);
+  while (index !== -1) {
+    if (index > cursor) {
+      segments.push({ text: text.slice(cursor, index), match: false });
+    }
+    segments.push({
+      text: text.slice(index, index + normalizedQuery.length),
+      match: true,
+    });
+    cursor = index + normalizedQuery.length;
+    index = lowerText.indexOf(normalizedQuery, cursor);
+  }
+  if (cursor < text.length) {
+    segments.push({ text: text.slice(cursor), match: false });
+  }
+  return segments;
+}
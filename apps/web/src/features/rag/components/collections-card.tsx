@@ -3,7 +3,10 @@
 import type React from "react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { useRagContext } from "../providers/RAG";
-import type { Collection } from "@/types/collection";
+import type {
+  Collection,
+  CollectionIngestionSettings,
+} from "@/types/collection";
 import { useState } from "react";
 import { CollectionsList } from "./collections-list";
 import { toast } from "sonner";
@@ -40,12 +43,17 @@ export function CollectionsCard({
   const collectionsItemsPerPage = 5;
 
   // Handle creating a new collection (uses hook)
-  const handleCreateCollection = async (name: string, description: string) => {
+  const handleCreateCollection = async (
+    name: string,
+    description: string,
+    ingestion: CollectionIngestionSettings,
+  ) => {
     const loadingToast = toast.loading("Creating collection", {
       richColors: true,
     });
     const success = await createCollection(name, {
       description,
+      ingestion,
     });
     toast.dismiss(loadingToast);
     if (success) {
@@ -11,10 +11,13 @@ import {
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Alert, AlertDescription } from "@/components/ui/alert";
-import { Collection } from "@/types/collection";
+import { Collection, CollectionIngestionSettings } from "@/types/collection";
 import { Edit, AlertCircle } from "lucide-react";
 import { useState } from "react";
 import { Textarea } from "@/components/ui/textarea";
+import _ from "lodash";
+import { IngestionSettingsFields } from "../ingestion-settings-fields";
+import { validateIngestionSettings } from "../../utils/ingestion-settings";
 
 export function EditCollectionDialog({
   collection,
@@ -32,12 +35,21 @@ export function EditCollectionDialog({
   const [description, setDescription] = useState(
     collection.metadata.description || "",
   );
+  const [ingestionSettings, setIngestionSettings] =
+    useState<CollectionIngestionSettings>(collection.metadata.ingestion ?? {});
 
   const DESCRIPTION_MAX_LENGTH = 850;
   const isDescriptionTooLong = description.length > DESCRIPTION_MAX_LENGTH;
 
+  const ingestionSettingsError = validateIngestionSettings(ingestionSettings);
+
   const hasChanges =
-    name !== collection.name || description !== collection.metadata.description;
+    name !== collection.name ||
+    description !== collection.metadata.description ||
+    !_.isEqual(
+      _.omitBy(ingestionSettings, _.isUndefined),
+      collection.metadata.ingestion ?? {},
+    );
 
   const handleSubmit = async (e: React.FormEvent<HTMLButtonElement>) => {
     e.preventDefault();
@@ -46,7 +58,9 @@ export function EditCollectionDialog({
       return;
     }
     await handleEditCollection(collection.uuid, name, {
+      ...collection.metadata,
       description,
+      ingestion: ingestionSettings,
     });
     setOpen(false);
   };
@@ -71,7 +85,8 @@ export function EditCollectionDialog({
         <DialogHeader>
           <DialogTitle>Edit Collection</DialogTitle>
           <DialogDescription>
-            Edit the name and description for your collection.
+            Edit the name, description and chunking settings for your
+            collection.
           </DialogDescription>
         </DialogHeader>
         <div className="grid gap-4 py-4">
@@ -107,6 +122,13 @@ export function EditCollectionDialog({
               </div>
             </div>
           </div>
+          <IngestionSettingsFields
+            value={ingestionSettings}
+            onChange={setIngestionSettings}
+            currentEmbeddingModel={
+              collection.metadata.ingestion?.embedding_model ?? ""
+            }
+          />
           {isDescriptionTooLong && (
             <div className="mt-2">
               <Alert variant="destructive">
@@ -122,7 +144,9 @@ export function EditCollectionDialog({
         <DialogFooter>
           <Button
             onClick={handleSubmit}
-            disabled={!hasChanges || isDescriptionTooLong}
+            disabled={
+              !hasChanges || isDescriptionTooLong || !!ingestionSettingsError
+            }
           >
             Save Changes
           </Button>
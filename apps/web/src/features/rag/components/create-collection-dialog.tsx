@@ -18,12 +18,19 @@ import { FolderPlus, AlertCircle } from "lucide-react";
 import { Textarea } from "@/components/ui/textarea";
 import { DESCRIPTION_MAX_LENGTH } from "@/constants";
 import { useState } from "react";
+import { CollectionIngestionSettings } from "@/types/collection";
+import { IngestionSettingsFields } from "./ingestion-settings-fields";
+import { validateIngestionSettings } from "../utils/ingestion-settings";
 
 interface CreateCollectionDialogProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
   trigger?: React.ReactNode;
-  onSubmit: (name: string, description: string) => Promise<void>;
+  onSubmit: (
+    name: string,
+    description: string,
+    ingestion: CollectionIngestionSettings,
+  ) => Promise<void>;
 }
 
 export function CreateCollectionDialog({
@@ -35,15 +42,22 @@ export function CreateCollectionDialog({
   const [loading, setLoading] = useState(false);
   const [newCollectionName, setNewCollectionName] = useState("");
   const [newCollectionDescription, setNewCollectionDescription] = useState("");
+  const [ingestionSettings, setIngestionSettings] =
+    useState<CollectionIngestionSettings>({});
 
   const isDescriptionTooLong =
     newCollectionDescription.length > DESCRIPTION_MAX_LENGTH;
 
   const handleSubmit = async () => {
     setLoading(true);
-    await onSubmit(newCollectionName, newCollectionDescription);
+    await onSubmit(
+      newCollectionName,
+      newCollectionDescription,
+      ingestionSettings,
+    );
     setNewCollectionName("");
     setNewCollectionDescription("");
+    setIngestionSettings({});
     setLoading(false);
   };
 
@@ -103,6 +117,10 @@ export function CreateCollectionDialog({
               </div>
             </div>
           </div>
+          <IngestionSettingsFields
+            value={ingestionSettings}
+            onChange={setIngestionSettings}
+          />
           {isDescriptionTooLong && (
             <div className="mt-2">
               <Alert variant="destructive">
@@ -119,7 +137,10 @@ export function CreateCollectionDialog({
           <Button
             onClick={handleSubmit}
             disabled={
-              !newCollectionName.trim() || isDescriptionTooLong || loading
+              !newCollectionName.trim() ||
+              isDescriptionTooLong ||
+              !!validateIngestionSettings(ingestionSettings) ||
+              loading
             }
           >
             Create
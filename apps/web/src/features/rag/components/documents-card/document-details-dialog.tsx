@@ -0,0 +1,228 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Document } from "@langchain/core/documents";
+import { toast } from "sonner";
+import { Loader2, RefreshCw } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { DocumentChunk } from "@/types/collection";
+import { useRagContext } from "../../providers/RAG";
+import { MAX_DOCUMENT_CHUNKS } from "../../hooks/use-rag";
+import {
+  formatMetadataValue,
+  READ_ONLY_METADATA_KEYS,
+} from "../../utils/metadata";
+import { MetadataEditor } from "../metadata-editor";
+
+function MetadataBadges({ metadata }: { metadata: Record<string, any> }) {
+  const entries = Object.entries(metadata).filter(
+    ([key]) => !READ_ONLY_METADATA_KEYS.includes(key),
+  );
+  if (!entries.length) {
+    return null;
+  }
+  return (
+    <div className="flex flex-wrap gap-1">
+      {entries.map(([key, value]) => (
+        <Badge
+          key={key}
+          variant="outline"
+          className="max-w-full"
+        >
+          <span className="text-muted-foreground">{key}:</span>
+          <span className="truncate">{formatMetadataValue(value)}</span>
+        </Badge>
+      ))}
+    </div>
+  );
+}
+
+function ChunkItem({ chunk, index }: { chunk: DocumentChunk; index: number }) {
+  // Documents ingested without `add_start_index` have no offsets. Chunks may
+  // overlap, so they can't be worked out from the previous chunk.
+  const start = chunk.metadata.start_index;
+  const offsets =
+    typeof start === "number"
+      ? `chars ${start.toLocaleString()}–${(start + chunk.page_content.length).toLocaleString()}`
+      : "offset unknown";
+
+  return (
+    <div className="flex flex-col gap-3 rounded-lg border p-4">
+      <div className="flex items-center gap-2">
+        <span className="text-sm font-medium">Chunk {index + 1}</span>
+        <span className="text-muted-foreground text-xs">{offsets}</span>
+      </div>
+      <p className="text-sm whitespace-pre-wrap">{chunk.page_content}</p>
+      <MetadataBadges metadata={chunk.metadata} />
+    </div>
+  );
+}
+
+interface DocumentDetailsDialogProps {
+  document: Document | undefined;
+  onOpenChange: (open: boolean) => void;
+  /**
+   * Called when the document is replaced by re-embedding it, or by updating
+   * its metadata.
+   */
+  onReplaced: (document: Document | undefined) => void;
+  actionsDisabled: boolean;
+}
+
+/**
+ * Shows the stored chunks of a document, and allows editing the metadata of
+ * the document or re-embedding it.
+ */
+export function DocumentDetailsDialog({
+  document,
+  onOpenChange,
+  onReplaced,
+  actionsDisabled,
+}: DocumentDetailsDialogProps) {
+  const { listDocumentChunks, reembedDocument } = useRagContext();
+  const [chunks, setChunks] = useState<DocumentChunk[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [reembedding, setReembedding] = useState(false);
+  const fileId: string | undefined = document?.metadata.file_id;
+
+  useEffect(() => {
+    setChunks([]);
+    if (!document) return;
+    let cancelled = false;
+    setLoading(true);
+    listDocumentChunks(document)
+      .then((result) => {
+        if (!cancelled) setChunks(result);
+      })
+      .catch((e) => {
+        console.error(e);
+        toast.error("Failed to load document chunks", { richColors: true });
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [fileId]);
+
+  const replaceDocument = async (
+    doc: Document,
+    metadata?: Record<string, any>,
+  ) => {
+    setReembedding(true);
+    try {
+      const replaced = await reembedDocument(doc, metadata);
+      if (!replaced) return;
+      toast.success(
+        metadata ? "Document metadata updated" : "Document re-embedded",
+        { richColors: true },
+      );
+      onReplaced(replaced);
+    } catch (e) {
+      console.error(e);
+      toast.error(
+        metadata
+          ? "Failed to update document metadata"
+          : "Failed to re-embed document",
+        {
+          richColors: true,
+          description: e instanceof Error ? e.message : undefined,
+        },
+      );
+    } finally {
+      setReembedding(false);
+    }
+  };
+
+  // Search results can't be paged, so chunks past the limit are an arbitrary
+  // subset of the document
+  const description = loading
+    ? "Loading chunks..."
+    : chunks.length >= MAX_DOCUMENT_CHUNKS
+      ? `Showing ${MAX_DOCUMENT_CHUNKS} chunks. This document has more, which can't be loaded.`
+      : `${chunks.length} ${chunks.length === 1 ? "chunk" : "chunks"} stored`;
+
+  return (
+    <Dialog
+      open={!!document}
+      onOpenChange={onOpenChange}
+    >
+      <DialogContent className="flex max-h-[85vh] flex-col sm:max-w-3xl">
+        <DialogHeader className="flex-row items-start justify-between gap-4 pr-8">
+          <div className="flex flex-col gap-2">
+            <DialogTitle>{document?.metadata.name}</DialogTitle>
+            <DialogDescription>{description}</DialogDescription>
+          </div>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => document && replaceDocument(document)}
+            disabled={actionsDisabled || reembedding || loading}
+          >
+            {reembedding ? (
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            ) : (
+              <RefreshCw className="mr-2 h-4 w-4" />
+            )}
+            Re-embed
+          </Button>
+        </DialogHeader>
+        <Tabs
+          defaultValue="chunks"
+          className="min-h-0 flex-1"
+        >
+          <TabsList>
+            <TabsTrigger value="chunks">Chunks</TabsTrigger>
+            <TabsTrigger value="metadata">Document metadata</TabsTrigger>
+          </TabsList>
+          <TabsContent
+            value="chunks"
+            className="flex min-h-0 flex-col gap-3 overflow-y-auto"
+          >
+            {loading
+              ? Array.from({ length: 3 }).map((_, index) => (
+                  <Skeleton
+                    key={index}
+                    className="h-32 w-full"
+                  />
+                ))
+              : chunks.map((chunk, index) => (
+                  <ChunkItem
+                    key={chunk.id}
+                    chunk={chunk}
+                    index={index}
+                  />
+                ))}
+          </TabsContent>
+          <TabsContent
+            value="metadata"
+            className="flex flex-col gap-3 overflow-y-auto"
+          >
+            <p className="text-muted-foreground text-sm">
+              Document metadata is stored on every chunk, so saving it re-embeds
+              the document.
+            </p>
+            {document && (
+              <MetadataEditor
+                key={fileId}
+                metadata={document.metadata}
+                onSave={(metadata) => replaceDocument(document, metadata)}
+              />
+            )}
+          </TabsContent>
+        </Tabs>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,6 +1,7 @@
 "use client";
 
 import type React from "react";
+import { useState } from "react";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import {
@@ -28,12 +29,14 @@ import {
   AlertDialogTitle,
   AlertDialogTrigger,
 } from "@/components/ui/alert-dialog";
-import { Trash2, MoreVertical } from "lucide-react";
+import { Trash2, MoreVertical, Layers, RefreshCw } from "lucide-react";
+import { toast } from "sonner";
 import { Document } from "@langchain/core/documents";
 import { useRagContext } from "../../providers/RAG";
 import { format } from "date-fns";
 import { Collection } from "@/types/collection";
 import { getCollectionName } from "../../hooks/use-rag";
+import { DocumentDetailsDialog } from "./document-details-dialog";
 
 interface DocumentsTableProps {
   documents: Document[];
@@ -46,96 +49,173 @@ export function DocumentsTable({
   selectedCollection,
   actionsDisabled,
 }: DocumentsTableProps) {
-  const { deleteDocument } = useRagContext();
+  const { deleteDocument, recrawlDocument } = useRagContext();
+  const [recrawling, setRecrawling] = useState(false);
+  // Track the open document by file ID, so the dialog reflects metadata updates
+  const [openFileId, setOpenFileId] = useState<string>();
+  const openDocument = documents.find(
+    (doc) => doc.metadata.file_id === openFileId,
+  );
+
+  const handleRecrawl = async (doc: Document) => {
+    setRecrawling(true);
+    try {
+      const result = await recrawlDocument(doc);
+      if (!result) return;
+      if (!result.uploaded) {
+        toast.error("Failed to re-crawl page", {
+          richColors: true,
+          description: result.errors[0]?.error,
+        });
+        return;
+      }
+      toast.success("Page re-crawled", { richColors: true });
+    } catch (e) {
+      console.error(e);
+      toast.error("Failed to re-crawl page", {
+        richColors: true,
+        description: e instanceof Error ? e.message : undefined,
+      });
+    } finally {
+      setRecrawling(false);
+    }
+  };
+
   return (
-    <Table>
-      <TableHeader>
-        <TableRow>
-          <TableHead>Document Name</TableHead>
-          <TableHead>Collection</TableHead>
-          <TableHead>Date Uploaded</TableHead>
-          <TableHead className="text-right">Actions</TableHead>
-        </TableRow>
-      </TableHeader>
-      <TableBody>
-        {documents.length === 0 ? (
+    <>
+      <Table>
+        <TableHeader>
           <TableRow>
-            <TableCell
-              colSpan={4}
-              className="text-muted-foreground text-center"
-            >
-              No documents found in this collection.
-            </TableCell>
+            <TableHead>Document Name</TableHead>
+            <TableHead>Collection</TableHead>
+            <TableHead>Date Uploaded</TableHead>
+            <TableHead className="text-right">Actions</TableHead>
           </TableRow>
-        ) : (
-          documents.map((doc) => (
-            <TableRow key={doc.id}>
-              <TableCell className="font-medium">{doc.metadata.name}</TableCell>
-              <TableCell>
-                <Badge variant="secondary">
-                  {getCollectionName(selectedCollection.name)}
-                </Badge>
+        </TableHeader>
+        <TableBody>
+          {documents.length === 0 ? (
+            <TableRow>
+              <TableCell
+                colSpan={4}
+                className="text-muted-foreground text-center"
+              >
+                No documents found in this collection.
               </TableCell>
-              <TableCell>
-                {format(new Date(doc.metadata.created_at), "MM/dd/yyyy h:mm a")}
-              </TableCell>
-              <TableCell className="text-right">
-                <AlertDialog>
-                  <DropdownMenu>
-                    <DropdownMenuTrigger asChild>
-                      <Button
-                        variant="ghost"
-                        size="icon"
-                      >
-                        <MoreVertical className="h-4 w-4" />
-                      </Button>
-                    </DropdownMenuTrigger>
-                    <DropdownMenuContent align="end">
-                      <AlertDialogTrigger asChild>
+            </TableRow>
+          ) : (
+            documents.map((doc) => (
+              <TableRow key={doc.id}>
+                <TableCell className="font-medium">
+                  <button
+                    type="button"
+                    className="text-left hover:underline"
+                    onClick={() => setOpenFileId(doc.metadata.file_id)}
+                  >
+                    {doc.metadata.name}
+                  </button>
+                  {doc.metadata.source_url && (
+                    <a
+                      href={doc.metadata.source_url}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="text-muted-foreground block max-w-xs truncate text-xs font-normal hover:underline"
+                    >
+                      {doc.metadata.source_url}
+                    </a>
+                  )}
+                </TableCell>
+                <TableCell>
+                  <Badge variant="secondary">
+                    {getCollectionName(selectedCollection.name)}
+                  </Badge>
+                </TableCell>
+                <TableCell>
+                  {format(
+                    new Date(doc.metadata.created_at),
+                    "MM/dd/yyyy h:mm a",
+                  )}
+                </TableCell>
+                <TableCell className="text-right">
+                  <AlertDialog>
+                    <DropdownMenu>
+                      <DropdownMenuTrigger asChild>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                        >
+                          <MoreVertical className="h-4 w-4" />
+                        </Button>
+                      </DropdownMenuTrigger>
+                      <DropdownMenuContent align="end">
                         <DropdownMenuItem
-                          className="text-destructive"
+                          onClick={() => setOpenFileId(doc.metadata.file_id)}
+                        >
+                          <Layers className="mr-2 h-4 w-4" />
+                          View chunks
+                        </DropdownMenuItem>
+                        {doc.metadata.source_url && (
+                          <DropdownMenuItem
+                            disabled={actionsDisabled || recrawling}
+                            onClick={() => handleRecrawl(doc)}
+                          >
+                            <RefreshCw className="mr-2 h-4 w-4" />
+                            Re-crawl
+                          </DropdownMenuItem>
+                        )}
+                        <AlertDialogTrigger asChild>
+                          <DropdownMenuItem
+                            className="text-destructive"
+                            disabled={actionsDisabled}
+                          >
+                            <Trash2 className="mr-2 h-4 w-4" />
+                            Delete
+                          </DropdownMenuItem>
+                        </AlertDialogTrigger>
+                      </DropdownMenuContent>
+                    </DropdownMenu>
+                    <AlertDialogContent>
+                      <AlertDialogHeader>
+                        <AlertDialogTitle>
+                          Are you absolutely sure?
+                        </AlertDialogTitle>
+                        <AlertDialogDescription>
+                          This action cannot be undone. This will permanently
+                          delete the document
+                          <span className="font-semibold">
+                            {" "}
+                            {doc.metadata.name}
+                          </span>
+                          .
+                        </AlertDialogDescription>
+                      </AlertDialogHeader>
+                      <AlertDialogFooter>
+                        <AlertDialogCancel>Cancel</AlertDialogCancel>
+                        <AlertDialogAction
+                          onClick={async () =>
+                            await deleteDocument(doc.metadata.file_id)
+                          }
+                          className="bg-destructive hover:bg-destructive/90 text-white"
                           disabled={actionsDisabled}
                         >
-                          <Trash2 className="mr-2 h-4 w-4" />
                           Delete
-                        </DropdownMenuItem>
-                      </AlertDialogTrigger>
-                    </DropdownMenuContent>
-                  </DropdownMenu>
-                  <AlertDialogContent>
-                    <AlertDialogHeader>
-                      <AlertDialogTitle>
-                        Are you absolutely sure?
-                      </AlertDialogTitle>
-                      <AlertDialogDescription>
-                        This action cannot be undone. This will permanently
-                        delete the document
-                        <span className="font-semibold">
-                          {" "}
-                          {doc.metadata.name}
-                        </span>
-                        .
-                      </AlertDialogDescription>
-                    </AlertDialogHeader>
-                    <AlertDialogFooter>
-                      <AlertDialogCancel>Cancel</AlertDialogCancel>
-                      <AlertDialogAction
-                        onClick={async () =>
-                          await deleteDocument(doc.metadata.file_id)
-                        }
-                        className="bg-destructive hover:bg-destructive/90 text-white"
-                        disabled={actionsDisabled}
-                      >
-                        Delete
-                      </AlertDialogAction>
-                    </AlertDialogFooter>
-                  </AlertDialogContent>
-                </AlertDialog>
-              </TableCell>
-            </TableRow>
-          ))
-        )}
-      </TableBody>
-    </Table>
+                        </AlertDialogAction>
+                      </AlertDialogFooter>
+                    </AlertDialogContent>
+                  </AlertDialog>
+                </TableCell>
+              </TableRow>
+            ))
+          )}
+        </TableBody>
+      </Table>
+      <DocumentDetailsDialog
+        document={openDocument}
+        onOpenChange={(open) => {
+          if (!open) setOpenFileId(undefined);
+        }}
+        onReplaced={(doc) => setOpenFileId(doc?.metadata.file_id)}
+        actionsDisabled={actionsDisabled}
+      />
+    </>
   );
 }
@@ -7,6 +7,7 @@ import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Textarea } from "@/components/ui/textarea";
+import { Checkbox } from "@/components/ui/checkbox";
 import {
   Card,
   CardContent,
@@ -25,6 +26,13 @@ import {
 import { Plus, FileUp, X } from "lucide-react";
 import { useRagContext } from "../../providers/RAG";
 import { DocumentsTable } from "./documents-table";
+import { UrlUpload } from "./url-upload";
+import { UploadQueue } from "./upload-queue";
+import {
+  getFileExtension,
+  isSupportedFile,
+  SUPPORTED_FILE_EXTENSIONS,
+} from "../../utils/ingestion";
 import { Collection } from "@/types/collection";
 import { getCollectionName } from "../../hooks/use-rag";
 import { toast } from "sonner";
@@ -59,6 +67,7 @@ export function DocumentsCard({
   const [stagedFiles, setStagedFiles] = useState<File[]>([]);
   const [isUploading, setIsUploading] = useState(false);
   const [isDragging, setIsDragging] = useState(false);
+  const [splitCsvRows, setSplitCsvRows] = useState(false);
 
   const { agents } = useAgentsContext();
   const defaultAgent = agents.find(isUserSpecifiedDefaultAgent);
@@ -86,10 +95,7 @@ export function DocumentsCard({
   const handleFiles = (files: File[] | null) => {
     if (!files?.length) return;
 
-    const allowedTypes = ["application/pdf", "text/plain", "text/html"];
-    const filteredFiles = files.filter((file) =>
-      allowedTypes.includes(file.type),
-    );
+    const filteredFiles = files.filter((file) => isSupportedFile(file.name));
 
     setStagedFiles((prevFiles) => [...prevFiles, ...filteredFiles]);
   };
@@ -118,15 +124,11 @@ export function DocumentsCard({
     setIsDragging(false);
 
     const files = event.dataTransfer.files;
-    const acceptedExtensions = [".pdf", ".txt", ".html"];
     const supportedFiles: File[] = [];
     const unsupportedFiles: File[] = [];
 
     for (const file of files) {
-      const fileExtension = file.name
-        .substring(file.name.lastIndexOf("."))
-        .toLowerCase();
-      if (acceptedExtensions.includes(fileExtension)) {
+      if (isSupportedFile(file.name)) {
         supportedFiles.push(file);
       } else {
         unsupportedFiles.push(file);
@@ -136,7 +138,7 @@ export function DocumentsCard({
     if (unsupportedFiles.length > 0) {
       const unsupportedNames = unsupportedFiles.map((f) => f.name).join(", ");
       toast.error(
-        `Unsupported file types: ${unsupportedNames}. Please use PDF, TXT, or HTML.`,
+        `Unsupported file types: ${unsupportedNames}. Please use PDF, TXT, HTML, Markdown, DOCX, CSV, JSON, JSONL or ZIP.`,
         { richColors: true },
       );
     }
@@ -167,18 +169,44 @@ export function DocumentsCard({
     }
 
     setIsUploading(true);
-    const loadingToast = toast.loading("Uploading files", { richColors: true });
+    const loadingToast = toast.loading("Preparing files", { richColors: true });
     // Convert File[] to FileList as expected by the hook
     const dataTransfer = new DataTransfer();
     stagedFiles.forEach((file) => dataTransfer.items.add(file));
     const fileList = dataTransfer.files;
 
-    await handleDocumentFileUpload(fileList, selectedCollection.uuid);
-
-    toast.success("Files uploaded successfully", { richColors: true });
-    setIsUploading(false);
-    toast.dismiss(loadingToast);
-    setStagedFiles([]); // Clear staged files after initiating upload
+    try {
+      const result = await handleDocumentFileUpload(
+        fileList,
+        selectedCollection.uuid,
+        { splitCsvRows },
+      );
+      if (result?.skipped.length) {
+        toast.warning(
+          `Skipped ${result.skipped.length} unsupported archive ${result.skipped.length === 1 ? "entry" : "entries"}`,
+          {
+            richColors: true,
+            description: result.skipped.slice(0, 5).join(", "),
+          },
+        );
+      }
+      if (result?.queued) {
+        toast.success(
+          `Uploading ${result.queued} ${result.queued === 1 ? "file" : "files"}`,
+          { richColors: true },
+        );
+      }
+      setStagedFiles([]); // Clear staged files after initiating upload
+    } catch (e) {
+      console.error(e);
+      toast.error("Failed to upload files", {
+        richColors: true,
+        description: e instanceof Error ? e.message : undefined,
+      });
+    } finally {
+      setIsUploading(false);
+      toast.dismiss(loadingToast);
+    }
   };
 
   // Handle text upload (uses document hook)
@@ -250,6 +278,7 @@ export function DocumentsCard({
             <TabsList className="mb-4">
               <TabsTrigger value="file">Upload File</TabsTrigger>
               <TabsTrigger value="text">Add Text</TabsTrigger>
+              <TabsTrigger value="url">Add from URL</TabsTrigger>
             </TabsList>
             <TabsContent value="file">
               <div
@@ -268,7 +297,7 @@ export function DocumentsCard({
                   id="file-upload"
                   multiple
                   onChange={handleFileSelect}
-                  accept=".pdf,.txt,.html"
+                  accept={SUPPORTED_FILE_EXTENSIONS.join(",")}
                 />
                 <Label htmlFor="file-upload">
                   <Button
@@ -303,6 +332,26 @@ export function DocumentsCard({
                       </li>
                     ))}
                   </ul>
+                  {stagedFiles.some((file) =>
+                    [".csv", ".zip"].includes(getFileExtension(file.name)),
+                  ) && (
+                    <div className="flex items-center gap-2 pt-2">
+                      <Checkbox
+                        id="split-csv-rows"
+                        checked={splitCsvRows}
+                        onCheckedChange={(checked) =>
+                          setSplitCsvRows(checked === true)
+                        }
+                      />
+                      <Label
+                        htmlFor="split-csv-rows"
+                        className="font-normal"
+                      >
+                        Split CSV files into one document per row, with columns
+                        stored as metadata
+                      </Label>
+                    </div>
+                  )}
                   <Button
                     onClick={handleUploadStagedFiles}
                     disabled={!selectedCollection || isUploading}
@@ -313,6 +362,7 @@ export function DocumentsCard({
                   </Button>
                 </div>
               )}
+              <UploadQueue />
             </TabsContent>
             <TabsContent value="text">
               <div className="space-y-4">
@@ -331,6 +381,13 @@ export function DocumentsCard({
                 </Button>
               </div>
             </TabsContent>
+            <TabsContent value="url">
+              <UrlUpload
+                selectedCollection={selectedCollection}
+                isUploading={isUploading}
+                setIsUploading={setIsUploading}
+              />
+            </TabsContent>
           </Tabs>
         </div>
 
@@ -0,0 +1,159 @@
+"use client";
+
+import {
+  AlertCircle,
+  CheckCircle2,
+  Loader2,
+  Play,
+  RotateCw,
+  Square,
+} from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
+import { cn } from "@/lib/utils";
+import { useRagContext } from "../../providers/RAG";
+import { UploadQueueItem } from "../../hooks/use-upload-queue";
+
+function UploadStatusLabel({ item }: { item: UploadQueueItem }) {
+  switch (item.status) {
+    case "pending":
+      return <span className="text-muted-foreground">Queued</span>;
+    case "uploading":
+      return (
+        <span className="text-muted-foreground flex items-center gap-1">
+          <Loader2 className="h-3 w-3 animate-spin" />
+          {item.progress}%
+        </span>
+      );
+    case "retrying":
+      return (
+        <span className="flex items-center gap-1 text-amber-600">
+          <RotateCw className="h-3 w-3 animate-spin" />
+          Retrying ({item.attempts})
+        </span>
+      );
+    case "success":
+      return (
+        <span className="flex items-center gap-1 text-green-600">
+          <CheckCircle2 className="h-3 w-3" />
+          Uploaded
+        </span>
+      );
+    case "error":
+      return (
+        <span className="text-destructive flex items-center gap-1">
+          <AlertCircle className="h-3 w-3" />
+          Failed
+        </span>
+      );
+    case "cancelled":
+      return <span className="text-muted-foreground">Cancelled</span>;
+  }
+}
+
+/**
+ * Shows the progress of queued file uploads, with controls to cancel,
+ * resume and clear the queue.
+ */
+export function UploadQueue() {
+  const {
+    uploadQueue,
+    isUploadQueueRunning,
+    cancelUploads,
+    resumeUploads,
+    clearUploadQueue,
+  } = useRagContext();
+
+  if (!uploadQueue.length) return null;
+
+  const succeeded = uploadQueue.filter((i) => i.status === "success").length;
+  const failed = uploadQueue.filter((i) => i.status === "error");
+  const cancelled = uploadQueue.filter((i) => i.status === "cancelled").length;
+  const canResume =
+    !isUploadQueueRunning && (failed.length > 0 || cancelled > 0);
+
+  return (
+    <div className="mt-4 space-y-3 rounded-md border p-3">
+      <div className="flex items-center justify-between gap-2">
+        <div className="text-sm">
+          <span className="font-medium">
+            {succeeded} of {uploadQueue.length} uploaded
+          </span>
+          {failed.length > 0 && (
+            <span className="text-destructive">, {failed.length} failed</span>
+          )}
+          {cancelled > 0 && (
+            <span className="text-muted-foreground">
+              , {cancelled} cancelled
+            </span>
+          )}
+        </div>
+        <div className="flex items-center gap-2">
+          {isUploadQueueRunning && (
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={cancelUploads}
+            >
+              <Square className="mr-1 h-3.5 w-3.5" />
+              Cancel
+            </Button>
+          )}
+          {canResume && (
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={resumeUploads}
+            >
+              <Play className="mr-1 h-3.5 w-3.5" />
+              {failed.length ? "Retry failed" : "Resume"}
+            </Button>
+          )}
+          {!isUploadQueueRunning && (
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={clearUploadQueue}
+            >
+              Clear
+            </Button>
+          )}
+        </div>
+      </div>
+
+      <ul className="max-h-64 space-y-2 overflow-y-auto">
+        {uploadQueue.map((item) => (
+          <li
+            key={item.id}
+            className="space-y-1 text-sm"
+          >
+            <div className="flex items-center justify-between gap-2">
+              <span className="truncate">{item.metadata.name}</span>
+              <span className="shrink-0 text-xs">
+                <UploadStatusLabel item={item} />
+              </span>
+            </div>
+            {["uploading", "retrying"].includes(item.status) && (
+              <Progress
+                value={item.progress}
+                className="h-1.5"
+              />
+            )}
+            {item.error && (
+              <p
+                className={cn(
+                  "text-xs",
+                  item.status === "error"
+                    ? "text-destructive"
+                    : "text-muted-foreground",
+                )}
+              >
+                {item.error}
+              </p>
+            )}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
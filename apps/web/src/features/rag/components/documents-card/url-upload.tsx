@@ -0,0 +1,165 @@
+"use client";
+
+import { useState } from "react";
+import { toast } from "sonner";
+import { Globe } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Collection, CrawlMode } from "@/types/collection";
+import { useRagContext } from "../../providers/RAG";
+
+const DEFAULT_MAX_PAGES = 50;
+
+function isHttpUrl(value: string): boolean {
+  try {
+    return ["http:", "https:"].includes(new URL(value).protocol);
+  } catch (_) {
+    return false;
+  }
+}
+
+interface UrlUploadProps {
+  selectedCollection: Collection | undefined;
+  isUploading: boolean;
+  setIsUploading: (isUploading: boolean) => void;
+}
+
+export function UrlUpload({
+  selectedCollection,
+  isUploading,
+  setIsUploading,
+}: UrlUploadProps) {
+  const { handleUrlUpload } = useRagContext();
+  const [url, setUrl] = useState("");
+  const [mode, setMode] = useState<CrawlMode>("page");
+  const [maxPages, setMaxPages] = useState(DEFAULT_MAX_PAGES);
+
+  const isValidUrl = isHttpUrl(url.trim());
+
+  const handleImport = async () => {
+    if (!selectedCollection) {
+      throw new Error("No collection selected");
+    }
+
+    setIsUploading(true);
+    const loadingToast = toast.loading(
+      mode === "sitemap" ? "Importing pages from sitemap" : "Importing page",
+      { richColors: true },
+    );
+    try {
+      const result = await handleUrlUpload(
+        url.trim(),
+        selectedCollection.uuid,
+        {
+          mode,
+          maxPages: mode === "sitemap" ? maxPages : undefined,
+        },
+      );
+      if (!result) return;
+
+      if (!result.uploaded) {
+        toast.error("No pages were imported", {
+          richColors: true,
+          description: result.errors[0]
+            ? `${result.errors[0].url}: ${result.errors[0].error}`
+            : undefined,
+        });
+        return;
+      }
+
+      const details = [
+        result.replaced ? `${result.replaced} updated` : undefined,
+        result.errors.length ? `${result.errors.length} failed` : undefined,
+      ].filter(Boolean);
+      toast.success(
+        `Imported ${result.uploaded} ${result.uploaded === 1 ? "page" : "pages"}`,
+        {
+          richColors: true,
+          description: details.length ? details.join(", ") : undefined,
+        },
+      );
+      setUrl("");
+    } catch (e) {
+      console.error(e);
+      toast.error("Failed to import URL", {
+        richColors: true,
+        description: e instanceof Error ? e.message : undefined,
+      });
+    } finally {
+      toast.dismiss(loadingToast);
+      setIsUploading(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-end gap-2">
+        <div className="flex flex-1 flex-col gap-2">
+          <Label htmlFor="url-upload">URL</Label>
+          <Input
+            id="url-upload"
+            type="url"
+            placeholder={
+              mode === "sitemap"
+                ? "https://docs.example.com/sitemap.xml"
+                : "https://docs.example.com/getting-started"
+            }
+            value={url}
+            onChange={(e) => setUrl(e.target.value)}
+          />
+        </div>
+        <div className="flex flex-col gap-2">
+          <Label>Import</Label>
+          <Select
+            value={mode}
+            onValueChange={(value) => setMode(value as CrawlMode)}
+          >
+            <SelectTrigger className="w-36">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="page">Single page</SelectItem>
+              <SelectItem value="sitemap">Sitemap</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+        {mode === "sitemap" && (
+          <div className="flex w-24 flex-col gap-2">
+            <Label htmlFor="url-upload-max-pages">Max pages</Label>
+            <Input
+              id="url-upload-max-pages"
+              type="number"
+              min={1}
+              max={500}
+              value={maxPages}
+              onChange={(e) =>
+                setMaxPages(
+                  Math.min(500, Math.max(1, Number(e.target.value) || 1)),
+                )
+              }
+            />
+          </div>
+        )}
+      </div>
+      <p className="text-muted-foreground text-sm">
+        Pages are fetched by the server and their readable text is imported.
+        Pages which were already imported are replaced with the latest version.
+      </p>
+      <Button
+        onClick={handleImport}
+        disabled={!selectedCollection || !isValidUrl || isUploading}
+      >
+        <Globe className="mr-2 h-4 w-4" />
+        Import from URL
+      </Button>
+    </div>
+  );
+}
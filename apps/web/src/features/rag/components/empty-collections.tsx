@@ -5,17 +5,23 @@ import { CreateCollectionDialog } from "./create-collection-dialog";
 import { useState } from "react";
 import { useRagContext } from "../providers/RAG";
 import { toast } from "sonner";
+import { CollectionIngestionSettings } from "@/types/collection";
 
 export default function EmptyCollectionsState() {
   const [open, setOpen] = useState(false);
   const { createCollection, setSelectedCollection } = useRagContext();
 
-  const handleSubmit = async (name: string, description: string) => {
+  const handleSubmit = async (
+    name: string,
+    description: string,
+    ingestion: CollectionIngestionSettings,
+  ) => {
     const loadingToast = toast.loading("Creating collection", {
       richColors: true,
     });
     const newCollection = await createCollection(name, {
       description,
+      ingestion,
     });
     toast.dismiss(loadingToast);
     if (newCollection) {
@@ -0,0 +1,224 @@
+"use client";
+
+import { useState } from "react";
+import { AlertCircle, ChevronRight } from "lucide-react";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Button } from "@/components/ui/button";
+import {
+  Collapsible,
+  CollapsibleContent,
+  CollapsibleTrigger,
+} from "@/components/ui/collapsible";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { cn } from "@/lib/utils";
+import {
+  CollectionIngestionSettings,
+  SplitterStrategy,
+} from "@/types/collection";
+import {
+  EMBEDDING_MODELS,
+  MAX_CHUNK_SIZE,
+  MIN_CHUNK_SIZE,
+  SPLITTER_STRATEGIES,
+  validateIngestionSettings,
+} from "../utils/ingestion-settings";
+
+// Radix Select does not allow an empty value, so use a sentinel for "unset".
+const SERVER_DEFAULT = "server_default";
+
+function parseOptionalNumber(value: string): number | undefined {
+  return value === "" ? undefined : Number(value);
+}
+
+interface IngestionSettingsFieldsProps {
+  value: CollectionIngestionSettings;
+  onChange: (value: CollectionIngestionSettings) => void;
+  /**
+   * The embedding model the collection's existing documents were embedded
+   * with. If set, and a different model is selected, a warning is shown.
+   */
+  currentEmbeddingModel?: string;
+}
+
+/**
+ * Fields for the chunking and embedding settings of a collection, in a
+ * collapsible section.
+ */
+export function IngestionSettingsFields({
+  value,
+  onChange,
+  currentEmbeddingModel,
+}: IngestionSettingsFieldsProps) {
+  const [open, setOpen] = useState(false);
+  const error = validateIngestionSettings(value);
+  const embeddingModelChanged =
+    currentEmbeddingModel !== undefined &&
+    (value.embedding_model ?? "") !== currentEmbeddingModel;
+  const splitter = SPLITTER_STRATEGIES.find((s) => s.value === value.splitter);
+
+  return (
+    <Collapsible
+      open={open || !!error}
+      onOpenChange={setOpen}
+      className="space-y-4"
+    >
+      <CollapsibleTrigger asChild>
+        <Button
+          type="button"
+          variant="ghost"
+          size="sm"
+          className="-ml-2 w-fit"
+        >
+          <ChevronRight
+            className={cn(
+              "mr-1 h-4 w-4 transition-transform",
+              (open || !!error) && "rotate-90",
+            )}
+          />
+          Chunking & embedding
+        </Button>
+      </CollapsibleTrigger>
+      <CollapsibleContent className="grid gap-4">
+        <div className="grid grid-cols-4 items-center gap-4">
+          <Label
+            htmlFor="collection-chunk-size"
+            className="text-right"
+          >
+            Chunk size
+          </Label>
+          <Input
+            id="collection-chunk-size"
+            type="number"
+            min={MIN_CHUNK_SIZE}
+            max={MAX_CHUNK_SIZE}
+            placeholder="Server default"
+            value={value.chunk_size ?? ""}
+            onChange={(e) =>
+              onChange({
+                ...value,
+                chunk_size: parseOptionalNumber(e.target.value),
+              })
+            }
+            className="col-span-3"
+          />
+        </div>
+        <div className="grid grid-cols-4 items-center gap-4">
+          <Label
+            htmlFor="collection-chunk-overlap"
+            className="text-right"
+          >
+            Chunk overlap
+          </Label>
+          <Input
+            id="collection-chunk-overlap"
+            type="number"
+            min={0}
+            placeholder="Server default"
+            value={value.chunk_overlap ?? ""}
+            onChange={(e) =>
+              onChange({
+                ...value,
+                chunk_overlap: parseOptionalNumber(e.target.value),
+              })
+            }
+            className="col-span-3"
+          />
+        </div>
+        <div className="grid grid-cols-4 items-start gap-4">
+          <Label className="pt-2 text-right">Splitter</Label>
+          <div className="col-span-3 space-y-1">
+            <Select
+              value={value.splitter ?? SERVER_DEFAULT}
+              onValueChange={(splitter) =>
+                onChange({
+                  ...value,
+                  splitter:
+                    splitter === SERVER_DEFAULT
+                      ? undefined
+                      : (splitter as SplitterStrategy),
+                })
+              }
+            >
+              <SelectTrigger className="w-full">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={SERVER_DEFAULT}>Server default</SelectItem>
+                {SPLITTER_STRATEGIES.map((strategy) => (
+                  <SelectItem
+                    key={strategy.value}
+                    value={strategy.value}
+                  >
+                    {strategy.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {splitter && (
+              <p className="text-muted-foreground text-xs">
+                {splitter.description}
+              </p>
+            )}
+          </div>
+        </div>
+        <div className="grid grid-cols-4 items-center gap-4">
+          <Label className="text-right">Embedding model</Label>
+          <Select
+            value={value.embedding_model || SERVER_DEFAULT}
+            onValueChange={(model) =>
+              onChange({
+                ...value,
+                embedding_model: model === SERVER_DEFAULT ? undefined : model,
+              })
+            }
+          >
+            <SelectTrigger className="col-span-3 w-full">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={SERVER_DEFAULT}>Server default</SelectItem>
+              {/* Keep models which were set elsewhere selectable */}
+              {[
+                ...EMBEDDING_MODELS,
+                ...(value.embedding_model &&
+                !EMBEDDING_MODELS.includes(value.embedding_model)
+                  ? [value.embedding_model]
+                  : []),
+              ].map((model) => (
+                <SelectItem
+                  key={model}
+                  value={model}
+                >
+                  {model}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        {embeddingModelChanged && (
+          <Alert>
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>
+              Changing the embedding model only applies to new uploads. Re-embed
+              existing documents so they can be searched together.
+            </AlertDescription>
+          </Alert>
+        )}
+        {error && (
+          <Alert variant="destructive">
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+      </CollapsibleContent>
+    </Collapsible>
+  );
+}
@@ -0,0 +1,172 @@
+"use client";
+
+import { useState } from "react";
+import { v4 as uuidv4 } from "uuid";
+import { Loader2, Plus, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  formatMetadataValue,
+  parseMetadataValue,
+  READ_ONLY_METADATA_KEYS,
+} from "../utils/metadata";
+
+interface MetadataRow {
+  id: string;
+  key: string;
+  value: string;
+}
+
+function toRows(metadata: Record<string, any>): MetadataRow[] {
+  return Object.entries(metadata)
+    .filter(([key]) => !READ_ONLY_METADATA_KEYS.includes(key))
+    .map(([key, value]) => ({
+      id: uuidv4(),
+      key,
+      value: formatMetadataValue(value),
+    }));
+}
+
+interface MetadataEditorProps {
+  metadata: Record<string, any>;
+  onSave: (metadata: Record<string, any>) => Promise<unknown>;
+  onCancel?: () => void;
+}
+
+/**
+ * A key/value editor for document metadata. Read-only keys are
+ * displayed, but are always saved with their original values.
+ */
+export function MetadataEditor({
+  metadata,
+  onSave,
+  onCancel,
+}: MetadataEditorProps) {
+  const [rows, setRows] = useState<MetadataRow[]>(() => toRows(metadata));
+  const [saving, setSaving] = useState(false);
+
+  const readOnlyEntries = Object.entries(metadata).filter(([key]) =>
+    READ_ONLY_METADATA_KEYS.includes(key),
+  );
+  const keys = rows.map((row) => row.key.trim()).filter(Boolean);
+  const hasDuplicateKeys = new Set(keys).size !== keys.length;
+  const hasReservedKeys = keys.some((key) =>
+    READ_ONLY_METADATA_KEYS.includes(key),
+  );
+
+  const updateRow = (id: string, update: Partial<MetadataRow>) => {
+    setRows((prev) =>
+      prev.map((row) => (row.id === id ? { ...row, ...update } : row)),
+    );
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      await onSave({
+        ...Object.fromEntries(
+          rows
+            .filter((row) => row.key.trim())
+            .map((row) => [row.key.trim(), parseMetadataValue(row.value)]),
+        ),
+        ...Object.fromEntries(readOnlyEntries),
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="flex flex-col gap-2">
+      {readOnlyEntries.map(([key, value]) => (
+        <div
+          key={key}
+          className="flex items-center gap-2"
+        >
+          <Input
+            value={key}
+            disabled
+          />
+          <Input
+            value={formatMetadataValue(value)}
+            disabled
+          />
+          <div className="w-9 shrink-0" />
+        </div>
+      ))}
+      {rows.map((row) => (
+        <div
+          key={row.id}
+          className="flex items-center gap-2"
+        >
+          <Input
+            placeholder="Key"
+            value={row.key}
+            onChange={(e) => updateRow(row.id, { key: e.target.value })}
+          />
+          <Input
+            placeholder="Value"
+            value={row.value}
+            onChange={(e) => updateRow(row.id, { value: e.target.value })}
+          />
+          <Button
+            type="button"
+            variant="ghost"
+            size="icon"
+            aria-label="Remove metadata field"
+            onClick={() =>
+              setRows((prev) => prev.filter((r) => r.id !== row.id))
+            }
+          >
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+      ))}
+      {hasDuplicateKeys && (
+        <p className="text-destructive text-sm">
+          Metadata keys must be unique.
+        </p>
+      )}
+      {hasReservedKeys && (
+        <p className="text-destructive text-sm">
+          The following keys are reserved: {READ_ONLY_METADATA_KEYS.join(", ")}
+        </p>
+      )}
+      <div className="flex items-center justify-between gap-2">
+        <Button
+          type="button"
+          variant="ghost"
+          size="sm"
+          onClick={() =>
+            setRows((prev) => [...prev, { id: uuidv4(), key: "", value: "" }])
+          }
+        >
+          <Plus className="mr-1 h-3.5 w-3.5" />
+          Add field
+        </Button>
+        <div className="flex items-center gap-2">
+          {onCancel && (
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              onClick={onCancel}
+              disabled={saving}
+            >
+              Cancel
+            </Button>
+          )}
+          <Button
+            type="button"
+            size="sm"
+            onClick={handleSave}
+            disabled={saving || hasDuplicateKeys || hasReservedKeys}
+          >
+            {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Save
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
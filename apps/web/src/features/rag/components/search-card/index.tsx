@@ -0,0 +1,212 @@
+"use client";
+
+import type React from "react";
+import { FormEvent, useEffect, useState } from "react";
+import { v4 as uuidv4 } from "uuid";
+import { Loader2, Plus, Search, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Collection } from "@/types/collection";
+import { getCollectionName } from "../../hooks/use-rag";
+import {
+  DEFAULT_SEARCH_LIMIT,
+  MAX_SEARCH_LIMIT,
+  useCollectionSearch,
+} from "../../hooks/use-collection-search";
+import { parseMetadataValue } from "../../utils/metadata";
+import { SearchResultItem } from "./search-result-item";
+
+interface MetadataFilterRow {
+  id: string;
+  key: string;
+  value: string;
+}
+
+function buildFilter(rows: MetadataFilterRow[]): Record<string, any> {
+  return Object.fromEntries(
+    rows
+      .filter((row) => row.key.trim())
+      .map((row) => [row.key.trim(), parseMetadataValue(row.value.trim())]),
+  );
+}
+
+interface SearchCardProps {
+  selectedCollection: Collection | undefined;
+}
+
+export function SearchCard({ selectedCollection }: SearchCardProps) {
+  const { results, loading, search, clearResults } = useCollectionSearch();
+  const [query, setQuery] = useState("");
+  const [limit, setLimit] = useState(DEFAULT_SEARCH_LIMIT);
+  const [filterRows, setFilterRows] = useState<MetadataFilterRow[]>([]);
+  const [searchedQuery, setSearchedQuery] = useState<string>();
+
+  // Results belong to a single collection, so clear them when it changes
+  useEffect(() => {
+    clearResults();
+    setSearchedQuery(undefined);
+  }, [selectedCollection?.uuid, clearResults]);
+
+  const handleSearch = async (e: FormEvent) => {
+    e.preventDefault();
+    if (!selectedCollection || !query.trim()) return;
+
+    const searchResults = await search(selectedCollection.uuid, {
+      query: query.trim(),
+      limit,
+      filter: buildFilter(filterRows),
+    });
+    if (!searchResults) return;
+    setSearchedQuery(query.trim());
+  };
+
+  const updateFilterRow = (id: string, update: Partial<MetadataFilterRow>) => {
+    setFilterRows((prev) =>
+      prev.map((row) => (row.id === id ? { ...row, ...update } : row)),
+    );
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>
+          Search {getCollectionName(selectedCollection?.name)}
+        </CardTitle>
+        <CardDescription>
+          Run a semantic search to see which chunks the retriever returns
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="flex flex-col gap-6">
+        <form
+          onSubmit={handleSearch}
+          className="flex flex-col gap-4"
+        >
+          <div className="flex items-end gap-2">
+            <div className="flex flex-1 flex-col gap-2">
+              <Label htmlFor="rag-search-query">Query</Label>
+              <Input
+                id="rag-search-query"
+                placeholder="What are you looking for?"
+                value={query}
+                onChange={(e) => setQuery(e.target.value)}
+              />
+            </div>
+            <div className="flex w-20 flex-col gap-2">
+              <Label htmlFor="rag-search-limit">k</Label>
+              <Input
+                id="rag-search-limit"
+                type="number"
+                min={1}
+                max={MAX_SEARCH_LIMIT}
+                value={limit}
+                onChange={(e) =>
+                  setLimit(
+                    Math.min(
+                      MAX_SEARCH_LIMIT,
+                      Math.max(1, Number(e.target.value) || 1),
+                    ),
+                  )
+                }
+              />
+            </div>
+            <Button
+              type="submit"
+              disabled={!selectedCollection || !query.trim() || loading}
+            >
+              {loading ? (
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              ) : (
+                <Search className="mr-2 h-4 w-4" />
+              )}
+              Search
+            </Button>
+          </div>
+
+          <div className="flex flex-col gap-2">
+            <div className="flex items-center justify-between">
+              <Label>Metadata filters</Label>
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                onClick={() =>
+                  setFilterRows((prev) => [
+                    ...prev,
+                    { id: uuidv4(), key: "", value: "" },
+                  ])
+                }
+              >
+                <Plus className="mr-1 h-3.5 w-3.5" />
+                Add filter
+              </Button>
+            </div>
+            {filterRows.length === 0 ? (
+              <p className="text-muted-foreground text-sm">
+                No filters. All chunks in the collection are searched.
+              </p>
+            ) : (
+              filterRows.map((row) => (
+                <div
+                  key={row.id}
+                  className="flex items-center gap-2"
+                >
+                  <Input
+                    placeholder="Key"
+                    value={row.key}
+                    onChange={(e) =>
+                      updateFilterRow(row.id, { key: e.target.value })
+                    }
+                  />
+                  <Input
+                    placeholder="Value"
+                    value={row.value}
+                    onChange={(e) =>
+                      updateFilterRow(row.id, { value: e.target.value })
+                    }
+                  />
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon"
+                    aria-label="Remove filter"
+                    onClick={() =>
+                      setFilterRows((prev) =>
+                        prev.filter((r) => r.id !== row.id),
+                      )
+                    }
+                  >
+                    <X className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))
+            )}
+          </div>
+        </form>
+
+        {searchedQuery !== undefined && !loading && (
+          <div className="flex flex-col gap-3">
+            <p className="text-muted-foreground text-sm">
+              {results.length} {results.length === 1 ? "result" : "results"} for
+              &quot;{searchedQuery}&quot;
+            </p>
+            {results.map((result, index) => (
+              <SearchResultItem
+                key={result.id}
+                result={result}
+                rank={index + 1}
+              />
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,72 @@
+"use client";
+
+import { useState } from "react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { CollectionSearchResult } from "@/types/collection";
+import { cn } from "@/lib/utils";
+import { formatMetadataValue } from "../../utils/metadata";
+
+// Results longer than this are collapsed by default.
+const COLLAPSED_CONTENT_LENGTH = 400;
+
+interface SearchResultItemProps {
+  result: CollectionSearchResult;
+  rank: number;
+}
+
+export function SearchResultItem({ result, rank }: SearchResultItemProps) {
+  const [expanded, setExpanded] = useState(false);
+  const isLong = result.page_content.length > COLLAPSED_CONTENT_LENGTH;
+  const metadataEntries = Object.entries(result.metadata ?? {});
+
+  return (
+    <div className="flex flex-col gap-3 rounded-lg border p-4">
+      <div className="flex items-center justify-between gap-2">
+        <div className="flex min-w-0 items-center gap-2">
+          <span className="text-muted-foreground text-sm font-medium">
+            #{rank}
+          </span>
+          {result.metadata?.name && (
+            <span className="truncate text-sm font-medium">
+              {result.metadata.name}
+            </span>
+          )}
+        </div>
+        <Badge variant="brand">Score {result.score.toFixed(4)}</Badge>
+      </div>
+      <p
+        className={cn(
+          "text-sm whitespace-pre-wrap",
+          !expanded && isLong && "line-clamp-6",
+        )}
+      >
+        {result.page_content}
+      </p>
+      {isLong && (
+        <Button
+          variant="link"
+          size="sm"
+          className="h-auto w-fit p-0"
+          onClick={() => setExpanded((prev) => !prev)}
+        >
+          {expanded ? "Show less" : "Show more"}
+        </Button>
+      )}
+      {metadataEntries.length > 0 && (
+        <div className="flex flex-wrap gap-1">
+          {metadataEntries.map(([key, value]) => (
+            <Badge
+              key={key}
+              variant="outline"
+              className="max-w-full"
+            >
+              <span className="text-muted-foreground">{key}:</span>
+              <span className="truncate">{formatMetadataValue(value)}</span>
+            </Badge>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,138 @@
+import { useCallback, useRef, useState } from "react";
+import { toast } from "sonner";
+import { CollectionSearchResult } from "@/types/collection";
+import { useAuthContext } from "@/providers/Auth";
+
+export const DEFAULT_SEARCH_LIMIT = 10;
+export const MAX_SEARCH_LIMIT = 100;
+
+export interface CollectionSearchArgs {
+  query: string;
+  /**
+   * The number of chunks to return (`k`).
+   * @default DEFAULT_SEARCH_LIMIT
+   */
+  limit?: number;
+  /**
+   * Only return chunks whose metadata matches every key/value pair.
+   */
+  filter?: Record<string, any>;
+}
+
+interface UseCollectionSearchReturn {
+  results: CollectionSearchResult[];
+  loading: boolean;
+  /**
+   * Resolves to undefined if the search was replaced by a newer search, or
+   * cancelled by `clearResults`, before it finished.
+   */
+  search: (
+    collectionId: string,
+    args: CollectionSearchArgs,
+  ) => Promise<CollectionSearchResult[] | undefined>;
+  /**
+   * Clears the results, and cancels the search in progress, if any.
+   */
+  clearResults: () => void;
+}
+
+/**
+ * Custom hook for running semantic searches against a collection, through
+ * the LangConnect API proxy. Results are ranked in the order returned by
+ * the retriever.
+ */
+export function useCollectionSearch(): UseCollectionSearchReturn {
+  const { session } = useAuthContext();
+  const [results, setResults] = useState<CollectionSearchResult[]>([]);
+  const [loading, setLoading] = useState(false);
+  const abortControllerRef = useRef<AbortController | null>(null);
+
+  const search = useCallback(
+    async (
+      collectionId: string,
+      args: CollectionSearchArgs,
+    ): Promise<CollectionSearchResult[] | undefined> => {
+      if (!session?.accessToken) {
+        toast.error("No session found", {
+          richColors: true,
+          description: "Failed to search collection. Please try again.",
+        });
+        return [];
+      }
+
+      abortControllerRef.current?.abort();
+      const abortController = new AbortController();
+      abortControllerRef.current = abortController;
+
+      setLoading(true);
+      try {
+        const response = await fetch(
+          `/api/langconnect/collections/${encodeURIComponent(collectionId)}/documents/search`,
+          {
+            method: "POST",
+            headers: {
+              "Content-Type": "application/json",
+              Authorization: `Bearer ${session.accessToken}`,
+            },
+            body: JSON.stringify({
+              query: args.query,
+              limit: args.limit ?? DEFAULT_SEARCH_LIMIT,
+              ...(args.filter && Object.keys(args.filter).length
+                ? { filter: args.filter }
+                : {}),
+            }),
+            signal: abortController.signal,
+          },
+        );
+
+        if (!response.ok) {
+          let errorDetail = response.statusText;
+          try {
+            const errorJson = await response.json();
+            errorDetail =
+              errorJson.detail ||
+              errorJson.message ||
+              JSON.stringify(errorJson);
+          } catch (_) {
+            // Fall back to the status text
+          }
+          throw new Error(errorDetail);
+        }
+
+        const data: CollectionSearchResult[] = await response.json();
+        if (abortController.signal.aborted) return undefined;
+        setResults(data);
+        return data;
+      } catch (e) {
+        // The search was replaced, or its collection is no longer selected
+        if (abortController.signal.aborted) return undefined;
+        console.error("Failed to search collection", e);
+        toast.error("Failed to search collection", {
+          richColors: true,
+          description: e instanceof Error ? e.message : undefined,
+        });
+        return [];
+      } finally {
+        if (abortControllerRef.current === abortController) {
+          abortControllerRef.current = null;
+          setLoading(false);
+        }
+      }
+    },
+    [session?.accessToken],
+  );
+
+  const clearResults = useCallback(() => {
+    abortControllerRef.current?.abort();
+    abortControllerRef.current = null;
+    setLoading(false);
+    setResults([]);
+  }, []);
+
+  return {
+    results,
+    loading,
+    search,
+    clearResults,
+  };
+}
@@ -1,11 +1,38 @@
-import { useState, Dispatch, SetStateAction, useCallback } from "react";
+import {
+  useState,
+  Dispatch,
+  SetStateAction,
+  useCallback,
+  useEffect,
+  useRef,
+} from "react";
 import { Document } from "@langchain/core/documents";
 import { v4 as uuidv4 } from "uuid";
-import { Collection, CollectionCreate } from "@/types/collection";
+import {
+  Collection,
+  CollectionCreate,
+  CollectionIngestionSettings,
+  CrawlMode,
+  CrawlResult,
+  DocumentChunk,
+} from "@/types/collection";
 import { toast } from "sonner";
 import { useAuthContext } from "@/providers/Auth";
+import { PrepareUploadsOptions, prepareUploads } from "../utils/ingestion";
+import { appendIngestionSettings } from "../utils/ingestion-settings";
+import {
+  UploadFunction,
+  UploadQueueItem,
+  useUploadQueue,
+} from "./use-upload-queue";
 
 export const DEFAULT_COLLECTION_NAME = "default_collection";
+// The most chunks of a single document the chunk viewer loads
+export const MAX_DOCUMENT_CHUNKS = 1000;
+// The number of chunks first requested when listing a document's chunks
+const DOCUMENT_CHUNKS_PAGE_SIZE = 100;
+// The page size used when listing every document in a collection
+const DOCUMENTS_PAGE_SIZE = 100;
 
 export function getDefaultCollection(collections: Collection[]): Collection {
   return (
@@ -60,6 +87,7 @@ export function getCollectionName(name: string | undefined) {
  * @param metadatas Optional array of metadata objects, one for each file.
  *                  Each item in the array should be a serializable object (dictionary).
  * @param apiUrlBase The base URL of your LangConnect API (e.g., "http://localhost:8000").
+ * @param ingestion The chunking and embedding settings of the collection.
  * @returns A promise that resolves with the API response.
  */
 async function uploadDocuments(
@@ -67,6 +95,7 @@ async function uploadDocuments(
   files: File[],
   authorization: string,
   metadatas?: Record<string, any>[],
+  ingestion?: CollectionIngestionSettings,
 ): Promise<any> {
   const url = buildApiUrl(
     `collections/${encodeURIComponent(collectionId)}/documents`,
@@ -90,6 +119,7 @@ async function uploadDocuments(
     const metadatasJsonString = JSON.stringify(metadatas);
     formData.append("metadatas_json", metadatasJsonString);
   }
+  appendIngestionSettings(formData, ingestion);
 
   try {
     const response = await fetch(url, {
@@ -120,6 +150,127 @@ async function uploadDocuments(
   }
 }
 
+/**
+ * Uploads a single document to a collection, reporting upload progress.
+ * Rejects with an error which includes the HTTP status, if any, so the
+ * upload queue can decide whether to retry.
+ */
+function uploadDocumentWithProgress(
+  collectionId: string,
+  file: File,
+  metadata: Record<string, any>,
+  ingestion: CollectionIngestionSettings | undefined,
+  authorization: string,
+  onProgress: (progress: number) => void,
+  signal: AbortSignal,
+): Promise<void> {
+  const url = buildApiUrl(
+    `collections/${encodeURIComponent(collectionId)}/documents`,
+  ).toString();
+
+  const formData = new FormData();
+  formData.append("files", file, file.name);
+  formData.append("metadatas_json", JSON.stringify([metadata]));
+  appendIngestionSettings(formData, ingestion);
+
+  return new Promise((resolve, reject) => {
+    const xhr = new XMLHttpRequest();
+    xhr.open("POST", url);
+    xhr.setRequestHeader("Authorization", `Bearer ${authorization}`);
+
+    xhr.upload.onprogress = (event) => {
+      if (event.lengthComputable) {
+        onProgress(Math.round((event.loaded / event.total) * 100));
+      }
+    };
+    xhr.onload = () => {
+      if (xhr.status >= 200 && xhr.status < 300) {
+        resolve();
+        return;
+      }
+      let errorDetail = `HTTP error! status: ${xhr.status}`;
+      try {
+        const errorJson = JSON.parse(xhr.responseText);
+        errorDetail = errorJson.detail || JSON.stringify(errorJson);
+      } catch (_) {
+        errorDetail = `${errorDetail} - ${xhr.statusText}`;
+      }
+      reject(Object.assign(new Error(errorDetail), { status: xhr.status }));
+    };
+    xhr.onerror = () => reject(new Error("Network error"));
+    xhr.onabort = () => reject(new Error("Upload cancelled"));
+
+    signal.addEventListener("abort", () => xhr.abort());
+    xhr.send(formData);
+  });
+}
+
+/**
+ * Fetches a page, or every page in a sitemap, server side and extracts the
+ * readable text of each page.
+ */
+async function crawlUrl(
+  url: string,
+  mode: CrawlMode,
+  maxPages?: number,
+): Promise<CrawlResult> {
+  const baseApiUrl = process.env.NEXT_PUBLIC_BASE_API_URL;
+  if (!baseApiUrl) {
+    throw new Error(
+      "Failed to crawl URL: Base API URL not configured. Please set NEXT_PUBLIC_BASE_API_URL",
+    );
+  }
+  const response = await fetch(`${baseApiUrl}/rag/crawl`, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify({ url, mode, maxPages }),
+  });
+  if (!response.ok) {
+    let errorDetail = response.statusText;
+    try {
+      errorDetail = (await response.json()).error || errorDetail;
+    } catch (_) {
+      // Fall back to the status text
+    }
+    throw new Error(`Failed to fetch URL: ${errorDetail}`);
+  }
+  return await response.json();
+}
+
+/**
+ * Orders chunks by their position in the source document. Chunks without a
+ * `start_index` are ordered last, and keep their relative order.
+ */
+function compareChunks(a: DocumentChunk, b: DocumentChunk): number {
+  const aStart = a.metadata.start_index;
+  const bStart = b.metadata.start_index;
+  if (typeof aStart === "number" && typeof bStart === "number") {
+    return aStart - bStart;
+  }
+  return (
+    Number(typeof bStart === "number") - Number(typeof aStart === "number")
+  );
+}
+
+/**
+ * Rebuilds the text of a document from its ordered chunks. Splitters strip
+ * the whitespace between chunks, so gaps are filled with newlines.
+ * @returns The text, or undefined if a chunk has no `start_index`.
+ */
+function joinChunks(chunks: DocumentChunk[]): string | undefined {
+  let text = "";
+  for (const chunk of chunks) {
+    const start = chunk.metadata.start_index;
+    if (typeof start !== "number") return undefined;
+    // Chunks overlap, so only add the text past the end of the previous one
+    const overlap = Math.max(text.length - start, 0);
+    text = text.padEnd(start, "\n") + chunk.page_content.slice(overlap);
+  }
+  return text;
+}
+
 // --- Type Definitions ---
 
 // Return type for the combined hook
@@ -163,11 +314,47 @@ interface UseRagReturn {
     accessToken?: string,
   ) => Promise<Document[]>;
   deleteDocument: (id: string) => Promise<void>;
+  /**
+   * Lists the stored chunks of a document, ordered by their position in the
+   * document. Documents with more than `MAX_DOCUMENT_CHUNKS` chunks only
+   * return that many.
+   */
+  listDocumentChunks: (document: Document) => Promise<DocumentChunk[]>;
+  /**
+   * Replaces a document with one rebuilt from its chunks, embedded with the
+   * collection's current settings. Also used to update document metadata,
+   * which is stored on every chunk.
+   * @returns The new document, if it was found after uploading.
+   */
+  reembedDocument: (
+    document: Document,
+    metadata?: Record<string, any>,
+  ) => Promise<Document | undefined>;
   handleFileUpload: (
     files: FileList | null,
     collectionId: string,
-  ) => Promise<void>;
+    options?: PrepareUploadsOptions,
+  ) => Promise<{ queued: number; skipped: string[] } | undefined>;
   handleTextUpload: (textInput: string, collectionId: string) => Promise<void>;
+
+  // Upload queue, used by file uploads
+  uploadQueue: UploadQueueItem[];
+  isUploadQueueRunning: boolean;
+  cancelUploads: () => void;
+  resumeUploads: () => void;
+  clearUploadQueue: () => void;
+  handleUrlUpload: (
+    url: string,
+    collectionId: string,
+    options: { mode: CrawlMode; maxPages?: number; replaceFileIds?: string[] },
+  ) => Promise<UrlUploadResult | undefined>;
+  recrawlDocument: (document: Document) => Promise<UrlUploadResult | undefined>;
+}
+
+interface UrlUploadResult {
+  uploaded: number;
+  replaced: number;
+  errors: CrawlResult["errors"];
 }
 
 /**
@@ -186,6 +373,11 @@ export function useRag(): UseRagReturn {
     Collection | undefined
   >(undefined);
   const [initialSearchExecuted, setInitialSearchExecuted] = useState(false);
+  // The selected collection, for checking if it changed while a request ran
+  const selectedCollectionIdRef = useRef<string | undefined>(undefined);
+  useEffect(() => {
+    selectedCollectionIdRef.current = selectedCollection?.uuid;
+  }, [selectedCollection]);
 
   // --- Initial Fetch ---
   const initialFetch = useCallback(async (accessToken: string) => {
@@ -261,6 +453,12 @@ export function useRag(): UseRagReturn {
 
   // --- Document Operations ---
 
+  const getIngestionSettings = useCallback(
+    (collectionId: string) =>
+      collections.find((c) => c.uuid === collectionId)?.metadata.ingestion,
+    [collections],
+  );
+
   const listDocuments = useCallback(
     async (
       collectionId: string,
@@ -294,6 +492,22 @@ export function useRag(): UseRagReturn {
     [session],
   );
 
+  const listAllDocuments = useCallback(
+    async (collectionId: string): Promise<Document[]> => {
+      const allDocuments: Document[] = [];
+      let page: Document[];
+      do {
+        page = await listDocuments(collectionId, {
+          limit: DOCUMENTS_PAGE_SIZE,
+          offset: allDocuments.length,
+        });
+        allDocuments.push(...page);
+      } while (page.length === DOCUMENTS_PAGE_SIZE);
+      return allDocuments;
+    },
+    [listDocuments],
+  );
+
   const deleteDocument = useCallback(
     async (id: string) => {
       if (!session?.accessToken) {
@@ -329,8 +543,190 @@ export function useRag(): UseRagReturn {
     [selectedCollection, session],
   );
 
+  const listDocumentChunks = useCallback(
+    async (document: Document): Promise<DocumentChunk[]> => {
+      if (!session?.accessToken) {
+        toast.error("No session found", {
+          richColors: true,
+          description: "Failed to list document chunks. Please try again.",
+        });
+        return [];
+      }
+
+      if (!selectedCollection) {
+        throw new Error("No collection selected");
+      }
+
+      // LangConnect has no endpoint which lists a document's chunks, so search
+      // for chunks with the document's file ID instead. Search results can't
+      // be paged, so the limit is raised until every chunk is returned.
+      const url = buildApiUrl(
+        `collections/${selectedCollection.uuid}/documents/search`,
+      );
+
+      const searchChunks = async (limit: number): Promise<DocumentChunk[]> => {
+        const response = await fetch(url.toString(), {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+            Authorization: `Bearer ${session.accessToken}`,
+          },
+          body: JSON.stringify({
+            query: document.metadata.name || document.metadata.file_id,
+            limit,
+            filter: { file_id: document.metadata.file_id },
+          }),
+        });
+        if (!response.ok) {
+          throw new Error(
+            `Failed to fetch document chunks: ${response.statusText}`,
+          );
+        }
+        return await response.json();
+      };
+
+      let limit = DOCUMENT_CHUNKS_PAGE_SIZE;
+      let data = await searchChunks(limit);
+      while (data.length === limit && limit < MAX_DOCUMENT_CHUNKS) {
+        limit = Math.min(limit * 4, MAX_DOCUMENT_CHUNKS);
+        data = await searchChunks(limit);
+      }
+      // Results are ordered by relevance, so order them by their position in
+      // the source document instead
+      return [...data].sort(compareChunks);
+    },
+    [selectedCollection, session],
+  );
+
+  const reembedDocument = useCallback(
+    async (
+      document: Document,
+      metadata: Record<string, any> = document.metadata,
+    ): Promise<Document | undefined> => {
+      if (!session?.accessToken) {
+        toast.error("No session found", {
+          richColors: true,
+          description: "Failed to re-embed document. Please try again.",
+        });
+        return;
+      }
+
+      if (!selectedCollection) {
+        throw new Error("No collection selected");
+      }
+      const collectionId = selectedCollection.uuid;
+
+      // LangConnect can't update stored chunks, so the document is rebuilt
+      // from its chunks, uploaded again and the old one is deleted.
+      const chunks = await listDocumentChunks(document);
+      if (chunks.length >= MAX_DOCUMENT_CHUNKS) {
+        throw new Error(
+          `Documents with more than ${MAX_DOCUMENT_CHUNKS} chunks can't be re-embedded. Upload the document again instead.`,
+        );
+      }
+      const text = joinChunks(chunks);
+      if (text === undefined) {
+        throw new Error(
+          "This document was stored without chunk offsets, so it can't be rebuilt. Upload the document again instead.",
+        );
+      }
+
+      // Marks the new document, so it can be found after uploading
+      const updatedAt = new Date().toISOString();
+      const { file_id: _fileId, start_index: _startIndex, ...rest } = metadata;
+      const name: string = document.metadata.name || "document";
+      await uploadDocuments(
+        collectionId,
+        [
+          new File([text], /\.txt$/i.test(name) ? name : `${name}.txt`, {
+            type: "text/plain",
+          }),
+        ],
+        session.accessToken,
+        [{ ...rest, updated_at: updatedAt }],
+        getIngestionSettings(collectionId),
+      );
+
+      const response = await fetch(
+        buildApiUrl(
+          `collections/${collectionId}/documents/${document.metadata.file_id}`,
+        ).toString(),
+        {
+          method: "DELETE",
+          headers: {
+            Authorization: `Bearer ${session.accessToken}`,
+          },
+        },
+      );
+      if (!response.ok) {
+        console.error(
+          `Failed to delete replaced document ${document.metadata.file_id}: ${response.statusText}`,
+        );
+      }
+
+      const updatedDocuments = await listDocuments(collectionId, {
+        limit: 100,
+      });
+      if (selectedCollectionIdRef.current === collectionId) {
+        setDocuments(updatedDocuments);
+      }
+      return updatedDocuments.find(
+        (doc) => doc.metadata.updated_at === updatedAt,
+      );
+    },
+    [
+      getIngestionSettings,
+      listDocumentChunks,
+      listDocuments,
+      selectedCollection,
+      session,
+    ],
+  );
+
+  const uploadQueueItem: UploadFunction = useCallback(
+    async (item, onProgress, signal) => {
+      if (!session?.accessToken) {
+        throw new Error("No session found");
+      }
+      await uploadDocumentWithProgress(
+        item.collectionId,
+        item.file,
+        item.metadata,
+        getIngestionSettings(item.collectionId),
+        session.accessToken,
+        onProgress,
+        signal,
+      );
+    },
+    [getIngestionSettings, session],
+  );
+
+  const {
+    queue: uploadQueue,
+    isRunning: isUploadQueueRunning,
+    enqueue: enqueueUploads,
+    cancel: cancelUploads,
+    resume: resumeUploads,
+    clear: clearUploadQueue,
+  } = useUploadQueue(uploadQueueItem, (item) => {
+    // Uploads keep running after a different collection is selected
+    if (item.collectionId !== selectedCollectionIdRef.current) return;
+    setDocuments((prevDocs) => [
+      ...prevDocs,
+      new Document({
+        id: uuidv4(),
+        pageContent: `Content of ${item.metadata.name}`, // Placeholder: Real implementation needs file reading
+        metadata: item.metadata,
+      }),
+    ]);
+  });
+
   const handleFileUpload = useCallback(
-    async (files: FileList | null, collectionId: string) => {
+    async (
+      files: FileList | null,
+      collectionId: string,
+      options?: PrepareUploadsOptions,
+    ) => {
       if (!session?.accessToken) {
         toast.error("No session found", {
           richColors: true,
@@ -344,28 +740,26 @@ export function useRag(): UseRagReturn {
         return;
       }
 
-      const newDocs: Document[] = Array.from(files).map((file) => {
-        return new Document({
-          id: uuidv4(),
-          pageContent: `Content of ${file.name}`, // Placeholder: Real implementation needs file reading
+      // Expand archives and convert formats the API can't parse directly
+      const { uploads, skipped } = await prepareUploads(
+        Array.from(files),
+        options,
+      );
+      enqueueUploads(
+        uploads.map(({ file, metadata }) => ({
+          file,
           metadata: {
-            name: file.name,
+            ...metadata,
             collection: collectionId,
             size: `${(file.size / (1024 * 1024)).toFixed(1)} MB`,
             created_at: new Date().toISOString(),
           },
-        });
-      });
-
-      await uploadDocuments(
+        })),
         collectionId,
-        Array.from(files),
-        session.accessToken,
-        newDocs.map((d) => d.metadata),
       );
-      setDocuments((prevDocs) => [...prevDocs, ...newDocs]);
+      return { queued: uploads.length, skipped };
     },
-    [session],
+    [session, enqueueUploads],
   );
 
   const handleTextUpload = useCallback(
@@ -391,9 +785,13 @@ export function useRag(): UseRagReturn {
         size: `${(textInput.length / 1024).toFixed(1)} KB`,
         created_at: new Date().toISOString(),
       };
-      await uploadDocuments(collectionId, [textFile], session.accessToken, [
-        metadata,
-      ]);
+      await uploadDocuments(
+        collectionId,
+        [textFile],
+        session.accessToken,
+        [metadata],
+        getIngestionSettings(collectionId),
+      );
       setDocuments((prevDocs) => [
         ...prevDocs,
         new Document({
@@ -403,7 +801,127 @@ export function useRag(): UseRagReturn {
         }),
       ]);
     },
-    [session],
+    [getIngestionSettings, session],
+  );
+
+  const handleUrlUpload = useCallback(
+    async (
+      url: string,
+      collectionId: string,
+      options: {
+        mode: CrawlMode;
+        maxPages?: number;
+        replaceFileIds?: string[];
+      },
+    ): Promise<UrlUploadResult | undefined> => {
+      if (!session?.accessToken) {
+        toast.error("No session found", {
+          richColors: true,
+          description: "Failed to import URL. Please try again.",
+        });
+        return;
+      }
+
+      const { pages, errors } = await crawlUrl(
+        url,
+        options.mode,
+        options.maxPages,
+      );
+      if (!pages.length) {
+        return { uploaded: 0, replaced: 0, errors };
+      }
+
+      // Pages are deduped by canonical URL, so replace any documents which
+      // were previously imported from the same page. Listed before uploading,
+      // so the new documents aren't matched.
+      const pageUrls = new Set(pages.map((page) => page.url));
+      const existingDocuments = await listAllDocuments(collectionId);
+      const replacedFileIds = new Set([
+        ...(options.replaceFileIds ?? []),
+        ...existingDocuments
+          .filter(
+            (doc) =>
+              doc.metadata.file_id && pageUrls.has(doc.metadata.source_url),
+          )
+          .map((doc) => doc.metadata.file_id as string),
+      ]);
+
+      const createdAt = new Date().toISOString();
+      const files = pages.map(
+        (page) =>
+          new File([page.content], `${page.title}.txt`, {
+            type: "text/plain",
+          }),
+      );
+      const metadatas = pages.map((page) => ({
+        name: page.title,
+        collection: collectionId,
+        size: `${(page.content.length / 1024).toFixed(1)} KB`,
+        created_at: createdAt,
+        source_url: page.url,
+      }));
+      await uploadDocuments(
+        collectionId,
+        files,
+        session.accessToken,
+        metadatas,
+        getIngestionSettings(collectionId),
+      );
+
+      await Promise.all(
+        Array.from(replacedFileIds).map(async (fileId) => {
+          const response = await fetch(
+            buildApiUrl(
+              `collections/${collectionId}/documents/${fileId}`,
+            ).toString(),
+            {
+              method: "DELETE",
+              headers: {
+                Authorization: `Bearer ${session.accessToken}`,
+              },
+            },
+          );
+          if (!response.ok) {
+            console.error(
+              `Failed to delete replaced document ${fileId}: ${response.statusText}`,
+            );
+          }
+        }),
+      );
+
+      // Re-fetch so the new documents include their file IDs, unless a
+      // different collection was selected in the meantime
+      const updatedDocuments = await listDocuments(collectionId, {
+        limit: 100,
+      });
+      if (selectedCollectionIdRef.current === collectionId) {
+        setDocuments(updatedDocuments);
+      }
+
+      return {
+        uploaded: pages.length,
+        replaced: replacedFileIds.size,
+        errors,
+      };
+    },
+    [getIngestionSettings, listAllDocuments, listDocuments, session],
+  );
+
+  const recrawlDocument = useCallback(
+    async (document: Document) => {
+      const { source_url, file_id, collection } = document.metadata;
+      if (!source_url || !collection) {
+        toast.error("Document was not imported from a URL", {
+          richColors: true,
+        });
+        return;
+      }
+      return await handleUrlUpload(source_url, collection, {
+        mode: "page",
+        replaceFileIds: file_id ? [file_id] : [],
+      });
+    },
+    [handleUrlUpload],
   );
 
   // --- Collection Operations ---
@@ -643,7 +1161,16 @@ export function useRag(): UseRagReturn {
     setDocumentsLoading,
     listDocuments,
     deleteDocument,
+    listDocumentChunks,
+    reembedDocument,
     handleFileUpload,
     handleTextUpload,
+    uploadQueue,
+    isUploadQueueRunning,
+    cancelUploads,
+    resumeUploads,
+    clearUploadQueue,
+    handleUrlUpload,
+    recrawlDocument,
   };
 }
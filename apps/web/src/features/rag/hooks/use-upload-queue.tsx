@@ -0,0 +1,238 @@
+import { useCallback, useRef, useState } from "react";
+import { v4 as uuidv4 } from "uuid";
+import { PreparedUpload } from "../utils/ingestion";
+
+// The number of files uploaded at the same time.
+const UPLOAD_CONCURRENCY = 3;
+// The number of times a file is retried after a server or network error.
+const MAX_UPLOAD_RETRIES = 3;
+const RETRY_BASE_DELAY_MS = 1000;
+
+export type UploadStatus =
+  "pending" | "uploading" | "retrying" | "success" | "error" | "cancelled";
+
+export interface UploadQueueItem extends PreparedUpload {
+  id: string;
+  collectionId: string;
+  status: UploadStatus;
+  /**
+   * The upload progress of the file, from 0 to 100.
+   */
+  progress: number;
+  attempts: number;
+  error?: string;
+}
+
+/**
+ * Thrown by an upload function when a request fails. Requests with a 5xx
+ * status, or no status (network errors), are retried.
+ */
+export interface UploadRequestError extends Error {
+  status?: number;
+}
+
+export type UploadFunction = (
+  item: UploadQueueItem,
+  onProgress: (progress: number) => void,
+  signal: AbortSignal,
+) => Promise<void>;
+
+function isRetryable(error: UploadRequestError): boolean {
+  return !error.status || error.status >= 500;
+}
+
+function waitForRetry(attempt: number, signal: AbortSignal): Promise<void> {
+  // Exponential backoff with jitter: ~1s, ~2s, ~4s
+  const delay =
+    RETRY_BASE_DELAY_MS * 2 ** attempt * (0.75 + Math.random() * 0.5);
+  return new Promise((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timeout);
+      reject(signal.reason);
+    };
+    // The signal lives as long as the upload, so don't leave a listener
+    // behind for every retry
+    const timeout = setTimeout(() => {
+      signal.removeEventListener("abort", onAbort);
+      resolve();
+    }, delay);
+    signal.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+/**
+ * Custom hook which uploads files through a queue. A limited number of files
+ * are uploaded at once, and failed uploads are retried with backoff. The
+ * queue can be cancelled, and later resumed from where it stopped.
+ *
+ * @param upload The function which uploads a single file
+ * @param onUploaded Called after each file is uploaded successfully
+ */
+export function useUploadQueue(
+  upload: UploadFunction,
+  onUploaded: (item: UploadQueueItem) => void,
+) {
+  const [queue, setQueue] = useState<UploadQueueItem[]>([]);
+  const [isRunning, setIsRunning] = useState(false);
+  // The queue is read and written by concurrent workers, so keep the source
+  // of truth in a ref, and mirror it to state for rendering.
+  const queueRef = useRef<UploadQueueItem[]>([]);
+  const runningRef = useRef(false);
+  const abortControllersRef = useRef(new Map<string, AbortController>());
+
+  // Keep the latest callbacks, since a run outlives the render which started it.
+  const uploadRef = useRef(upload);
+  uploadRef.current = upload;
+  const onUploadedRef = useRef(onUploaded);
+  onUploadedRef.current = onUploaded;
+
+  const updateQueue = (
+    update: (queue: UploadQueueItem[]) => UploadQueueItem[],
+  ) => {
+    queueRef.current = update(queueRef.current);
+    setQueue(queueRef.current);
+  };
+
+  const updateItem = (id: string, update: Partial<UploadQueueItem>) => {
+    updateQueue((prev) =>
+      prev.map((item) => (item.id === id ? { ...item, ...update } : item)),
+    );
+  };
+
+  const uploadItem = async (item: UploadQueueItem) => {
+    const controller = new AbortController();
+    abortControllersRef.current.set(item.id, controller);
+
+    try {
+      for (let attempt = 0; ; attempt++) {
+        updateItem(item.id, {
+          status: "uploading",
+          progress: 0,
+          attempts: attempt + 1,
+          error: undefined,
+        });
+        try {
+          await uploadRef.current(
+            item,
+            (progress) => updateItem(item.id, { progress }),
+            controller.signal,
+          );
+          updateItem(item.id, { status: "success", progress: 100 });
+          onUploadedRef.current(item);
+          return;
+        } catch (e) {
+          if (controller.signal.aborted) return;
+          const error = e as UploadRequestError;
+          if (!isRetryable(error) || attempt >= MAX_UPLOAD_RETRIES) {
+            updateItem(item.id, { status: "error", error: error.message });
+            return;
+          }
+          updateItem(item.id, { status: "retrying", error: error.message });
+          await waitForRetry(attempt, controller.signal);
+        }
+      }
+    } catch (_) {
+      // Cancelled while waiting to retry
+    } finally {
+      abortControllersRef.current.delete(item.id);
+    }
+  };
+
+  const run = useCallback(async () => {
+    if (runningRef.current) return;
+    runningRef.current = true;
+    setIsRunning(true);
+
+    const worker = async () => {
+      let next: UploadQueueItem | undefined;
+      while (
+        (next = queueRef.current.find((item) => item.status === "pending"))
+      ) {
+        // Claim the item before uploading, so other workers skip it
+        updateItem(next.id, { status: "uploading" });
+        await uploadItem(next);
+      }
+    };
+
+    try {
+      await Promise.all(Array.from({ length: UPLOAD_CONCURRENCY }, worker));
+    } finally {
+      runningRef.current = false;
+      setIsRunning(false);
+    }
+
+    // Items may have been queued after the workers finished, but before the run ended
+    if (queueRef.current.some((item) => item.status === "pending")) {
+      run();
+    }
+  }, []);
+
+  /**
+   * Adds uploads to the queue, and starts uploading them.
+   * @returns The queued items.
+   */
+  const enqueue = useCallback(
+    (uploads: PreparedUpload[], collectionId: string) => {
+      const items: UploadQueueItem[] = uploads.map((upload) => ({
+        ...upload,
+        id: uuidv4(),
+        collectionId,
+        status: "pending",
+        progress: 0,
+        attempts: 0,
+      }));
+      updateQueue((prev) => [...prev, ...items]);
+      run();
+      return items;
+    },
+    [run],
+  );
+
+  /**
+   * Cancels every upload which has not finished. Cancelled uploads can be resumed.
+   */
+  const cancel = useCallback(() => {
+    updateQueue((prev) =>
+      prev.map((item) =>
+        ["pending", "uploading", "retrying"].includes(item.status)
+          ? { ...item, status: "cancelled", progress: 0 }
+          : item,
+      ),
+    );
+    abortControllersRef.current.forEach((controller) => controller.abort());
+  }, []);
+
+  /**
+   * Re-queues every cancelled and failed upload.
+   */
+  const resume = useCallback(() => {
+    updateQueue((prev) =>
+      prev.map((item) =>
+        ["cancelled", "error"].includes(item.status)
+          ? { ...item, status: "pending", progress: 0, error: undefined }
+          : item,
+      ),
+    );
+    run();
+  }, [run]);
+
+  /**
+   * Removes every upload which is not in progress from the queue.
+   */
+  const clear = useCallback(() => {
+    updateQueue((prev) =>
+      prev.filter((item) =>
+        ["pending", "uploading", "retrying"].includes(item.status),
+      ),
+    );
+  }, []);
+
+  return {
+    queue,
+    isRunning,
+    enqueue,
+    cancel,
+    resume,
+    clear,
+  };
+}
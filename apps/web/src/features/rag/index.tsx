@@ -10,6 +10,7 @@ import {
   CollectionsCard,
   CollectionsCardLoading,
 } from "./components/collections-card";
+import { SearchCard } from "./components/search-card";
 import { useRagContext } from "./providers/RAG";
 import EmptyCollectionsState from "./components/empty-collections";
 
@@ -44,7 +45,7 @@ export default function RAGInterface() {
         </div>
 
         {/* Documents Section */}
-        <div className="md:col-span-2">
+        <div className="flex flex-col gap-6 md:col-span-2">
           {initialSearchExecuted ? (
             <DocumentsCard
               selectedCollection={selectedCollection}
@@ -54,6 +55,11 @@ export default function RAGInterface() {
           ) : (
             <DocumentsCardLoading />
           )}
+
+          {/* Search Section */}
+          {initialSearchExecuted && (
+            <SearchCard selectedCollection={selectedCollection} />
+          )}
         </div>
       </div>
     </div>
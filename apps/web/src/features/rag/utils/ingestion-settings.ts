@@ -0,0 +1,78 @@
+import {
+  CollectionIngestionSettings,
+  SplitterStrategy,
+} from "@/types/collection";
+
+export const MIN_CHUNK_SIZE = 100;
+export const MAX_CHUNK_SIZE = 8000;
+
+export const SPLITTER_STRATEGIES: {
+  value: SplitterStrategy;
+  label: string;
+  description: string;
+}[] = [
+  {
+    value: "recursive",
+    label: "Recursive",
+    description: "Splits on paragraphs, then sentences, then words.",
+  },
+  {
+    value: "markdown_header",
+    label: "Markdown headers",
+    description: "Splits on Markdown headers, keeping sections together.",
+  },
+  {
+    value: "sentence",
+    label: "Sentence",
+    description: "Splits on sentence boundaries.",
+  },
+];
+
+export const EMBEDDING_MODELS = [
+  "openai:text-embedding-3-small",
+  "openai:text-embedding-3-large",
+  "cohere:embed-english-v3.0",
+  "cohere:embed-multilingual-v3.0",
+];
+
+/**
+ * Validates ingestion settings.
+ * @returns An error message, or undefined if the settings are valid.
+ */
+export function validateIngestionSettings(
+  settings: CollectionIngestionSettings,
+): string | undefined {
+  const { chunk_size, chunk_overlap } = settings;
+  if (
+    chunk_size !== undefined &&
+    (chunk_size < MIN_CHUNK_SIZE || chunk_size > MAX_CHUNK_SIZE)
+  ) {
+    return `Chunk size must be between ${MIN_CHUNK_SIZE} and ${MAX_CHUNK_SIZE} characters.`;
+  }
+  if (chunk_overlap !== undefined && chunk_overlap < 0) {
+    return "Chunk overlap cannot be negative.";
+  }
+  if (
+    chunk_size !== undefined &&
+    chunk_overlap !== undefined &&
+    chunk_overlap >= chunk_size
+  ) {
+    return "Chunk overlap must be smaller than the chunk size.";
+  }
+  return undefined;
+}
+
+/**
+ * Adds the ingestion settings of a collection to an upload request. Unset
+ * settings are omitted, so the server defaults are used.
+ */
+export function appendIngestionSettings(
+  formData: FormData,
+  settings: CollectionIngestionSettings | undefined,
+) {
+  Object.entries(settings ?? {}).forEach(([key, value]) => {
+    if (value !== undefined && value !== "") {
+      formData.append(key, String(value));
+    }
+  });
+}
@@ -0,0 +1,238 @@
+import { READ_ONLY_METADATA_KEYS } from "./metadata";
+import { readZipEntries } from "./zip";
+
+export const SUPPORTED_FILE_EXTENSIONS = [
+  ".pdf",
+  ".txt",
+  ".html",
+  ".htm",
+  ".md",
+  ".markdown",
+  ".docx",
+  ".csv",
+  ".json",
+  ".jsonl",
+  ".zip",
+];
+
+// Text based formats which are uploaded as plain text, so they can be
+// parsed regardless of the MIME type reported by the browser.
+const PLAIN_TEXT_EXTENSIONS = [".md", ".markdown", ".json", ".jsonl", ".csv"];
+
+const MIME_TYPES: Record<string, string> = {
+  ".pdf": "application/pdf",
+  ".txt": "text/plain",
+  ".html": "text/html",
+  ".htm": "text/html",
+};
+
+export function getFileExtension(fileName: string): string {
+  const index = fileName.lastIndexOf(".");
+  return index === -1 ? "" : fileName.substring(index).toLowerCase();
+}
+
+export function isSupportedFile(fileName: string): boolean {
+  return SUPPORTED_FILE_EXTENSIONS.includes(getFileExtension(fileName));
+}
+
+export interface PreparedUpload {
+  file: File;
+  /**
+   * Metadata to store with the document. Always includes a `name`.
+   */
+  metadata: Record<string, any> & { name: string };
+}
+
+export interface PrepareUploadsOptions {
+  /**
+   * Whether to split CSV files into one document per row, with the columns
+   * of each row stored as metadata.
+   */
+  splitCsvRows?: boolean;
+}
+
+/**
+ * Parses CSV text into rows of cells. Handles quoted cells containing
+ * commas, newlines and escaped quotes.
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = "";
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ",") {
+      row.push(cell);
+      cell = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = "";
+    } else {
+      cell += char;
+    }
+  }
+  if (cell || row.length) {
+    row.push(cell);
+    rows.push(row);
+  }
+
+  return rows.filter((r) => r.some((c) => c.trim()));
+}
+
+function splitCsvRows(name: string, text: string): PreparedUpload[] {
+  const [header, ...rows] = parseCsv(text.replace(/^\uFEFF/, ""));
+  if (!header) return [];
+  const columns = header.map(
+    (column, index) => column.trim() || `column_${index + 1}`,
+  );
+
+  return rows.map((row, index) => {
+    const rowName = `${name} (row ${index + 1})`;
+    const content = columns
+      .map((column, columnIndex) => `${column}: ${row[columnIndex] ?? ""}`)
+      .join("\n");
+    // Columns which clash with metadata set at upload time are only kept in the content
+    const columnMetadata = Object.fromEntries(
+      columns
+        .map((column, columnIndex) => [column, row[columnIndex] ?? ""])
+        .filter(
+          ([column]) =>
+            column !== "name" && !READ_ONLY_METADATA_KEYS.includes(column),
+        ),
+    );
+    return {
+      file: new File([content], `${rowName}.txt`, { type: "text/plain" }),
+      metadata: { ...columnMetadata, name: rowName, row: index + 1 },
+    };
+  });
+}
+
+/**
+ * Extracts the text of a DOCX file, one line per paragraph.
+ */
+async function extractDocxText(data: Blob): Promise<string> {
+  const entries = await readZipEntries(data);
+  const documentXml = entries.find((e) => e.path === "word/document.xml");
+  if (!documentXml) {
+    throw new Error("Not a valid DOCX file");
+  }
+
+  const xml = new DOMParser().parseFromString(
+    await (await documentXml.read()).text(),
+    "application/xml",
+  );
+  return Array.from(xml.getElementsByTagName("w:p"))
+    .map((paragraph) =>
+      Array.from(paragraph.getElementsByTagName("*"))
+        .map((node) => {
+          if (node.tagName === "w:t") return node.textContent ?? "";
+          if (node.tagName === "w:tab") return "\t";
+          if (node.tagName === "w:br") return "\n";
+          return "";
+        })
+        .join(""),
+    )
+    .join("\n");
+}
+
+async function prepareFile(
+  name: string,
+  data: Blob,
+  options: PrepareUploadsOptions,
+): Promise<PreparedUpload[]> {
+  const extension = getFileExtension(name);
+  const baseName = name.split("/").pop() ?? name;
+
+  if (extension === ".docx") {
+    const text = await extractDocxText(data);
+    return [
+      {
+        file: new File([text], `${baseName}.txt`, { type: "text/plain" }),
+        metadata: { name },
+      },
+    ];
+  }
+
+  if (extension === ".csv" && options.splitCsvRows) {
+    return splitCsvRows(name, await data.text());
+  }
+
+  if (PLAIN_TEXT_EXTENSIONS.includes(extension)) {
+    return [
+      {
+        file: new File([data], baseName, { type: "text/plain" }),
+        metadata: { name },
+      },
+    ];
+  }
+
+  return [
+    {
+      file:
+        data instanceof File && data.name === baseName
+          ? data
+          : new File([data], baseName, { type: MIME_TYPES[extension] }),
+      metadata: { name },
+    },
+  ];
+}
+
+/**
+ * Converts the selected files into the documents to upload. ZIP archives are
+ * expanded, and each supported entry is uploaded with its path in the archive
+ * as its `name`. DOCX files are converted to plain text, and CSV files can be
+ * split into one document per row.
+ *
+ * @returns The documents to upload, and the names of any files which were skipped.
+ */
+export async function prepareUploads(
+  files: File[],
+  options: PrepareUploadsOptions = {},
+): Promise<{ uploads: PreparedUpload[]; skipped: string[] }> {
+  const uploads: PreparedUpload[] = [];
+  const skipped: string[] = [];
+
+  for (const file of files) {
+    if (getFileExtension(file.name) !== ".zip") {
+      uploads.push(...(await prepareFile(file.name, file, options)));
+      continue;
+    }
+
+    for (const entry of await readZipEntries(file)) {
+      const extension = getFileExtension(entry.path);
+      if (extension === ".zip" || !isSupportedFile(entry.path)) {
+        skipped.push(`${file.name}/${entry.path}`);
+        continue;
+      }
+      const prepared = await prepareFile(
+        entry.path,
+        await entry.read(),
+        options,
+      );
+      uploads.push(
+        ...prepared.map((upload) => ({
+          ...upload,
+          metadata: { ...upload.metadata, source_archive: file.name },
+        })),
+      );
+    }
+  }
+
+  return { uploads, skipped };
+}
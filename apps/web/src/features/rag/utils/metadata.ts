@@ -0,0 +1,30 @@
+// Metadata set by the ingestion pipeline, which should not be edited by hand.
+export const READ_ONLY_METADATA_KEYS = [
+  "file_id",
+  "collection",
+  "created_at",
+  "updated_at",
+  "size",
+  "start_index",
+];
+
+/**
+ * Parses a metadata value typed by the user. Numbers, booleans and JSON
+ * values (e.g. `["a", "b"]`) are parsed, so they match non-string metadata.
+ * Anything else is treated as a string.
+ */
+export function parseMetadataValue(value: string): unknown {
+  try {
+    return JSON.parse(value);
+  } catch (_) {
+    return value;
+  }
+}
+
+/**
+ * Formats a metadata value for display or editing. The inverse of `parseMetadataValue`.
+ */
+export function formatMetadataValue(value: unknown): string {
+  if (typeof value === "string") return value;
+  return JSON.stringify(value);
+}
@@ -0,0 +1,151 @@
+const END_OF_CENTRAL_DIRECTORY_SIGNATURE = 0x06054b50;
+const CENTRAL_DIRECTORY_SIGNATURE = 0x02014b50;
+const LOCAL_FILE_HEADER_SIGNATURE = 0x04034b50;
+// The end of central directory record is 22 bytes, plus a comment of up to 65535 bytes.
+const MAX_END_OF_CENTRAL_DIRECTORY_SIZE = 22 + 0xffff;
+// The maximum number of bytes extracted from one archive, so a small archive
+// which inflates to a huge size (a "ZIP bomb") can't freeze the tab.
+const MAX_EXTRACTED_SIZE = 100 * 1024 * 1024;
+
+export interface ZipEntry {
+  /**
+   * The path of the entry inside the archive, e.g. `docs/guide.md`.
+   */
+  path: string;
+  /**
+   * Extracts the entry. Only call this for the entries which are needed, as
+   * extracting counts towards the archive's size limit.
+   */
+  read: () => Promise<Blob>;
+}
+
+function findEndOfCentralDirectory(view: DataView): number {
+  const minOffset = Math.max(
+    0,
+    view.byteLength - MAX_END_OF_CENTRAL_DIRECTORY_SIZE,
+  );
+  for (let offset = view.byteLength - 22; offset >= minOffset; offset--) {
+    if (view.getUint32(offset, true) === END_OF_CENTRAL_DIRECTORY_SIGNATURE) {
+      return offset;
+    }
+  }
+  throw new Error("Not a valid ZIP archive");
+}
+
+function tooLargeError() {
+  return new Error(
+    `ZIP archive is too large to extract (over ${MAX_EXTRACTED_SIZE / 1024 / 1024} MB)`,
+  );
+}
+
+/**
+ * Inflates deflated data, stopping once more than `maxBytes` have been
+ * inflated.
+ */
+async function inflate(data: Blob, maxBytes: number): Promise<Blob> {
+  const reader = data
+    .stream()
+    .pipeThrough(new DecompressionStream("deflate-raw"))
+    .getReader();
+  const chunks: BlobPart[] = [];
+  let size = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    size += value.byteLength;
+    if (size > maxBytes) {
+      await reader.cancel();
+      throw tooLargeError();
+    }
+    chunks.push(value);
+  }
+  return new Blob(chunks);
+}
+
+/**
+ * Lists the file entries of a ZIP archive in the browser. Entries are only
+ * extracted when read, and at most `MAX_EXTRACTED_SIZE` bytes are extracted
+ * across the archive. Supports stored and deflated entries, which covers
+ * archives created by most tools. Directories, hidden files and macOS
+ * metadata are skipped.
+ */
+export async function readZipEntries(file: Blob): Promise<ZipEntry[]> {
+  const buffer = await file.arrayBuffer();
+  const view = new DataView(buffer);
+  const decoder = new TextDecoder();
+
+  const eocdOffset = findEndOfCentralDirectory(view);
+  const entryCount = view.getUint16(eocdOffset + 10, true);
+  let offset = view.getUint32(eocdOffset + 16, true);
+  if (offset === 0xffffffff) {
+    throw new Error("ZIP64 archives are not supported");
+  }
+
+  let remainingSize = MAX_EXTRACTED_SIZE;
+  const entries: ZipEntry[] = [];
+  for (let i = 0; i < entryCount; i++) {
+    if (view.getUint32(offset, true) !== CENTRAL_DIRECTORY_SIGNATURE) {
+      throw new Error("Invalid ZIP central directory");
+    }
+    const flags = view.getUint16(offset + 8, true);
+    const method = view.getUint16(offset + 10, true);
+    const compressedSize = view.getUint32(offset + 20, true);
+    const uncompressedSize = view.getUint32(offset + 24, true);
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const localHeaderOffset = view.getUint32(offset + 42, true);
+    const path = decoder.decode(
+      new Uint8Array(buffer, offset + 46, nameLength),
+    );
+    offset += 46 + nameLength + extraLength + commentLength;
+
+    const fileName = path.split("/").pop() ?? "";
+    if (
+      path.endsWith("/") ||
+      path.startsWith("__MACOSX/") ||
+      fileName.startsWith(".")
+    ) {
+      continue;
+    }
+    if (flags & 0x1) {
+      throw new Error(`Encrypted ZIP entries are not supported: ${path}`);
+    }
+    if (method !== 0 && method !== 8) {
+      throw new Error(
+        `Unsupported ZIP compression method (${method}) for entry: ${path}`,
+      );
+    }
+    if (
+      view.getUint32(localHeaderOffset, true) !== LOCAL_FILE_HEADER_SIGNATURE
+    ) {
+      throw new Error(`Invalid ZIP entry: ${path}`);
+    }
+
+    const dataOffset =
+      localHeaderOffset +
+      30 +
+      view.getUint16(localHeaderOffset + 26, true) +
+      view.getUint16(localHeaderOffset + 28, true);
+    const read = async () => {
+      // The declared size can't be trusted, but lets most oversized archives
+      // fail before inflating anything
+      if (uncompressedSize > remainingSize) {
+        throw tooLargeError();
+      }
+      const compressed = new Blob([
+        buffer.slice(dataOffset, dataOffset + compressedSize),
+      ]);
+      const data =
+        method === 0 ? compressed : await inflate(compressed, remainingSize);
+      if (data.size > remainingSize) {
+        throw tooLargeError();
+      }
+      remainingSize -= data.size;
+      return data;
+    };
+    entries.push({ path, read });
+  }
+
+  return entries;
+}
@@ -0,0 +1,221 @@
+"use client";
+
+import React, { useState } from "react";
+import { format } from "date-fns";
+import { FlaskConical, Loader2, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { PasswordInput } from "@/components/ui/password-input";
+import { useApiKeys } from "@/hooks/use-api-keys";
+import { validateApiKey } from "@/lib/api-keys";
+import { getApiKeyProviders } from "@/lib/environment/api-key-providers";
+import { ApiKeyProvider, ApiKeySummary } from "@/types/api-key";
+
+function ApiKeyField({
+  provider,
+  apiKey,
+}: {
+  provider: ApiKeyProvider;
+  apiKey?: ApiKeySummary;
+}) {
+  const { setApiKey, deleteApiKey, testApiKey } = useApiKeys();
+  const [value, setValue] = useState("");
+  const [fields, setFields] = useState<Record<string, string>>(
+    apiKey?.fields ?? {},
+  );
+  const [saving, setSaving] = useState(false);
+  const [testing, setTesting] = useState(false);
+  const id = provider.name.toLowerCase().replaceAll("_", "-");
+  const { label } = provider;
+
+  const trimmedValue = value.trim();
+  const trimmedFields = Object.fromEntries(
+    Object.entries(fields).map(([name, fieldValue]) => [
+      name,
+      fieldValue.trim(),
+    ]),
+  );
+  const validationError = trimmedValue
+    ? validateApiKey(provider, trimmedValue, trimmedFields)
+    : undefined;
+
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      await setApiKey(provider.name, trimmedValue, trimmedFields);
+      setValue("");
+      toast.success(`${label} saved`);
+    } catch (e) {
+      toast.error(`Failed to save ${label}`, {
+        description: e instanceof Error ? e.message : undefined,
+        richColors: true,
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    setSaving(true);
+    try {
+      await deleteApiKey(provider.name);
+      setFields({});
+      toast.success(`${label} removed`);
+    } catch (e) {
+      toast.error(`Failed to remove ${label}`, {
+        description: e instanceof Error ? e.message : undefined,
+        richColors: true,
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  // Tests the entered key if there is one, otherwise the stored key
+  const handleTest = async () => {
+    setTesting(true);
+    try {
+      const result = await testApiKey(
+        provider.name,
+        trimmedValue
+          ? { value: trimmedValue, fields: trimmedFields }
+          : undefined,
+      );
+      if (result.valid) {
+        toast.success(`${label} works`);
+      } else {
+        toast.error(`${label} didn't work`, {
+          description: result.error,
+          richColors: true,
+        });
+      }
+    } catch (e) {
+      toast.error(`Failed to test ${label}`, {
+        description: e instanceof Error ? e.message : undefined,
+        richColors: true,
+      });
+    } finally {
+      setTesting(false);
+    }
+  };
+
+  return (
+    <div className="grid gap-2">
+      <Label htmlFor={id}>{label}</Label>
+      {apiKey && (
+        <div className="flex items-center gap-2 text-sm">
+          <span className="font-mono">{apiKey.maskedValue}</span>
+          <span className="text-gray-500">
+            {apiKey.lastUsedAt
+              ? `Last used ${format(new Date(apiKey.lastUsedAt), "MMM d, yyyy h:mm a")}`
+              : "Never used"}
+          </span>
+        </div>
+      )}
+      <form
+        className="grid gap-2"
+        onSubmit={(e) => {
+          e.preventDefault();
+          handleSave();
+        }}
+      >
+        {provider.fields?.map((field) => (
+          <Input
+            key={field.name}
+            aria-label={field.label}
+            placeholder={field.placeholder ?? field.label}
+            value={fields[field.name] ?? ""}
+            onChange={(e) =>
+              setFields((prev) => ({ ...prev, [field.name]: e.target.value }))
+            }
+          />
+        ))}
+        <div className="flex items-center gap-2">
+          <PasswordInput
+            id={id}
+            placeholder={
+              apiKey ? `Replace your ${label}` : `Enter your ${label}`
+            }
+            value={value}
+            onChange={(e) => setValue(e.target.value)}
+            autoComplete="off"
+          />
+          <Button
+            type="submit"
+            disabled={saving || !trimmedValue || !!validationError}
+          >
+            {saving && <Loader2 className="size-4 animate-spin" />}
+            Save
+          </Button>
+          {provider.test && (
+            <Button
+              type="button"
+              variant="outline"
+              disabled={
+                testing || (!apiKey && !trimmedValue) || !!validationError
+              }
+              onClick={handleTest}
+            >
+              {testing ? (
+                <Loader2 className="size-4 animate-spin" />
+              ) : (
+                <FlaskConical className="size-4" />
+              )}
+              Test key
+            </Button>
+          )}
+          {apiKey && (
+            <Button
+              type="button"
+              variant="outline"
+              size="icon"
+              disabled={saving}
+              onClick={handleDelete}
+            >
+              <Trash2 className="size-4" />
+            </Button>
+          )}
+        </div>
+        {validationError && (
+          <p className="text-sm text-red-500">{validationError}</p>
+        )}
+      </form>
+    </div>
+  );
+}
+
+/**
+ * Settings for the API keys added to the user's agent runs, with a field for
+ * each configured provider. Keys are stored encrypted on the server, so only a
+ * masked copy is shown.
+ */
+export function ApiKeySettings(): React.ReactNode {
+  const { keys, enabled, loading, loaded } = useApiKeys();
+  const providers = getApiKeyProviders();
+
+  if (loading && !loaded) {
+    return <Loader2 className="size-5 animate-spin text-gray-500" />;
+  }
+  if (loaded && !enabled) {
+    return (
+      <p className="text-sm text-gray-500">
+        API keys can&apos;t be stored on this server. Ask your administrator to
+        set <code>API_KEYS_ENCRYPTION_SECRET</code>.
+      </p>
+    );
+  }
+
+  return (
+    <div className="grid gap-4">
+      {providers.map((provider) => (
+        <ApiKeyField
+          key={provider.name}
+          provider={provider}
+          apiKey={keys.find((key) => key.name === provider.name)}
+        />
+      ))}
+    </div>
+  );
+}
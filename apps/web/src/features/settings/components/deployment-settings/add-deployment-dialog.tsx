@@ -0,0 +1,144 @@
+"use client";
+
+import React, { useState } from "react";
+import { Loader2, Plus } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useDeploymentsContext } from "@/providers/Deployments";
+
+/**
+ * A dialog for adding a LangGraph deployment. The deployment's project and
+ * tenant IDs are read from its `/info` endpoint, so only need to be entered
+ * for self-hosted deployments.
+ */
+export function AddDeploymentDialog({
+  onAdded,
+}: {
+  onAdded: () => void;
+}): React.ReactNode {
+  const { addDeployment } = useDeploymentsContext();
+  const [open, setOpen] = useState(false);
+  const [name, setName] = useState("");
+  const [deploymentUrl, setDeploymentUrl] = useState("");
+  const [id, setId] = useState("");
+  const [tenantId, setTenantId] = useState("");
+  const [submitting, setSubmitting] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSubmitting(true);
+    try {
+      await addDeployment({
+        name,
+        deploymentUrl,
+        id: id.trim() || undefined,
+        tenantId: tenantId.trim() || undefined,
+      });
+      toast.success(`Added deployment ${name}`, { richColors: true });
+      setOpen(false);
+      setName("");
+      setDeploymentUrl("");
+      setId("");
+      setTenantId("");
+      onAdded();
+    } catch (error) {
+      toast.error("Failed to add deployment", {
+        description: error instanceof Error ? error.message : undefined,
+        richColors: true,
+      });
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={setOpen}
+    >
+      <DialogTrigger asChild>
+        <Button
+          variant="outline"
+          size="sm"
+        >
+          <Plus className="size-4" />
+          Add deployment
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <form
+          onSubmit={handleSubmit}
+          className="grid gap-4"
+        >
+          <DialogHeader>
+            <DialogTitle>Add deployment</DialogTitle>
+            <DialogDescription>
+              The deployment is checked by calling its <code>/info</code>{" "}
+              endpoint before it is added.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="grid gap-2">
+            <Label htmlFor="deployment-name">Name</Label>
+            <Input
+              id="deployment-name"
+              required
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+            />
+          </div>
+          <div className="grid gap-2">
+            <Label htmlFor="deployment-url">Deployment URL</Label>
+            <Input
+              id="deployment-url"
+              type="url"
+              required
+              placeholder="https://my-deployment.us.langgraph.app"
+              value={deploymentUrl}
+              onChange={(e) => setDeploymentUrl(e.target.value)}
+            />
+          </div>
+          <div className="grid gap-2">
+            <Label htmlFor="deployment-id">Project ID (optional)</Label>
+            <Input
+              id="deployment-id"
+              value={id}
+              onChange={(e) => setId(e.target.value)}
+            />
+          </div>
+          <div className="grid gap-2">
+            <Label htmlFor="deployment-tenant-id">Tenant ID (optional)</Label>
+            <Input
+              id="deployment-tenant-id"
+              value={tenantId}
+              onChange={(e) => setTenantId(e.target.value)}
+            />
+            <p className="text-xs text-gray-500">
+              Only needed if the deployment does not report its project and
+              tenant IDs, e.g. when it is self-hosted.
+            </p>
+          </div>
+          <DialogFooter>
+            <Button
+              type="submit"
+              disabled={submitting}
+            >
+              {submitting && <Loader2 className="size-4 animate-spin" />}
+              Add
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,177 @@
+"use client";
+
+import React, { useState } from "react";
+import { Star, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Switch } from "@/components/ui/switch";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { useDeploymentsContext } from "@/providers/Deployments";
+import { useAgentsContext } from "@/providers/Agents";
+import { Deployment } from "@/types/deployment";
+import { AddDeploymentDialog } from "./add-deployment-dialog";
+import { SetDefaultDialog } from "./set-default-dialog";
+
+function DeploymentRow({
+  deployment,
+  onChanged,
+}: {
+  deployment: Deployment;
+  onChanged: () => void;
+}): React.ReactNode {
+  const { updateDeployment, deleteDeployment } = useDeploymentsContext();
+  const [setDefaultOpen, setSetDefaultOpen] = useState(false);
+  const [updating, setUpdating] = useState(false);
+
+  const handleEnabledChange = async (enabled: boolean) => {
+    setUpdating(true);
+    try {
+      await updateDeployment(deployment.id, { disabled: !enabled });
+      onChanged();
+    } catch (error) {
+      toast.error(`Failed to ${enabled ? "enable" : "disable"} deployment`, {
+        description: error instanceof Error ? error.message : undefined,
+        richColors: true,
+      });
+    } finally {
+      setUpdating(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    setUpdating(true);
+    try {
+      await deleteDeployment(deployment.id);
+      toast.success(`Removed deployment ${deployment.name}`, {
+        richColors: true,
+      });
+      onChanged();
+    } catch (error) {
+      toast.error("Failed to remove deployment", {
+        description: error instanceof Error ? error.message : undefined,
+        richColors: true,
+      });
+    } finally {
+      setUpdating(false);
+    }
+  };
+
+  return (
+    <div className="flex items-center justify-between gap-4 rounded-md border p-3">
+      <div className="grid min-w-0 gap-1">
+        <p className="flex items-center gap-2 text-sm font-medium">
+          {deployment.name}
+          {deployment.isDefault && <Badge>Default</Badge>}
+          {deployment.disabled && <Badge variant="outline">Disabled</Badge>}
+        </p>
+        <p className="truncate text-xs text-gray-500">
+          {deployment.deploymentUrl}
+        </p>
+        <p className="truncate font-mono text-xs text-gray-400">
+          {deployment.id}
+          {deployment.defaultGraphId &&
+            ` · default graph: ${deployment.defaultGraphId}`}
+        </p>
+      </div>
+      <div className="flex shrink-0 items-center gap-2">
+        <Switch
+          aria-label="Enabled"
+          checked={!deployment.disabled}
+          onCheckedChange={handleEnabledChange}
+          // The default deployment can't be disabled
+          disabled={updating || deployment.isDefault}
+        />
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={() => setSetDefaultOpen(true)}
+          disabled={updating}
+        >
+          <Star className="size-4" />
+          {deployment.isDefault ? "Change default graph" : "Make default"}
+        </Button>
+        <AlertDialog>
+          <AlertDialogTrigger asChild>
+            <Button
+              variant="ghost"
+              size="sm"
+              disabled={updating || deployment.isDefault}
+            >
+              <Trash2 className="text-destructive size-4" />
+            </Button>
+          </AlertDialogTrigger>
+          <AlertDialogContent>
+            <AlertDialogHeader>
+              <AlertDialogTitle>Remove Deployment</AlertDialogTitle>
+              <AlertDialogDescription>
+                Are you sure you want to remove the deployment "
+                {deployment.name}"? Its agents will no longer be available to
+                users. The deployment itself is not affected.
+              </AlertDialogDescription>
+            </AlertDialogHeader>
+            <AlertDialogFooter>
+              <AlertDialogCancel>Cancel</AlertDialogCancel>
+              <AlertDialogAction
+                onClick={handleDelete}
+                className="bg-destructive hover:bg-destructive/90 text-white"
+              >
+                Remove
+              </AlertDialogAction>
+            </AlertDialogFooter>
+          </AlertDialogContent>
+        </AlertDialog>
+      </div>
+      <SetDefaultDialog
+        key={deployment.defaultGraphId}
+        deployment={deployment}
+        open={setDefaultOpen}
+        onOpenChange={setSetDefaultOpen}
+        onSaved={onChanged}
+      />
+    </div>
+  );
+}
+
+/**
+ * Settings for managing the LangGraph deployments available to every user.
+ * Only shown to admins.
+ */
+export function DeploymentSettings(): React.ReactNode {
+  const { deployments } = useDeploymentsContext();
+  const { refreshAgents } = useAgentsContext();
+
+  return (
+    <div className="grid gap-4">
+      <div className="flex items-center justify-between gap-4">
+        <p className="text-sm text-gray-500">
+          Deployments are shared by all users. Changes apply without redeploying
+          the web app.
+        </p>
+        <AddDeploymentDialog onAdded={refreshAgents} />
+      </div>
+      <div className="grid gap-2">
+        {deployments.map((deployment) => (
+          <DeploymentRow
+            key={deployment.id}
+            deployment={deployment}
+            onChanged={refreshAgents}
+          />
+        ))}
+        {!deployments.length && (
+          <p className="text-sm text-gray-500">No deployments added yet.</p>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,104 @@
+"use client";
+
+import React, { useState } from "react";
+import { Loader2 } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useDeploymentsContext } from "@/providers/Deployments";
+import { Deployment } from "@/types/deployment";
+
+/**
+ * A dialog for making a deployment the default, and choosing its default graph.
+ */
+export function SetDefaultDialog({
+  deployment,
+  open,
+  onOpenChange,
+  onSaved,
+}: {
+  deployment: Deployment;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSaved: () => void;
+}): React.ReactNode {
+  const { updateDeployment } = useDeploymentsContext();
+  const [defaultGraphId, setDefaultGraphId] = useState(
+    deployment.defaultGraphId ?? "",
+  );
+  const [submitting, setSubmitting] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSubmitting(true);
+    try {
+      await updateDeployment(deployment.id, {
+        isDefault: true,
+        defaultGraphId: defaultGraphId.trim(),
+        // The default deployment must be enabled
+        disabled: false,
+      });
+      toast.success(`${deployment.name} is now the default deployment`, {
+        richColors: true,
+      });
+      onOpenChange(false);
+      onSaved();
+    } catch (error) {
+      toast.error("Failed to set the default deployment", {
+        description: error instanceof Error ? error.message : undefined,
+        richColors: true,
+      });
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={onOpenChange}
+    >
+      <DialogContent>
+        <form
+          onSubmit={handleSubmit}
+          className="grid gap-4"
+        >
+          <DialogHeader>
+            <DialogTitle>Make {deployment.name} the default</DialogTitle>
+            <DialogDescription>
+              New users get a default agent for this deployment&apos;s default
+              graph.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="grid gap-2">
+            <Label htmlFor="default-graph-id">Default graph ID</Label>
+            <Input
+              id="default-graph-id"
+              required
+              value={defaultGraphId}
+              onChange={(e) => setDefaultGraphId(e.target.value)}
+            />
+          </div>
+          <DialogFooter>
+            <Button
+              type="submit"
+              disabled={submitting || !defaultGraphId.trim()}
+            >
+              {submitting && <Loader2 className="size-4 animate-spin" />}
+              Save
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
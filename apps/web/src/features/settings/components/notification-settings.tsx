@@ -0,0 +1,122 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import { toast } from "sonner";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { useAgentsContext } from "@/providers/Agents";
+import { getDeployments } from "@/lib/environment/deployments";
+import { useNotificationSettings } from "@/components/agent-inbox/hooks/use-notification-settings";
+import {
+  notificationsSupported,
+  registerNotificationsServiceWorker,
+} from "@/components/agent-inbox/utils/notifications";
+
+/**
+ * Settings for desktop notifications about new agent inbox interrupts.
+ */
+export function NotificationSettings(): React.ReactNode {
+  const { agents, loading } = useAgentsContext();
+  const { enabled, mutedInboxIds, setEnabled, setInboxMuted } =
+    useNotificationSettings();
+  const [permission, setPermission] = useState<NotificationPermission>();
+  const deployments = getDeployments();
+
+  useEffect(() => {
+    if (notificationsSupported()) {
+      setPermission(Notification.permission);
+    }
+  }, []);
+
+  const handleEnabledChange = async (checked: boolean) => {
+    if (!checked) {
+      setEnabled(false);
+      return;
+    }
+
+    const result = await Notification.requestPermission();
+    setPermission(result);
+    if (result !== "granted") {
+      toast.error("Notifications are blocked", {
+        description:
+          "Allow notifications for this site in your browser settings, then try again.",
+        richColors: true,
+      });
+      return;
+    }
+
+    await registerNotificationsServiceWorker();
+    setEnabled(true);
+  };
+
+  if (permission === undefined) {
+    return (
+      <p className="text-sm text-gray-500">
+        Desktop notifications are not supported in this browser.
+      </p>
+    );
+  }
+
+  const isEnabled = enabled && permission === "granted";
+
+  return (
+    <div className="grid gap-4">
+      <div className="flex items-center justify-between gap-4">
+        <div className="grid gap-1">
+          <Label htmlFor="inbox-notifications">Desktop notifications</Label>
+          <p className="text-sm text-gray-500">
+            Get notified when an agent is waiting for a human response.
+          </p>
+        </div>
+        <Switch
+          id="inbox-notifications"
+          checked={isEnabled}
+          onCheckedChange={handleEnabledChange}
+        />
+      </div>
+
+      {isEnabled && (
+        <div className="grid gap-2">
+          <p className="text-sm font-medium">Notify me about</p>
+          {loading ? (
+            <p className="text-sm text-gray-500">Loading agents...</p>
+          ) : (
+            <div className="grid gap-2 rounded-md border p-3">
+              {agents.map((agent) => {
+                const agentInboxId = `${agent.assistant_id}:${agent.deploymentId}`;
+                const deployment = deployments.find(
+                  (d) => d.id === agent.deploymentId,
+                );
+                return (
+                  <div
+                    key={agentInboxId}
+                    className="flex items-center justify-between gap-4"
+                  >
+                    <Label
+                      htmlFor={`notify-${agentInboxId}`}
+                      className="font-normal"
+                    >
+                      {agent.name}
+                      {deployment && (
+                        <span className="text-gray-500">
+                          ({deployment.name})
+                        </span>
+                      )}
+                    </Label>
+                    <Switch
+                      id={`notify-${agentInboxId}`}
+                      checked={!mutedInboxIds.includes(agentInboxId)}
+                      onCheckedChange={(checked) =>
+                        setInboxMuted(agentInboxId, !checked)
+                      }
+                    />
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,90 @@
+import { useState } from "react";
+import { Loader2, RefreshCw } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { useMCPContext } from "@/providers/MCP";
+import { MCPConnectionStatus } from "@/hooks/use-mcp";
+import { MCPServer } from "@/types/mcp-server";
+import { cn } from "@/lib/utils";
+
+const STATUS_LABELS: Record<MCPConnectionStatus, string> = {
+  connecting: "Connecting",
+  connected: "Connected",
+  reconnecting: "Reconnecting",
+  disconnected: "Disconnected",
+  error: "Connection failed",
+};
+
+const STATUS_COLORS: Record<MCPConnectionStatus, string> = {
+  connecting: "bg-yellow-400",
+  connected: "bg-green-500",
+  reconnecting: "bg-yellow-400",
+  disconnected: "bg-gray-400",
+  error: "bg-red-500",
+};
+
+function ServerConnectionStatus({ server }: { server: MCPServer }) {
+  const { connectionStatus, reconnect } = useMCPContext();
+  const [reconnecting, setReconnecting] = useState(false);
+  const status = connectionStatus[server.id] ?? "disconnected";
+
+  const handleReconnect = async () => {
+    setReconnecting(true);
+    try {
+      await reconnect(server.id);
+    } catch (e) {
+      console.error(`Failed to reconnect to MCP server "${server.name}"`, e);
+      toast.error(`Failed to reconnect to ${server.name}`, {
+        richColors: true,
+      });
+    } finally {
+      setReconnecting(false);
+    }
+  };
+
+  return (
+    <div className="flex items-center gap-2 text-sm">
+      <span className={cn("size-2 rounded-full", STATUS_COLORS[status])} />
+      <span className="font-medium">{server.name}</span>
+      <span className="text-muted-foreground">{STATUS_LABELS[status]}</span>
+      {(status === "error" || status === "disconnected") && (
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={handleReconnect}
+          disabled={reconnecting}
+        >
+          {reconnecting ? (
+            <Loader2 className="size-4 animate-spin" />
+          ) : (
+            <RefreshCw className="size-4" />
+          )}
+          Reconnect
+        </Button>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Shows the state of the session with each MCP server, and allows reconnecting
+ * to servers whose session failed or was closed.
+ */
+export function ConnectionStatus() {
+  const { servers } = useMCPContext();
+
+  if (!servers.length) {
+    return null;
+  }
+
+  return (
+    <div className="flex flex-wrap items-center gap-x-6 gap-y-2">
+      {servers.map((server) => (
+        <ServerConnectionStatus
+          key={server.id}
+          server={server}
+        />
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,49 @@
+import { ReactNode } from "react";
+import { Server } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { useMCPContext } from "@/providers/MCP";
+import { groupByServer } from "@/lib/mcp-tools";
+import { cn } from "@/lib/utils";
+
+interface ServerGroupsProps<T extends { serverId: string }> {
+  items: T[];
+  renderItem: (item: T, index: number) => ReactNode;
+  /**
+   * Class name applied to the container of each group's items.
+   */
+  className?: string;
+}
+
+/**
+ * Renders items (e.g. tools) grouped under a heading for the MCP server they
+ * belong to. Headings are only shown when more than one MCP server is registered.
+ */
+export function ServerGroups<T extends { serverId: string }>({
+  items,
+  renderItem,
+  className,
+}: ServerGroupsProps<T>) {
+  const { servers } = useMCPContext();
+
+  if (servers.length <= 1) {
+    return <div className={className}>{items.map(renderItem)}</div>;
+  }
+
+  return (
+    <div className="flex w-full flex-col gap-6">
+      {groupByServer(items, servers).map(({ server, items }) => (
+        <div
+          key={server.id}
+          className="flex w-full flex-col gap-2"
+        >
+          <p className="flex items-center gap-2 pt-2 text-sm font-medium text-gray-700">
+            <Server className="size-4" />
+            {server.name}
+            <Badge variant="outline">{items.length}</Badge>
+          </p>
+          <div className={cn("w-full", className)}>{items.map(renderItem)}</div>
+        </div>
+      ))}
+    </div>
+  );
+}
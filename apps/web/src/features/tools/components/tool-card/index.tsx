@@ -33,7 +33,9 @@ export function ToolCard({ tool }: ToolCardProps) {
         </CardDescription>
       </CardHeader>
       <CardFooter className="mt-auto flex items-center justify-between">
-        <NextLink href={`/tools/playground?tool=${tool.name}`}>
+        <NextLink
+          href={`/tools/playground?server=${tool.serverId}&tool=${tool.name}`}
+        >
           <Button variant="outline">
             <FlaskConical className="size-4" />
             <p>Playground</p>
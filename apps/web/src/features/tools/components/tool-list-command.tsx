@@ -1,6 +1,7 @@
 import {
   Command,
   CommandEmpty,
+  CommandGroup,
   CommandInput,
   CommandItem,
   CommandList,
@@ -16,6 +17,7 @@ import { ChevronsUpDown, Loader2 } from "lucide-react";
 import _ from "lodash";
 import { Tool } from "@/types/tool";
 import { useState } from "react";
+import { getToolKey, groupByServer } from "@/lib/mcp-tools";
 
 interface ToolListCommandProps {
   value: Tool;
@@ -30,7 +32,8 @@ export function ToolListCommand({
 }: ToolListCommandProps) {
   const [open, setOpen] = useState(false);
   const [loadingMore, setLoadingMore] = useState(false);
-  const { tools, loading, getTools, setTools, cursor } = useMCPContext();
+  const { servers, tools, loading, getMoreTools, setTools, hasMoreTools } =
+    useMCPContext();
 
   return (
     <Popover
@@ -73,19 +76,26 @@ export function ToolListCommand({
                 Loading tools...
               </CommandEmpty>
             )}
-            {tools.map((tool, index) => (
-              <CommandItem
-                key={`${tool.name}:${index}`}
-                value={tool.name}
-                onSelect={() => {
-                  setValue(tool);
-                  setOpen(false);
-                }}
+            {groupByServer(tools, servers).map(({ server, items }) => (
+              <CommandGroup
+                key={server.id}
+                heading={servers.length > 1 ? server.name : undefined}
               >
-                {_.startCase(tool.name)}
-              </CommandItem>
+                {items.map((tool, index) => (
+                  <CommandItem
+                    key={`${getToolKey(tool)}:${index}`}
+                    value={getToolKey(tool)}
+                    onSelect={() => {
+                      setValue(tool);
+                      setOpen(false);
+                    }}
+                  >
+                    {_.startCase(tool.name)}
+                  </CommandItem>
+                ))}
+              </CommandGroup>
             ))}
-            {cursor && (
+            {hasMoreTools && (
               <div className="border-t p-1">
                 <Button
                   variant="outline"
@@ -94,7 +104,7 @@ export function ToolListCommand({
                   onClick={async () => {
                     setLoadingMore(true);
                     try {
-                      const moreTool = await getTools(cursor);
+                      const moreTool = await getMoreTools();
                       setTools((prevTools) => [...prevTools, ...moreTool]);
                     } catch (error) {
                       console.error("Failed to load more tools:", error);
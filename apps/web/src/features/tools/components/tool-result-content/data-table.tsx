@@ -0,0 +1,95 @@
+import { useState } from "react";
+import _ from "lodash";
+import { ArrowDown, ArrowUp, ArrowUpDown } from "lucide-react";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+
+function formatCell(value: unknown): string {
+  if (value === null || value === undefined) {
+    return "";
+  }
+  return typeof value === "object" ? JSON.stringify(value) : String(value);
+}
+
+/**
+ * A table of rows (e.g. the results of a database query), which can be sorted
+ * by clicking a column's header.
+ */
+export function DataTable({ rows }: { rows: Record<string, unknown>[] }) {
+  const [sort, setSort] = useState<{
+    column: string;
+    direction: "asc" | "desc";
+  }>();
+
+  const columns = _.uniq(rows.flatMap((row) => Object.keys(row)));
+  const sortedRows = sort
+    ? _.orderBy(
+        rows,
+        // Objects can't be compared directly, so sort them by their JSON
+        (row) => {
+          const value = row[sort.column];
+          return typeof value === "object" && value !== null
+            ? JSON.stringify(value)
+            : value;
+        },
+        sort.direction,
+      )
+    : rows;
+
+  const handleSort = (column: string) => {
+    setSort((prev) =>
+      prev?.column === column && prev.direction === "asc"
+        ? { column, direction: "desc" }
+        : { column, direction: "asc" },
+    );
+  };
+
+  return (
+    <div className="max-h-[60vh] overflow-auto rounded-md border">
+      <Table>
+        <TableHeader>
+          <TableRow>
+            {columns.map((column) => (
+              <TableHead key={column}>
+                <button
+                  type="button"
+                  className="flex items-center gap-1"
+                  onClick={() => handleSort(column)}
+                >
+                  {column}
+                  {sort?.column !== column ? (
+                    <ArrowUpDown className="size-3 text-gray-400" />
+                  ) : sort.direction === "asc" ? (
+                    <ArrowUp className="size-3" />
+                  ) : (
+                    <ArrowDown className="size-3" />
+                  )}
+                </button>
+              </TableHead>
+            ))}
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {sortedRows.map((row, index) => (
+            <TableRow key={index}>
+              {columns.map((column) => (
+                <TableCell
+                  key={column}
+                  className="font-mono text-xs"
+                >
+                  {formatCell(row[column])}
+                </TableCell>
+              ))}
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    </div>
+  );
+}
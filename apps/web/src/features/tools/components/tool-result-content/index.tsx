@@ -0,0 +1,120 @@
+import Image from "next/image";
+import { Link } from "lucide-react";
+import _ from "lodash";
+import { ResourceContentsPreview } from "./resource-contents-preview";
+import { DataTable } from "./data-table";
+import { getTableRows, isMediaContentBlock, MediaContentBlock } from "./utils";
+
+function isJsonOf(text: string, value: unknown) {
+  try {
+    return _.isEqual(JSON.parse(text), value);
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Renders a content block containing an image, audio or a resource.
+ */
+export function MediaContent({ block }: { block: MediaContentBlock }) {
+  switch (block.type) {
+    case "image":
+    case "image_url": {
+      const src =
+        block.type === "image"
+          ? `data:${block.mimeType};base64,${block.data}`
+          : typeof block.image_url === "string"
+            ? block.image_url
+            : block.image_url.url;
+      return (
+        <Image
+          src={src}
+          alt="Tool result image"
+          width={800}
+          height={600}
+          unoptimized
+          className="h-auto max-h-[60vh] w-auto rounded-md border object-contain"
+        />
+      );
+    }
+    case "audio":
+      return (
+        <audio
+          controls
+          src={`data:${block.mimeType};base64,${block.data}`}
+        />
+      );
+    case "resource":
+      return (
+        <div className="flex flex-col gap-1">
+          <p className="truncate font-mono text-xs text-gray-500">
+            {block.resource.uri}
+          </p>
+          <ResourceContentsPreview contents={block.resource} />
+        </div>
+      );
+    case "resource_link":
+      return (
+        <p className="flex items-center gap-2 text-sm">
+          <Link className="size-4 shrink-0" />
+          <span className="font-medium">{block.name ?? block.uri}</span>
+          <span className="truncate font-mono text-xs text-gray-500">
+            {block.uri}
+          </span>
+        </p>
+      );
+  }
+}
+
+/**
+ * Renders the result of an MCP tool call. Text is shown as-is, images and
+ * resources are previewed inline, and structured content which looks like a
+ * table is shown as a sortable table.
+ */
+export function ToolResultContent({
+  result,
+}: {
+  result: { content: unknown[]; structuredContent?: unknown };
+}) {
+  const tableRows = getTableRows(result.structuredContent);
+
+  return (
+    <div className="flex flex-col gap-4">
+      {tableRows && <DataTable rows={tableRows} />}
+      {result.content.map((block, index) => {
+        if (isMediaContentBlock(block)) {
+          return (
+            <MediaContent
+              key={index}
+              block={block}
+            />
+          );
+        }
+        const text = (block as { type?: string; text?: unknown }).text;
+        if (typeof text === "string") {
+          // Structured content is usually repeated as JSON text, which the
+          // table already shows.
+          if (tableRows && isJsonOf(text, result.structuredContent)) {
+            return null;
+          }
+          return (
+            <pre
+              key={index}
+              className="bg-muted overflow-auto rounded-md p-4 text-sm whitespace-pre-wrap"
+            >
+              {text}
+            </pre>
+          );
+        }
+        return (
+          <pre
+            key={index}
+            className="bg-muted overflow-auto rounded-md p-4 text-sm"
+          >
+            {JSON.stringify(block, null, 2)}
+          </pre>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,81 @@
+import Image from "next/image";
+import { Download } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { MCPResourceContents } from "@/types/mcp-resource";
+
+// Text longer than this is truncated in the preview, to keep the page responsive.
+const MAX_PREVIEW_LENGTH = 100_000;
+
+function formatText(contents: MCPResourceContents): string {
+  const text = contents.text ?? "";
+  if (contents.mimeType?.includes("json")) {
+    try {
+      return JSON.stringify(JSON.parse(text), null, 2);
+    } catch {
+      // Not valid JSON, show it as-is
+    }
+  }
+  return text;
+}
+
+/**
+ * Previews the contents of an MCP resource based on its MIME type. Text is
+ * shown as-is (JSON is pretty printed), images are shown inline, and other
+ * binary content can be downloaded.
+ */
+export function ResourceContentsPreview({
+  contents,
+}: {
+  contents: MCPResourceContents;
+}) {
+  if (contents.text !== undefined) {
+    const text = formatText(contents);
+    return (
+      <div className="flex flex-col gap-2">
+        <pre className="bg-muted max-h-[60vh] overflow-auto rounded-md p-4 text-sm whitespace-pre-wrap">
+          {text.slice(0, MAX_PREVIEW_LENGTH)}
+        </pre>
+        {text.length > MAX_PREVIEW_LENGTH && (
+          <p className="text-xs text-gray-500">
+            Showing the first {MAX_PREVIEW_LENGTH.toLocaleString()} of{" "}
+            {text.length.toLocaleString()} characters.
+          </p>
+        )}
+      </div>
+    );
+  }
+
+  const dataUrl = `data:${contents.mimeType ?? "application/octet-stream"};base64,${contents.blob ?? ""}`;
+  if (contents.mimeType?.startsWith("image/")) {
+    return (
+      <Image
+        src={dataUrl}
+        alt={contents.uri}
+        width={800}
+        height={600}
+        className="h-auto max-h-[60vh] w-auto rounded-md border object-contain"
+      />
+    );
+  }
+
+  return (
+    <div className="flex items-center gap-4 rounded-md border p-4">
+      <p className="text-sm text-gray-500">
+        Binary content ({contents.mimeType ?? "unknown type"})
+      </p>
+      <Button
+        variant="outline"
+        size="sm"
+        asChild
+      >
+        <a
+          href={dataUrl}
+          download={contents.uri.split("/").pop() || "resource"}
+        >
+          <Download className="size-4" />
+          Download
+        </a>
+      </Button>
+    </div>
+  );
+}
@@ -0,0 +1,75 @@
+import _ from "lodash";
+import { MCPResourceContents } from "@/types/mcp-resource";
+
+/**
+ * A content block which is rendered as media, rather than as text or JSON.
+ * Includes the MCP content block types, and LangChain's `image_url` block.
+ */
+export type MediaContentBlock =
+  | { type: "image"; data: string; mimeType: string }
+  | { type: "audio"; data: string; mimeType: string }
+  | { type: "resource"; resource: MCPResourceContents }
+  | { type: "resource_link"; uri: string; name?: string; mimeType?: string }
+  | { type: "image_url"; image_url: string | { url: string } };
+
+/**
+ * Returns true if the value is a content block which should be rendered as media.
+ */
+export function isMediaContentBlock(
+  value: unknown,
+): value is MediaContentBlock {
+  if (!_.isPlainObject(value)) {
+    return false;
+  }
+  const block = value as Record<string, unknown>;
+  switch (block.type) {
+    case "image":
+    case "audio":
+      return typeof block.data === "string";
+    case "resource":
+      return typeof _.get(block.resource, "uri") === "string";
+    case "resource_link":
+      return typeof block.uri === "string";
+    case "image_url":
+      return (
+        typeof block.image_url === "string" ||
+        typeof _.get(block.image_url, "url") === "string"
+      );
+    default:
+      return false;
+  }
+}
+
+/**
+ * Returns true if the value looks like the result of an MCP `tools/call` request.
+ */
+export function isCallToolResult(
+  value: unknown,
+): value is { content: unknown[]; structuredContent?: unknown } {
+  return (
+    _.isPlainObject(value) &&
+    Array.isArray((value as Record<string, unknown>).content)
+  );
+}
+
+/**
+ * Returns the rows of a value which can be shown as a table: an array of
+ * objects, or an object with a single property containing one (e.g.
+ * `{ rows: [...] }`). Returns undefined if the value is not tabular.
+ */
+export function getTableRows(
+  value: unknown,
+): Record<string, unknown>[] | undefined {
+  if (_.isPlainObject(value)) {
+    const values = Object.values(value as Record<string, unknown>);
+    return values.length === 1 ? getTableRows(values[0]) : undefined;
+  }
+  if (
+    Array.isArray(value) &&
+    value.length > 0 &&
+    value.every((row) => _.isPlainObject(row))
+  ) {
+    return value as Record<string, unknown>[];
+  }
+  return undefined;
+}
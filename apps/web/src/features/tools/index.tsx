@@ -10,6 +10,13 @@ import { Button } from "@/components/ui/button";
 import _ from "lodash";
 import { Search } from "@/components/ui/tool-search";
 import { useSearchTools } from "@/hooks/use-search-tools";
+import { getToolKey } from "@/lib/mcp-tools";
+import { ServerGroups } from "./components/server-groups";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { parseAsStringLiteral, useQueryState } from "nuqs";
+import { ResourcesInterface } from "./resources";
+import { PromptsInterface } from "./prompts";
+import { ConnectionStatus } from "./components/connection-status";
 
 function TotalToolsBadge({
   toolsCount,
@@ -35,20 +42,21 @@ function TotalToolsBadge({
 }
 
 /**
- * The parent component containing the tools interface.
+ * Lists the tools exposed by every MCP server.
  */
-export default function ToolsInterface(): React.ReactNode {
-  const { tools, loading, getTools, cursor, setTools } = useMCPContext();
+function ToolsList(): React.ReactNode {
+  const { tools, loading, getMoreTools, hasMoreTools, setTools } =
+    useMCPContext();
   const { toolSearchTerm, debouncedSetSearchTerm, filteredTools } =
     useSearchTools(tools);
   const [loadingMore, setLoadingMore] = React.useState(false);
 
   const handleLoadMore = async () => {
-    if (!cursor) return;
+    if (!hasMoreTools) return;
 
     setLoadingMore(true);
     try {
-      const newTools = await getTools(cursor);
+      const newTools = await getMoreTools();
       setTools((prevTools) => [...prevTools, ...newTools]);
     } catch (error) {
       console.error("Error loading more tools:", error);
@@ -58,7 +66,7 @@ export default function ToolsInterface(): React.ReactNode {
   };
 
   return (
-    <div className="flex w-full flex-col gap-4 p-6">
+    <div className="flex w-full flex-col gap-4">
       <div className="flex w-full items-center justify-start gap-6">
         <div className="flex items-center justify-start gap-2">
           <Wrench className="size-6" />
@@ -67,7 +75,7 @@ export default function ToolsInterface(): React.ReactNode {
             <TotalToolsBadge
               toolsCount={tools.length}
               loading={loading}
-              hasMore={!!cursor}
+              hasMore={hasMoreTools}
             />
           </p>
         </div>
@@ -79,18 +87,24 @@ export default function ToolsInterface(): React.ReactNode {
       </div>
 
       <Separator />
-      <div className="grid grid-cols-1 gap-4 md:grid-cols-2 lg:grid-cols-3">
-        {loading &&
-          !filteredTools.length &&
-          Array.from({ length: 6 }).map((_, index) => (
+      {loading && !filteredTools.length && (
+        <div className="grid grid-cols-1 gap-4 md:grid-cols-2 lg:grid-cols-3">
+          {Array.from({ length: 6 }).map((_, index) => (
             <ToolCardLoading key={`tool-card-loading-${index}`} />
           ))}
-        {filteredTools.map((tool, index) => (
+        </div>
+      )}
+      <ServerGroups
+        items={filteredTools}
+        className="grid grid-cols-1 gap-4 md:grid-cols-2 lg:grid-cols-3"
+        renderItem={(tool, index) => (
           <ToolCard
-            key={`${tool.name}-${index}`}
+            key={`${getToolKey(tool)}-${index}`}
             tool={tool}
           />
-        ))}
+        )}
+      />
+      <div>
         {filteredTools.length === 0 && toolSearchTerm && (
           <p className="my-4 w-full text-center text-sm text-slate-500">
             No tools found matching "{toolSearchTerm}".
@@ -103,7 +117,7 @@ export default function ToolsInterface(): React.ReactNode {
         )}
       </div>
 
-      {!toolSearchTerm && cursor && (
+      {!toolSearchTerm && hasMoreTools && (
         <div className="mt-4 flex justify-center">
           <Button
             onClick={handleLoadMore}
@@ -129,3 +143,38 @@ export default function ToolsInterface(): React.ReactNode {
     </div>
   );
 }
+
+type ToolsTab = "tools" | "resources" | "prompts";
+
+/**
+ * The parent component containing the tools, resources and prompts interfaces.
+ */
+export default function ToolsInterface(): React.ReactNode {
+  const [tab, setTab] = useQueryState(
+    "tab",
+    parseAsStringLiteral(["tools", "resources", "prompts"]).withDefault(
+      "tools",
+    ),
+  );
+
+  return (
+    <div className="flex w-full flex-col gap-4 p-6">
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <Tabs
+          value={tab}
+          onValueChange={(v) => setTab(v as ToolsTab)}
+        >
+          <TabsList>
+            <TabsTrigger value="tools">Tools</TabsTrigger>
+            <TabsTrigger value="resources">Resources</TabsTrigger>
+            <TabsTrigger value="prompts">Prompts</TabsTrigger>
+          </TabsList>
+        </Tabs>
+        <ConnectionStatus />
+      </div>
+      {tab === "tools" && <ToolsList />}
+      {tab === "resources" && <ResourcesInterface />}
+      {tab === "prompts" && <PromptsInterface />}
+    </div>
+  );
+}
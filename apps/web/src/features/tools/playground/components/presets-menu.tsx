@@ -0,0 +1,161 @@
+"use client";
+
+import { useState } from "react";
+import { Bookmark, Play, Save, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { ToolPreset, usePlaygroundStore } from "../hooks/use-playground-store";
+
+// Stable fallback, so the selector does not return a new array every render.
+const NO_PRESETS: ToolPreset[] = [];
+
+interface PresetsMenuProps {
+  toolKey: string;
+  currentArgs: Record<string, any>;
+  onApply: (preset: ToolPreset) => void;
+  onRun: (preset: ToolPreset) => void;
+}
+
+/**
+ * A menu of the saved argument presets for a tool. Presets can be loaded
+ * into the input form, or run directly.
+ */
+export function PresetsMenu({
+  toolKey,
+  currentArgs,
+  onApply,
+  onRun,
+}: PresetsMenuProps) {
+  const presets = usePlaygroundStore(
+    (state) => state.presetsByTool[toolKey] ?? NO_PRESETS,
+  );
+  const { savePreset, deletePreset } = usePlaygroundStore();
+  const [saveOpen, setSaveOpen] = useState(false);
+  const [presetName, setPresetName] = useState("");
+
+  const handleSave = () => {
+    const name = presetName.trim();
+    if (!name) return;
+    savePreset(toolKey, name, currentArgs);
+    toast.success(`Saved preset "${name}"`, { richColors: true });
+    setPresetName("");
+    setSaveOpen(false);
+  };
+
+  return (
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button
+            variant="outline"
+            size="sm"
+          >
+            <Bookmark className="size-4" />
+            Presets
+            {presets.length > 0 && (
+              <span className="text-muted-foreground">({presets.length})</span>
+            )}
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent
+          align="end"
+          className="w-72"
+        >
+          <DropdownMenuItem onClick={() => setSaveOpen(true)}>
+            <Save className="size-4" />
+            Save current input as preset
+          </DropdownMenuItem>
+          {presets.length > 0 && (
+            <>
+              <DropdownMenuSeparator />
+              <DropdownMenuLabel>Saved presets</DropdownMenuLabel>
+              {presets.map((preset) => (
+                <div
+                  key={preset.id}
+                  className="flex items-center gap-1"
+                >
+                  <DropdownMenuItem
+                    className="min-w-0 flex-1"
+                    onClick={() => onApply(preset)}
+                  >
+                    <span className="truncate">{preset.name}</span>
+                  </DropdownMenuItem>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="size-7"
+                    aria-label={`Run preset ${preset.name}`}
+                    onClick={() => onRun(preset)}
+                  >
+                    <Play className="size-3.5" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="size-7"
+                    aria-label={`Delete preset ${preset.name}`}
+                    onClick={() => deletePreset(toolKey, preset.id)}
+                  >
+                    <Trash2 className="size-3.5" />
+                  </Button>
+                </div>
+              ))}
+            </>
+          )}
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <Dialog
+        open={saveOpen}
+        onOpenChange={setSaveOpen}
+      >
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Save preset</DialogTitle>
+            <DialogDescription>
+              Save the current input so it can be re-run later. Saving with an
+              existing name replaces that preset.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="grid gap-2">
+            <Label htmlFor="preset-name">Name</Label>
+            <Input
+              id="preset-name"
+              value={presetName}
+              onChange={(e) => setPresetName(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === "Enter") handleSave();
+              }}
+            />
+          </div>
+          <DialogFooter>
+            <Button
+              onClick={handleSave}
+              disabled={!presetName.trim()}
+            >
+              Save
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
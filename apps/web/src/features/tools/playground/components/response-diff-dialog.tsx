@@ -0,0 +1,101 @@
+"use client";
+
+import { useMemo } from "react";
+import { format } from "date-fns";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { cn } from "@/lib/utils";
+import { ToolRun } from "../hooks/use-playground-store";
+import { diffJson } from "../utils/json-diff";
+
+function getRunOutput(run: ToolRun) {
+  return run.error ? { error: run.error } : run.response;
+}
+
+interface ResponseDiffDialogProps {
+  runs: [ToolRun, ToolRun] | undefined;
+  onOpenChange: (open: boolean) => void;
+}
+
+/**
+ * Shows a line diff between the responses of two tool runs. The older run
+ * is always shown as the "before" side.
+ */
+export function ResponseDiffDialog({
+  runs,
+  onOpenChange,
+}: ResponseDiffDialogProps) {
+  const [before, after] = useMemo(
+    () =>
+      runs
+        ? [...runs].sort(
+            (a, b) =>
+              new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime(),
+          )
+        : [],
+    [runs],
+  );
+  const diff = useMemo(
+    () =>
+      before && after
+        ? diffJson(getRunOutput(before), getRunOutput(after))
+        : [],
+    [before, after],
+  );
+  const changedLines = diff.filter((line) => line.type !== "unchanged").length;
+
+  return (
+    <Dialog
+      open={!!runs}
+      onOpenChange={onOpenChange}
+    >
+      <DialogContent className="flex max-h-[85vh] flex-col sm:max-w-4xl">
+        <DialogHeader>
+          <DialogTitle>Compare responses</DialogTitle>
+          {before && after && (
+            <DialogDescription>
+              {format(new Date(before.createdAt), "MMM d, h:mm:ss a")} →{" "}
+              {format(new Date(after.createdAt), "MMM d, h:mm:ss a")}
+              {" · "}
+              {changedLines
+                ? `${changedLines} changed ${changedLines === 1 ? "line" : "lines"}`
+                : "Responses are identical"}
+            </DialogDescription>
+          )}
+        </DialogHeader>
+        {(before?.responseTruncated || after?.responseTruncated) && (
+          <p className="text-sm text-amber-600">
+            One of the responses was too large to store, so it can not be
+            compared.
+          </p>
+        )}
+        <pre className="min-h-0 flex-1 overflow-auto rounded-md border bg-gray-50 py-2 text-sm">
+          {diff.map((line, index) => (
+            <div
+              key={index}
+              className={cn(
+                "px-4 whitespace-pre-wrap",
+                line.type === "added" && "bg-green-100 text-green-800",
+                line.type === "removed" && "bg-red-100 text-red-800",
+              )}
+            >
+              <span className="mr-2 inline-block w-3 select-none">
+                {line.type === "added"
+                  ? "+"
+                  : line.type === "removed"
+                    ? "-"
+                    : " "}
+              </span>
+              {line.value}
+            </div>
+          ))}
+        </pre>
+      </DialogContent>
+    </Dialog>
+  );
+}
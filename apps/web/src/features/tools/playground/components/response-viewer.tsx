@@ -5,13 +5,88 @@ import type React from "react";
 import { useState } from "react";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Loader2, AlertTriangle } from "lucide-react";
+import type { Progress as ToolProgress } from "@modelcontextprotocol/sdk/types.js";
+import { Progress } from "@/components/ui/progress";
+import { MCPLogMessage } from "@/hooks/use-mcp";
 import { cn } from "@/lib/utils";
+import { ToolResultContent } from "../../components/tool-result-content";
+import { isCallToolResult } from "../../components/tool-result-content/utils";
 
 interface ResponseViewerProps {
   response: any;
   isLoading: boolean;
   errorMessage?: string;
   authRequiredMessage?: React.ReactNode;
+  /**
+   * The latest progress notification sent by the server while the tool runs.
+   */
+  progress?: ToolProgress;
+  /**
+   * Log messages sent by the server while the tool ran.
+   */
+  logs?: MCPLogMessage[];
+}
+
+const LOG_LEVEL_COLORS: Partial<Record<MCPLogMessage["level"], string>> = {
+  debug: "text-gray-400",
+  warning: "text-yellow-400",
+  error: "text-red-400",
+  critical: "text-red-400",
+  alert: "text-red-400",
+  emergency: "text-red-400",
+};
+
+function formatLogData(data: unknown) {
+  return typeof data === "string" ? data : JSON.stringify(data);
+}
+
+function ToolLogs({ logs }: { logs: MCPLogMessage[] }) {
+  return (
+    <div className="space-y-2">
+      <p className="text-sm font-medium">Server logs</p>
+      <pre className="max-h-64 overflow-auto rounded-md bg-gray-900 p-4 text-xs text-gray-100">
+        {logs.map((log, index) => (
+          <div
+            key={index}
+            className={LOG_LEVEL_COLORS[log.level]}
+          >
+            [{log.level}]{log.logger && ` ${log.logger}:`}{" "}
+            {formatLogData(log.data)}
+          </div>
+        ))}
+      </pre>
+    </div>
+  );
+}
+
+function ToolProgressView({ progress }: { progress?: ToolProgress }) {
+  const message =
+    typeof progress?.message === "string" ? progress.message : undefined;
+
+  if (!progress?.total) {
+    return (
+      <div className="flex flex-col items-center justify-center py-12">
+        <Loader2 className="mb-4 h-8 w-8 animate-spin text-teal-600" />
+        <p className="text-gray-500">{message ?? "Executing tool..."}</p>
+        {progress && (
+          <p className="text-sm text-gray-400">{progress.progress} completed</p>
+        )}
+      </div>
+    );
+  }
+
+  const percent = Math.min(100, (progress.progress / progress.total) * 100);
+  return (
+    <div className="flex flex-col items-center justify-center gap-3 py-12">
+      <Progress
+        value={percent}
+        className="w-2/3"
+      />
+      <p className="text-gray-500">
+        {message ?? "Executing tool..."} ({Math.round(percent)}%)
+      </p>
+    </div>
+  );
 }
 
 export function ResponseViewer({
@@ -19,8 +94,13 @@ export function ResponseViewer({
   isLoading,
   errorMessage,
   authRequiredMessage,
+  progress,
+  logs = [],
 }: ResponseViewerProps) {
-  const [viewMode, setViewMode] = useState<"pretty" | "raw">("pretty");
+  const [viewMode, setViewMode] = useState<"content" | "pretty" | "raw">(
+    "content",
+  );
+  const logsView = logs.length > 0 && <ToolLogs logs={logs} />;
 
   if (authRequiredMessage) {
     return authRequiredMessage;
@@ -28,19 +108,22 @@ export function ResponseViewer({
 
   if (errorMessage) {
     return (
-      <div className="flex flex-col items-center justify-center rounded-md border border-red-200 bg-red-50 p-6 text-red-700">
-        <AlertTriangle className="mb-3 h-8 w-8 text-red-500" />
-        <p className="mb-1 text-lg font-semibold">Error</p>
-        <p className="text-center text-sm">{errorMessage}</p>
+      <div className="space-y-4">
+        <div className="flex flex-col items-center justify-center rounded-md border border-red-200 bg-red-50 p-6 text-red-700">
+          <AlertTriangle className="mb-3 h-8 w-8 text-red-500" />
+          <p className="mb-1 text-lg font-semibold">Error</p>
+          <p className="text-center text-sm">{errorMessage}</p>
+        </div>
+        {logsView}
       </div>
     );
   }
 
   if (isLoading) {
     return (
-      <div className="flex flex-col items-center justify-center py-12">
-        <Loader2 className="mb-4 h-8 w-8 animate-spin text-teal-600" />
-        <p className="text-gray-500">Executing tool...</p>
+      <div className="space-y-4">
+        <ToolProgressView progress={progress} />
+        {logsView}
       </div>
     );
   }
@@ -53,18 +136,38 @@ export function ResponseViewer({
     );
   }
 
+  const hasContent = isCallToolResult(response);
+  // Responses which aren't tool results have no content to render
+  const activeViewMode =
+    viewMode === "content" && !hasContent ? "pretty" : viewMode;
+
   return (
     <div className="space-y-4">
       <Tabs
-        value={viewMode}
-        onValueChange={(v) => setViewMode(v as "pretty" | "raw")}
+        value={activeViewMode}
+        onValueChange={(v) => setViewMode(v as "content" | "pretty" | "raw")}
         className="w-full"
       >
-        <TabsList className="grid w-48 grid-cols-2">
+        <TabsList
+          className={cn(
+            "grid",
+            hasContent ? "w-72 grid-cols-3" : "w-48 grid-cols-2",
+          )}
+        >
+          {hasContent && <TabsTrigger value="content">Content</TabsTrigger>}
           <TabsTrigger value="pretty">Pretty</TabsTrigger>
           <TabsTrigger value="raw">Raw</TabsTrigger>
         </TabsList>
 
+        {hasContent && (
+          <TabsContent
+            value="content"
+            className="pt-4"
+          >
+            <ToolResultContent result={response} />
+          </TabsContent>
+        )}
+
         <TabsContent
           value="pretty"
           className="pt-4"
@@ -79,6 +182,7 @@ export function ResponseViewer({
           <RawView response={response} />
         </TabsContent>
       </Tabs>
+      {logsView}
     </div>
   );
 }
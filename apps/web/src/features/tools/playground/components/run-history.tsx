@@ -0,0 +1,169 @@
+"use client";
+
+import { useState } from "react";
+import { formatDistanceToNow } from "date-fns";
+import {
+  CheckCircle2,
+  GitCompare,
+  RotateCcw,
+  Trash2,
+  XCircle,
+} from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { cn } from "@/lib/utils";
+import { ToolRun, usePlaygroundStore } from "../hooks/use-playground-store";
+import { ResponseDiffDialog } from "./response-diff-dialog";
+
+// Stable fallback, so the selector does not return a new array every render.
+const NO_RUNS: ToolRun[] = [];
+
+function formatArgs(args: Record<string, any>): string {
+  const json = JSON.stringify(args);
+  return json === "{}" ? "No arguments" : json;
+}
+
+interface RunHistoryProps {
+  toolKey: string;
+  activeRunId?: string;
+  onView: (run: ToolRun) => void;
+  onReplay: (run: ToolRun) => void;
+}
+
+/**
+ * The persisted history of runs for a tool. Runs can be viewed, replayed
+ * with the same arguments, or compared with each other.
+ */
+export function RunHistory({
+  toolKey,
+  activeRunId,
+  onView,
+  onReplay,
+}: RunHistoryProps) {
+  const runs = usePlaygroundStore(
+    (state) => state.runsByTool[toolKey] ?? NO_RUNS,
+  );
+  const { deleteRun, clearRuns } = usePlaygroundStore();
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [compareRuns, setCompareRuns] = useState<[ToolRun, ToolRun]>();
+
+  const selectedRuns = runs.filter((run) => selectedIds.includes(run.id));
+
+  const toggleSelected = (runId: string, selected: boolean) => {
+    setSelectedIds((prev) =>
+      selected
+        ? // Only two runs can be compared, so drop the oldest selection
+          [...prev, runId].slice(-2)
+        : prev.filter((id) => id !== runId),
+    );
+  };
+
+  if (!runs.length) {
+    return (
+      <div className="flex flex-col items-center justify-center py-12 text-gray-500">
+        <p>No runs yet. Runs of this tool are saved here.</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between gap-2">
+        <p className="text-sm text-gray-500">
+          Select two runs to compare their responses.
+        </p>
+        <div className="flex items-center gap-2">
+          <Button
+            variant="outline"
+            size="sm"
+            disabled={selectedRuns.length !== 2}
+            onClick={() => setCompareRuns([selectedRuns[0], selectedRuns[1]])}
+          >
+            <GitCompare className="size-4" />
+            Compare
+          </Button>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => {
+              clearRuns(toolKey);
+              setSelectedIds([]);
+            }}
+          >
+            Clear history
+          </Button>
+        </div>
+      </div>
+
+      <ul className="divide-y rounded-md border">
+        {runs.map((run) => (
+          <li
+            key={run.id}
+            className={cn(
+              "flex items-center gap-3 px-3 py-2",
+              run.id === activeRunId && "bg-gray-50",
+            )}
+          >
+            <Checkbox
+              checked={selectedIds.includes(run.id)}
+              onCheckedChange={(checked) =>
+                toggleSelected(run.id, checked === true)
+              }
+              aria-label="Select run to compare"
+            />
+            {run.error ? (
+              <XCircle className="size-4 shrink-0 text-red-500" />
+            ) : (
+              <CheckCircle2 className="size-4 shrink-0 text-green-600" />
+            )}
+            <button
+              type="button"
+              className="min-w-0 flex-1 text-left"
+              onClick={() => onView(run)}
+            >
+              <p className="truncate font-mono text-xs">
+                {formatArgs(run.args)}
+              </p>
+              <p className="text-xs text-gray-500">
+                {formatDistanceToNow(new Date(run.createdAt), {
+                  addSuffix: true,
+                })}
+                {" · "}
+                {Math.round(run.latencyMs)} ms
+                {run.error && ` · ${run.error}`}
+              </p>
+            </button>
+            <Button
+              variant="ghost"
+              size="icon"
+              className="size-7"
+              aria-label="Replay run"
+              onClick={() => onReplay(run)}
+            >
+              <RotateCcw className="size-3.5" />
+            </Button>
+            <Button
+              variant="ghost"
+              size="icon"
+              className="size-7"
+              aria-label="Delete run"
+              onClick={() => {
+                deleteRun(toolKey, run.id);
+                toggleSelected(run.id, false);
+              }}
+            >
+              <Trash2 className="size-3.5" />
+            </Button>
+          </li>
+        ))}
+      </ul>
+
+      <ResponseDiffDialog
+        runs={compareRuns}
+        onOpenChange={(open) => {
+          if (!open) setCompareRuns(undefined);
+        }}
+      />
+    </div>
+  );
+}
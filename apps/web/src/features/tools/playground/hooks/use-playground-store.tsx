@@ -0,0 +1,190 @@
+"use client";
+
+import { create } from "zustand";
+import { createJSONStorage, persist } from "zustand/middleware";
+import { v4 as uuidv4 } from "uuid";
+
+// The maximum number of runs stored per tool. Older runs are dropped first.
+const MAX_RUNS_PER_TOOL = 50;
+// Responses larger than this (as JSON) are not stored, to stay within the
+// localStorage quota.
+const MAX_STORED_RESPONSE_LENGTH = 100_000;
+// The maximum size (as JSON) of the runs stored across every tool. Older runs
+// are dropped first.
+const MAX_STORED_RUNS_LENGTH = 2_000_000;
+// How long to wait for a tool to respond before the call is cancelled.
+export const DEFAULT_TOOL_TIMEOUT_MS = 60_000;
+
+export interface ToolRun {
+  id: string;
+  /**
+   * The key of the tool which was run (see `getToolKey`).
+   */
+  toolKey: string;
+  args: Record<string, any>;
+  response?: any;
+  /**
+   * True if the response was too large to store.
+   */
+  responseTruncated?: boolean;
+  error?: string;
+  latencyMs: number;
+  createdAt: string;
+}
+
+export interface ToolPreset {
+  id: string;
+  name: string;
+  args: Record<string, any>;
+  createdAt: string;
+}
+
+interface PlaygroundState {
+  // Runs and presets are keyed by tool key, since tools on different MCP
+  // servers may share a name.
+  runsByTool: Record<string, ToolRun[]>;
+  presetsByTool: Record<string, ToolPreset[]>;
+  timeoutMs: number;
+  setTimeoutMs: (timeoutMs: number) => void;
+  addRun: (run: Omit<ToolRun, "id" | "createdAt">) => ToolRun;
+  deleteRun: (toolKey: string, runId: string) => void;
+  clearRuns: (toolKey: string) => void;
+  savePreset: (
+    toolKey: string,
+    name: string,
+    args: Record<string, any>,
+  ) => ToolPreset;
+  deletePreset: (toolKey: string, presetId: string) => void;
+}
+
+/**
+ * Drops the oldest runs, across every tool, until the stored runs fit in
+ * `MAX_STORED_RUNS_LENGTH`.
+ */
+function trimRunsToBudget(
+  runsByTool: Record<string, ToolRun[]>,
+): Record<string, ToolRun[]> {
+  const runs = Object.values(runsByTool)
+    .flat()
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  const keptRunIds = new Set<string>();
+  let length = 0;
+  for (const run of runs) {
+    length += JSON.stringify(run).length;
+    if (length > MAX_STORED_RUNS_LENGTH) break;
+    keptRunIds.add(run.id);
+  }
+  if (keptRunIds.size === runs.length) {
+    return runsByTool;
+  }
+  return Object.fromEntries(
+    Object.entries(runsByTool).map(([toolKey, toolRuns]) => [
+      toolKey,
+      toolRuns.filter((run) => keptRunIds.has(run.id)),
+    ]),
+  );
+}
+
+// Saving runs must never break running a tool, e.g. if the quota is used up
+// by other data.
+const playgroundStorage = createJSONStorage(() => ({
+  getItem: (name) => localStorage.getItem(name),
+  setItem: (name, value) => {
+    try {
+      localStorage.setItem(name, value);
+    } catch (e) {
+      console.error("Failed to save tools playground state", e);
+    }
+  },
+  removeItem: (name) => localStorage.removeItem(name),
+}));
+
+export const usePlaygroundStore = create<PlaygroundState>()(
+  persist(
+    (set) => ({
+      runsByTool: {},
+      presetsByTool: {},
+      timeoutMs: DEFAULT_TOOL_TIMEOUT_MS,
+
+      setTimeoutMs: (timeoutMs) => set({ timeoutMs }),
+
+      addRun: (run) => {
+        const responseTooLarge =
+          run.response !== undefined &&
+          JSON.stringify(run.response).length > MAX_STORED_RESPONSE_LENGTH;
+        const newRun: ToolRun = {
+          ...run,
+          id: uuidv4(),
+          createdAt: new Date().toISOString(),
+          ...(responseTooLarge && {
+            response: undefined,
+            responseTruncated: true,
+          }),
+        };
+        set((state) => ({
+          runsByTool: trimRunsToBudget({
+            ...state.runsByTool,
+            [run.toolKey]: [
+              newRun,
+              ...(state.runsByTool[run.toolKey] ?? []),
+            ].slice(0, MAX_RUNS_PER_TOOL),
+          }),
+        }));
+        return newRun;
+      },
+
+      deleteRun: (toolKey, runId) =>
+        set((state) => ({
+          runsByTool: {
+            ...state.runsByTool,
+            [toolKey]: (state.runsByTool[toolKey] ?? []).filter(
+              (run) => run.id !== runId,
+            ),
+          },
+        })),
+
+      clearRuns: (toolKey) =>
+        set((state) => {
+          const runsByTool = { ...state.runsByTool };
+          delete runsByTool[toolKey];
+          return { runsByTool };
+        }),
+
+      savePreset: (toolKey, name, args) => {
+        const preset: ToolPreset = {
+          id: uuidv4(),
+          name,
+          args,
+          createdAt: new Date().toISOString(),
+        };
+        set((state) => ({
+          presetsByTool: {
+            ...state.presetsByTool,
+            // Saving with an existing name overwrites that preset
+            [toolKey]: [
+              ...(state.presetsByTool[toolKey] ?? []).filter(
+                (p) => p.name !== name,
+              ),
+              preset,
+            ],
+          },
+        }));
+        return preset;
+      },
+
+      deletePreset: (toolKey, presetId) =>
+        set((state) => ({
+          presetsByTool: {
+            ...state.presetsByTool,
+            [toolKey]: (state.presetsByTool[toolKey] ?? []).filter(
+              (p) => p.id !== presetId,
+            ),
+          },
+        })),
+    }),
+    {
+      name: "tools-playground-storage",
+      storage: playgroundStorage,
+    },
+  ),
+);
@@ -1,6 +1,6 @@
 "use client";
 
-import { ReactNode, useEffect, useState } from "react";
+import { ReactNode, useEffect, useRef, useState } from "react";
 import {
   ResizablePanelGroup,
   ResizablePanel,
@@ -9,35 +9,77 @@ import {
 import { SchemaForm } from "./components/schema-form";
 import { ResponseViewer } from "./components/response-viewer";
 import { Button } from "@/components/ui/button";
-import { AlertTriangle, CirclePlay, Loader2 } from "lucide-react";
+import { AlertTriangle, CirclePlay, Loader2, Square } from "lucide-react";
+import {
+  ErrorCode,
+  McpError,
+  Progress,
+} from "@modelcontextprotocol/sdk/types.js";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { MCPLogMessage } from "@/hooks/use-mcp";
 import { useMCPContext } from "@/providers/MCP";
 import { Tool } from "@/types/tool";
 import { ToolListCommand } from "../components/tool-list-command";
+import { getToolKey } from "@/lib/mcp-tools";
 import _ from "lodash";
 import { useQueryState } from "nuqs";
 import { toast } from "sonner";
 import { useRouter } from "next/navigation";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { format } from "date-fns";
+import { PresetsMenu } from "./components/presets-menu";
+import { RunHistory } from "./components/run-history";
+import { ToolRun, usePlaygroundStore } from "./hooks/use-playground-store";
 
 export default function ToolsPlaygroundInterface() {
   const { tools, loading, callTool } = useMCPContext();
   const router = useRouter();
 
   const [selectedToolName, setSelectedToolName] = useQueryState("tool");
+  const [selectedServerId, setSelectedServerId] = useQueryState("server");
   const [selectedTool, setSelectedTool] = useState<Tool>();
-  const [inputValues, setInputValues] = useState({});
+  const [inputValues, setInputValues] = useState<Record<string, any>>({});
+  // SchemaForm keeps its own state, so it is remounted to load new values
+  const [formKey, setFormKey] = useState(0);
   const [response, setResponse] = useState<any>(null);
   const [isLoading, setIsLoading] = useState(false);
   const [errorMessage, setErrorMessage] = useState("");
   const [authRequiredMessage, setAuthRequiredMessage] =
     useState<ReactNode>(null);
+  const [responseTab, setResponseTab] = useState<"response" | "history">(
+    "response",
+  );
+  // The run currently shown in the response viewer
+  const [activeRun, setActiveRun] = useState<ToolRun>();
+  const [progress, setProgress] = useState<Progress>();
+  const [logs, setLogs] = useState<MCPLogMessage[]>([]);
+  // Aborts the tool call which is currently running
+  const abortControllerRef = useRef<AbortController | null>(null);
+  const addRun = usePlaygroundStore((state) => state.addRun);
+  const timeoutMs = usePlaygroundStore((state) => state.timeoutMs);
+  const setTimeoutMs = usePlaygroundStore((state) => state.setTimeoutMs);
 
   const resetState = () => {
+    abortControllerRef.current?.abort();
+    abortControllerRef.current = null;
     setInputValues({});
+    setFormKey((k) => k + 1);
     setResponse(null);
     setErrorMessage("");
+    setAuthRequiredMessage(null);
+    setActiveRun(undefined);
+    setResponseTab("response");
+    setProgress(undefined);
+    setLogs([]);
     setIsLoading(false);
   };
 
+  const loadArgs = (args: Record<string, any>) => {
+    setInputValues(args);
+    setFormKey((k) => k + 1);
+  };
+
   useEffect(() => {
     if (loading || selectedTool || !tools.length) return;
 
@@ -46,46 +88,91 @@ export default function ToolsPlaygroundInterface() {
       return;
     }
 
-    const tool = tools.find((tool) => tool.name === selectedToolName);
+    // Links created before multiple MCP servers were supported only include the tool name
+    const tool = tools.find(
+      (tool) =>
+        tool.name === selectedToolName &&
+        (!selectedServerId || tool.serverId === selectedServerId),
+    );
 
     if (!tool) {
       toast.error("Tool not found", { richColors: true });
       setSelectedToolName(null);
+      setSelectedServerId(null);
       router.replace("/tools");
       return;
     }
     resetState();
     setSelectedTool(tool);
-  }, [tools, loading, selectedToolName]);
+  }, [tools, loading, selectedToolName, selectedServerId]);
 
   const handleInputChange = (newValues: any) => {
     setInputValues(newValues);
   };
 
-  const handleSubmit = async () => {
+  const handleSubmit = async (args: Record<string, any> = inputValues) => {
     if (!selectedTool) return;
     setIsLoading(true);
     setResponse(null);
     setErrorMessage("");
     setAuthRequiredMessage(null);
+    setActiveRun(undefined);
+    setResponseTab("response");
+    setProgress(undefined);
+    setLogs([]);
+
+    const abortController = new AbortController();
+    abortControllerRef.current = abortController;
+    const startTime = performance.now();
+    const recordRun = (run: { response?: any; error?: string }) => {
+      setActiveRun(
+        addRun({
+          toolKey: getToolKey(selectedTool),
+          args,
+          latencyMs: performance.now() - startTime,
+          ...run,
+        }),
+      );
+    };
 
+    let toolRes;
     try {
-      const toolRes = await callTool({
+      toolRes = await callTool({
         name: selectedTool.name,
-        args: inputValues,
+        args,
+        serverId: selectedTool.serverId,
+        onProgress: setProgress,
+        onLog: (message) => setLogs((prev) => [...prev, message]),
+        signal: abortController.signal,
+        timeoutMs,
       });
-      setResponse(toolRes);
-      setInputValues({});
     } catch (e: any) {
+      if (abortController.signal.aborted) {
+        // The run was replaced by a different tool being selected
+        if (abortControllerRef.current !== abortController) return;
+        setErrorMessage("The tool call was cancelled.");
+        recordRun({ error: "Cancelled" });
+        return;
+      }
+
+      if (e instanceof McpError && e.code === ErrorCode.RequestTimeout) {
+        const message = `The tool did not respond within ${timeoutMs / 1000} seconds.`;
+        setErrorMessage(message);
+        recordRun({ error: message });
+        return;
+      }
+
       if (!("code" in e) || !("data" in e)) {
         console.error("Error calling tool", e);
         setErrorMessage(e.message);
+        recordRun({ error: e.message });
         toast.error("Tool call failed. Please try again.", {
           richColors: true,
         });
         return;
       }
 
+      recordRun({ error: e.data?.message?.text ?? e.message });
       if (e.code === -32003 && e.data) {
         setAuthRequiredMessage(
           <div className="flex flex-col items-center justify-center rounded-md border border-blue-200 bg-blue-50 p-6 text-blue-700">
@@ -107,9 +194,41 @@ export default function ToolsPlaygroundInterface() {
           </div>,
         );
       }
+      return;
+    } finally {
+      if (abortControllerRef.current === abortController) {
+        abortControllerRef.current = null;
+      }
+      setIsLoading(false);
     }
+    // Recorded outside the `try`, so a failure to save the run isn't reported
+    // as the tool call failing
+    setResponse(toolRes);
+    recordRun({ response: toolRes });
+  };
 
-    setIsLoading(false);
+  const handleCancel = () => {
+    abortControllerRef.current?.abort();
+  };
+
+  const handleViewRun = (run: ToolRun) => {
+    setActiveRun(run);
+    setResponse(run.response ?? null);
+    setErrorMessage(
+      run.error ??
+        (run.responseTruncated
+          ? "This response was too large to be saved in the run history."
+          : ""),
+    );
+    setAuthRequiredMessage(null);
+    setProgress(undefined);
+    setLogs([]);
+    setResponseTab("response");
+  };
+
+  const handleReplay = (args: Record<string, any>) => {
+    loadArgs(args);
+    handleSubmit(args);
   };
 
   if (!selectedTool) {
@@ -126,6 +245,7 @@ export default function ToolsPlaygroundInterface() {
             resetState();
             setSelectedTool(t);
             setSelectedToolName(t.name);
+            setSelectedServerId(t.serverId);
           }}
         />
       </div>
@@ -139,22 +259,48 @@ export default function ToolsPlaygroundInterface() {
               {selectedTool.description}
             </p>
           </div>
-          <Button
-            onClick={handleSubmit}
-            disabled={isLoading}
-          >
+          <div className="flex items-center gap-4">
+            <div className="flex items-center gap-2">
+              <Label
+                htmlFor="tool-timeout"
+                className="text-sm whitespace-nowrap text-gray-500"
+              >
+                Timeout (s)
+              </Label>
+              <Input
+                id="tool-timeout"
+                type="number"
+                min={1}
+                className="w-20"
+                value={timeoutMs / 1000}
+                onChange={(e) => {
+                  const seconds = Number(e.target.value);
+                  if (seconds > 0) setTimeoutMs(seconds * 1000);
+                }}
+                disabled={isLoading}
+              />
+            </div>
             {isLoading ? (
               <>
-                <Loader2 className="size-4 animate-spin" />
-                Running...
+                <Button disabled>
+                  <Loader2 className="size-4 animate-spin" />
+                  Running...
+                </Button>
+                <Button
+                  variant="outline"
+                  onClick={handleCancel}
+                >
+                  <Square className="size-4" />
+                  Cancel
+                </Button>
               </>
             ) : (
-              <>
+              <Button onClick={() => handleSubmit()}>
                 <CirclePlay className="size-4" />
                 <p>Run Tool</p>
-              </>
+              </Button>
             )}
-          </Button>
+          </div>
         </div>
       </div>
 
@@ -165,8 +311,17 @@ export default function ToolsPlaygroundInterface() {
         <ResizablePanel defaultSize={50}>
           <div className="flex h-full items-start p-6">
             <div className="w-full space-y-4">
-              <h3 className="text-md font-medium">Input</h3>
+              <div className="flex items-center justify-between">
+                <h3 className="text-md font-medium">Input</h3>
+                <PresetsMenu
+                  toolKey={getToolKey(selectedTool)}
+                  currentArgs={inputValues}
+                  onApply={(preset) => loadArgs(preset.args)}
+                  onRun={(preset) => handleReplay(preset.args)}
+                />
+              </div>
               <SchemaForm
+                key={formKey}
                 schema={selectedTool.inputSchema}
                 onChange={handleInputChange}
                 values={inputValues}
@@ -178,13 +333,46 @@ export default function ToolsPlaygroundInterface() {
         <ResizablePanel defaultSize={50}>
           <div className="flex h-full items-start p-6">
             <div className="w-full space-y-4">
-              <h3 className="text-md font-medium">Response</h3>
-              <ResponseViewer
-                response={response}
-                isLoading={isLoading}
-                errorMessage={errorMessage}
-                authRequiredMessage={authRequiredMessage}
-              />
+              <Tabs
+                value={responseTab}
+                onValueChange={(v) =>
+                  setResponseTab(v as "response" | "history")
+                }
+              >
+                <TabsList>
+                  <TabsTrigger value="response">Response</TabsTrigger>
+                  <TabsTrigger value="history">History</TabsTrigger>
+                </TabsList>
+              </Tabs>
+              {responseTab === "response" ? (
+                <>
+                  {activeRun && !isLoading && (
+                    <p className="text-sm text-gray-500">
+                      Run at{" "}
+                      {format(
+                        new Date(activeRun.createdAt),
+                        "MMM d, h:mm:ss a",
+                      )}{" "}
+                      in {Math.round(activeRun.latencyMs)} ms
+                    </p>
+                  )}
+                  <ResponseViewer
+                    response={response}
+                    isLoading={isLoading}
+                    errorMessage={errorMessage}
+                    authRequiredMessage={authRequiredMessage}
+                    progress={progress}
+                    logs={logs}
+                  />
+                </>
+              ) : (
+                <RunHistory
+                  toolKey={getToolKey(selectedTool)}
+                  activeRunId={activeRun?.id}
+                  onView={handleViewRun}
+                  onReplay={(run) => handleReplay(run.args)}
+                />
+              )}
             </div>
           </div>
         </ResizablePanel>
@@ -0,0 +1,63 @@
+export type DiffLine = {
+  type: "added" | "removed" | "unchanged";
+  value: string;
+};
+
+// Above this many lines per side, the LCS table would be too large to compute
+// in the browser, so the values are shown as fully removed and added instead.
+const MAX_DIFF_LINES = 2000;
+
+function toLines(value: unknown): string[] {
+  if (value === undefined) return [];
+  return JSON.stringify(value, null, 2).split("\n");
+}
+
+/**
+ * Computes a line-by-line diff between the pretty-printed JSON of two values,
+ * using the longest common subsequence of their lines.
+ */
+export function diffJson(before: unknown, after: unknown): DiffLine[] {
+  const a = toLines(before);
+  const b = toLines(after);
+
+  if (a.length > MAX_DIFF_LINES || b.length > MAX_DIFF_LINES) {
+    return [
+      ...a.map((value) => ({ type: "removed" as const, value })),
+      ...b.map((value) => ({ type: "added" as const, value })),
+    ];
+  }
+
+  // lcs[i][j] is the length of the LCS of a[i:] and b[j:]
+  const lcs: number[][] = Array.from({ length: a.length + 1 }, () =>
+    new Array(b.length + 1).fill(0),
+  );
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] =
+        a[i] === b[j]
+          ? lcs[i + 1][j + 1] + 1
+          : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const diff: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      diff.push({ type: "unchanged", value: a[i] });
+      i++;
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      diff.push({ type: "removed", value: a[i] });
+      i++;
+    } else {
+      diff.push({ type: "added", value: b[j] });
+      j++;
+    }
+  }
+  while (i < a.length) diff.push({ type: "removed", value: a[i++] });
+  while (j < b.length) diff.push({ type: "added", value: b[j++] });
+
+  return diff;
+}
@@ -0,0 +1,55 @@
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardFooter,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { MessageSquareText } from "lucide-react";
+import _ from "lodash";
+import { MCPPrompt } from "@/types/mcp-prompt";
+
+interface PromptCardProps {
+  prompt: MCPPrompt;
+  onOpen: (prompt: MCPPrompt) => void;
+}
+
+export function PromptCard({ prompt, onOpen }: PromptCardProps) {
+  return (
+    <Card className="border border-gray-200 shadow-xs">
+      <CardHeader>
+        <CardTitle className="truncate pb-2 text-lg font-medium">
+          {_.startCase(prompt.name)}
+        </CardTitle>
+        <CardDescription className="line-clamp-3">
+          {prompt.description}
+        </CardDescription>
+      </CardHeader>
+      {!!prompt.arguments?.length && (
+        <CardContent className="flex flex-wrap gap-1">
+          {prompt.arguments.map((arg) => (
+            <Badge
+              key={arg.name}
+              variant="outline"
+            >
+              {arg.name}
+              {arg.required && <span className="text-red-500">*</span>}
+            </Badge>
+          ))}
+        </CardContent>
+      )}
+      <CardFooter className="mt-auto">
+        <Button
+          variant="outline"
+          onClick={() => onOpen(prompt)}
+        >
+          <MessageSquareText className="size-4" />
+          <p>Try prompt</p>
+        </Button>
+      </CardFooter>
+    </Card>
+  );
+}
@@ -0,0 +1,194 @@
+import { useState } from "react";
+import type { GetPromptResult } from "@modelcontextprotocol/sdk/types.js";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Copy, Eye, Loader2, MessageSquarePlus } from "lucide-react";
+import { toast } from "sonner";
+import _ from "lodash";
+import { useMCPContext } from "@/providers/MCP";
+import { MCPPrompt } from "@/types/mcp-prompt";
+import { PromptComposerContent, promptResultToComposerContent } from "../utils";
+
+interface PromptDialogProps {
+  prompt: MCPPrompt;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  /**
+   * Called with the rendered prompt when the user inserts it. If not provided,
+   * the rendered prompt can only be previewed and copied.
+   */
+  onInsert?: (content: PromptComposerContent) => void;
+}
+
+/**
+ * A dialog for filling in the arguments of an MCP prompt, and previewing the
+ * rendered prompt.
+ */
+export function PromptDialog({
+  prompt,
+  open,
+  onOpenChange,
+  onInsert,
+}: PromptDialogProps) {
+  const { getPrompt } = useMCPContext();
+  const [args, setArgs] = useState<Record<string, string>>({});
+  const [result, setResult] = useState<GetPromptResult>();
+  const [loading, setLoading] = useState(false);
+
+  const missingRequiredArgs = (prompt.arguments ?? []).filter(
+    (arg) => arg.required && !args[arg.name]?.trim(),
+  );
+
+  const renderPrompt = async (): Promise<GetPromptResult | undefined> => {
+    setLoading(true);
+    try {
+      const rendered = await getPrompt({
+        serverId: prompt.serverId,
+        name: prompt.name,
+        // Omit empty optional arguments, so the server can apply its defaults
+        args: _.pickBy(args, (value) => !!value.trim()),
+      });
+      setResult(rendered);
+      return rendered;
+    } catch (e) {
+      console.error("Failed to get prompt", e);
+      toast.error("Failed to get prompt", {
+        description: e instanceof Error ? e.message : undefined,
+        richColors: true,
+      });
+      return undefined;
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleArgChange = (name: string, value: string) => {
+    setArgs((prev) => ({ ...prev, [name]: value }));
+    // The preview no longer matches the arguments
+    setResult(undefined);
+  };
+
+  const handleInsert = async () => {
+    if (!onInsert) return;
+    const rendered = result ?? (await renderPrompt());
+    if (!rendered) return;
+    onInsert(promptResultToComposerContent(rendered));
+    onOpenChange(false);
+  };
+
+  const handleCopy = async () => {
+    const rendered = result ?? (await renderPrompt());
+    if (!rendered) return;
+    await navigator.clipboard.writeText(
+      promptResultToComposerContent(rendered).text,
+    );
+    toast.success("Copied prompt to clipboard");
+  };
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={onOpenChange}
+    >
+      <DialogContent className="sm:max-w-lg md:max-w-2xl">
+        <DialogHeader>
+          <DialogTitle className="text-lg font-semibold">
+            <span className="text-muted-foreground font-medium">Prompt - </span>
+            {_.startCase(prompt.name)}
+          </DialogTitle>
+          <DialogDescription>
+            {prompt.description || "No description provided"}
+          </DialogDescription>
+        </DialogHeader>
+        <div className="flex max-h-[60vh] flex-col gap-4 overflow-y-auto">
+          {(prompt.arguments ?? []).map((arg) => (
+            <div
+              key={arg.name}
+              className="flex flex-col gap-2"
+            >
+              <Label htmlFor={`prompt-arg-${arg.name}`}>
+                {_.startCase(arg.name)}
+                {arg.required && <span className="text-red-500">*</span>}
+              </Label>
+              <Input
+                id={`prompt-arg-${arg.name}`}
+                value={args[arg.name] ?? ""}
+                onChange={(e) => handleArgChange(arg.name, e.target.value)}
+              />
+              {arg.description && (
+                <p className="text-xs text-gray-500">{arg.description}</p>
+              )}
+            </div>
+          ))}
+          {!prompt.arguments?.length && (
+            <p className="text-sm text-gray-500">
+              This prompt does not take any arguments.
+            </p>
+          )}
+          {result && (
+            <div className="flex flex-col gap-2 rounded-md border p-3">
+              {result.messages.map((message, index) => (
+                <div
+                  key={index}
+                  className="flex flex-col gap-1"
+                >
+                  <Badge variant="outline">{message.role}</Badge>
+                  {message.content.type === "text" ? (
+                    <p className="text-sm whitespace-pre-wrap">
+                      {message.content.text}
+                    </p>
+                  ) : (
+                    <p className="text-sm text-gray-500 italic">
+                      {message.content.type} content
+                    </p>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+        <DialogFooter>
+          <Button
+            variant="outline"
+            onClick={handleCopy}
+            disabled={loading || missingRequiredArgs.length > 0}
+          >
+            <Copy className="size-4" />
+            Copy
+          </Button>
+          <Button
+            variant={onInsert ? "outline" : "default"}
+            onClick={renderPrompt}
+            disabled={loading || missingRequiredArgs.length > 0}
+          >
+            {loading ? (
+              <Loader2 className="size-4 animate-spin" />
+            ) : (
+              <Eye className="size-4" />
+            )}
+            Preview
+          </Button>
+          {onInsert && (
+            <Button
+              onClick={handleInsert}
+              disabled={loading || missingRequiredArgs.length > 0}
+            >
+              <MessageSquarePlus className="size-4" />
+              Insert into message
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,103 @@
+"use client";
+
+import React, { useEffect, useMemo, useState } from "react";
+import { MessageSquareText } from "lucide-react";
+import { Separator } from "@/components/ui/separator";
+import { Badge } from "@/components/ui/badge";
+import { Search } from "@/components/ui/tool-search";
+import { useMCPContext } from "@/providers/MCP";
+import { MCPPrompt } from "@/types/mcp-prompt";
+import { ToolCardLoading } from "../components/tool-card";
+import { ServerGroups } from "../components/server-groups";
+import { PromptCard } from "./components/prompt-card";
+import { PromptDialog } from "./components/prompt-dialog";
+import _ from "lodash";
+
+/**
+ * Lists the prompt templates published by every MCP server.
+ */
+export function PromptsInterface(): React.ReactNode {
+  const { getAllPrompts } = useMCPContext();
+  const [prompts, setPrompts] = useState<MCPPrompt[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [searchTerm, setSearchTerm] = useState("");
+  const [selectedPrompt, setSelectedPrompt] = useState<MCPPrompt>();
+
+  useEffect(() => {
+    getAllPrompts()
+      .then(setPrompts)
+      .finally(() => setLoading(false));
+  }, []);
+
+  const debouncedSetSearchTerm = useMemo(
+    () => _.debounce((value: string) => setSearchTerm(value), 200),
+    [],
+  );
+
+  const filteredPrompts = prompts.filter(
+    (prompt) =>
+      !searchTerm ||
+      prompt.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
+      prompt.description?.toLowerCase().includes(searchTerm.toLowerCase()),
+  );
+
+  return (
+    <div className="flex w-full flex-col gap-4">
+      <div className="flex w-full items-center justify-start gap-6">
+        <div className="flex items-center justify-start gap-2">
+          <MessageSquareText className="size-6" />
+          <p className="flex items-center gap-2 text-lg font-semibold tracking-tight">
+            Prompts
+            <Badge variant="outline">
+              {loading ? "Loading..." : prompts.length}
+            </Badge>
+          </p>
+        </div>
+        <Search
+          onSearchChange={debouncedSetSearchTerm}
+          placeholder="Search prompts..."
+          className="w-full"
+        />
+      </div>
+
+      <Separator />
+      {loading && (
+        <div className="grid grid-cols-1 gap-4 md:grid-cols-2 lg:grid-cols-3">
+          {Array.from({ length: 3 }).map((_, index) => (
+            <ToolCardLoading key={`prompt-card-loading-${index}`} />
+          ))}
+        </div>
+      )}
+      <ServerGroups
+        items={filteredPrompts}
+        className="grid grid-cols-1 gap-4 md:grid-cols-2 lg:grid-cols-3"
+        renderItem={(prompt) => (
+          <PromptCard
+            key={`${prompt.serverId}:${prompt.name}`}
+            prompt={prompt}
+            onOpen={setSelectedPrompt}
+          />
+        )}
+      />
+      {filteredPrompts.length === 0 && searchTerm && (
+        <p className="my-4 w-full text-center text-sm text-slate-500">
+          No prompts found matching "{searchTerm}".
+        </p>
+      )}
+      {prompts.length === 0 && !loading && (
+        <p className="my-4 w-full text-center text-sm text-slate-500">
+          None of your MCP servers publish any prompts.
+        </p>
+      )}
+
+      {selectedPrompt && (
+        <PromptDialog
+          key={`${selectedPrompt.serverId}:${selectedPrompt.name}`}
+          prompt={selectedPrompt}
+          open={!!selectedPrompt}
+          onOpenChange={(open) => !open && setSelectedPrompt(undefined)}
+        />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,42 @@
+import type { Base64ContentBlock } from "@langchain/core/messages";
+import type { GetPromptResult } from "@modelcontextprotocol/sdk/types.js";
+import { SUPPORTED_FILE_TYPES } from "@/hooks/use-file-upload";
+
+export type PromptComposerContent = {
+  text: string;
+  contentBlocks: Base64ContentBlock[];
+};
+
+/**
+ * Converts the messages of a rendered MCP prompt into content which can be
+ * inserted into the chat composer. Text and embedded text resources are joined
+ * into a single string. Images are converted into content blocks if they are a
+ * supported file type, and any other content is skipped.
+ */
+export function promptResultToComposerContent(
+  result: GetPromptResult,
+): PromptComposerContent {
+  const textParts: string[] = [];
+  const contentBlocks: Base64ContentBlock[] = [];
+
+  result.messages.forEach(({ content }) => {
+    if (content.type === "text") {
+      textParts.push(content.text);
+    } else if (content.type === "resource" && "text" in content.resource) {
+      textParts.push(content.resource.text as string);
+    } else if (
+      content.type === "image" &&
+      SUPPORTED_FILE_TYPES.includes(content.mimeType)
+    ) {
+      contentBlocks.push({
+        type: "image",
+        source_type: "base64",
+        mime_type: content.mimeType,
+        data: content.data,
+        metadata: { name: "prompt-image" },
+      });
+    }
+  });
+
+  return { text: textParts.join("\n\n"), contentBlocks };
+}
@@ -0,0 +1,136 @@
+import { useEffect, useState } from "react";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Loader2, RefreshCw } from "lucide-react";
+import { toast } from "sonner";
+import { format } from "date-fns";
+import { useMCPContext } from "@/providers/MCP";
+import { MCPResource, MCPResourceContents } from "@/types/mcp-resource";
+import { ResourceContentsPreview } from "../../components/tool-result-content/resource-contents-preview";
+
+/**
+ * Shows the contents of an MCP resource. If the resource's server supports
+ * subscriptions, the contents can be kept up to date as the resource changes.
+ */
+export function ResourceViewer({ resource }: { resource: MCPResource }) {
+  const { readResource, subscribeToResource } = useMCPContext();
+  const [contents, setContents] = useState<MCPResourceContents[]>();
+  const [loading, setLoading] = useState(false);
+  const [watching, setWatching] = useState(false);
+  const [lastUpdatedAt, setLastUpdatedAt] = useState<Date>();
+
+  const loadContents = async () => {
+    setLoading(true);
+    try {
+      setContents(await readResource(resource.serverId, resource.uri));
+    } catch (e) {
+      console.error("Failed to read resource", e);
+      toast.error("Failed to read resource", {
+        description: e instanceof Error ? e.message : undefined,
+        richColors: true,
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadContents();
+  }, []);
+
+  useEffect(() => {
+    if (!watching) return;
+
+    let unsubscribe: (() => Promise<void>) | undefined;
+    let cancelled = false;
+    subscribeToResource(resource.serverId, resource.uri, () => {
+      setLastUpdatedAt(new Date());
+      loadContents();
+    })
+      .then((unsub) => {
+        if (cancelled) {
+          unsub().catch(console.error);
+          return;
+        }
+        unsubscribe = unsub;
+      })
+      .catch((e) => {
+        console.error("Failed to subscribe to resource", e);
+        toast.error("Failed to subscribe to resource updates", {
+          richColors: true,
+        });
+        setWatching(false);
+      });
+
+    return () => {
+      cancelled = true;
+      unsubscribe?.().catch(console.error);
+    };
+  }, [watching]);
+
+  return (
+    <div className="flex w-full flex-col gap-4">
+      <div className="flex items-start justify-between gap-4">
+        <div className="flex min-w-0 flex-col gap-1">
+          <p className="truncate text-lg font-medium">{resource.name}</p>
+          <p className="truncate font-mono text-xs text-gray-500">
+            {resource.uri}
+          </p>
+          {resource.description && (
+            <p className="text-sm whitespace-pre-line text-gray-500">
+              {resource.description}
+            </p>
+          )}
+        </div>
+        <div className="flex shrink-0 items-center gap-4">
+          {resource.mimeType && (
+            <Badge variant="outline">{resource.mimeType}</Badge>
+          )}
+          {resource.subscribable && (
+            <div className="flex items-center gap-2">
+              <Switch
+                id="watch-resource"
+                checked={watching}
+                onCheckedChange={setWatching}
+              />
+              <Label
+                htmlFor="watch-resource"
+                className="text-sm text-gray-600"
+              >
+                Watch for updates
+              </Label>
+            </div>
+          )}
+          <Button
+            variant="outline"
+            size="icon"
+            onClick={loadContents}
+            disabled={loading}
+          >
+            {loading ? (
+              <Loader2 className="size-4 animate-spin" />
+            ) : (
+              <RefreshCw className="size-4" />
+            )}
+          </Button>
+        </div>
+      </div>
+      {lastUpdatedAt && (
+        <p className="text-xs text-gray-500">
+          Updated at {format(lastUpdatedAt, "h:mm:ss a")}
+        </p>
+      )}
+      {contents?.map((c, index) => (
+        <ResourceContentsPreview
+          key={`${c.uri}-${index}`}
+          contents={c}
+        />
+      ))}
+      {contents && contents.length === 0 && (
+        <p className="text-sm text-gray-500">This resource is empty.</p>
+      )}
+    </div>
+  );
+}
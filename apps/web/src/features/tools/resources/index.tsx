@@ -0,0 +1,127 @@
+"use client";
+
+import React, { useEffect, useMemo, useState } from "react";
+import { FileText } from "lucide-react";
+import { Separator } from "@/components/ui/separator";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Search } from "@/components/ui/tool-search";
+import { useMCPContext } from "@/providers/MCP";
+import { cn } from "@/lib/utils";
+import { MCPResource } from "@/types/mcp-resource";
+import { ServerGroups } from "../components/server-groups";
+import { ResourceViewer } from "./components/resource-viewer";
+import _ from "lodash";
+
+/**
+ * Lists the resources exposed by every MCP server, and previews the
+ * selected resource's contents.
+ */
+export function ResourcesInterface(): React.ReactNode {
+  const { getAllResources } = useMCPContext();
+  const [resources, setResources] = useState<MCPResource[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [searchTerm, setSearchTerm] = useState("");
+  const [selectedResource, setSelectedResource] = useState<MCPResource>();
+
+  useEffect(() => {
+    getAllResources()
+      .then(setResources)
+      .finally(() => setLoading(false));
+  }, []);
+
+  const debouncedSetSearchTerm = useMemo(
+    () => _.debounce((value: string) => setSearchTerm(value), 200),
+    [],
+  );
+
+  const filteredResources = resources.filter(
+    (resource) =>
+      !searchTerm ||
+      resource.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
+      resource.uri.toLowerCase().includes(searchTerm.toLowerCase()),
+  );
+
+  return (
+    <div className="flex w-full flex-col gap-4">
+      <div className="flex w-full items-center justify-start gap-6">
+        <div className="flex items-center justify-start gap-2">
+          <FileText className="size-6" />
+          <p className="flex items-center gap-2 text-lg font-semibold tracking-tight">
+            Resources
+            <Badge variant="outline">
+              {loading ? "Loading..." : resources.length}
+            </Badge>
+          </p>
+        </div>
+        <Search
+          onSearchChange={debouncedSetSearchTerm}
+          placeholder="Search resources..."
+          className="w-full"
+        />
+      </div>
+
+      <Separator />
+      <div className="flex w-full gap-6">
+        <div className="flex w-80 shrink-0 flex-col gap-2">
+          {loading &&
+            Array.from({ length: 4 }).map((_, index) => (
+              <Skeleton
+                key={`resource-loading-${index}`}
+                className="h-12 w-full"
+              />
+            ))}
+          <ServerGroups
+            items={filteredResources}
+            className="flex flex-col gap-1"
+            renderItem={(resource) => (
+              <button
+                key={`${resource.serverId}:${resource.uri}`}
+                type="button"
+                onClick={() => setSelectedResource(resource)}
+                className={cn(
+                  "hover:bg-muted flex w-full flex-col items-start rounded-md px-3 py-2 text-left",
+                  selectedResource?.serverId === resource.serverId &&
+                    selectedResource?.uri === resource.uri &&
+                    "bg-muted",
+                )}
+              >
+                <span className="w-full truncate text-sm font-medium">
+                  {resource.name}
+                </span>
+                <span className="w-full truncate font-mono text-xs text-gray-500">
+                  {resource.uri}
+                </span>
+              </button>
+            )}
+          />
+          {filteredResources.length === 0 && searchTerm && (
+            <p className="my-4 w-full text-center text-sm text-slate-500">
+              No resources found matching "{searchTerm}".
+            </p>
+          )}
+          {resources.length === 0 && !loading && (
+            <p className="my-4 w-full text-center text-sm text-slate-500">
+              None of your MCP servers expose any resources.
+            </p>
+          )}
+        </div>
+        <div className="min-w-0 flex-1">
+          {selectedResource ? (
+            <ResourceViewer
+              key={`${selectedResource.serverId}:${selectedResource.uri}`}
+              resource={selectedResource}
+            />
+          ) : (
+            !loading &&
+            resources.length > 0 && (
+              <p className="my-4 w-full text-center text-sm text-slate-500">
+                Select a resource to preview its contents.
+              </p>
+            )
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,11 +1,14 @@
 import { createClient } from "@/lib/client";
 import { Agent } from "@/types/agent";
-import { Assistant } from "@langchain/langgraph-sdk";
+import { Assistant, AssistantVersion } from "@langchain/langgraph-sdk";
 import { toast } from "sonner";
 import { useAuthContext } from "@/providers/Auth";
 import { useCallback } from "react";
 import { isSystemCreatedDefaultAssistant } from "@/lib/agent-utils";
 
+// The number of agent versions to fetch per request
+const VERSIONS_PAGE_SIZE = 100;
+
 export function useAgents() {
   const { session } = useAuthContext();
 
@@ -168,11 +171,70 @@ export function useAgents() {
     [session?.accessToken],
   );
 
+  const getAgentVersions = useCallback(
+    async (
+      agentId: string,
+      deploymentId: string,
+    ): Promise<AssistantVersion[] | undefined> => {
+      if (!session?.accessToken) {
+        toast.error("No access token found", {
+          richColors: true,
+        });
+        return;
+      }
+      try {
+        const client = createClient(deploymentId, session.accessToken);
+        const versions: AssistantVersion[] = [];
+        let page: AssistantVersion[];
+        do {
+          page = await client.assistants.getVersions(agentId, {
+            limit: VERSIONS_PAGE_SIZE,
+            offset: versions.length,
+          });
+          versions.push(...page);
+        } while (page.length === VERSIONS_PAGE_SIZE);
+        return versions;
+      } catch (e) {
+        console.error("Failed to get agent versions", e);
+        toast.error("Failed to get agent versions");
+        return undefined;
+      }
+    },
+    [session?.accessToken],
+  );
+
+  const setLatestAgentVersion = useCallback(
+    async (
+      agentId: string,
+      deploymentId: string,
+      version: number,
+    ): Promise<Agent | undefined> => {
+      if (!session?.accessToken) {
+        toast.error("No access token found", {
+          richColors: true,
+        });
+        return;
+      }
+      try {
+        const client = createClient(deploymentId, session.accessToken);
+        const agent = await client.assistants.setLatest(agentId, version);
+        return { ...agent, deploymentId };
+      } catch (e) {
+        console.error("Failed to roll back agent", e);
+        toast.error("Failed to roll back agent");
+        return undefined;
+      }
+    },
+    [session?.accessToken],
+  );
+
   return {
     getAgent,
     getAgentConfigSchema,
     createAgent,
     updateAgent,
     deleteAgent,
+    getAgentVersions,
+    setLatestAgentVersion,
   };
 }
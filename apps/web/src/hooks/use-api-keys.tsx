@@ -1,40 +1,208 @@
-import { useLocalStorage } from "@/hooks/use-local-storage";
+import { useEffect, useMemo } from "react";
+import { create } from "zustand";
+import { toast } from "sonner";
+import { ApiKeySummary } from "@/types/api-key";
 
+// Where API keys were kept in localStorage, before they were stored on the server
+const LEGACY_STORAGE_KEYS: Record<string, string> = {
+  OPENAI_API_KEY: "lg:settings:openaiApiKey",
+  ANTHROPIC_API_KEY: "lg:settings:anthropicApiKey",
+  GOOGLE_API_KEY: "lg:settings:googleApiKey",
+  TAVILY_API_KEY: "lg:settings:tavilyApiKey",
+};
+
+function getApiKeysUrl(path = "") {
+  const baseApiUrl = process.env.NEXT_PUBLIC_BASE_API_URL;
+  if (!baseApiUrl) {
+    throw new Error(
+      "Failed to load API keys: Base API URL not configured. Please set NEXT_PUBLIC_BASE_API_URL",
+    );
+  }
+  return `${baseApiUrl}/api-keys${path}`;
+}
+
+/**
+ * Thrown when a request to the API keys routes fails. Network errors have no
+ * status.
+ */
+interface ApiKeysRequestError extends Error {
+  status?: number;
+}
+
+async function requestApiKeys(
+  url: string,
+  init?: RequestInit,
+): Promise<ApiKeySummary[]> {
+  return (await requestJson<{ keys: ApiKeySummary[] }>(url, init)).keys;
+}
+
+async function requestJson<T>(url: string, init?: RequestInit): Promise<T> {
+  const response = await fetch(url, {
+    ...init,
+    headers: { "Content-Type": "application/json" },
+  });
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}));
+    throw Object.assign(
+      new Error(
+        errorData.error ||
+          `Request failed: ${response.status} ${response.statusText}`,
+      ),
+      { status: response.status },
+    );
+  }
+  return response.json();
+}
+
+/**
+ * Moves any API keys left in localStorage to the server, then removes them
+ * from localStorage. Keys the server rejects, e.g. because they don't match
+ * the provider's key format, are removed too, and reported once.
+ */
+async function migrateLegacyApiKeys(): Promise<ApiKeySummary[] | undefined> {
+  let keys: ApiKeySummary[] | undefined;
+  const rejectedNames: string[] = [];
+  for (const [name, storageKey] of Object.entries(LEGACY_STORAGE_KEYS)) {
+    let value: string | undefined;
+    try {
+      value = JSON.parse(window.localStorage.getItem(storageKey) ?? '""');
+    } catch {
+      // Not a value written by `useLocalStorage`
+    }
+    if (value?.trim()) {
+      try {
+        keys = await requestApiKeys(getApiKeysUrl(`/${name}`), {
+          method: "PUT",
+          body: JSON.stringify({ value }),
+        });
+      } catch (e) {
+        const status = (e as ApiKeysRequestError).status;
+        // Keep the key to try again on the next load if the server failed
+        if (!status || status >= 500) {
+          console.error(`Failed to migrate API key ${name}`, e);
+          continue;
+        }
+        rejectedNames.push(name);
+      }
+    }
+    window.localStorage.removeItem(storageKey);
+  }
+
+  if (rejectedNames.length) {
+    toast.warning("Some saved API keys were not kept", {
+      richColors: true,
+      description: `${rejectedNames.join(", ")} ${rejectedNames.length === 1 ? "isn't" : "aren't"} valid. Please enter ${rejectedNames.length === 1 ? "it" : "them"} again in Settings.`,
+    });
+  }
+  return keys;
+}
+
+interface ApiKeysState {
+  keys: ApiKeySummary[];
+  /**
+   * Whether the server can store API keys. False until the keys are loaded.
+   */
+  enabled: boolean;
+  loading: boolean;
+  loaded: boolean;
+  loadApiKeys: () => Promise<void>;
+  setApiKey: (
+    name: string,
+    value: string,
+    fields?: Record<string, string>,
+  ) => Promise<void>;
+  deleteApiKey: (name: string) => Promise<void>;
+  /**
+   * Checks an API key works. Tests the stored key if `key` is not given.
+   */
+  testApiKey: (
+    name: string,
+    key?: { value: string; fields?: Record<string, string> },
+  ) => Promise<{ valid: boolean; error?: string }>;
+}
+
+const useApiKeysStore = create<ApiKeysState>()((set, get) => ({
+  keys: [],
+  enabled: false,
+  loading: false,
+  loaded: false,
+
+  loadApiKeys: async () => {
+    if (get().loading) return;
+    set({ loading: true });
+    try {
+      const { keys, enabled } = await requestJson<{
+        keys: ApiKeySummary[];
+        enabled: boolean;
+      }>(getApiKeysUrl());
+      set({ keys, enabled, loaded: true });
+      // Keep legacy keys in localStorage until the server can store them
+      if (!enabled) return;
+      const migratedKeys = await migrateLegacyApiKeys();
+      if (migratedKeys) {
+        set({ keys: migratedKeys });
+      }
+    } catch (e) {
+      console.error("Failed to load API keys", e);
+      toast.error("Failed to load API keys", { richColors: true });
+    } finally {
+      set({ loading: false });
+    }
+  },
+
+  setApiKey: async (name, value, fields) => {
+    const keys = await requestApiKeys(getApiKeysUrl(`/${name}`), {
+      method: "PUT",
+      body: JSON.stringify({ value, fields }),
+    });
+    set({ keys });
+  },
+
+  deleteApiKey: async (name) => {
+    const keys = await requestApiKeys(getApiKeysUrl(`/${name}`), {
+      method: "DELETE",
+    });
+    set({ keys });
+  },
+
+  testApiKey: async (name, key) => {
+    const response = await fetch(getApiKeysUrl(`/${name}/test`), {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(key ?? {}),
+    });
+    const data = await response.json().catch(() => ({}));
+    if (!response.ok) {
+      throw new Error(
+        data.error ||
+          `Request failed: ${response.status} ${response.statusText}`,
+      );
+    }
+    return data;
+  },
+}));
+
+/**
+ * The API keys the user has stored on the server. Key values are masked, as
+ * they are only ever read by the LangGraph proxy route, which adds them to runs.
+ */
 export function useApiKeys() {
-  const [openaiApiKey] = useLocalStorage<string>(
-    "lg:settings:openaiApiKey",
-    "",
-  );
-  const [anthropicApiKey] = useLocalStorage<string>(
-    "lg:settings:anthropicApiKey",
-    "",
-  );
-  const [googleApiKey] = useLocalStorage<string>(
-    "lg:settings:googleApiKey",
-    "",
-  );
-  const [tavilyApiKey] = useLocalStorage<string>(
-    "lg:settings:tavilyApiKey",
-    "",
-  );
-
-  return {
-    apiKeys: {
-      OPENAI_API_KEY: openaiApiKey,
-      ANTHROPIC_API_KEY: anthropicApiKey,
-      GOOGLE_API_KEY: googleApiKey,
-      TAVILY_API_KEY: tavilyApiKey,
-    },
-  };
+  const state = useApiKeysStore();
+
+  useEffect(() => {
+    if (!state.loaded) {
+      state.loadApiKeys();
+    }
+  }, [state.loaded]);
+
+  return state;
 }
 
 /**
- * Utility function to check if any API keys are set.
- * Uses the useApiKeys hook to check if any of the API key values are non-empty strings.
- * @returns boolean - true if at least one API key is set, false otherwise
+ * Returns the names of the API keys the user has set.
  */
-export function useHasApiKeys(): boolean {
-  const { apiKeys } = useApiKeys();
+export function useApiKeyNames(): string[] {
+  const { keys } = useApiKeys();
 
-  return Object.values(apiKeys).some((key) => key && key.trim() !== "");
+  return useMemo(() => keys.map((key) => key.name), [keys]);
 }
@@ -7,12 +7,13 @@ import {
 } from "react";
 import { Tool } from "@/types/tool";
 import { ConfigurableFieldMCPMetadata } from "@/types/configurable";
+import { getSelectedToolKeys, getToolKey } from "@/lib/mcp-tools";
 
 interface UseFetchPreselectedToolsProps {
   tools: Tool[];
   setTools: Dispatch<SetStateAction<Tool[]>>;
-  getTools: (cursor?: string) => Promise<Tool[]>;
-  cursor: string;
+  getMoreTools: () => Promise<Tool[]>;
+  hasMoreTools: boolean;
   toolConfigurations: ConfigurableFieldMCPMetadata[];
   searchTerm?: string;
 }
@@ -24,8 +25,8 @@ interface UseFetchPreselectedToolsProps {
 export function useFetchPreselectedTools({
   tools,
   setTools,
-  getTools,
-  cursor,
+  getMoreTools,
+  hasMoreTools,
   toolConfigurations,
   searchTerm,
 }: UseFetchPreselectedToolsProps) {
@@ -43,13 +44,13 @@ export function useFetchPreselectedTools({
       return true; // No pre-selected tools or search is active, no need to fetch more
     }
 
-    const preSelectedToolNames = toolConfigurations[0].default.tools;
-    const currentToolNames = tools.map((tool) => tool.name);
+    const preSelectedToolKeys = getSelectedToolKeys(
+      toolConfigurations[0].default,
+    );
+    const currentToolKeys = new Set(tools.map(getToolKey));
 
     // Check if all pre-selected tools exist in the current tools list
-    return preSelectedToolNames.every((toolName) =>
-      currentToolNames.some((currentToolName) => currentToolName === toolName),
-    );
+    return preSelectedToolKeys.every((toolKey) => currentToolKeys.has(toolKey));
   }, [tools, toolConfigurations, searchTerm]);
 
   // Effect to fetch all pre-selected tools when component mounts or tools/cursor changes
@@ -71,17 +72,17 @@ export function useFetchPreselectedTools({
         return; // All pre-selected tools exist, no need to fetch more
       }
 
-      if (!cursor && tools.length > 0) {
+      if (!hasMoreTools && tools.length > 0) {
         setFetchedAllPreSelectedTools(true);
         return; // No more tools to fetch
-      } else if (!cursor && tools.length === 0) {
+      } else if (!hasMoreTools && tools.length === 0) {
         return; // No more tools to fetch
       }
 
       // Fetch more tools
       setLoadingMore(true);
       try {
-        const moreTool = await getTools(cursor);
+        const moreTool = await getMoreTools();
         setTools((prevTools) => [...prevTools, ...moreTool]);
       } catch (error) {
         console.error("Failed to load more tools:", error);
@@ -94,12 +95,12 @@ export function useFetchPreselectedTools({
     fetchPreSelectedTools();
   }, [
     tools,
-    cursor,
+    hasMoreTools,
     toolConfigurations,
     searchTerm,
     checkPreSelectedTools,
     fetchedAllPreSelectedTools,
-    getTools,
+    getMoreTools,
     setTools,
   ]);
 
@@ -1,8 +1,20 @@
 import { StreamableHTTPClientTransport } from "@modelcontextprotocol/sdk/client/streamableHttp.js";
 import { Client } from "@modelcontextprotocol/sdk/client/index.js";
-import { SUPPORTED_PROTOCOL_VERSIONS } from "@modelcontextprotocol/sdk/types.js";
+import {
+  GetPromptResult,
+  LoggingMessageNotification,
+  LoggingMessageNotificationSchema,
+  Progress,
+  ResourceUpdatedNotificationSchema,
+  SUPPORTED_PROTOCOL_VERSIONS,
+} from "@modelcontextprotocol/sdk/types.js";
 import { Tool } from "@/types/tool";
-import { useState } from "react";
+import { MCPResource, MCPResourceContents } from "@/types/mcp-resource";
+import { MCPPrompt } from "@/types/mcp-prompt";
+import { MCPServer } from "@/types/mcp-server";
+import { getMCPServers } from "@/lib/environment/mcp-servers";
+import { useRef, useState } from "react";
+import { toast } from "sonner";
 
 // Ensure we accept the server's advertised protocol version.
 const SERVER_PROTOCOL_VERSION = "2025-06-18";
@@ -10,30 +22,53 @@ if (!SUPPORTED_PROTOCOL_VERSIONS.includes(SERVER_PROTOCOL_VERSION)) {
   SUPPORTED_PROTOCOL_VERSIONS.unshift(SERVER_PROTOCOL_VERSION);
 }
 
-function getMCPUrlOrThrow() {
-  const authRequired = process.env.NEXT_PUBLIC_MCP_AUTH_REQUIRED === "true";
-  
-  // If auth is not required, use the direct MCP server URL
-  if (!authRequired && process.env.NEXT_PUBLIC_MCP_SERVER_URL) {
-    const baseUrl = process.env.NEXT_PUBLIC_MCP_SERVER_URL.endsWith("/")
-      ? process.env.NEXT_PUBLIC_MCP_SERVER_URL.slice(0, -1)
-      : process.env.NEXT_PUBLIC_MCP_SERVER_URL;
+/**
+ * A log message sent by an MCP server.
+ */
+export type MCPLogMessage = LoggingMessageNotification["params"];
+
+/**
+ * The state of the session with an MCP server. Servers without an entry
+ * have not been connected to yet.
+ */
+export type MCPConnectionStatus =
+  "connecting" | "connected" | "reconnecting" | "disconnected" | "error";
+
+/**
+ * Whether a request failed because its session is gone, before the server
+ * handled it: either the connection was already closed, or the server no
+ * longer knows the session (servers respond 404 to expired sessions).
+ */
+function isSessionLostError(e: unknown) {
+  return (
+    e instanceof Error &&
+    (e.message === "Not connected" || e.message.includes("(HTTP 404)"))
+  );
+}
+
+function getMCPUrlOrThrow(server: MCPServer) {
+  // If the server does not require auth, connect to it directly
+  if (server.authMode === "none") {
+    const baseUrl = server.url.endsWith("/")
+      ? server.url.slice(0, -1)
+      : server.url;
     return new URL(`${baseUrl}/mcp`);
   }
 
-  // Otherwise use the proxy route
+  // Otherwise use the proxy route, which handles authentication
   if (!process.env.NEXT_PUBLIC_BASE_API_URL) {
     throw new Error("NEXT_PUBLIC_BASE_API_URL is not defined");
   }
 
   const url = new URL(process.env.NEXT_PUBLIC_BASE_API_URL);
-  url.pathname = `${url.pathname}${url.pathname.endsWith("/") ? "" : "/"}oap_mcp`;
+  url.pathname = `${url.pathname}${url.pathname.endsWith("/") ? "" : "/"}oap_mcp/${server.id}`;
   return url;
 }
 
 /**
  * Custom hook for interacting with the Model Context Protocol (MCP).
- * Provides functions to connect to an MCP server and list available tools.
+ * Keeps one session open per registered MCP server, and provides functions to
+ * list and call the tools, resources and prompts they expose.
  */
 export default function useMCP({
   name,
@@ -42,79 +77,496 @@ export default function useMCP({
   name: string;
   version: string;
 }) {
+  const [servers] = useState<MCPServer[]>(() => getMCPServers());
   const [tools, setTools] = useState<Tool[]>([]);
-  const [cursor, setCursor] = useState("");
+  // The cursor for the next page of tools, keyed by server ID
+  const [cursors, setCursors] = useState<Record<string, string>>({});
+
+  // One shared session per MCP server, keyed by server ID. A promise is stored
+  // so concurrent calls made while connecting share the same connection.
+  const clientsRef = useRef(new Map<string, Promise<Client>>());
+  // Listeners for resource update notifications, keyed by server ID, then URI
+  const resourceListenersRef = useRef(
+    new Map<string, Map<string, Set<() => void>>>(),
+  );
+  // Listeners for log messages, keyed by server ID
+  const logListenersRef = useRef(
+    new Map<string, Set<(message: MCPLogMessage) => void>>(),
+  );
+  const [connectionStatus, setConnectionStatus] = useState<
+    Record<string, MCPConnectionStatus>
+  >({});
+
+  const updateConnectionStatus = (
+    serverId: string,
+    status: MCPConnectionStatus,
+  ) => setConnectionStatus((prev) => ({ ...prev, [serverId]: status }));
 
   /**
-   * Creates an MCP client and connects it to the specified server URL.
-   * @param url - The URL of the MCP server.
-   * @param options - Client identification options.
-   * @param options.name - The name of the client.
-   * @param options.version - The version of the client.
+   * Creates an MCP client and connects it to the specified server.
+   * @param server - The MCP server.
    * @returns A promise that resolves to the connected MCP client instance.
    */
-  const createAndConnectMCPClient = async () => {
-    const url = getMCPUrlOrThrow();
+  const createAndConnectMCPClient = async (server: MCPServer) => {
+    const url = getMCPUrlOrThrow(server);
     const connectionClient = new StreamableHTTPClientTransport(new URL(url));
     const mcp = new Client({
       name,
       version,
     });
+    mcp.setNotificationHandler(
+      ResourceUpdatedNotificationSchema,
+      (notification) => {
+        resourceListenersRef.current
+          .get(server.id)
+          ?.get(notification.params.uri)
+          ?.forEach((listener) => listener());
+      },
+    );
+
+    mcp.setNotificationHandler(
+      LoggingMessageNotificationSchema,
+      (notification) => {
+        logListenersRef.current
+          .get(server.id)
+          ?.forEach((listener) => listener(notification.params));
+      },
+    );
 
     await mcp.connect(connectionClient);
+
+    if (mcp.getServerCapabilities()?.logging) {
+      await mcp
+        .setLoggingLevel("info")
+        .catch((e) => console.error("Failed to set MCP logging level", e));
+    }
+
+    // Restore any resource subscriptions from a previous session
+    const subscribedUris = Array.from(
+      resourceListenersRef.current.get(server.id)?.keys() ?? [],
+    );
+    await Promise.all(
+      subscribedUris.map((uri) =>
+        mcp
+          .subscribeResource({ uri })
+          .catch((e) =>
+            console.error(`Failed to resubscribe to resource "${uri}"`, e),
+          ),
+      ),
+    );
     return mcp;
   };
 
   /**
-   * Connects to an MCP server and retrieves the list of available tools.
-   * @param url - The URL of the MCP server.
-   * @param options - Client identification options.
-   * @param options.name - The name of the client.
-   * @param options.version - The version of the client.
-   * @returns A promise that resolves to an array of available tools.
+   * Returns the session for an MCP server, connecting to it if there is no
+   * open session.
+   * @param serverId - The ID of the MCP server.
+   * @returns A promise that resolves to the connected MCP client instance.
+   */
+  const getClient = (
+    serverId: string,
+    status: "connecting" | "reconnecting" = "connecting",
+  ): Promise<Client> => {
+    const existing = clientsRef.current.get(serverId);
+    if (existing) {
+      return existing;
+    }
+
+    const server = servers.find((s) => s.id === serverId);
+    if (!server) {
+      return Promise.reject(new Error(`MCP server "${serverId}" not found`));
+    }
+
+    updateConnectionStatus(serverId, status);
+    const clientPromise: Promise<Client> = createAndConnectMCPClient(
+      server,
+    ).then(
+      (mcp) => {
+        mcp.onclose = () => {
+          // Ignore sessions which have already been replaced
+          if (clientsRef.current.get(serverId) !== clientPromise) return;
+          clientsRef.current.delete(serverId);
+          updateConnectionStatus(serverId, "disconnected");
+        };
+        updateConnectionStatus(serverId, "connected");
+        return mcp;
+      },
+      (e) => {
+        if (clientsRef.current.get(serverId) === clientPromise) {
+          clientsRef.current.delete(serverId);
+        }
+        updateConnectionStatus(serverId, "error");
+        throw e;
+      },
+    );
+    clientsRef.current.set(serverId, clientPromise);
+    return clientPromise;
+  };
+
+  /**
+   * Closes the session for an MCP server, if one is open.
+   * @param serverId - The ID of the MCP server.
+   */
+  const closeSession = async (serverId: string) => {
+    const clientPromise = clientsRef.current.get(serverId);
+    if (!clientPromise) return;
+    clientsRef.current.delete(serverId);
+    updateConnectionStatus(serverId, "disconnected");
+    try {
+      const mcp = await clientPromise;
+      const transport = mcp.transport as
+        StreamableHTTPClientTransport | undefined;
+      // Let the server clean up the session, then close the connection
+      await transport?.terminateSession().catch(() => undefined);
+      await mcp.close();
+    } catch {
+      // The session failed to connect, so there is nothing to close
+    }
+  };
+
+  /**
+   * Closes the sessions for every MCP server. Called when the user signs out.
+   */
+  const closeAllSessions = async () => {
+    resourceListenersRef.current.clear();
+    await Promise.all(
+      Array.from(clientsRef.current.keys()).map((serverId) =>
+        closeSession(serverId),
+      ),
+    );
+  };
+
+  /**
+   * Runs a request using the session for an MCP server. If the request was
+   * not handled because the session is no longer usable, the session is
+   * replaced, and the request is retried once unless `retry` is false.
+   *
+   * Other failures (e.g. the network dropping) are not retried, as the server
+   * may have already handled the request.
    */
-  const getTools = async (nextCursor?: string): Promise<Tool[]> => {
-    const mcp = await createAndConnectMCPClient();
-    const tools = await mcp.listTools({ cursor: nextCursor });
-    if (tools.nextCursor) {
-      setCursor(tools.nextCursor);
-    } else {
-      setCursor("");
+  const withClient = async <T,>(
+    serverId: string,
+    request: (mcp: Client) => Promise<T>,
+    { retry = true }: { retry?: boolean } = {},
+  ): Promise<T> => {
+    const mcp = await getClient(serverId);
+    try {
+      return await request(mcp);
+    } catch (e) {
+      if (!isSessionLostError(e)) {
+        throw e;
+      }
+      console.warn(`MCP session for "${serverId}" was lost, reconnecting`, e);
+      await closeSession(serverId);
+      if (!retry) {
+        throw e;
+      }
+      return request(await getClient(serverId, "reconnecting"));
     }
-    return tools.tools;
   };
 
   /**
-   * Calls a tool on the MCP server.
+   * Connects to an MCP server and retrieves a page of its available tools.
+   * @param serverId - The ID of the MCP server.
+   * @param nextCursor - The cursor of the page to fetch. Optional.
+   * @returns A promise that resolves to an array of available tools.
+   */
+  const getTools = async (
+    serverId: string,
+    nextCursor?: string,
+  ): Promise<Tool[]> => {
+    const tools = await withClient(serverId, (mcp) =>
+      mcp.listTools({ cursor: nextCursor }),
+    );
+    setCursors((prev) => ({ ...prev, [serverId]: tools.nextCursor ?? "" }));
+    return tools.tools.map((tool) => ({ ...tool, serverId }) as Tool);
+  };
+
+  /**
+   * Retrieves a list of items (e.g. tools or prompts) from every MCP
+   * server. Servers which fail to respond are skipped.
+   */
+  const getFromAllServers = async <T,>(
+    getItems: (serverId: string) => Promise<T[]>,
+    itemsName: string,
+  ): Promise<T[]> => {
+    const results = await Promise.allSettled(
+      servers.map((server) => getItems(server.id)),
+    );
+    return results.flatMap((result, index) => {
+      if (result.status === "fulfilled") {
+        return result.value;
+      }
+      console.error(
+        `Failed to load ${itemsName} from MCP server "${servers[index].name}":`,
+        result.reason,
+      );
+      toast.error(`Failed to load ${itemsName} from ${servers[index].name}`, {
+        richColors: true,
+      });
+      return [];
+    });
+  };
+
+  /**
+   * Retrieves the first page of tools from every MCP server. Servers which
+   * fail to respond are skipped.
+   * @returns A promise that resolves to an array of available tools.
+   */
+  const getAllTools = (): Promise<Tool[]> =>
+    getFromAllServers((serverId) => getTools(serverId), "tools");
+
+  /**
+   * Retrieves the next page of tools from every MCP server which has more tools.
+   * @returns A promise that resolves to an array of the newly fetched tools.
+   */
+  const getMoreTools = async (): Promise<Tool[]> => {
+    const pages = await Promise.all(
+      Object.entries(cursors)
+        .filter(([, cursor]) => !!cursor)
+        .map(([serverId, cursor]) => getTools(serverId, cursor)),
+    );
+    return pages.flat();
+  };
+
+  /**
+   * Calls a tool on an MCP server.
    * @param name - The name of the tool.
    * @param version - The version of the tool. Optional.
    * @param args - The arguments to pass to the tool.
+   * @param serverId - The ID of the MCP server the tool belongs to.
+   * @param onProgress - Called with progress notifications sent by the server. Optional.
+   * @param onLog - Called with log messages sent by the server while the tool runs. Optional.
+   * @param signal - Aborts the call, and notifies the server it was cancelled. Optional.
+   * @param timeoutMs - The maximum time to wait for a response. Defaults to 60 seconds.
    * @returns A promise that resolves to the response from the tool.
    */
   const callTool = async ({
     name,
     args,
     version,
+    serverId,
+    onProgress,
+    onLog,
+    signal,
+    timeoutMs,
   }: {
     name: string;
     args: Record<string, any>;
     version?: string;
+    serverId: string;
+    onProgress?: (progress: Progress) => void;
+    onLog?: (message: MCPLogMessage) => void;
+    signal?: AbortSignal;
+    timeoutMs?: number;
   }) => {
-    const mcp = await createAndConnectMCPClient();
-    const response = await mcp.callTool({
-      name,
-      version,
-      arguments: args,
+    const logListeners = logListenersRef.current.get(serverId) ?? new Set();
+    logListenersRef.current.set(serverId, logListeners);
+    if (onLog) logListeners.add(onLog);
+
+    try {
+      // Tool calls may have side effects, so they are never retried
+      const response = await withClient(
+        serverId,
+        (mcp) =>
+          mcp.callTool(
+            {
+              name,
+              version,
+              arguments: args,
+            },
+            undefined,
+            { onprogress: onProgress, signal, timeout: timeoutMs },
+          ),
+        { retry: false },
+      );
+      return response;
+    } finally {
+      if (onLog) logListeners.delete(onLog);
+    }
+  };
+
+  /**
+   * Lists every resource exposed by an MCP server. Returns an empty array if
+   * the server does not support resources.
+   * @param serverId - The ID of the MCP server.
+   * @returns A promise that resolves to an array of the server's resources.
+   */
+  const getResources = (serverId: string): Promise<MCPResource[]> =>
+    withClient(serverId, async (mcp) => {
+      const capabilities = mcp.getServerCapabilities();
+      if (!capabilities?.resources) {
+        return [];
+      }
+
+      const resources: MCPResource[] = [];
+      let nextCursor: string | undefined;
+      do {
+        const page = await mcp.listResources({ cursor: nextCursor });
+        resources.push(
+          ...page.resources.map((resource) => ({
+            uri: resource.uri,
+            name: resource.name,
+            description: resource.description,
+            mimeType: resource.mimeType,
+            serverId,
+            subscribable: !!capabilities.resources?.subscribe,
+          })),
+        );
+        nextCursor = page.nextCursor;
+      } while (nextCursor);
+      return resources;
+    });
+
+  /**
+   * Reads the contents of a resource.
+   * @param serverId - The ID of the MCP server the resource belongs to.
+   * @param uri - The URI of the resource.
+   * @returns A promise that resolves to the resource's contents.
+   */
+  const readResource = async (
+    serverId: string,
+    uri: string,
+  ): Promise<MCPResourceContents[]> => {
+    const result = await withClient(serverId, (mcp) =>
+      mcp.readResource({ uri }),
+    );
+    return result.contents as MCPResourceContents[];
+  };
+
+  /**
+   * Subscribes to updates of a resource. The subscription is restored if the
+   * session is replaced, and lasts until the returned function is called.
+   * @param serverId - The ID of the MCP server the resource belongs to.
+   * @param uri - The URI of the resource.
+   * @param onUpdated - Called whenever the server reports the resource has changed.
+   * @returns A promise that resolves to a function which ends the subscription.
+   */
+  const subscribeToResource = async (
+    serverId: string,
+    uri: string,
+    onUpdated: () => void,
+  ): Promise<() => Promise<void>> => {
+    const mcp = await getClient(serverId);
+    if (!mcp.getServerCapabilities()?.resources?.subscribe) {
+      throw new Error(
+        "This MCP server does not support resource subscriptions",
+      );
+    }
+
+    const serverListeners =
+      resourceListenersRef.current.get(serverId) ??
+      new Map<string, Set<() => void>>();
+    resourceListenersRef.current.set(serverId, serverListeners);
+    const listeners = serverListeners.get(uri) ?? new Set<() => void>();
+    serverListeners.set(uri, listeners);
+    const isFirstListener = listeners.size === 0;
+    listeners.add(onUpdated);
+
+    const removeListener = () => {
+      listeners.delete(onUpdated);
+      if (listeners.size > 0) return false;
+      serverListeners.delete(uri);
+      return true;
+    };
+
+    if (isFirstListener) {
+      try {
+        await withClient(serverId, (mcp) => mcp.subscribeResource({ uri }));
+      } catch (e) {
+        removeListener();
+        throw e;
+      }
+    }
+
+    return async () => {
+      if (!removeListener()) return;
+      const clientPromise = clientsRef.current.get(serverId);
+      if (!clientPromise) return;
+      await (await clientPromise).unsubscribeResource({ uri });
+    };
+  };
+
+  /**
+   * Lists every prompt exposed by an MCP server. Returns an empty array if
+   * the server does not support prompts.
+   * @param serverId - The ID of the MCP server.
+   * @returns A promise that resolves to an array of the server's prompts.
+   */
+  const getPrompts = (serverId: string): Promise<MCPPrompt[]> =>
+    withClient(serverId, async (mcp) => {
+      if (!mcp.getServerCapabilities()?.prompts) {
+        return [];
+      }
+
+      const prompts: MCPPrompt[] = [];
+      let nextCursor: string | undefined;
+      do {
+        const page = await mcp.listPrompts({ cursor: nextCursor });
+        prompts.push(
+          ...page.prompts.map((prompt) => ({
+            name: prompt.name,
+            description: prompt.description,
+            arguments: prompt.arguments,
+            serverId,
+          })),
+        );
+        nextCursor = page.nextCursor;
+      } while (nextCursor);
+      return prompts;
     });
-    return response;
+
+  /**
+   * Renders a prompt template with the given arguments.
+   * @param serverId - The ID of the MCP server the prompt belongs to.
+   * @param name - The name of the prompt.
+   * @param args - The values of the prompt's arguments.
+   * @returns A promise that resolves to the rendered prompt messages.
+   */
+  const getPrompt = async ({
+    serverId,
+    name,
+    args,
+  }: {
+    serverId: string;
+    name: string;
+    args: Record<string, string>;
+  }): Promise<GetPromptResult> => {
+    return withClient(serverId, (mcp) =>
+      mcp.getPrompt({ name, arguments: args }),
+    );
+  };
+
+  /**
+   * Replaces the session for an MCP server, and reloads its tools.
+   * @param serverId - The ID of the MCP server.
+   */
+  const reconnect = async (serverId: string) => {
+    await closeSession(serverId);
+    const serverTools = await getTools(serverId);
+    setTools((prev) => [
+      ...prev.filter((t) => t.serverId !== serverId),
+      ...serverTools,
+    ]);
   };
 
   return {
+    servers,
+    connectionStatus,
+    reconnect,
+    closeAllSessions,
     getTools,
+    getAllTools,
+    getMoreTools,
     callTool,
-    createAndConnectMCPClient,
+    getAllResources: () => getFromAllServers(getResources, "resources"),
+    readResource,
+    subscribeToResource,
+    getAllPrompts: () => getFromAllServers(getPrompts, "prompts"),
+    getPrompt,
     tools,
     setTools,
-    cursor,
+    cursors,
+    hasMoreTools: Object.values(cursors).some((cursor) => !!cursor),
   };
 }
@@ -0,0 +1,93 @@
+import { useEffect, useRef } from "react";
+
+interface UsePollingOptions {
+  /**
+   * The interval between polls while the tab is visible, in milliseconds.
+   */
+  interval: number;
+  /**
+   * The maximum interval between polls while the tab is hidden. While hidden,
+   * the interval doubles after every poll until it reaches this value.
+   * @default interval * 8
+   */
+  maxHiddenInterval?: number;
+  /**
+   * Whether or not polling is enabled.
+   * @default true
+   */
+  enabled?: boolean;
+}
+
+/**
+ * Custom hook which calls `callback` on an interval, backing off while the tab
+ * is hidden. Polling resumes immediately when the tab becomes visible again.
+ * A poll is never started while the previous one is still in progress.
+ *
+ * @param callback The function to call on every poll
+ * @param options The polling options
+ */
+export function usePolling(
+  callback: () => Promise<void> | void,
+  {
+    interval,
+    maxHiddenInterval = interval * 8,
+    enabled = true,
+  }: UsePollingOptions,
+) {
+  // Keep the latest callback in a ref so the poll loop is not restarted on every render
+  const callbackRef = useRef(callback);
+  callbackRef.current = callback;
+
+  useEffect(() => {
+    if (!enabled || typeof window === "undefined") return;
+
+    let timeout: NodeJS.Timeout | null = null;
+    let cancelled = false;
+    let polling = false;
+    let hiddenInterval = interval;
+
+    const schedule = () => {
+      if (cancelled) return;
+      if (timeout) clearTimeout(timeout);
+
+      let delay = interval;
+      if (document.hidden) {
+        delay = hiddenInterval;
+        hiddenInterval = Math.min(hiddenInterval * 2, maxHiddenInterval);
+      } else {
+        hiddenInterval = interval;
+      }
+      timeout = setTimeout(poll, delay);
+    };
+
+    const poll = async () => {
+      if (cancelled || polling) return;
+      polling = true;
+      try {
+        await callbackRef.current();
+      } catch (e) {
+        console.error("Polling callback failed", e);
+      } finally {
+        polling = false;
+        schedule();
+      }
+    };
+
+    const handleVisibilityChange = () => {
+      if (document.hidden) return;
+      // Poll right away when the user comes back to the tab
+      hiddenInterval = interval;
+      if (timeout) clearTimeout(timeout);
+      poll();
+    };
+
+    schedule();
+    document.addEventListener("visibilitychange", handleVisibilityChange);
+
+    return () => {
+      cancelled = true;
+      if (timeout) clearTimeout(timeout);
+      document.removeEventListener("visibilitychange", handleVisibilityChange);
+    };
+  }, [interval, maxHiddenInterval, enabled]);
+}
@@ -1,10 +1,14 @@
 import { Tool } from "@/types/tool";
 import _, { debounce } from "lodash";
 import { useState, useMemo } from "react";
+import { getToolKey } from "@/lib/mcp-tools";
 
 export function useSearchTools(
   tools: Tool[],
   args?: {
+    /**
+     * The keys (see `getToolKey`) of tools which should be listed first.
+     */
     preSelectedTools?: string[];
   },
 ) {
@@ -35,26 +39,25 @@ export function useSearchTools(
       return filteredTools;
     }
 
-    const preSelectedToolNames = new Set(args.preSelectedTools || []);
+    const preSelectedToolKeys = new Set(args.preSelectedTools || []);
     const processedTools = new Set<string>();
     const result: Tool[] = [];
 
     // First add all pre-selected tools that match the search term (if any)
     filteredTools.forEach((tool) => {
-      if (
-        preSelectedToolNames.has(tool.name) &&
-        !processedTools.has(tool.name)
-      ) {
+      const toolKey = getToolKey(tool);
+      if (preSelectedToolKeys.has(toolKey) && !processedTools.has(toolKey)) {
         result.push(tool);
-        processedTools.add(tool.name);
+        processedTools.add(toolKey);
       }
     });
 
     // Then add all other tools that match the search term
     filteredTools.forEach((tool) => {
-      if (!processedTools.has(tool.name)) {
+      const toolKey = getToolKey(tool);
+      if (!processedTools.has(toolKey)) {
         result.push(tool);
-        processedTools.add(tool.name);
+        processedTools.add(toolKey);
       }
     });
 
@@ -0,0 +1,293 @@
+import { z } from "zod";
+import _ from "lodash";
+import { Assistant, GraphSchema } from "@langchain/langgraph-sdk";
+import { Agent } from "@/types/agent";
+import { Collection } from "@/types/collection";
+import { ConfigurableFieldRAGMetadata } from "@/types/configurable";
+import { getMCPServers } from "@/lib/environment/mcp-servers";
+import {
+  extractConfigurationsFromAgent,
+  getConfigurableDefaults,
+} from "@/lib/ui-config";
+
+/**
+ * The current version of the agent bundle format. Increment this when
+ * making a breaking change to the bundle shape.
+ */
+export const AGENT_BUNDLE_VERSION = 1;
+
+const agentBundleSchema = z.object({
+  version: z.literal(AGENT_BUNDLE_VERSION),
+  exported_at: z.string(),
+  agent: z.object({
+    name: z.string().min(1, "Agent name is required"),
+    description: z.string(),
+    graph_id: z.string().min(1, "Graph ID is required"),
+    configurable: z.record(z.any()),
+  }),
+  references: z.object({
+    /**
+     * The RAG collections referenced by the agent. Collection IDs are not
+     * portable across environments, so they are remapped by name on import.
+     */
+    collections: z.array(z.object({ uuid: z.string(), name: z.string() })),
+  }),
+});
+
+export type AgentBundle = z.infer<typeof agentBundleSchema>;
+
+/**
+ * Creates a portable bundle from an agent. The values of `secret` fields are
+ * left out, so they are never written to the file.
+ *
+ * @param agent The agent to export
+ * @param collections The RAG collections available to the user, used to record the names of the collections the agent references
+ * @param schema The config schema of the agent's graph, used to find its secret fields
+ * @returns The agent bundle
+ */
+export function createAgentBundle(
+  agent: Agent,
+  collections: Collection[],
+  schema: GraphSchema["config_schema"],
+): AgentBundle {
+  const secretFields = extractConfigurationsFromAgent({ agent, schema })
+    .configFields.filter((f) => f.type === "secret")
+    .map((f) => f.label);
+  const configurable: Record<string, any> = _.omit(
+    agent.config?.configurable ?? {},
+    secretFields,
+  );
+  const referencedCollectionIds = new Set<string>(
+    Object.values(configurable).flatMap((value) =>
+      value && typeof value === "object" && Array.isArray(value.collections)
+        ? value.collections
+        : [],
+    ),
+  );
+
+  return {
+    version: AGENT_BUNDLE_VERSION,
+    exported_at: new Date().toISOString(),
+    agent: {
+      name: agent.name,
+      description: (agent.metadata?.description as string | undefined) ?? "",
+      graph_id: agent.graph_id,
+      configurable,
+    },
+    references: {
+      collections: collections
+        .filter((c) => referencedCollectionIds.has(c.uuid))
+        .map((c) => ({ uuid: c.uuid, name: c.name })),
+    },
+  };
+}
+
+/**
+ * Downloads an agent bundle as a JSON file in the browser.
+ */
+export function downloadAgentBundle(bundle: AgentBundle) {
+  const blob = new Blob([JSON.stringify(bundle, null, 2)], {
+    type: "application/json",
+  });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = `${bundle.agent.name.replace(/[^a-z0-9-_]+/gi, "_")}.agent.json`;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+/**
+ * Parses and validates the contents of an agent bundle file.
+ *
+ * @param contents The raw file contents
+ * @returns The validated agent bundle
+ * @throws If the contents are not valid JSON, or not a valid agent bundle
+ */
+export function parseAgentBundle(contents: string): AgentBundle {
+  let json: unknown;
+  try {
+    json = JSON.parse(contents);
+  } catch {
+    throw new Error("File is not valid JSON");
+  }
+
+  if (
+    json &&
+    typeof json === "object" &&
+    "version" in json &&
+    json.version !== AGENT_BUNDLE_VERSION
+  ) {
+    throw new Error(
+      `Unsupported bundle version ${String(json.version)}. Expected version ${AGENT_BUNDLE_VERSION}.`,
+    );
+  }
+
+  const result = agentBundleSchema.safeParse(json);
+  if (!result.success) {
+    const issue = result.error.errors[0];
+    throw new Error(
+      `Invalid agent bundle: ${issue.path.join(".") || "bundle"} - ${issue.message}`,
+    );
+  }
+  return result.data;
+}
+
+/**
+ * Validates the configuration in an agent bundle against the target graph's
+ * config schema, and remaps any references which are specific to the environment
+ * the bundle was exported from (MCP server URLs, RAG collection IDs and URLs).
+ *
+ * @param args.bundle The agent bundle being imported
+ * @param args.targetAgent The default agent of the graph the bundle is being imported into
+ * @param args.schema The config schema of the target graph
+ * @param args.collections The RAG collections available in the target environment
+ * @returns The configuration to create the agent with, and a list of warnings for any values which could not be imported
+ */
+export function prepareAgentBundleImport({
+  bundle,
+  targetAgent,
+  schema,
+  collections,
+}: {
+  bundle: AgentBundle;
+  targetAgent: Assistant;
+  schema: GraphSchema["config_schema"];
+  collections: Collection[];
+}): { config: Record<string, any>; warnings: string[] } {
+  const warnings: string[] = [];
+  const bundleConfigurable = bundle.agent.configurable;
+
+  if (bundle.agent.graph_id !== targetAgent.graph_id) {
+    warnings.push(
+      `Bundle was exported from graph '${bundle.agent.graph_id}', but is being imported into '${targetAgent.graph_id}'.`,
+    );
+  }
+
+  // Extract the target graph's configuration fields, using the bundle's values
+  // in place of the target agent's values.
+  const { configFields, toolConfig, ragConfig, agentsConfig } =
+    extractConfigurationsFromAgent({
+      agent: {
+        ...targetAgent,
+        config: { ...targetAgent.config, configurable: bundleConfigurable },
+      },
+      schema,
+    });
+  const targetConfigs = extractConfigurationsFromAgent({
+    agent: targetAgent,
+    schema,
+  });
+  const getTargetDefault = (label: string) =>
+    targetConfigs.configFields.find((f) => f.label === label)?.default;
+
+  const knownFields = new Set(
+    [...configFields, ...toolConfig, ...ragConfig, ...agentsConfig].map(
+      (f) => f.label,
+    ),
+  );
+  Object.keys(bundleConfigurable)
+    .filter((key) => !knownFields.has(key))
+    .forEach((key) =>
+      warnings.push(
+        `Field '${key}' does not exist on the target graph and was skipped.`,
+      ),
+    );
+
+  configFields.forEach((field) => {
+    const value = bundleConfigurable[field.label];
+    if (field.type === "secret" && value === undefined) {
+      warnings.push(
+        `Secret field '${field.label}' is not included in exported agents. Set it after importing.`,
+      );
+      return;
+    }
+    if (value === undefined) return;
+    if (
+      field.type === "select" &&
+      field.options &&
+      !field.options.some((o) => o.value === value)
+    ) {
+      warnings.push(
+        `Value '${String(value)}' is not a valid option for '${field.label}'. The default value was used instead.`,
+      );
+      field.default = getTargetDefault(field.label);
+    }
+    if (
+      (field.type === "number" || field.type === "slider") &&
+      typeof value === "number" &&
+      ((field.min !== undefined && value < field.min) ||
+        (field.max !== undefined && value > field.max))
+    ) {
+      warnings.push(
+        `Value ${value} for '${field.label}' is outside of the allowed range. The default value was used instead.`,
+      );
+      field.default = getTargetDefault(field.label);
+    }
+  });
+
+  // Tools are referenced by server ID and name. Server URLs are refreshed from
+  // this environment's MCP server registry, so only unknown servers need handling.
+  const mcpServerIds = new Set(getMCPServers().map((s) => s.id));
+  const remappedToolConfig = toolConfig.map((field) => {
+    if (!field.default?.servers) {
+      return field;
+    }
+    const servers = field.default.servers.filter((sc) => {
+      if (mcpServerIds.has(sc.server_id)) {
+        return true;
+      }
+      warnings.push(
+        `MCP server '${sc.server_id}' does not exist in this environment. Its tools were skipped.`,
+      );
+      return false;
+    });
+    return {
+      ...field,
+      default: { ...field.default, servers },
+    };
+  });
+
+  // Collections are referenced by ID, which is environment specific, so remap them by name.
+  const remappedRagConfig = ragConfig.map((field) => {
+    const bundleCollectionIds =
+      (
+        bundleConfigurable[
+          field.label
+        ] as ConfigurableFieldRAGMetadata["default"]
+      )?.collections ?? [];
+    const remappedCollectionIds = bundleCollectionIds.flatMap((id) => {
+      const name = bundle.references.collections.find(
+        (c) => c.uuid === id,
+      )?.name;
+      const targetCollection = collections.find(
+        (c) => c.uuid === id || (name && c.name === name),
+      );
+      if (!targetCollection) {
+        warnings.push(
+          `Collection '${name ?? id}' does not exist in this environment and was skipped.`,
+        );
+        return [];
+      }
+      return [targetCollection.uuid];
+    });
+    return {
+      ...field,
+      default: {
+        collections: remappedCollectionIds,
+        rag_url: targetConfigs.ragConfig.find((f) => f.label === field.label)
+          ?.default?.rag_url,
+      },
+    };
+  });
+
+  return {
+    config: getConfigurableDefaults(
+      configFields,
+      remappedToolConfig,
+      remappedRagConfig,
+      agentsConfig,
+    ),
+    warnings,
+  };
+}
@@ -1,5 +1,7 @@
 import { Agent } from "@/types/agent";
 import { getDeployments } from "./environment/deployments";
+import { getApiKeyProviders } from "./environment/api-key-providers";
+import { ApiKeyProvider } from "@/types/api-key";
 import { Assistant } from "@langchain/langgraph-sdk";
 import { toast } from "sonner";
 import React from "react";
@@ -116,30 +118,60 @@ export function groupAgentsByGraphs<AgentOrAssistant extends Agent | Assistant>(
   );
 }
 
+/**
+ * Returns the providers whose API keys a deployment requires, but the user
+ * hasn't set. If the deployment requires API keys without naming them, every
+ * provider is returned when the user hasn't set any key.
+ * @param deploymentId The deployment ID to check
+ * @param apiKeyNames The names of the API keys the user has set
+ * @returns The providers of the missing API keys
+ */
+export function getMissingApiKeyProviders(
+  deploymentId: string,
+  apiKeyNames: string[],
+): ApiKeyProvider[] {
+  const deployment = getDeployments().find((d) => d.id === deploymentId);
+  const requiresApiKeys = deployment?.requiresApiKeys;
+  if (!requiresApiKeys) {
+    return [];
+  }
+  const providers = getApiKeyProviders();
+  if (requiresApiKeys === true) {
+    return apiKeyNames.length ? [] : providers;
+  }
+  return providers.filter(
+    (p) => requiresApiKeys.includes(p.name) && !apiKeyNames.includes(p.name),
+  );
+}
+
 /**
  * Checks if API keys are required but not set for a deployment.
  * @param deploymentId The deployment ID to check
- * @param hasApiKeys Whether the user has API keys set
- * @returns True if the deployment requires API keys but user doesn't have them
+ * @param apiKeyNames The names of the API keys the user has set
+ * @returns True if the deployment requires API keys the user hasn't set
  */
 export function requiresApiKeysButNotSet(
   deploymentId: string,
-  hasApiKeys: boolean,
+  apiKeyNames: string[],
 ): boolean {
-  const deployment = getDeployments().find((d) => d.id === deploymentId);
-  return deployment?.requiresApiKeys === true && !hasApiKeys;
+  return getMissingApiKeyProviders(deploymentId, apiKeyNames).length > 0;
 }
 
 /**
  * Shows a warning toast if API keys are required but not set.
  * @param deploymentId The deployment ID to check
- * @param hasApiKeys Whether the user has API keys set
+ * @param apiKeyNames The names of the API keys the user has set
  */
-export function checkApiKeysWarning(deploymentId: string, hasApiKeys: boolean) {
-  if (requiresApiKeysButNotSet(deploymentId, hasApiKeys)) {
+export function checkApiKeysWarning(
+  deploymentId: string,
+  apiKeyNames: string[],
+) {
+  const missingProviders = getMissingApiKeyProviders(deploymentId, apiKeyNames);
+  if (missingProviders.length) {
     const deployment = getDeployments().find((d) => d.id === deploymentId);
-    const baseMessage =
-      "This agent requires all necessary API keys to be set in the Settings page under your Account.";
+    const baseMessage = Array.isArray(deployment?.requiresApiKeys)
+      ? `This agent requires the following API keys to be set in the Settings page under your Account: ${missingProviders.map((p) => p.label).join(", ")}.`
+      : "This agent requires all necessary API keys to be set in the Settings page under your Account.";
 
     const customMessage = deployment?.apiKeysRequiredMessage;
     const fullMessage = customMessage
@@ -0,0 +1,88 @@
+import { AssistantBase } from "@langchain/langgraph-sdk";
+import _ from "lodash";
+
+export type AgentVersionDiffEntry = {
+  /**
+   * The key of the changed value. Configurable fields are keyed by their
+   * configurable key, while agent details are prefixed with `agent.`.
+   */
+  key: string;
+  /**
+   * The human readable label of the changed value.
+   */
+  label: string;
+  before: unknown;
+  after: unknown;
+};
+
+/**
+ * Computes a field-by-field diff between two versions of an agent. The agent
+ * name and description are compared first, followed by the configurable fields
+ * in the order they are defined in the graph's UI config. Any remaining keys
+ * which are not part of the UI config are compared last, in alphabetical order.
+ *
+ * @param before The older version of the agent. If undefined, every value in `after` is treated as added.
+ * @param after The newer version of the agent
+ * @param fields The UI metadata of the graph's configurable fields, used to order and label the diff, and to hide secret values
+ * @returns The list of values which differ between the two versions
+ */
+export function diffAgentVersions(
+  before: AssistantBase | undefined,
+  after: AssistantBase,
+  fields: { label: string; type?: string }[],
+): AgentVersionDiffEntry[] {
+  const diff: AgentVersionDiffEntry[] = [];
+
+  if (before?.name !== after.name) {
+    diff.push({
+      key: "agent.name",
+      label: "Name",
+      before: before?.name,
+      after: after.name,
+    });
+  }
+  if (before?.metadata?.description !== after.metadata?.description) {
+    diff.push({
+      key: "agent.description",
+      label: "Description",
+      before: before?.metadata?.description,
+      after: after.metadata?.description,
+    });
+  }
+
+  const beforeConfigurable = (before?.config?.configurable ?? {}) as Record<
+    string,
+    unknown
+  >;
+  const afterConfigurable = (after.config?.configurable ?? {}) as Record<
+    string,
+    unknown
+  >;
+  const fieldKeys = fields.map((f) => f.label);
+  const secretKeys = fields
+    .filter((f) => f.type === "secret")
+    .map((f) => f.label);
+  // Secret values are never shown, only whether they are set
+  const getValue = (configurable: Record<string, unknown>, key: string) =>
+    secretKeys.includes(key) && configurable[key]
+      ? "••••••••"
+      : configurable[key];
+  const otherKeys = _.union(
+    Object.keys(beforeConfigurable),
+    Object.keys(afterConfigurable),
+  )
+    .filter((key) => !fieldKeys.includes(key))
+    .sort();
+
+  [...fieldKeys, ...otherKeys].forEach((key) => {
+    if (_.isEqual(beforeConfigurable[key], afterConfigurable[key])) return;
+    diff.push({
+      key,
+      label: _.startCase(key),
+      before: getValue(beforeConfigurable, key),
+      after: getValue(afterConfigurable, key),
+    });
+  });
+
+  return diff;
+}
@@ -0,0 +1,199 @@
+import {
+  createCipheriv,
+  createDecipheriv,
+  createHash,
+  randomBytes,
+} from "crypto";
+import { ApiKeysForRun, ApiKeySummary } from "@/types/api-key";
+import { createJsonFileStore, getDefaultStorePath } from "./json-file-store";
+import { maskApiKey } from "./api-keys";
+
+type StoredApiKey = Omit<ApiKeySummary, "name"> & {
+  /**
+   * The key, encrypted with AES-256-GCM. Formatted as `iv:authTag:ciphertext`,
+   * each base64 encoded.
+   */
+  encryptedValue: string;
+};
+
+// API keys, keyed by user ID, then key name
+type ApiKeysByUser = Record<string, Record<string, StoredApiKey>>;
+
+// How out of date a key's `lastUsedAt` can be
+const LAST_USED_AT_RESOLUTION_MS = 10 * 60 * 1000;
+
+const store = createJsonFileStore<ApiKeysByUser>(
+  process.env.API_KEYS_STORE_PATH || getDefaultStorePath("api-keys.json"),
+  () => ({}),
+);
+
+/**
+ * Whether API keys can be stored, which requires `API_KEYS_ENCRYPTION_SECRET`
+ * to be set. Must only be called on the server.
+ */
+export function isApiKeyStoreEnabled(): boolean {
+  return !!process.env.API_KEYS_ENCRYPTION_SECRET;
+}
+
+function getEncryptionKey(): Buffer {
+  const secret = process.env.API_KEYS_ENCRYPTION_SECRET;
+  if (!secret) {
+    throw new Error(
+      "API keys can't be stored: API_KEYS_ENCRYPTION_SECRET is not set",
+    );
+  }
+  return createHash("sha256").update(secret).digest();
+}
+
+function encrypt(value: string): string {
+  const iv = randomBytes(12);
+  const cipher = createCipheriv("aes-256-gcm", getEncryptionKey(), iv);
+  const ciphertext = Buffer.concat([
+    cipher.update(value, "utf-8"),
+    cipher.final(),
+  ]);
+  return [iv, cipher.getAuthTag(), ciphertext]
+    .map((part) => part.toString("base64"))
+    .join(":");
+}
+
+function decrypt(encryptedValue: string): string {
+  const [iv, authTag, ciphertext] = encryptedValue
+    .split(":")
+    .map((part) => Buffer.from(part, "base64"));
+  const decipher = createDecipheriv("aes-256-gcm", getEncryptionKey(), iv);
+  decipher.setAuthTag(authTag);
+  return Buffer.concat([
+    decipher.update(ciphertext),
+    decipher.final(),
+  ]).toString("utf-8");
+}
+
+/**
+ * Lists the API keys stored for a user, without their values.
+ * Must only be called on the server.
+ * @param userId The ID of the user.
+ */
+export async function listApiKeys(userId: string): Promise<ApiKeySummary[]> {
+  const keys = (await store.read())[userId] ?? {};
+  return Object.entries(keys).map(([name, key]) => ({
+    name,
+    maskedValue: key.maskedValue,
+    fields: key.fields,
+    updatedAt: key.updatedAt,
+    lastUsedAt: key.lastUsedAt,
+  }));
+}
+
+/**
+ * Encrypts and stores an API key for a user, replacing any existing value.
+ * Must only be called on the server.
+ * @param userId The ID of the user.
+ * @param name The name of the key.
+ * @param value The key.
+ * @param fields The values of the provider's extra fields, keyed by name.
+ */
+export async function setApiKey(
+  userId: string,
+  name: string,
+  value: string,
+  fields?: Record<string, string>,
+): Promise<void> {
+  const encryptedValue = encrypt(value);
+  await store.update((keysByUser) => ({
+    ...keysByUser,
+    [userId]: {
+      ...keysByUser[userId],
+      [name]: {
+        encryptedValue,
+        maskedValue: maskApiKey(value),
+        fields,
+        updatedAt: new Date().toISOString(),
+      },
+    },
+  }));
+}
+
+/**
+ * Deletes an API key stored for a user. Must only be called on the server.
+ * @param userId The ID of the user.
+ * @param name The name of the key.
+ */
+export async function deleteApiKey(
+  userId: string,
+  name: string,
+): Promise<void> {
+  await store.update((keysByUser) => {
+    const userKeys = { ...keysByUser[userId] };
+    delete userKeys[name];
+    return { ...keysByUser, [userId]: userKeys };
+  });
+}
+
+/**
+ * Decrypts an API key stored for a user, without recording that it was used.
+ * Must only be called on the server.
+ * @param userId The ID of the user.
+ * @param name The name of the key.
+ * @returns The key and its field values, or undefined if the key isn't set.
+ */
+export async function getApiKey(
+  userId: string,
+  name: string,
+): Promise<{ value: string; fields: Record<string, string> } | undefined> {
+  const key = (await store.read())[userId]?.[name];
+  if (!key) {
+    return undefined;
+  }
+  return { value: decrypt(key.encryptedValue), fields: key.fields ?? {} };
+}
+
+/**
+ * Decrypts the API keys stored for a user, to pass them to an agent run, and
+ * records that they were used. Keys which can't be decrypted, e.g. because
+ * `API_KEYS_ENCRYPTION_SECRET` has changed since they were stored, are left
+ * out. Must only be called on the server.
+ * @param userId The ID of the user.
+ * @returns The keys keyed by name, and the values of their providers' fields
+ * keyed by key name, then field name.
+ */
+export async function getApiKeysForRun(userId: string): Promise<ApiKeysForRun> {
+  const keys = (await store.read())[userId] ?? {};
+  const apiKeys: ApiKeysForRun = { keys: {}, fields: {} };
+  for (const [name, key] of Object.entries(keys)) {
+    try {
+      apiKeys.keys[name] = decrypt(key.encryptedValue);
+    } catch (e) {
+      console.warn(`Failed to decrypt API key ${name} of user ${userId}`, e);
+      continue;
+    }
+    if (key.fields && Object.keys(key.fields).length) {
+      apiKeys.fields[name] = key.fields;
+    }
+  }
+
+  // Only write the store when the last use is out of date, not on every run
+  const usedAt = Date.now();
+  const usedNames = Object.keys(apiKeys.keys).filter(
+    (name) =>
+      !keys[name].lastUsedAt ||
+      usedAt - new Date(keys[name].lastUsedAt).getTime() >
+        LAST_USED_AT_RESOLUTION_MS,
+  );
+  if (usedNames.length) {
+    const lastUsedAt = new Date(usedAt).toISOString();
+    // A failed write shouldn't fail the run
+    store
+      .update((keysByUser) => ({
+        ...keysByUser,
+        [userId]: Object.fromEntries(
+          Object.entries(keysByUser[userId] ?? {}).map(([name, key]) => [
+            name,
+            usedNames.includes(name) ? { ...key, lastUsedAt } : key,
+          ]),
+        ),
+      }))
+      .catch((e) => console.error("Failed to record API key use", e));
+  }
+  return apiKeys;
+}
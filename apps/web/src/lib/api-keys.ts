@@ -0,0 +1,72 @@
+import { ApiKeyProvider } from "@/types/api-key";
+
+/**
+ * The header the LangGraph proxy route sends the user's API keys to agents in,
+ * as base64 encoded JSON. Keys aren't added to the run config, since
+ * LangGraph stores it with the run. For the same reason, the header has no
+ * `x-` prefix, which LangGraph would copy into the config by default.
+ */
+export const API_KEYS_HEADER = "oap-api-keys";
+
+// Requests to these paths create runs, so need the user's API keys
+const RUN_PATH_REGEX = /(^|\/)runs(\/(stream|wait|crons))?$/;
+
+/**
+ * Whether a request to a LangGraph deployment creates a run.
+ * @param method The HTTP method of the request.
+ * @param pathname The path of the request URL.
+ */
+export function isRunRequest(method: string, pathname: string): boolean {
+  return method.toUpperCase() === "POST" && RUN_PATH_REGEX.test(pathname);
+}
+
+/**
+ * Hides all but the first and last few characters of an API key.
+ */
+export function maskApiKey(value: string): string {
+  if (value.length <= 8) {
+    return "•".repeat(value.length);
+  }
+  return `${value.slice(0, 3)}…${value.slice(-4)}`;
+}
+
+/**
+ * Checks an API key and its field values against a provider's requirements.
+ * @param provider The provider the key is for.
+ * @param value The API key.
+ * @param fields The values of the provider's extra fields, keyed by name.
+ * @returns An error message, or undefined if the key is valid.
+ */
+export function validateApiKey(
+  provider: ApiKeyProvider,
+  value: string,
+  fields: Record<string, string> = {},
+): string | undefined {
+  if (!value) {
+    return `${provider.label} is required`;
+  }
+  if (provider.pattern && !new RegExp(provider.pattern).test(value)) {
+    return `This doesn't look like a valid ${provider.label}`;
+  }
+  const missingField = provider.fields?.find(
+    (field) => !field.optional && !fields[field.name]?.trim(),
+  );
+  if (missingField) {
+    return `${missingField.label} is required`;
+  }
+  return undefined;
+}
+
+/**
+ * Replaces `{{NAME}}` placeholders in a string with the value with that name.
+ * Placeholders without a value are replaced with an empty string.
+ */
+export function fillApiKeyPlaceholders(
+  template: string,
+  values: Record<string, string>,
+): string {
+  return template.replace(
+    /\{\{\s*([A-Za-z0-9_]+)\s*\}\}/g,
+    (_, name: string) => values[name] ?? "",
+  );
+}
@@ -0,0 +1,43 @@
+import { createServerClient } from "@supabase/ssr";
+import type { User } from "@supabase/supabase-js";
+import { NextRequest } from "next/server";
+
+/**
+ * Gets the user who made a request, from the Supabase session cookies.
+ * Must only be called on the server.
+ * @param req The request.
+ * @returns {Promise<User | null>} The user, or null if the request is not authenticated.
+ */
+export async function getRequestUser(req: NextRequest): Promise<User | null> {
+  const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
+  const supabaseKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY;
+  if (!supabaseUrl || !supabaseKey) {
+    return null;
+  }
+
+  const supabase = createServerClient(supabaseUrl, supabaseKey, {
+    cookies: {
+      getAll() {
+        return req.cookies.getAll();
+      },
+      setAll() {}, // Not needed to get the user
+    },
+  });
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+  return user;
+}
+
+/**
+ * Whether a user is an admin. Admins are listed by email in the
+ * `OAP_ADMIN_EMAILS` environment variable.
+ * @param user The user.
+ * @returns {boolean} True if the user is an admin.
+ */
+export function isAdminUser(user: User | null): boolean {
+  const adminEmails = process.env.OAP_ADMIN_EMAILS?.split(",")
+    .map((email) => email.trim().toLowerCase())
+    .filter(Boolean);
+  return !!user?.email && !!adminEmails?.includes(user.email.toLowerCase());
+}
@@ -1,5 +1,46 @@
 import { Client } from "@langchain/langgraph-sdk";
 import { getDeployments } from "./environment/deployments";
+import { isRunRequest } from "./api-keys";
+
+/**
+ * Returns the URL of the LangGraph proxy route for a deployment.
+ */
+export function getProxyApiUrl(deploymentId: string): string {
+  const baseApiUrl = process.env.NEXT_PUBLIC_BASE_API_URL;
+  if (!baseApiUrl) {
+    throw new Error(
+      "Failed to create client: Base API URL not configured. Please set NEXT_PUBLIC_BASE_API_URL",
+    );
+  }
+  return `${baseApiUrl}/langgraph/proxy/${deploymentId}`;
+}
+
+/**
+ * Returns a `fetch` for clients which call a deployment directly. Requests
+ * which create runs are sent to the proxy route instead, which adds the user's
+ * API keys to them.
+ * @param deploymentId The ID of the deployment.
+ * @param deploymentUrl The URL the client calls the deployment at.
+ */
+export function createRunProxyFetch(
+  deploymentId: string,
+  deploymentUrl: string,
+): typeof fetch {
+  const baseUrl = deploymentUrl.replace(/\/$/, "");
+  return (input, init) => {
+    const url = input instanceof Request ? input.url : input.toString();
+    if (
+      url.startsWith(`${baseUrl}/`) &&
+      isRunRequest(init?.method ?? "GET", new URL(url).pathname)
+    ) {
+      return fetch(
+        `${getProxyApiUrl(deploymentId)}${url.slice(baseUrl.length)}`,
+        init,
+      );
+    }
+    return fetch(input, init);
+  };
+}
 
 export function createClient(deploymentId: string, accessToken?: string) {
   const deployment = getDeployments().find((d) => d.id === deploymentId);
@@ -8,14 +49,8 @@ export function createClient(deploymentId: string, accessToken?: string) {
   }
 
   if (!accessToken || process.env.NEXT_PUBLIC_USE_LANGSMITH_AUTH === "true") {
-    const baseApiUrl = process.env.NEXT_PUBLIC_BASE_API_URL;
-    if (!baseApiUrl) {
-      throw new Error(
-        "Failed to create client: Base API URL not configured. Please set NEXT_PUBLIC_BASE_API_URL",
-      );
-    }
     const client = new Client({
-      apiUrl: `${baseApiUrl}/langgraph/proxy/${deploymentId}`,
+      apiUrl: getProxyApiUrl(deploymentId),
       defaultHeaders: {
         "x-auth-scheme": "langsmith",
       },
@@ -29,6 +64,9 @@ export function createClient(deploymentId: string, accessToken?: string) {
       Authorization: `Bearer ${accessToken}`,
       "x-supabase-access-token": accessToken,
     },
+    callerOptions: {
+      fetch: createRunProxyFetch(deploymentId, deployment.deploymentUrl),
+    },
   });
   return client;
 }
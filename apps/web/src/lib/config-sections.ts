@@ -0,0 +1,52 @@
+import _ from "lodash";
+import { ConfigurableFieldUIMetadata } from "@/types/configurable";
+
+/**
+ * The section fields without a `section` are grouped under.
+ */
+export const DEFAULT_CONFIG_SECTION = "General";
+
+export type ConfigFieldSection = {
+  title: string;
+  fields: ConfigurableFieldUIMetadata[];
+};
+
+/**
+ * Groups config fields into sections, sorted by their `order`.
+ * @param fields The config fields, in the order they are defined.
+ * @returns The sections, each containing at least one field.
+ */
+export function groupConfigFields(
+  fields: ConfigurableFieldUIMetadata[],
+): ConfigFieldSection[] {
+  // `sortBy` is stable, so fields with the same order keep their defined order
+  const sortedFields = _.sortBy(fields, (f) => f.order ?? Infinity);
+  const sections: ConfigFieldSection[] = [];
+  for (const field of sortedFields) {
+    const title = field.section || DEFAULT_CONFIG_SECTION;
+    let section = sections.find((s) => s.title === title);
+    if (!section) {
+      section = { title, fields: [] };
+      sections.push(section);
+    }
+    section.fields.push(field);
+  }
+  return sections;
+}
+
+/**
+ * Whether a config field's label or description contains a search term.
+ * Matching is case insensitive, and an empty term matches every field.
+ */
+export function configFieldMatchesSearch(
+  field: ConfigurableFieldUIMetadata,
+  searchTerm: string,
+): boolean {
+  const term = searchTerm.trim().toLowerCase();
+  if (!term) {
+    return true;
+  }
+  return [field.label, _.startCase(field.label), field.description ?? ""].some(
+    (text) => text.toLowerCase().includes(term),
+  );
+}
@@ -0,0 +1,202 @@
+import _ from "lodash";
+import {
+  ConfigurableFieldCondition,
+  ConfigurableFieldUIMetadata,
+} from "@/types/configurable";
+import { validateJsonSchema } from "./json-schema";
+
+// Compiled regular expressions, or the error thrown while compiling, keyed by pattern
+const regExps = new Map<string, RegExp | Error>();
+
+/**
+ * Compiles a regular expression from a graph's config schema once. Invalid
+ * patterns are returned as an error, rather than thrown while rendering.
+ */
+function compileRegExp(pattern: string): RegExp | Error {
+  let regExp = regExps.get(pattern);
+  if (!regExp) {
+    try {
+      regExp = new RegExp(pattern);
+    } catch (e) {
+      regExp = e instanceof Error ? e : new Error(String(e));
+    }
+    regExps.set(pattern, regExp);
+  }
+  return regExp;
+}
+
+/**
+ * Returns an error for the first invalid `matches` pattern in a condition.
+ */
+function getConditionPatternError(
+  condition: ConfigurableFieldCondition,
+): string | undefined {
+  if ("all" in condition || "any" in condition) {
+    const conditions = "all" in condition ? condition.all : condition.any;
+    return conditions.map(getConditionPatternError).find(Boolean);
+  }
+  if (condition.matches === undefined) {
+    return undefined;
+  }
+  const regExp = compileRegExp(condition.matches);
+  return regExp instanceof Error
+    ? `Invalid "matches" pattern for "${condition.field}": ${regExp.message}`
+    : undefined;
+}
+
+function isSet(value: unknown): boolean {
+  if (Array.isArray(value)) {
+    return value.length > 0;
+  }
+  return (
+    value !== undefined && value !== null && value !== false && value !== ""
+  );
+}
+
+function evaluateCondition(
+  condition: ConfigurableFieldCondition,
+  config: Record<string, unknown>,
+): boolean {
+  if ("all" in condition) {
+    return condition.all.every((c) => evaluateCondition(c, config));
+  }
+  if ("any" in condition) {
+    return condition.any.some((c) => evaluateCondition(c, config));
+  }
+
+  const value = config[condition.field];
+  if ("equals" in condition && !_.isEqual(value, condition.equals)) {
+    return false;
+  }
+  if ("not_equals" in condition && _.isEqual(value, condition.not_equals)) {
+    return false;
+  }
+  if (condition.in && !condition.in.some((v) => _.isEqual(v, value))) {
+    return false;
+  }
+  if (condition.not_in?.some((v) => _.isEqual(v, value))) {
+    return false;
+  }
+  if (condition.matches !== undefined) {
+    const regExp = compileRegExp(condition.matches);
+    // Fields with an invalid pattern are shown, along with the error (see
+    // `validateConfigField`)
+    if (
+      !(regExp instanceof Error) &&
+      (typeof value !== "string" || !regExp.test(value))
+    ) {
+      return false;
+    }
+  }
+  if (condition.is_set !== undefined && isSet(value) !== condition.is_set) {
+    return false;
+  }
+  return true;
+}
+
+/**
+ * Whether a config field should be shown, based on its `visible_if` and
+ * `depends_on` conditions and the current values of the other fields.
+ * @param field The field to check.
+ * @param config The current config values, keyed by field label.
+ */
+export function isConfigFieldVisible(
+  field: ConfigurableFieldUIMetadata,
+  config: Record<string, unknown> | undefined,
+): boolean {
+  const values = config ?? {};
+  const dependsOn = field.depends_on ? _.castArray(field.depends_on) : [];
+  if (dependsOn.some((key) => !isSet(values[key]))) {
+    return false;
+  }
+  return field.visible_if ? evaluateCondition(field.visible_if, values) : true;
+}
+
+/**
+ * Validates the value of a config field against its `required`, `pattern`,
+ * `min`, `max` and `json_schema` options. Invalid patterns in the field's
+ * options are also reported, so they can be fixed in the graph.
+ * @param field The field to validate.
+ * @param value The field's value.
+ * @returns An error message, or undefined if the value is valid.
+ */
+export function validateConfigField(
+  field: ConfigurableFieldUIMetadata,
+  value: unknown,
+): string | undefined {
+  const label = _.startCase(field.label);
+  const conditionError =
+    field.visible_if && getConditionPatternError(field.visible_if);
+  if (conditionError) {
+    return `${label} has an invalid config: ${conditionError}`;
+  }
+  const isEmpty =
+    value === undefined ||
+    value === null ||
+    (typeof value === "string" && !value.trim()) ||
+    (Array.isArray(value) && !value.length) ||
+    (_.isPlainObject(value) && _.isEmpty(value));
+  if (isEmpty) {
+    return field.required ? `${label} is required` : undefined;
+  }
+
+  const type = field.type ?? "text";
+  if (["text", "textarea", "code", "secret"].includes(type) && field.pattern) {
+    const regExp = compileRegExp(field.pattern);
+    if (regExp instanceof Error) {
+      return `${label} has an invalid config: Invalid pattern: ${regExp.message}`;
+    }
+    if (typeof value !== "string" || !regExp.test(value)) {
+      return field.pattern_message ?? `${label} has an invalid format`;
+    }
+  }
+
+  if ((type === "number" || type === "slider") && typeof value === "number") {
+    if (field.min !== undefined && value < field.min) {
+      return `${label} must be at least ${field.min}`;
+    }
+    if (field.max !== undefined && value > field.max) {
+      return `${label} must be at most ${field.max}`;
+    }
+  }
+
+  if (type === "json") {
+    // JSON fields hold the raw text while it can't be parsed
+    let json = value;
+    if (typeof value === "string") {
+      try {
+        json = JSON.parse(value);
+      } catch {
+        return "Invalid JSON format";
+      }
+    }
+    if (field.json_schema) {
+      return validateJsonSchema(json, field.json_schema);
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Validates the visible config fields.
+ * @param fields The config fields.
+ * @param config The current config values, keyed by field label.
+ * @returns The error messages, keyed by field label. Empty if every value is valid.
+ */
+export function getConfigErrors(
+  fields: ConfigurableFieldUIMetadata[],
+  config: Record<string, unknown> | undefined,
+): Record<string, string> {
+  const errors: Record<string, string> = {};
+  for (const field of fields) {
+    if (!isConfigFieldVisible(field, config)) {
+      continue;
+    }
+    const error = validateConfigField(field, config?.[field.label]);
+    if (error) {
+      errors[field.label] = error;
+    }
+  }
+  return errors;
+}
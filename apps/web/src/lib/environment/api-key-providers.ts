@@ -0,0 +1,126 @@
+import { ApiKeyProvider } from "@/types/api-key";
+
+/**
+ * The providers users can always set API keys for. Providers configured in
+ * `NEXT_PUBLIC_API_KEY_PROVIDERS` with the same name replace these.
+ */
+const DEFAULT_API_KEY_PROVIDERS: ApiKeyProvider[] = [
+  {
+    name: "OPENAI_API_KEY",
+    label: "OpenAI API Key",
+    pattern: "^sk-[A-Za-z0-9_-]+$",
+    test: {
+      url: "https://api.openai.com/v1/models",
+      headers: { Authorization: "Bearer {{OPENAI_API_KEY}}" },
+    },
+  },
+  {
+    name: "ANTHROPIC_API_KEY",
+    label: "Anthropic API Key",
+    pattern: "^sk-ant-[A-Za-z0-9_-]+$",
+    test: {
+      url: "https://api.anthropic.com/v1/models",
+      headers: {
+        "x-api-key": "{{ANTHROPIC_API_KEY}}",
+        "anthropic-version": "2023-06-01",
+      },
+    },
+  },
+  {
+    name: "GOOGLE_API_KEY",
+    label: "Google Gen AI API Key",
+    pattern: "^AIza[A-Za-z0-9_-]{35}$",
+    test: {
+      url: "https://generativelanguage.googleapis.com/v1beta/models",
+      headers: { "x-goog-api-key": "{{GOOGLE_API_KEY}}" },
+    },
+  },
+  {
+    name: "TAVILY_API_KEY",
+    label: "Tavily API Key",
+    pattern: "^tvly-[A-Za-z0-9_-]+$",
+  },
+];
+
+function validateProvider(provider: ApiKeyProvider): void {
+  if (!provider.name || !/^[A-Z0-9_]+$/.test(provider.name)) {
+    throw new Error(
+      `Invalid API key provider name "${provider.name}". Names may only contain uppercase letters, numbers and underscores.`,
+    );
+  }
+  if (!provider.label) {
+    throw new Error(`API key provider "${provider.name}" is missing a label`);
+  }
+  if (provider.pattern) {
+    try {
+      new RegExp(provider.pattern);
+    } catch {
+      throw new Error(
+        `API key provider "${provider.name}" has an invalid pattern "${provider.pattern}"`,
+      );
+    }
+  }
+  for (const field of provider.fields ?? []) {
+    if (!field.name || !field.label) {
+      throw new Error(
+        `API key provider "${provider.name}" has a field without a name or label`,
+      );
+    }
+  }
+  if (provider.test && !provider.test.url) {
+    throw new Error(
+      `API key provider "${provider.name}" has a test without a URL`,
+    );
+  }
+  if (
+    provider.test?.allowedHosts &&
+    (!Array.isArray(provider.test.allowedHosts) ||
+      provider.test.allowedHosts.some((host) => typeof host !== "string"))
+  ) {
+    throw new Error(
+      `API key provider "${provider.name}" has a test with invalid allowedHosts. It must be an array of host names.`,
+    );
+  }
+}
+
+/**
+ * Returns the providers users can set API keys for: the built-in providers,
+ * plus any configured in the `NEXT_PUBLIC_API_KEY_PROVIDERS` environment
+ * variable.
+ * @returns {ApiKeyProvider[]} The list of providers.
+ */
+export function getApiKeyProviders(): ApiKeyProvider[] {
+  const configuredProviders: ApiKeyProvider[] = JSON.parse(
+    process.env.NEXT_PUBLIC_API_KEY_PROVIDERS || "[]",
+  );
+  const names = new Set<string>();
+  for (const provider of configuredProviders) {
+    validateProvider(provider);
+    if (names.has(provider.name)) {
+      throw new Error(
+        `Multiple API key providers found with name "${provider.name}"`,
+      );
+    }
+    names.add(provider.name);
+  }
+
+  return [
+    ...DEFAULT_API_KEY_PROVIDERS.map(
+      (provider) =>
+        configuredProviders.find((p) => p.name === provider.name) ?? provider,
+    ),
+    ...configuredProviders.filter(
+      (provider) =>
+        !DEFAULT_API_KEY_PROVIDERS.some((p) => p.name === provider.name),
+    ),
+  ];
+}
+
+/**
+ * Finds an API key provider by its name.
+ * @param name The name of the provider's key, e.g. `OPENAI_API_KEY`.
+ * @returns {ApiKeyProvider | undefined} The provider, or undefined if no provider has the given name.
+ */
+export function getApiKeyProvider(name: string): ApiKeyProvider | undefined {
+  return getApiKeyProviders().find((p) => p.name === name);
+}
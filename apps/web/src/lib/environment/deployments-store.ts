@@ -0,0 +1,51 @@
+import { Deployment } from "@/types/deployment";
+import {
+  createJsonFileStore,
+  getDefaultStorePath,
+} from "@/lib/json-file-store";
+import { getSeedDeployments, validateDeployments } from "./deployments";
+
+const store = createJsonFileStore<Deployment[]>(
+  process.env.DEPLOYMENTS_STORE_PATH || getDefaultStorePath("deployments.json"),
+  getSeedDeployments,
+);
+
+/**
+ * Reads the deployments stored on the server. If none have been stored yet,
+ * returns the deployments from the `NEXT_PUBLIC_DEPLOYMENTS` environment variable.
+ * Must only be called on the server.
+ * @returns {Promise<Deployment[]>} The list of deployments, including disabled deployments.
+ */
+export function readStoredDeployments(): Promise<Deployment[]> {
+  return store.read();
+}
+
+/**
+ * Finds an enabled deployment stored on the server by its ID.
+ * Must only be called on the server.
+ * @param deploymentId The ID of the deployment.
+ * @returns {Promise<Deployment | undefined>} The deployment, or undefined if it does not exist or is disabled.
+ */
+export async function getStoredDeployment(
+  deploymentId: string,
+): Promise<Deployment | undefined> {
+  return (await readStoredDeployments()).find(
+    (d) => d.id === deploymentId && !d.disabled,
+  );
+}
+
+/**
+ * Updates the deployments stored on the server. The updated deployments are
+ * validated before they are saved. Must only be called on the server.
+ * @param update Returns the updated deployments, given the current deployments.
+ * @returns {Promise<Deployment[]>} The updated deployments.
+ */
+export function updateStoredDeployments(
+  update: (deployments: Deployment[]) => Deployment[],
+): Promise<Deployment[]> {
+  return store.update((deployments) => {
+    const updated = update(deployments);
+    validateDeployments(updated);
+    return updated;
+  });
+}
@@ -1,15 +1,25 @@
 import { Deployment } from "@/types/deployment";
 
+// The deployments loaded from the server by the `DeploymentsProvider`. Until
+// they are loaded, the deployments from the environment variable are used.
+let loadedDeployments: Deployment[] | undefined;
+
 /**
- * Loads the provided deployments from the environment variable.
- * @returns {Deployment[]} The list of deployments.
+ * Throws if a list of deployments is invalid. Exactly one enabled deployment
+ * must be the default, and it must have a default graph ID.
+ * @param deployments The deployments to validate.
  */
-export function getDeployments(): Deployment[] {
-  let defaultExists = false;
-  const deployments: Deployment[] = JSON.parse(
-    process.env.NEXT_PUBLIC_DEPLOYMENTS || "[]",
-  );
+export function validateDeployments(deployments: Deployment[]): void {
+  const ids = new Set<string>();
   for (const deployment of deployments) {
+    if (ids.has(deployment.id)) {
+      throw new Error(`Multiple deployments found with ID "${deployment.id}"`);
+    }
+    ids.add(deployment.id);
+  }
+
+  let defaultExists = false;
+  for (const deployment of deployments.filter((d) => !d.disabled)) {
     if (deployment.isDefault && !defaultExists) {
       if (!deployment.defaultGraphId) {
         throw new Error("Default deployment must have a default graph ID");
@@ -22,5 +32,38 @@ export function getDeployments(): Deployment[] {
   if (!defaultExists) {
     throw new Error("No default deployment found");
   }
+}
+
+/**
+ * Loads the deployments from the `NEXT_PUBLIC_DEPLOYMENTS` environment
+ * variable, without validating them. These are used to seed the deployments
+ * stored on the server.
+ * @returns {Deployment[]} The list of deployments.
+ */
+export function getSeedDeployments(): Deployment[] {
+  return JSON.parse(process.env.NEXT_PUBLIC_DEPLOYMENTS || "[]");
+}
+
+/**
+ * Sets the deployments returned by `getDeployments`. Called once the
+ * deployments stored on the server have been loaded.
+ * @param deployments The deployments, including disabled deployments.
+ */
+export function setLoadedDeployments(deployments: Deployment[]): void {
+  loadedDeployments = deployments;
+}
+
+/**
+ * Returns the enabled deployments. These are the deployments stored on the
+ * server if they have been loaded, otherwise the deployments from the
+ * environment variable.
+ * @returns {Deployment[]} The list of deployments.
+ */
+export function getDeployments(): Deployment[] {
+  if (loadedDeployments) {
+    return loadedDeployments.filter((d) => !d.disabled);
+  }
+  const deployments = getSeedDeployments();
+  validateDeployments(deployments);
   return deployments;
 }
@@ -0,0 +1,98 @@
+import { MCPServer, MCPServerAuthMode } from "@/types/mcp-server";
+
+/**
+ * The ID given to the server configured through the legacy
+ * `NEXT_PUBLIC_MCP_SERVER_URL` environment variable.
+ */
+export const DEFAULT_MCP_SERVER_ID = "default";
+
+const AUTH_MODES: MCPServerAuthMode[] = [
+  "none",
+  "token_exchange",
+  "static_header",
+];
+
+function getLegacyMCPServer(): MCPServer | undefined {
+  const url = process.env.NEXT_PUBLIC_MCP_SERVER_URL;
+  if (!url) {
+    return undefined;
+  }
+  return {
+    id: DEFAULT_MCP_SERVER_ID,
+    name: "MCP Server",
+    url,
+    internalUrl: process.env.NEXT_PUBLIC_MCP_SERVER_INTERNAL_URL || undefined,
+    authMode:
+      process.env.NEXT_PUBLIC_MCP_AUTH_REQUIRED === "true"
+        ? "token_exchange"
+        : "none",
+    isDefault: true,
+  };
+}
+
+/**
+ * Loads the MCP servers from the `NEXT_PUBLIC_MCP_SERVERS` environment variable.
+ * Falls back to a single server built from `NEXT_PUBLIC_MCP_SERVER_URL` and
+ * `NEXT_PUBLIC_MCP_AUTH_REQUIRED` if it is not set.
+ * @returns {MCPServer[]} The list of MCP servers. The default server is always first.
+ */
+export function getMCPServers(): MCPServer[] {
+  if (!process.env.NEXT_PUBLIC_MCP_SERVERS) {
+    const legacyServer = getLegacyMCPServer();
+    return legacyServer ? [legacyServer] : [];
+  }
+
+  const servers: MCPServer[] = JSON.parse(process.env.NEXT_PUBLIC_MCP_SERVERS);
+  const ids = new Set<string>();
+  for (const server of servers) {
+    if (!server.id || !/^[a-zA-Z0-9_-]+$/.test(server.id)) {
+      throw new Error(
+        `Invalid MCP server ID "${server.id}". IDs may only contain letters, numbers, dashes and underscores.`,
+      );
+    }
+    if (ids.has(server.id)) {
+      throw new Error(`Multiple MCP servers found with ID "${server.id}"`);
+    }
+    ids.add(server.id);
+    if (!server.url) {
+      throw new Error(`MCP server "${server.id}" is missing a URL`);
+    }
+    if (!AUTH_MODES.includes(server.authMode)) {
+      throw new Error(
+        `MCP server "${server.id}" has an invalid auth mode "${server.authMode}"`,
+      );
+    }
+  }
+
+  const defaultServers = servers.filter((s) => s.isDefault);
+  if (defaultServers.length > 1) {
+    throw new Error("Multiple default MCP servers found");
+  }
+  const defaultServer = defaultServers[0] ?? servers[0];
+  if (!defaultServer) {
+    return [];
+  }
+
+  return [
+    { ...defaultServer, isDefault: true },
+    ...servers
+      .filter((s) => s.id !== defaultServer.id)
+      .map((s) => ({ ...s, isDefault: false })),
+  ];
+}
+
+/**
+ * Finds an MCP server by its ID.
+ * @param serverId The ID of the server.
+ * @returns {MCPServer | undefined} The server, or undefined if no server has the given ID.
+ */
+export function getMCPServer(serverId: string): MCPServer | undefined {
+  return getMCPServers().find((s) => s.id === serverId);
+}
+
+/**
+ * The URL agents should use to connect to the given MCP server.
+ */
+export function getMCPServerAgentUrl(server: MCPServer): string {
+  return server.internalUrl || server.url;
+}
@@ -0,0 +1,59 @@
+import { mkdir, readFile, rename, writeFile } from "fs/promises";
+import path from "path";
+
+/**
+ * Creates a store which keeps a JSON value in a file on the server. Updates are
+ * queued, so concurrent requests can't overwrite each other's changes. The file
+ * must be on persistent storage shared by every instance of the web app.
+ * Must only be used on the server.
+ * @param filePath The path of the file.
+ * @param getInitialValue Returns the value to use before the file has been written.
+ */
+export function createJsonFileStore<T>(
+  filePath: string,
+  getInitialValue: () => T,
+) {
+  let updateQueue: Promise<unknown> = Promise.resolve();
+
+  const read = async (): Promise<T> => {
+    try {
+      return JSON.parse(await readFile(filePath, "utf-8"));
+    } catch (e) {
+      if ((e as NodeJS.ErrnoException).code === "ENOENT") {
+        return getInitialValue();
+      }
+      throw e;
+    }
+  };
+
+  /**
+   * Updates the stored value. If `update` throws, the value is not changed.
+   * @param update Returns the updated value, given the current value.
+   * @returns The updated value.
+   */
+  const update = (update: (value: T) => T): Promise<T> => {
+    const result = updateQueue.then(async () => {
+      const value = update(await read());
+
+      await mkdir(path.dirname(filePath), { recursive: true });
+      // Write to a temporary file first, so the store is never left half written
+      const tempPath = `${filePath}.tmp`;
+      await writeFile(tempPath, JSON.stringify(value, null, 2));
+      await rename(tempPath, filePath);
+      return value;
+    });
+    // Keep processing updates if this one fails
+    updateQueue = result.catch(() => undefined);
+    return result;
+  };
+
+  return { read, update };
+}
+
+/**
+ * Returns the path of a file in the default directory for server-side stores.
+ * @param fileName The name of the file.
+ */
+export function getDefaultStorePath(fileName: string): string {
+  return path.join(process.cwd(), ".oap", fileName);
+}
@@ -0,0 +1,109 @@
+import Ajv, { ErrorObject, ValidateFunction } from "ajv";
+import Ajv2020 from "ajv/dist/2020";
+
+type JsonSchema = Record<string, any>;
+
+// Validators are created on first use. Graphs built with Pydantic publish
+// draft 2020-12 schemas, while most other tools publish draft-07 schemas.
+let draft07: Ajv | undefined;
+let draft2020: Ajv2020 | undefined;
+
+// Common string formats. Other formats are ignored.
+const FORMATS: Record<string, RegExp | ((value: string) => boolean)> = {
+  date: /^\d{4}-\d{2}-\d{2}$/,
+  time: /^\d{2}:\d{2}:\d{2}(\.\d+)?([zZ]|[+-]\d{2}:\d{2})?$/,
+  "date-time":
+    /^\d{4}-\d{2}-\d{2}[tT ]\d{2}:\d{2}:\d{2}(\.\d+)?([zZ]|[+-]\d{2}:\d{2})$/,
+  email: /^[^\s@]+@[^\s@]+\.[^\s@]+$/,
+  uri: (value) => {
+    try {
+      new URL(value);
+      return true;
+    } catch {
+      return false;
+    }
+  },
+  uuid: /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i,
+  ipv4: /^((25[0-5]|2[0-4]\d|1\d\d|[1-9]?\d)\.){3}(25[0-5]|2[0-4]\d|1\d\d|[1-9]?\d)$/,
+};
+
+function getAjv(schema: JsonSchema): Ajv | Ajv2020 {
+  const options = { strict: false, formats: FORMATS };
+  if (/2020-12/.test(schema.$schema ?? "")) {
+    draft2020 ??= new Ajv2020(options);
+    return draft2020;
+  }
+  draft07 ??= new Ajv(options);
+  return draft07;
+}
+
+// Compiled validators, or the error thrown while compiling, keyed by schema
+const validators = new WeakMap<JsonSchema, ValidateFunction | Error>();
+
+function getValidator(schema: JsonSchema): ValidateFunction | Error {
+  let validator = validators.get(schema);
+  if (!validator) {
+    // The validator is chosen by `$schema`, so it doesn't need to be resolved
+    const { $schema: _, ...rest } = schema;
+    try {
+      validator = getAjv(schema).compile(rest);
+    } catch (e) {
+      validator = e instanceof Error ? e : new Error(String(e));
+    }
+    validators.set(schema, validator);
+  }
+  return validator;
+}
+
+/**
+ * Converts a JSON pointer (e.g. `/items/0/name`) into a path like `items[0].name`.
+ */
+function formatPath(instancePath: string) {
+  const path = instancePath
+    .split("/")
+    .slice(1)
+    .map((segment) => segment.replace(/~1/g, "/").replace(/~0/g, "~"))
+    .reduce(
+      (acc, segment) =>
+        /^\d+$/.test(segment)
+          ? `${acc}[${segment}]`
+          : acc
+            ? `${acc}.${segment}`
+            : segment,
+      "",
+    );
+  return path ? `"${path}"` : "Value";
+}
+
+function formatError(error: ErrorObject): string {
+  const path = formatPath(error.instancePath);
+  if (error.keyword === "required") {
+    return `${path} is missing the required property "${error.params.missingProperty}"`;
+  }
+  if (error.keyword === "additionalProperties") {
+    return `${path} has an unexpected property "${error.params.additionalProperty}"`;
+  }
+  return `${path} ${error.message}`;
+}
+
+/**
+ * Validates a value against a JSON schema (draft-07, or draft 2020-12 if set
+ * in `$schema`), using Ajv.
+ * @param value The value to validate.
+ * @param schema The JSON schema.
+ * @returns The first error found, or undefined if the value is valid. If the
+ * schema itself is invalid, an error describing it is returned.
+ */
+export function validateJsonSchema(
+  value: unknown,
+  schema: JsonSchema,
+): string | undefined {
+  const validate = getValidator(schema);
+  if (validate instanceof Error) {
+    return `The JSON schema for this field is invalid: ${validate.message}`;
+  }
+  if (validate(value) || !validate.errors?.length) {
+    return undefined;
+  }
+  return formatError(validate.errors[0]);
+}
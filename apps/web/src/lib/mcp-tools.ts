@@ -0,0 +1,178 @@
+import {
+  ConfigurableFieldMCPMetadata,
+  MCPServerToolsConfig,
+} from "@/types/configurable";
+import { MCPServer } from "@/types/mcp-server";
+import { Tool } from "@/types/tool";
+import {
+  getMCPServerAgentUrl,
+  getMCPServers,
+} from "@/lib/environment/mcp-servers";
+
+export type MCPToolsConfig = NonNullable<
+  ConfigurableFieldMCPMetadata["default"]
+>;
+
+/**
+ * A key which uniquely identifies a tool across all MCP servers.
+ */
+export function getToolKey(tool: Pick<Tool, "name" | "serverId">): string {
+  return `${tool.serverId}:${tool.name}`;
+}
+
+/**
+ * Groups items (e.g. tools) by the MCP server they belong to, in the order the
+ * servers are registered. Servers without any items are omitted.
+ */
+export function groupByServer<T extends { serverId: string }>(
+  items: T[],
+  servers: MCPServer[] = getMCPServers(),
+): { server: MCPServer; items: T[] }[] {
+  return servers
+    .map((server) => ({
+      server,
+      items: items.filter((i) => i.serverId === server.id),
+    }))
+    .filter((group) => group.items.length > 0);
+}
+
+function toServerToolsConfig(
+  server: MCPServer,
+  tools: string[],
+): MCPServerToolsConfig {
+  return {
+    server_id: server.id,
+    url: getMCPServerAgentUrl(server),
+    auth_required: server.authMode === "token_exchange",
+    auth_mode: server.authMode,
+    ...(server.authMode === "static_header" && {
+      header_name: server.headerName || "Authorization",
+    }),
+    tools,
+  };
+}
+
+function stripMcpPath(url: string) {
+  return url.replace(/\/+$/, "").replace(/\/mcp$/, "");
+}
+
+/**
+ * Finds the server a legacy, single server config was created for, by
+ * matching its URL. Falls back to the default server.
+ */
+function getLegacyServer(
+  config: MCPToolsConfig,
+  servers: MCPServer[],
+): MCPServer | undefined {
+  const legacyUrl = config.url ? stripMcpPath(config.url) : undefined;
+  return (
+    servers.find(
+      (s) =>
+        legacyUrl &&
+        [s.url, s.internalUrl]
+          .filter((u): u is string => !!u)
+          .some((u) => stripMcpPath(u) === legacyUrl),
+    ) ?? servers.find((s) => s.isDefault)
+  );
+}
+
+/**
+ * Normalizes an MCP tools config so that every selected tool is stored
+ * alongside the server it belongs to. Configs created before multiple servers
+ * were supported are migrated to the server matching their URL. Server URLs and
+ * auth settings are refreshed from the MCP server registry, and the legacy
+ * `tools`, `url` and `auth_required` fields are synced with the default server.
+ */
+export function normalizeMCPToolsConfig(
+  config: MCPToolsConfig,
+  servers: MCPServer[] = getMCPServers(),
+): MCPToolsConfig {
+  const defaultServer = servers.find((s) => s.isDefault);
+  if (!defaultServer) {
+    return config;
+  }
+
+  let serverConfigs: MCPServerToolsConfig[];
+  if (config.servers) {
+    serverConfigs = config.servers.map((sc) => {
+      const server = servers.find((s) => s.id === sc.server_id);
+      // Keep selections for servers which are no longer registered as-is.
+      return server ? toServerToolsConfig(server, sc.tools ?? []) : sc;
+    });
+  } else {
+    const legacyServer = getLegacyServer(config, servers);
+    serverConfigs =
+      legacyServer && config.tools?.length
+        ? [toServerToolsConfig(legacyServer, config.tools)]
+        : [];
+  }
+
+  const defaultServerConfig = toServerToolsConfig(
+    defaultServer,
+    serverConfigs.find((sc) => sc.server_id === defaultServer.id)?.tools ?? [],
+  );
+
+  return {
+    ...config,
+    tools: defaultServerConfig.tools,
+    url: defaultServerConfig.url,
+    auth_required: defaultServerConfig.auth_required,
+    servers: serverConfigs,
+  };
+}
+
+/**
+ * Returns the keys (see `getToolKey`) of all tools selected in an MCP tools config.
+ */
+export function getSelectedToolKeys(
+  config: MCPToolsConfig | undefined,
+): string[] {
+  if (!config) {
+    return [];
+  }
+  return (normalizeMCPToolsConfig(config).servers ?? []).flatMap((sc) =>
+    sc.tools.map((name) => getToolKey({ name, serverId: sc.server_id })),
+  );
+}
+
+/**
+ * Selects or deselects a tool in an MCP tools config.
+ * @returns A new, normalized config.
+ */
+export function setToolSelected(
+  config: MCPToolsConfig,
+  tool: Pick<Tool, "name" | "serverId">,
+  selected: boolean,
+): MCPToolsConfig {
+  const servers = getMCPServers();
+  const server = servers.find((s) => s.id === tool.serverId);
+  if (!server) {
+    return config;
+  }
+
+  const normalized = normalizeMCPToolsConfig(config, servers);
+  const serverConfigs = normalized.servers ?? [];
+  const currentTools =
+    serverConfigs.find((sc) => sc.server_id === server.id)?.tools ?? [];
+  const newTools = selected
+    ? // Remove duplicates
+      Array.from(new Set([...currentTools, tool.name]))
+    : currentTools.filter((t) => t !== tool.name);
+
+  const newServerConfig = toServerToolsConfig(server, newTools);
+  const newServerConfigs = serverConfigs.some(
+    (sc) => sc.server_id === server.id,
+  )
+    ? serverConfigs.map((sc) =>
+        sc.server_id === server.id ? newServerConfig : sc,
+      )
+    : [...serverConfigs, newServerConfig];
+
+  return normalizeMCPToolsConfig(
+    {
+      ...normalized,
+      servers: newServerConfigs.filter((sc) => sc.tools.length > 0),
+    },
+    servers,
+  );
+}
@@ -0,0 +1,231 @@
+import { LookupAddress } from "node:dns";
+import { lookup } from "node:dns/promises";
+import http, { IncomingHttpHeaders, IncomingMessage } from "node:http";
+import https from "node:https";
+import { BlockList, isIP } from "node:net";
+
+// Addresses which aren't reachable on the public internet, e.g. loopback,
+// link-local (including cloud metadata services) and private networks.
+const NON_PUBLIC_ADDRESSES = new BlockList();
+(
+  [
+    ["0.0.0.0", 8],
+    ["10.0.0.0", 8],
+    ["100.64.0.0", 10],
+    ["127.0.0.0", 8],
+    ["169.254.0.0", 16],
+    ["172.16.0.0", 12],
+    ["192.0.0.0", 24],
+    ["192.168.0.0", 16],
+    ["198.18.0.0", 15],
+    ["224.0.0.0", 4],
+    ["240.0.0.0", 4],
+  ] as const
+).forEach(([network, prefix]) =>
+  NON_PUBLIC_ADDRESSES.addSubnet(network, prefix, "ipv4"),
+);
+(
+  [
+    ["::", 128],
+    ["::1", 128],
+    // NAT64 addresses can point at any IPv4 address. IPv4-mapped addresses
+    // are checked against the IPv4 subnets by `BlockList` itself.
+    ["64:ff9b::", 96],
+    ["fc00::", 7],
+    ["fe80::", 10],
+    ["ff00::", 8],
+  ] as const
+).forEach(([network, prefix]) =>
+  NON_PUBLIC_ADDRESSES.addSubnet(network, prefix, "ipv6"),
+);
+
+const REDIRECT_STATUSES = [301, 302, 303, 307, 308];
+
+export interface SafeFetchOptions {
+  method?: string;
+  headers?: Record<string, string>;
+  body?: string;
+  /**
+   * The protocols URLs may use. Defaults to HTTP and HTTPS.
+   */
+  protocols?: string[];
+  /**
+   * If set, only these hosts and their subdomains may be requested.
+   */
+  allowedHosts?: string[];
+  /**
+   * The number of redirects to follow. Defaults to 5. Each redirect is checked
+   * like the original URL.
+   */
+  maxRedirects?: number;
+  maxBytes: number;
+  timeoutMs: number;
+}
+
+export interface SafeFetchResponse {
+  ok: boolean;
+  status: number;
+  /**
+   * The URL of the response, after any redirects.
+   */
+  url: string;
+  headers: Headers;
+  text: string;
+}
+
+function isPublicAddress(address: string): boolean {
+  const family = isIP(address);
+  if (!family) {
+    return false;
+  }
+  return !NON_PUBLIC_ADDRESSES.check(address, family === 6 ? "ipv6" : "ipv4");
+}
+
+/**
+ * Throws if a URL may not be requested: if it uses a protocol which isn't
+ * allowed, its host isn't allowed, or its host resolves to an address which
+ * isn't public.
+ * @returns The address the host resolved to, which requests must connect to.
+ */
+export async function assertUrlAllowed(
+  url: string,
+  options: Pick<SafeFetchOptions, "protocols" | "allowedHosts">,
+): Promise<LookupAddress> {
+  const { protocol, hostname } = new URL(url);
+  const protocols = options.protocols ?? ["http:", "https:"];
+  if (!protocols.includes(protocol)) {
+    throw new Error(`Unsupported protocol: ${protocol}`);
+  }
+
+  const host = hostname.toLowerCase();
+  const allowedHosts = options.allowedHosts
+    ?.map((h) => h.trim().toLowerCase())
+    .filter(Boolean);
+  if (
+    allowedHosts?.length &&
+    !allowedHosts.some((h) => host === h || host.endsWith(`.${h}`))
+  ) {
+    throw new Error(`Host is not allowed: ${hostname}`);
+  }
+
+  // IPv6 hosts are wrapped in brackets in URLs
+  const addresses = await lookup(host.replace(/^\[(.*)\]$/, "$1"), {
+    all: true,
+  }).catch(() => {
+    throw new Error(`Could not resolve host: ${hostname}`);
+  });
+  if (
+    !addresses.length ||
+    !addresses.every((a) => isPublicAddress(a.address))
+  ) {
+    throw new Error(`Host is not allowed: ${hostname}`);
+  }
+  return addresses[0];
+}
+
+/**
+ * Makes a single request, connecting to `address` rather than resolving the
+ * host again. Otherwise the host could resolve to a different address than
+ * the one which was checked (DNS rebinding).
+ */
+function requestPinned(
+  url: string,
+  address: LookupAddress,
+  init: Pick<SafeFetchOptions, "method" | "headers" | "body">,
+  signal: AbortSignal,
+): Promise<IncomingMessage> {
+  const client = new URL(url).protocol === "https:" ? https : http;
+  return new Promise((resolve, reject) => {
+    const request = client.request(
+      url,
+      {
+        method: init.method ?? "GET",
+        headers: init.headers,
+        signal,
+        lookup: (_hostname, options, callback) =>
+          options.all
+            ? callback(null, [address])
+            : callback(null, address.address, address.family),
+      },
+      resolve,
+    );
+    request.on("error", reject);
+    request.end(init.body);
+  });
+}
+
+function toHeaders(incoming: IncomingHttpHeaders): Headers {
+  const headers = new Headers();
+  Object.entries(incoming).forEach(([name, value]) => {
+    (Array.isArray(value) ? value : value ? [value] : []).forEach((v) =>
+      headers.append(name, v),
+    );
+  });
+  return headers;
+}
+
+async function readText(response: IncomingMessage, maxBytes: number) {
+  if (Number(response.headers["content-length"]) > maxBytes) {
+    response.destroy();
+    throw new Error("Response is too large");
+  }
+
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of response) {
+    size += chunk.length;
+    // Content-Length may be missing, or wrong
+    if (size > maxBytes) {
+      response.destroy();
+      throw new Error("Response is too large");
+    }
+    chunks.push(chunk);
+  }
+  return Buffer.concat(chunks).toString("utf8");
+}
+
+/**
+ * Fetches a URL which came from a user, without letting them reach the
+ * server's own network. Every URL, including redirects, is checked with
+ * `assertUrlAllowed` and requested from the address which was checked, and
+ * the response body is read up to `maxBytes`.
+ *
+ * Redirects are followed with a GET request, without the original body.
+ */
+export async function safeFetch(
+  url: string,
+  options: SafeFetchOptions,
+): Promise<SafeFetchResponse> {
+  const signal = AbortSignal.timeout(options.timeoutMs);
+  const maxRedirects = options.maxRedirects ?? 5;
+
+  let currentUrl = url;
+  let init: Pick<SafeFetchOptions, "method" | "headers" | "body"> = {
+    method: options.method,
+    headers: options.headers,
+    body: options.body,
+  };
+  for (let redirects = 0; ; redirects++) {
+    const address = await assertUrlAllowed(currentUrl, options);
+    const response = await requestPinned(currentUrl, address, init, signal);
+    const status = response.statusCode ?? 0;
+
+    const location = response.headers.location;
+    if (!REDIRECT_STATUSES.includes(status) || !location) {
+      return {
+        ok: status >= 200 && status < 300,
+        status,
+        url: currentUrl,
+        headers: toHeaders(response.headers),
+        text: await readText(response, options.maxBytes),
+      };
+    }
+
+    response.destroy();
+    if (redirects >= maxRedirects) {
+      throw new Error("Too many redirects");
+    }
+    currentUrl = new URL(location, currentUrl).toString();
+    init = { method: "GET", headers: options.headers };
+  }
+}
@@ -5,7 +5,10 @@ import {
   ConfigurableFieldUIMetadata,
 } from "@/types/configurable";
 import { Assistant, GraphSchema } from "@langchain/langgraph-sdk";
+import _ from "lodash";
 import { toast } from "sonner";
+import { getMCPServers } from "@/lib/environment/mcp-servers";
+import { normalizeMCPToolsConfig } from "@/lib/mcp-tools";
 
 function getUiConfig(
   value: unknown,
@@ -40,6 +43,36 @@ function getUiConfig(
   return undefined;
 }
 
+/**
+ * Coerces a config value to the shape a field type expects, so a value saved
+ * before a field's type changed can't break its UI component. Values which
+ * can't be coerced are dropped.
+ */
+function normalizeConfigFieldValue(
+  field: ConfigurableFieldUIMetadata,
+  value: unknown,
+): unknown {
+  switch (field.type) {
+    case "multiselect":
+      if (typeof value === "string") return [value];
+      return Array.isArray(value)
+        ? value.filter((v) => typeof v === "string")
+        : undefined;
+    case "kv":
+      return _.isPlainObject(value)
+        ? _.mapValues(value as Record<string, unknown>, (v) =>
+            typeof v === "string" ? v : JSON.stringify(v),
+          )
+        : undefined;
+    case "model":
+    case "code":
+    case "secret":
+      return typeof value === "string" ? value : undefined;
+    default:
+      return value;
+  }
+}
+
 /**
  * Converts a LangGraph configuration schema into an array of UI metadata
  * for configurable fields.
@@ -93,9 +126,7 @@ function configSchemaToToolsConfig(
     return [];
   }
 
-  const mcpServerUrl =
-    process.env.NEXT_PUBLIC_MCP_SERVER_INTERNAL_URL ??
-    process.env.NEXT_PUBLIC_MCP_SERVER_URL;
+  const mcpServers = getMCPServers();
 
   const fields: ConfigurableFieldMCPMetadata[] = [];
   for (const [key, value] of Object.entries(schema.properties)) {
@@ -104,8 +135,8 @@ function configSchemaToToolsConfig(
       continue;
     }
 
-    if (!mcpServerUrl) {
-      toast.error("Can not configure MCP tool without MCP server URL", {
+    if (!mcpServers.length) {
+      toast.error("Can not configure MCP tool without an MCP server", {
         richColors: true,
       });
       continue;
@@ -114,12 +145,13 @@ function configSchemaToToolsConfig(
     fields.push({
       label: key,
       type: uiConfig.type,
-      default: {
-        url: mcpServerUrl,
-        tools: [],
-        auth_required: process.env.NEXT_PUBLIC_MCP_AUTH_REQUIRED === "true",
-        ...(uiConfig.default ?? {}),
-      },
+      default: normalizeMCPToolsConfig(
+        {
+          tools: [],
+          ...(uiConfig.default ?? {}),
+        },
+        mcpServers,
+      ),
     });
   }
   return fields;
@@ -196,7 +228,7 @@ export function extractConfigurationsFromAgent({
     const defaultConfig = agent.config?.configurable?.[f.label] ?? f.default;
     return {
       ...f,
-      default: defaultConfig,
+      default: normalizeConfigFieldValue(f, defaultConfig),
     };
   });
 
@@ -209,10 +241,7 @@ export function extractConfigurationsFromAgent({
     return {
       ...f,
       default: defaultConfig
-        ? {
-            ...defaultConfig,
-            auth_required: process.env.NEXT_PUBLIC_MCP_AUTH_REQUIRED === "true",
-          }
+        ? normalizeMCPToolsConfig(defaultConfig)
         : undefined,
     };
   });
@@ -13,9 +13,11 @@ export const config = {
      * - _next/static (static files)
      * - _next/image (image optimization files)
      * - favicon.ico (favicon file)
+     * - inbox-notifications-sw.js (notifications service worker, which is
+     *   under the redirected /inbox path)
      * - api/auth (auth API routes)
      */
-    "/((?!_next/static|_next/image|favicon.ico|.*\\.(?:svg|png|jpg|jpeg|gif|webp)$).*)",
+    "/((?!_next/static|_next/image|favicon.ico|inbox-notifications-sw\\.js$|.*\\.(?:svg|png|jpg|jpeg|gif|webp)$).*)",
 
     /*
      * Match all API routes except for auth-related ones
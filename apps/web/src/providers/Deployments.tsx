@@ -0,0 +1,180 @@
+"use client";
+
+import React, {
+  createContext,
+  useContext,
+  ReactNode,
+  useEffect,
+  useState,
+} from "react";
+import { Loader2 } from "lucide-react";
+import { toast } from "sonner";
+import {
+  getSeedDeployments,
+  setLoadedDeployments,
+} from "@/lib/environment/deployments";
+import { Deployment } from "@/types/deployment";
+
+type DeploymentInput = Omit<Deployment, "id" | "tenantId"> & {
+  // Only required if the deployment's `/info` endpoint does not report them
+  id?: string;
+  tenantId?: string;
+};
+
+type DeploymentsContextType = {
+  /**
+   * The deployments. Includes disabled deployments if the user is an admin.
+   */
+  deployments: Deployment[];
+  /**
+   * Whether the user can manage deployments.
+   */
+  isAdmin: boolean;
+  /**
+   * Adds a deployment. Admin only.
+   */
+  addDeployment: (deployment: DeploymentInput) => Promise<void>;
+  /**
+   * Updates a deployment. Admin only.
+   */
+  updateDeployment: (
+    deploymentId: string,
+    update: Partial<
+      Pick<
+        Deployment,
+        | "name"
+        | "deploymentUrl"
+        | "defaultGraphId"
+        | "disabled"
+        | "requiresApiKeys"
+        | "apiKeysRequiredMessage"
+        | "apiKeysInConfig"
+      >
+    > & { isDefault?: true },
+  ) => Promise<void>;
+  /**
+   * Removes a deployment. Admin only.
+   */
+  deleteDeployment: (deploymentId: string) => Promise<void>;
+};
+
+const DeploymentsContext = createContext<DeploymentsContextType | undefined>(
+  undefined,
+);
+
+function getDeploymentsApiUrl(path = "") {
+  const baseApiUrl = process.env.NEXT_PUBLIC_BASE_API_URL;
+  if (!baseApiUrl) {
+    throw new Error(
+      "Failed to load deployments: Base API URL not configured. Please set NEXT_PUBLIC_BASE_API_URL",
+    );
+  }
+  return `${baseApiUrl}/deployments${path}`;
+}
+
+async function requestDeployments(
+  url: string,
+  init?: RequestInit,
+): Promise<{ deployments: Deployment[]; isAdmin?: boolean }> {
+  const response = await fetch(url, {
+    ...init,
+    headers: { "Content-Type": "application/json" },
+  });
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}));
+    throw new Error(
+      errorData.error ||
+        `Request failed: ${response.status} ${response.statusText}`,
+    );
+  }
+  return response.json();
+}
+
+/**
+ * Loads the deployments stored on the server before rendering its children, so
+ * `getDeployments` returns them. Falls back to the deployments from the
+ * `NEXT_PUBLIC_DEPLOYMENTS` environment variable if they can't be loaded.
+ */
+export const DeploymentsProvider: React.FC<{ children: ReactNode }> = ({
+  children,
+}) => {
+  const [deployments, setDeployments] = useState<Deployment[]>();
+  const [isAdmin, setIsAdmin] = useState(false);
+
+  const applyDeployments = (newDeployments: Deployment[]) => {
+    setLoadedDeployments(newDeployments);
+    setDeployments(newDeployments);
+  };
+
+  useEffect(() => {
+    requestDeployments(getDeploymentsApiUrl())
+      .then((data) => {
+        setIsAdmin(!!data.isAdmin);
+        applyDeployments(data.deployments);
+      })
+      .catch((e) => {
+        console.error("Failed to load deployments", e);
+        toast.error("Failed to load deployments", { richColors: true });
+        setDeployments(getSeedDeployments());
+      });
+  }, []);
+
+  const addDeployment = async (deployment: DeploymentInput) => {
+    const data = await requestDeployments(getDeploymentsApiUrl(), {
+      method: "POST",
+      body: JSON.stringify(deployment),
+    });
+    applyDeployments(data.deployments);
+  };
+
+  const updateDeployment: DeploymentsContextType["updateDeployment"] = async (
+    deploymentId,
+    update,
+  ) => {
+    const data = await requestDeployments(
+      getDeploymentsApiUrl(`/${deploymentId}`),
+      { method: "PATCH", body: JSON.stringify(update) },
+    );
+    applyDeployments(data.deployments);
+  };
+
+  const deleteDeployment = async (deploymentId: string) => {
+    const data = await requestDeployments(
+      getDeploymentsApiUrl(`/${deploymentId}`),
+      { method: "DELETE" },
+    );
+    applyDeployments(data.deployments);
+  };
+
+  if (!deployments) {
+    return (
+      <div className="flex h-screen w-full items-center justify-center">
+        <Loader2 className="size-6 animate-spin text-gray-500" />
+      </div>
+    );
+  }
+
+  return (
+    <DeploymentsContext.Provider
+      value={{
+        deployments,
+        isAdmin,
+        addDeployment,
+        updateDeployment,
+        deleteDeployment,
+      }}
+    >
+      {children}
+    </DeploymentsContext.Provider>
+  );
+};
+
+export const useDeploymentsContext = (): DeploymentsContextType => {
+  const context = useContext(DeploymentsContext);
+  if (context === undefined) {
+    throw new Error(
+      "useDeploymentsContext must be used within a DeploymentsProvider",
+    );
+  }
+  return context;
+};
@@ -7,6 +7,7 @@ import React, {
   useState,
 } from "react";
 import useMCP from "../hooks/use-mcp";
+import { useAuthContext } from "./Auth";
 
 type MCPContextType = ReturnType<typeof useMCP> & { loading: boolean };
 
@@ -17,7 +18,9 @@ export const MCPProvider: React.FC<PropsWithChildren> = ({ children }) => {
     name: "Tools Interface",
     version: "1.0.0",
   });
+  const { user } = useAuthContext();
   const firstRequestMade = useRef(false);
+  const previousUserId = useRef<string | undefined>(undefined);
   const [loading, setLoading] = useState(false);
 
   useEffect(() => {
@@ -26,11 +29,26 @@ export const MCPProvider: React.FC<PropsWithChildren> = ({ children }) => {
     firstRequestMade.current = true;
     setLoading(true);
     mcpState
-      .getTools()
+      .getAllTools()
       .then((tools) => mcpState.setTools(tools))
       .finally(() => setLoading(false));
   }, []);
 
+  // Close the MCP sessions when the user signs out, so they can not be reused
+  // by another user.
+  useEffect(() => {
+    if (previousUserId.current && previousUserId.current !== user?.id) {
+      mcpState.closeAllSessions();
+    }
+    previousUserId.current = user?.id;
+  }, [user?.id]);
+
+  useEffect(() => {
+    return () => {
+      mcpState.closeAllSessions();
+    };
+  }, []);
+
   return (
     <MCPContext.Provider value={{ ...mcpState, loading }}>
       {children}
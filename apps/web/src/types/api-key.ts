@@ -0,0 +1,104 @@
+/**
+ * An extra value a provider needs alongside its API key, such as the endpoint
+ * of an Azure OpenAI resource.
+ */
+export interface ApiKeyProviderField {
+  /**
+   * The name of the value in the API keys passed to agents, e.g.
+   * `AZURE_OPENAI_ENDPOINT`.
+   */
+  name: string;
+  label: string;
+  placeholder?: string;
+  /**
+   * Whether the value can be left empty. Defaults to false.
+   */
+  optional?: boolean;
+}
+
+/**
+ * A request made to check that an API key works. `{{NAME}}` placeholders in the
+ * URL, headers and body are replaced with the API key and field values with
+ * that name.
+ */
+export interface ApiKeyProviderTest {
+  /**
+   * The URL to request. Must use HTTPS, and resolve to a public address.
+   */
+  url: string;
+  /**
+   * The hosts the URL may have, including their subdomains. Set this if
+   * placeholders are used in the URL's host. Defaults to the URL's host, if
+   * it has no placeholders.
+   */
+  allowedHosts?: string[];
+  /**
+   * Defaults to GET.
+   */
+  method?: "GET" | "POST";
+  headers?: Record<string, string>;
+  body?: string;
+}
+
+/**
+ * A provider users can set an API key for in the settings page.
+ */
+export interface ApiKeyProvider {
+  /**
+   * The name of the key in the API keys passed to agents. This is the
+   * environment variable agents would otherwise read the key from, e.g.
+   * `OPENAI_API_KEY`.
+   */
+  name: string;
+  label: string;
+  /**
+   * A regular expression valid keys must match.
+   */
+  pattern?: string;
+  /**
+   * Extra values set with the key.
+   */
+  fields?: ApiKeyProviderField[];
+  /**
+   * A request which succeeds if the key is valid. If not set, keys can't be
+   * tested from the settings page.
+   */
+  test?: ApiKeyProviderTest;
+}
+
+/**
+ * An API key stored for a user. The key itself is never sent to the browser.
+ */
+export interface ApiKeySummary {
+  /**
+   * The name of the key's provider.
+   */
+  name: string;
+  /**
+   * The key with all but its first and last few characters hidden.
+   */
+  maskedValue: string;
+  /**
+   * The values of the provider's extra fields. These are not secret.
+   */
+  fields?: Record<string, string>;
+  updatedAt: string;
+  /**
+   * When the key was last added to an agent run. Undefined if it has never been used.
+   */
+  lastUsedAt?: string;
+}
+
+/**
+ * The API keys passed to an agent run.
+ */
+export interface ApiKeysForRun {
+  /**
+   * The keys, keyed by name.
+   */
+  keys: Record<string, string>;
+  /**
+   * The values of the keys' extra fields, keyed by key name, then field name.
+   */
+  fields: Record<string, Record<string, string>>;
+}
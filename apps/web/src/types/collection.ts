@@ -1,8 +1,22 @@
+export type SplitterStrategy = "recursive" | "markdown_header" | "sentence";
+
+/**
+ * How documents uploaded to a collection are chunked and embedded. Unset
+ * fields use the server defaults.
+ */
+export type CollectionIngestionSettings = {
+  chunk_size?: number;
+  chunk_overlap?: number;
+  splitter?: SplitterStrategy;
+  embedding_model?: string;
+};
+
 export type Collection = {
   name: string;
   uuid: string;
   metadata: {
     description?: string;
+    ingestion?: CollectionIngestionSettings;
     [key: string]: any;
   };
 };
@@ -11,3 +25,32 @@ export type CollectionCreate = {
   name: string;
   metadata: Record<string, any>;
 };
+
+export type CollectionSearchResult = {
+  id: string;
+  page_content: string;
+  metadata: Record<string, any>;
+  score: number;
+};
+
+export type DocumentChunk = {
+  id: string;
+  page_content: string;
+  metadata: Record<string, any>;
+};
+
+export type CrawlMode = "page" | "sitemap";
+
+export type CrawledPage = {
+  /**
+   * The canonical URL of the page, used to dedupe pages and documents.
+   */
+  url: string;
+  title: string;
+  content: string;
+};
+
+export type CrawlResult = {
+  pages: CrawledPage[];
+  errors: { url: string; error: string }[];
+};
@@ -1,3 +1,5 @@
+import { MCPServerAuthMode } from "./mcp-server";
+
 // The type interface for configuration fields
 
 export type ConfigurableFieldUIType =
@@ -7,7 +9,12 @@ export type ConfigurableFieldUIType =
   | "boolean"
   | "slider"
   | "select"
-  | "json";
+  | "json"
+  | "multiselect"
+  | "kv"
+  | "model"
+  | "code"
+  | "secret";
 
 /**
  * The type interface for options in a select field.
@@ -17,6 +24,72 @@ export interface ConfigurableFieldOption {
   value: string;
 }
 
+/**
+ * The type interface for options in a model field.
+ */
+export interface ConfigurableFieldModelOption extends ConfigurableFieldOption {
+  /**
+   * The provider the model is grouped under. Defaults to the part of the
+   * value before the first `/` or `:`, e.g. `anthropic` for
+   * `anthropic/claude-sonnet-4-0`.
+   */
+  provider?: string;
+  /**
+   * The capabilities shown as badges next to the model, e.g. `vision` or `tools`.
+   */
+  capabilities?: string[];
+}
+
+/**
+ * A condition on the value of another field in the configurable object. Used
+ * to only show a field when it is relevant, e.g. provider-specific fields which
+ * only apply when a model from that provider is selected.
+ */
+export type ConfigurableFieldCondition =
+  | {
+      /**
+       * The key of the field whose value is checked.
+       */
+      field: string;
+      /**
+       * True if the value equals this.
+       */
+      equals?: unknown;
+      /**
+       * True if the value does not equal this.
+       */
+      not_equals?: unknown;
+      /**
+       * True if the value equals one of these.
+       */
+      in?: unknown[];
+      /**
+       * True if the value equals none of these.
+       */
+      not_in?: unknown[];
+      /**
+       * True if the value is a string matching this regular expression.
+       */
+      matches?: string;
+      /**
+       * True if the value is set (not undefined, null, false or an empty
+       * string) when true, or unset when false.
+       */
+      is_set?: boolean;
+    }
+  | {
+      /**
+       * True if every condition is true.
+       */
+      all: ConfigurableFieldCondition[];
+    }
+  | {
+      /**
+       * True if any condition is true.
+       */
+      any: ConfigurableFieldCondition[];
+    };
+
 /**
  * The UI configuration for a field in the configurable object.
  */
@@ -42,14 +115,15 @@ export type ConfigurableFieldUIMetadata = {
   description?: string;
   /**
    * The placeholder of the field. This will be rendered inside the UI component.
-   * This is only applicable for text, textarea, number, json, and select fields.
+   * This is only applicable for text, textarea, number, json, select,
+   * multiselect, model, code, and secret fields.
    */
   placeholder?: string;
   /**
    * The options of the field. These will be the options rendered in the select UI component.
-   * This is only applicable for select fields.
+   * This is only applicable for select, multiselect, and model fields.
    */
-  options?: ConfigurableFieldOption[];
+  options?: ConfigurableFieldOption[] | ConfigurableFieldModelOption[];
   /**
    * The minimum value of the field.
    * This is only applicable for number fields.
@@ -66,15 +140,89 @@ export type ConfigurableFieldUIMetadata = {
    * This is only applicable for number fields.
    */
   step?: number;
+  /**
+   * The collapsible section the field is grouped under.
+   * @default "General"
+   */
+  section?: string;
+  /**
+   * The position of the field. Fields are sorted by this, and fields without
+   * it come after those with it, in the order they are defined. A section is
+   * placed where its first field is.
+   */
+  order?: number;
+  /**
+   * Whether the field is hidden until the user chooses to show advanced
+   * fields.
+   * @default false
+   */
+  advanced?: boolean;
+  /**
+   * Only show the field if this condition is true. Hidden fields are not
+   * validated.
+   */
+  visible_if?: ConfigurableFieldCondition;
+  /**
+   * Only show the field if these fields are set. Shorthand for a `visible_if`
+   * condition with `is_set: true` for each field.
+   */
+  depends_on?: string | string[];
+  /**
+   * Whether the field must have a value before the config can be saved.
+   * @default false
+   */
+  required?: boolean;
+  /**
+   * A regular expression the value must match.
+   * This is only applicable for text, textarea, code, and secret fields.
+   */
+  pattern?: string;
+  /**
+   * The message shown if the value doesn't match `pattern`.
+   */
+  pattern_message?: string;
+  /**
+   * A JSON schema the value must match.
+   * This is only applicable for json fields.
+   */
+  json_schema?: Record<string, unknown>;
+};
+
+/**
+ * The tools selected from a single MCP server in an agent's config.
+ */
+export type MCPServerToolsConfig = {
+  /**
+   * The ID of the MCP server in the MCP server registry.
+   */
+  server_id: string;
+  url: string;
+  auth_required: boolean;
+  auth_mode: MCPServerAuthMode;
+  /**
+   * The header agents should authenticate with when `auth_mode` is
+   * `static_header`. Its value is never sent to agents, which read it from
+   * their own `MCP_SERVER_HEADERS` environment variable, keyed by `server_id`.
+   */
+  header_name?: string;
+  tools: string[];
 };
 
 export type ConfigurableFieldMCPMetadata = {
   label: string;
   type: "mcp";
   default?: {
+    /**
+     * The tools selected from the default MCP server. Kept in sync with
+     * `servers` for graphs which only support a single MCP server.
+     */
     tools?: string[];
     url?: string;
     auth_required?: boolean;
+    /**
+     * The tools selected from each MCP server.
+     */
+    servers?: MCPServerToolsConfig[];
   };
 };
 
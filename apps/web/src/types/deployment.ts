@@ -27,12 +27,25 @@ export interface Deployment {
    */
   defaultGraphId?: string;
   /**
-   * Whether this deployment requires API keys to be set. Defaults to false.
-   * When true, users will be warned if they haven't configured their API keys.
+   * The API keys this deployment requires to be set, by provider name (e.g.
+   * `OPENAI_API_KEY`). If true, at least one API key must be set. Defaults to
+   * false. Users will be warned if they haven't set the required API keys.
    */
-  requiresApiKeys?: boolean;
+  requiresApiKeys?: boolean | string[];
   /**
    * Custom message to display when API keys are required but not set.
    */
   apiKeysRequiredMessage?: string;
+  /**
+   * Whether to also add the user's API keys to the run config, under
+   * `configurable.apiKeys`, for agents which don't read them from the
+   * `oap-api-keys` header yet. LangGraph stores the config of each run, so
+   * keys can be read back through the runs and threads APIs. Defaults to false.
+   */
+  apiKeysInConfig?: boolean;
+  /**
+   * Whether this deployment has been disabled by an admin. Disabled deployments
+   * are not shown in the UI. Defaults to false.
+   */
+  disabled?: boolean;
 }
@@ -0,0 +1,33 @@
+export interface MCPPromptArgument {
+  /**
+   * The name of the argument
+   */
+  name: string;
+  /**
+   * The argument's description
+   */
+  description?: string;
+  /**
+   * Whether the argument must be provided
+   */
+  required?: boolean;
+}
+
+export interface MCPPrompt {
+  /**
+   * The name of the prompt
+   */
+  name: string;
+  /**
+   * The prompt's description
+   */
+  description?: string;
+  /**
+   * The arguments the prompt template accepts
+   */
+  arguments?: MCPPromptArgument[];
+  /**
+   * The ID of the MCP server the prompt belongs to
+   */
+  serverId: string;
+}
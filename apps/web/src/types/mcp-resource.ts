@@ -0,0 +1,37 @@
+export interface MCPResource {
+  /**
+   * The URI of the resource
+   */
+  uri: string;
+  /**
+   * The name of the resource
+   */
+  name: string;
+  /**
+   * The resource's description
+   */
+  description?: string;
+  /**
+   * The MIME type of the resource, if known
+   */
+  mimeType?: string;
+  /**
+   * The ID of the MCP server the resource belongs to
+   */
+  serverId: string;
+  /**
+   * Whether the resource's server supports subscribing to resource updates
+   */
+  subscribable: boolean;
+}
+
+/**
+ * The contents of a resource, as returned by the MCP server. Text resources
+ * set `text`, binary resources set `blob` to a base64 encoded string.
+ */
+export interface MCPResourceContents {
+  uri: string;
+  mimeType?: string;
+  text?: string;
+  blob?: string;
+}
@@ -0,0 +1,46 @@
+/**
+ * How requests to an MCP server are authenticated.
+ * - `none`: The client connects to the server directly.
+ * - `token_exchange`: Requests go through the proxy route, which exchanges
+ *   the user's Supabase token for an MCP access token.
+ * - `static_header`: Requests go through the proxy route, which attaches a
+ *   static header whose value is only available on the server. Agents are
+ *   only told the header name, and must be given the value separately.
+ */
+export type MCPServerAuthMode = "none" | "token_exchange" | "static_header";
+
+export interface MCPServer {
+  /**
+   * A unique ID for the server. Used in the proxy route, and to identify
+   * which server a tool belongs to in agent configs.
+   */
+  id: string;
+  /**
+   * A custom name for the server, shown when listing tools.
+   */
+  name: string;
+  /**
+   * The base URL of the MCP server. Do not include the `/mcp` at the end.
+   */
+  url: string;
+  /**
+   * The URL agents should use to reach the MCP server, if it differs from
+   * `url` (e.g. an internal network URL). Defaults to `url`.
+   */
+  internalUrl?: string;
+  /**
+   * How requests to the server are authenticated.
+   */
+  authMode: MCPServerAuthMode;
+  /**
+   * The name of the header to set when `authMode` is `static_header`.
+   * Defaults to `Authorization`. The value is read from the server-only
+   * `MCP_SERVER_HEADERS` environment variable, keyed by server ID.
+   */
+  headerName?: string;
+  /**
+   * Whether this is the default server. Tools selected from the default
+   * server are also written to the legacy single-server agent config fields.
+   */
+  isDefault?: boolean;
+}
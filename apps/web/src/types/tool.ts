@@ -17,4 +17,8 @@ export interface Tool {
    * The tool's input schema
    */
   inputSchema: InputSchema;
+  /**
+   * The ID of the MCP server the tool belongs to
+   */
+  serverId: string;
 }